@@ -16,6 +16,7 @@ import { SeedCommand } from './commands/SeedCommand';
 import { AddForCommand } from './commands/AddForCommand';
 import { RemoveForCommand } from './commands/RemoveForCommand';
 import { VersionCommand } from './commands/VersionCommand';
+import { RoutesCommand } from './commands/RoutesCommand';
 
 import { Command, CommandError } from './Command';
 
@@ -64,6 +65,7 @@ const commands: Commands = [
   { name: 'fetch', command: FetchCommand },
   { name: 'up', command: UpCommand },
   { name: 'down', command: DownCommand },
+  { name: 'routes', command: RoutesCommand },
   { name: 'version', command: VersionCommand },
   { name: '-v', command: VersionCommand },
 ];
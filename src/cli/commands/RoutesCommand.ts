@@ -0,0 +1,205 @@
+import { App, AppRoute } from '../../core';
+import { Command, CommandError } from '../Command';
+import { AppOptions, config as loader } from '../../config';
+import { isAbsolute, join, resolve as resolver } from 'path';
+import { isHTTPMethod, isStr } from '../../helpers';
+
+/**
+ * Represents a listed route, with its service and middlewares referenced by name.
+ */
+type Entry = {
+  method: string;
+  path: string;
+  name: string | null;
+  service: string | null;
+  handler: string;
+  middlewares: Array<string>;
+};
+
+/**
+ * Represents a command to list the routes registered in the app.
+ *
+ * The command performs the following actions:
+ * - Resolves the path to the app entry based on the configuration.
+ * - Loads the app entry, so every router and service gets registered, without starting the server.
+ * - Prints the method, full path, name, service, handler and middlewares of each route.
+ *
+ * Routes can be filtered by method and path prefix (e.g., `routes GET /admin`),
+ * and printed as JSON with the `--json` option, making route tables easy to diff.
+ *
+ * @extends Command
+ */
+export class RoutesCommand extends Command {
+  // both filters are optional, in any order
+  protected static syntax: string = '<? method> <? prefix>';
+
+  /**
+   * Resolves the appropriate path for the app entry based on the configuration.
+   *
+   * @param config The configuration object.
+   * @returns The resolved path for the app entry.
+   * @throws `CommandError` if `paths.entry` is absolute and TypeScript is enabled.
+   */
+  private static path(config: AppOptions): string {
+    if (config.typescript.enabled === true) {
+      // Cannot be absolute
+      if (isAbsolute(config.paths.entry)) {
+        throw new CommandError(
+          `paths.entry cannot be absolute if typescript is enabled`
+        );
+      }
+
+      if (isAbsolute(config.typescript.dist)) {
+        return join(config.typescript.dist, config.paths.entry);
+      }
+
+      return resolver(
+        loader().resolveSync(),
+        config.typescript.dist,
+        config.paths.entry
+      );
+    }
+
+    if (isAbsolute(config.paths.entry)) {
+      return config.paths.entry;
+    }
+
+    return resolver(loader().resolveSync(), config.paths.entry);
+  }
+
+  /**
+   * Loads the app entry module.
+   *
+   * `App.start()` does nothing while the entry loads, so entries starting the app
+   * can be loaded without starting the server. Routes must be registered as the
+   * entry loads: routes registered after awaited work are not listed.
+   *
+   * @param path The absolute path to the app entry.
+   * @throws `CommandError` if the entry cannot be loaded.
+   */
+  private static load(path: string): void {
+    const start = App.prototype.start;
+    App.prototype.start = () => Promise.resolve();
+
+    try {
+      require(path);
+    } catch (error) {
+      throw new CommandError(`Failed to load app entry: ${error.message}`);
+    } finally {
+      App.prototype.start = start;
+    }
+  }
+
+  /**
+   * Returns the display name of a function.
+   *
+   * @param func The handler, middleware or service.
+   * @returns The function name, or `anonymous`.
+   */
+  private static label(func: Function): string {
+    const name = isStr(func?.name) ? func.name.replace(/^bound /, '') : '';
+    return name || 'anonymous';
+  }
+
+  /**
+   * Converts an app route into a listed entry.
+   *
+   * @param route The app route.
+   * @returns The route entry.
+   */
+  private static entry(route: AppRoute): Entry {
+    const prefix = route.namespace === '/' ? '' : route.namespace;
+    const middlewares = route.middlewares.map((m) => this.label(m));
+
+    return {
+      method: route.method === '*' ? 'ALL' : route.method,
+      path: isStr(route.path) ? route.path : prefix + String(route.path),
+      name: route.name || null,
+      service: route.service ? this.label(route.service) : null,
+      handler: middlewares.length > 0 ? middlewares.pop() : 'none',
+      middlewares,
+    };
+  }
+
+  /**
+   * Formats the entries as an aligned table.
+   *
+   * @param entries The route entries.
+   * @returns The table lines.
+   */
+  private static table(entries: Array<Entry>): Array<string> {
+    const rows = entries.map((entry) => [
+      entry.method,
+      entry.path,
+      entry.name || '-',
+      entry.service ? `${entry.service}.${entry.handler}` : entry.handler,
+      entry.middlewares.join(', ') || '-',
+    ]);
+
+    const head = ['METHOD', 'PATH', 'NAME', 'HANDLER', 'MIDDLEWARES'];
+    const widths = head.map((title, index) =>
+      Math.max(title.length, ...rows.map((row) => row[index].length))
+    );
+
+    return [head, ...rows].map((row) =>
+      row
+        .map((cell, index) => cell.padEnd(widths[index]))
+        .join('  ')
+        .trimEnd()
+    );
+  }
+
+  /**
+   * Executes the command to list the app routes.
+   *
+   * The first argument filters by method when it is an HTTP method,
+   * any argument starting with `/` filters by path prefix.
+   *
+   * @returns A promise that resolves once the routes are printed, or rejects with an error if the app entry fails to load.
+   */
+  public static exec() {
+    return new Promise((resolve, reject) => {
+      const filters = [this.argument('method'), this.argument('prefix')];
+      const json = this.option('-json');
+
+      const method = filters
+        .filter((filter) => isStr(filter) && !filter.startsWith('/'))
+        .map((filter: string) => filter.toUpperCase())
+        .shift();
+
+      const prefix = filters.find(
+        (filter) => isStr(filter) && filter.startsWith('/')
+      ) as string;
+
+      if (method && method !== 'ALL' && !isHTTPMethod(method)) {
+        return reject(new CommandError(`Invalid method filter: ${method}`));
+      }
+
+      loader()
+        .load()
+        .then((config: AppOptions) => {
+          this.load(this.path(config));
+
+          const entries = new App()
+            .routes()
+            .map((route) => this.entry(route))
+            .filter((entry) => {
+              if (method && entry.method !== method && entry.method !== 'ALL') {
+                return false;
+              }
+
+              return !prefix || entry.path.startsWith(prefix);
+            });
+
+          if (json) {
+            return resolve(console.log(JSON.stringify(entries, null, 2)));
+          }
+
+          if (entries.length === 0) return resolve(this.warning('No routes'));
+
+          resolve(this.table(entries).forEach((line) => console.log(line)));
+        })
+        .catch(reject);
+    });
+  }
+}
@@ -1,4 +1,5 @@
 import { Cluster } from '../core/modules/Cluster';
+import { SessionAdapter } from '../core/modules/Session';
 import {
   Config,
   ConfigError,
@@ -34,6 +35,7 @@ import {
   isFloat,
   botInput,
   csrfInput,
+  ipMatcher,
 } from '../helpers';
 import { isArr, isArrOfStr, isFunc, isInt } from '../helpers';
 import { isBool, isObj, isStr, isUndefined } from '../helpers';
@@ -181,6 +183,12 @@ export interface Paths {
    * default folder name is `views`.
    */
   views?: string;
+
+  /**
+   * Path to the app entry module, loaded to inspect the app routes without starting the server.
+   * default module name is `index`.
+   */
+  entry?: string;
 }
 
 /**
@@ -507,6 +515,13 @@ export interface Security {
     | 'by-content-type'
     | 'all'
     | false;
+
+  /**
+   * Generates a nonce for each request, added to the `script-src` and `style-src` directives
+   * of the Content-Security-Policy and exposed to templates as `$nonce`. Directives allowing
+   * `'unsafe-inline'` are left as is, since nonces disable it. Defaults to `true`.
+   */
+  nonce?: boolean;
 }
 
 /**
@@ -529,6 +544,283 @@ export interface Public {
   gzip?: boolean;
 }
 
+/**
+ * Options for shutting down the app gracefully.
+ */
+export interface Shutdown {
+  /**
+   * The number of milliseconds to wait for in-flight requests before closing
+   * the remaining connections. Defaults to `10000`.
+   */
+  timeout?: number;
+
+  /**
+   * Whether to shut down the app on `SIGTERM` and `SIGINT`. Defaults to `true`.
+   */
+  signals?: boolean;
+}
+
+/**
+ * Session configuration options.
+ */
+export interface SessionOptions {
+  /**
+   * Where sessions are kept: `store` (in memory), `folder` (on disk), `sql`
+   * (in a table through `Builder`) or a custom `SessionAdapter`. Defaults to `store`.
+   */
+  driver?: 'store' | 'folder' | 'sql' | SessionAdapter;
+
+  /**
+   * The name of the signed session ID cookie. Defaults to `session`.
+   */
+  cookie?: string;
+
+  /**
+   * The number of seconds a session lives without requests. Defaults to `7200`.
+   */
+  idle?: number;
+
+  /**
+   * The number of seconds a session lives at most, regardless of activity. Defaults to `86400`.
+   */
+  absolute?: number;
+
+  /**
+   * The table sessions are kept in with the `sql` driver. Defaults to `sessions`.
+   */
+  table?: string;
+
+  /**
+   * The pool sessions are kept in with the `sql` driver. Defaults to the `default` pool.
+   */
+  pool?: string;
+}
+
+/**
+ * Authentication configuration options.
+ */
+export interface AuthOptions {
+  /**
+   * The users table, with `id`, `email`, `password` and `verified_at` columns. Defaults to `users`.
+   */
+  table?: string;
+
+  /**
+   * The table verification, reset and remember me tokens are kept in. Defaults to `tokens`.
+   */
+  tokens?: string;
+
+  /**
+   * The roles table, with `id` and `name` columns. Defaults to `roles`.
+   */
+  roles?: string;
+
+  /**
+   * The permissions table, with `id` and `name` columns. Defaults to `permissions`.
+   */
+  permissions?: string;
+
+  /**
+   * The table linking users to their roles. Defaults to `role_user`.
+   */
+  userRoles?: string;
+
+  /**
+   * The table linking roles to their permissions. Defaults to `permission_role`.
+   */
+  rolePermissions?: string;
+
+  /**
+   * The table personal access tokens are kept in. Defaults to `access_tokens`.
+   */
+  accessTokens?: string;
+
+  /**
+   * The pool all auth tables are in. Defaults to the `default` pool.
+   */
+  pool?: string;
+
+  /**
+   * The path the `auth` middleware sends guests to. Defaults to `/login`.
+   */
+  login?: string;
+
+  /**
+   * The path the `guest` middleware sends users to, and users land on after login. Defaults to `/`.
+   */
+  home?: string;
+
+  /**
+   * The name of the remember me cookie. Defaults to `remember`.
+   */
+  cookie?: string;
+
+  /**
+   * The number of seconds a remember me token lives. Defaults to `2592000` (30 days).
+   */
+  remember?: number;
+
+  /**
+   * The number of seconds an email verification token lives. Defaults to `86400`.
+   */
+  verify?: number;
+
+  /**
+   * The number of seconds a password reset token lives. Defaults to `3600`.
+   */
+  reset?: number;
+}
+
+/**
+ * JSON Web Token options, used by `Jwt` and the `bearer` middleware.
+ */
+export interface JwtOptions {
+  /**
+   * The signing algorithm. Defaults to `HS256`.
+   */
+  algorithm?: 'HS256' | 'RS256';
+
+  /**
+   * The HS256 secret. Defaults to the app keys, signing with `APP_KEY` and
+   * still accepting tokens signed with `APP_PREVIOUS_KEYS`.
+   */
+  secret?: string;
+
+  /**
+   * The PEM encoded RS256 private key, only needed to sign tokens.
+   */
+  privateKey?: string;
+
+  /**
+   * The PEM encoded RS256 public key, needed to verify tokens.
+   */
+  publicKey?: string;
+
+  /**
+   * The number of seconds a signed token lives. Defaults to `3600`.
+   */
+  ttl?: number;
+
+  /**
+   * The `iss` claim set on signed tokens and required on verified ones.
+   */
+  issuer?: string;
+
+  /**
+   * The `aud` claim set on signed tokens and required on verified ones.
+   */
+  audience?: string;
+
+  /**
+   * The number of seconds the `exp` and `nbf` claims may be off by. Defaults to `60`.
+   */
+  skew?: number;
+}
+
+/**
+ * Two-factor authentication options, used by `TwoFactor` and the `twoFactor` middleware.
+ */
+export interface TwoFactorOptions {
+  /**
+   * The issuer shown in authenticator apps. Defaults to `Bnjsx`.
+   */
+  issuer?: string;
+
+  /**
+   * The number of digits of a code, `6` or `8`. Defaults to `6`.
+   */
+  digits?: number;
+
+  /**
+   * The number of seconds a code is valid for. Defaults to `30`.
+   */
+  period?: number;
+
+  /**
+   * The number of periods a code may be early or late, for clock drift. Defaults to `1`.
+   */
+  window?: number;
+
+  /**
+   * The HMAC algorithm of codes. Defaults to `SHA1`, the one most authenticator apps support.
+   */
+  algorithm?: 'SHA1' | 'SHA256' | 'SHA512';
+
+  /**
+   * The number of recovery codes generated. Defaults to `8`.
+   */
+  recoveryCodes?: number;
+
+  /**
+   * The name of the signed cookie keeping the second factor verified. Defaults to `twoFactor`.
+   */
+  cookie?: string;
+
+  /**
+   * The number of seconds the second factor stays verified on a device. Defaults to `43200` (12 hours).
+   */
+  ttl?: number;
+
+  /**
+   * The path the `twoFactor` middleware sends unverified users to. Defaults to `/two-factor`.
+   */
+  challenge?: string;
+}
+
+/**
+ * Audit log options, used by `Audit`.
+ */
+export interface AuditOptions {
+  /**
+   * Whether data changes and auth events are recorded. Defaults to `false`.
+   */
+  enabled?: boolean;
+
+  /**
+   * Where entries are kept: `file` appends JSON lines to `path`, `table` inserts rows
+   * in `table` (created with `AuditGenerator`). Defaults to `file`.
+   */
+  driver?: 'file' | 'table';
+
+  /**
+   * The audit log file, relative to the project root. Defaults to `.audit`.
+   */
+  path?: string;
+
+  /**
+   * The audit log table. Defaults to `audit_logs`.
+   */
+  table?: string;
+
+  /**
+   * The connection pool of the audit log table. Defaults to the pool of each change,
+   * so entries are part of its transaction.
+   */
+  pool?: string;
+
+  /**
+   * The tables whose changes are recorded. Defaults to all of them.
+   */
+  tables?: Array<string>;
+
+  /**
+   * The tables whose changes are never recorded. The audit log and session tables are
+   * always left out. Defaults to none.
+   */
+  exclude?: Array<string>;
+
+  /**
+   * The columns whose values are masked in entries. Defaults to passwords, tokens and
+   * two-factor secrets.
+   */
+  hidden?: Array<string>;
+
+  /**
+   * The primary key column of audited tables. Defaults to `id`.
+   */
+  key?: string;
+}
+
 /**
  * `Bnjsx` configuration options.
  */
@@ -578,6 +870,35 @@ export interface AppOptions {
    */
   cert?: string;
 
+  /**
+   * Serve HTTPS over HTTP/2, falling back to HTTP/1.1 for clients without
+   * HTTP/2 support (negotiated with ALPN). Requires the `https` protocol.
+   */
+  http2?: boolean;
+
+  /**
+   * The port of an additional plain HTTP listener redirecting requests to HTTPS.
+   * Requires the `https` protocol.
+   */
+  redirect?: number;
+
+  /**
+   * Reload the key and certificate from disk when they change or on `SIGHUP`,
+   * without restarting the server. Requires the `https` protocol.
+   */
+  reload?: boolean;
+
+  /**
+   * Which proxies in front of the app are trusted, deciding whether the client IP, protocol
+   * and host are read from the `Forwarded` and `X-Forwarded-*` headers:
+   * - `false`: no proxy, the headers are ignored (default).
+   * - `true`: every proxy, only safe when the app cannot be reached without one.
+   * - A number: the count of proxy hops in front of the app.
+   * - A list of IP ranges: the proxy addresses, in CIDR notation or as single IPs, or
+   *   the `loopback`, `linklocal` and `private` named ranges.
+   */
+  trustProxy?: boolean | number | Array<string>;
+
   /**
    * Configures Cross-Origin Resource Sharing (CORS) settings for the application.
    */
@@ -622,6 +943,36 @@ export interface AppOptions {
    * Public assets configuration.
    */
   public?: Public;
+
+  /**
+   * Graceful shutdown configuration.
+   */
+  shutdown?: Shutdown;
+
+  /**
+   * Session configuration.
+   */
+  session?: SessionOptions;
+
+  /**
+   * Authentication configuration.
+   */
+  auth?: AuthOptions;
+
+  /**
+   * JSON Web Token configuration.
+   */
+  jwt?: JwtOptions;
+
+  /**
+   * Two-factor authentication configuration.
+   */
+  twoFactor?: TwoFactorOptions;
+
+  /**
+   * Audit log configuration.
+   */
+  audit?: AuditOptions;
 }
 
 /**
@@ -651,11 +1002,36 @@ Bnjsx.register((config: AppOptions) => {
   if (!isInt(config.port)) config.port = 2025;
   if (!isStr(config.key)) config.key = undefined;
   if (!isStr(config.cert)) config.cert = undefined;
+  if (!isBool(config.http2)) config.http2 = false;
+  if (!isInt(config.redirect)) config.redirect = undefined;
+  if (!isBool(config.reload)) config.reload = false;
   if (!isBool(config.cache)) config.cache = true;
 
   return config;
 });
 
+/**
+ * Set default values for `trustProxy`.
+ */
+Bnjsx.register((config: AppOptions) => {
+  const { trustProxy } = config;
+
+  if (isUndefined(trustProxy)) config.trustProxy = false;
+  else if (isArr(trustProxy)) {
+    try {
+      ipMatcher(trustProxy as Array<string>);
+    } catch (error) {
+      throw new ConfigError(`Invalid option 'trustProxy': ${error.message}.`);
+    }
+  } else if (!isBool(trustProxy) && !(isInt(trustProxy) && trustProxy >= 0)) {
+    throw new ConfigError(
+      `Invalid option 'trustProxy': Expected boolean, a hop count or a list of IP ranges but received ${typeof trustProxy}.`
+    );
+  }
+
+  return config;
+});
+
 /**
  * Ensures the `cluster` is an instance of `Cluster`.
  */
@@ -696,6 +1072,7 @@ Bnjsx.register((config: AppOptions) => {
   if (!isStr(config.paths.commands)) config.paths.commands = 'commands';
   if (!isStr(config.paths.generators)) config.paths.generators = 'generators';
   if (!isStr(config.paths.views)) config.paths.views = 'views';
+  if (!isStr(config.paths.entry)) config.paths.entry = 'index';
 
   return config;
 });
@@ -803,6 +1180,154 @@ Bnjsx.register((config: AppOptions) => {
   return config;
 });
 
+/**
+ * Set default values for `shutdown`.
+ */
+Bnjsx.register((config: AppOptions) => {
+  if (!isObj(config.shutdown)) config.shutdown = {};
+  if (!isInt(config.shutdown.timeout) || config.shutdown.timeout < 0) {
+    config.shutdown.timeout = 10000;
+  }
+
+  if (!isBool(config.shutdown.signals)) config.shutdown.signals = true;
+
+  return config;
+});
+
+/**
+ * Set default values for `session`.
+ */
+Bnjsx.register((config: AppOptions) => {
+  if (!isObj(config.session)) config.session = {};
+
+  const { driver, cookie, idle, absolute, table, pool } = config.session;
+
+  if (
+    !['store', 'folder', 'sql'].includes(driver as string) &&
+    !isObj(driver)
+  ) {
+    config.session.driver = 'store';
+  }
+
+  if (!isStr(cookie)) config.session.cookie = 'session';
+  if (!isInt(idle) || idle <= 0) config.session.idle = 7200;
+  if (!isInt(absolute) || absolute <= 0) config.session.absolute = 86400;
+  if (!isStr(table)) config.session.table = 'sessions';
+  if (!isStr(pool)) config.session.pool = undefined;
+
+  return config;
+});
+
+/**
+ * Set default values for `auth`.
+ */
+Bnjsx.register((config: AppOptions) => {
+  if (!isObj(config.auth)) config.auth = {};
+
+  const { table, tokens, pool, login, home, cookie } = config.auth;
+  const { remember, verify, reset } = config.auth;
+  const { roles, permissions, userRoles, rolePermissions } = config.auth;
+
+  if (!isStr(table)) config.auth.table = 'users';
+  if (!isStr(tokens)) config.auth.tokens = 'tokens';
+  if (!isStr(roles)) config.auth.roles = 'roles';
+  if (!isStr(permissions)) config.auth.permissions = 'permissions';
+  if (!isStr(userRoles)) config.auth.userRoles = 'role_user';
+  if (!isStr(rolePermissions)) {
+    config.auth.rolePermissions = 'permission_role';
+  }
+
+  if (!isStr(config.auth.accessTokens)) {
+    config.auth.accessTokens = 'access_tokens';
+  }
+  if (!isStr(pool)) config.auth.pool = undefined;
+  if (!isStr(login)) config.auth.login = '/login';
+  if (!isStr(home)) config.auth.home = '/';
+  if (!isStr(cookie)) config.auth.cookie = 'remember';
+  if (!isInt(remember) || remember <= 0) config.auth.remember = 2592000;
+  if (!isInt(verify) || verify <= 0) config.auth.verify = 86400;
+  if (!isInt(reset) || reset <= 0) config.auth.reset = 3600;
+
+  return config;
+});
+
+/**
+ * Set default values for `twoFactor`.
+ */
+Bnjsx.register((config: AppOptions) => {
+  if (!isObj(config.twoFactor)) config.twoFactor = {};
+
+  const { issuer, digits, period, window, algorithm } = config.twoFactor;
+  const { recoveryCodes, cookie, ttl, challenge } = config.twoFactor;
+
+  if (!isStr(issuer)) config.twoFactor.issuer = 'Bnjsx';
+  if (digits !== 8) config.twoFactor.digits = 6;
+  if (!isInt(period) || period <= 0) config.twoFactor.period = 30;
+  if (!isInt(window) || window < 0) config.twoFactor.window = 1;
+  if (!['SHA1', 'SHA256', 'SHA512'].includes(algorithm)) {
+    config.twoFactor.algorithm = 'SHA1';
+  }
+  if (!isInt(recoveryCodes) || recoveryCodes <= 0) {
+    config.twoFactor.recoveryCodes = 8;
+  }
+  if (!isStr(cookie)) config.twoFactor.cookie = 'twoFactor';
+  if (!isInt(ttl) || ttl <= 0) config.twoFactor.ttl = 43200;
+  if (!isStr(challenge)) config.twoFactor.challenge = '/two-factor';
+
+  return config;
+});
+
+/**
+ * Set default values for `audit`.
+ */
+Bnjsx.register((config: AppOptions) => {
+  if (!isObj(config.audit)) config.audit = {};
+
+  const { enabled, driver, path, table, pool } = config.audit;
+  const { tables, exclude, hidden, key } = config.audit;
+
+  if (!isBool(enabled)) config.audit.enabled = false;
+  if (driver !== 'table') config.audit.driver = 'file';
+  if (!isStr(path)) config.audit.path = '.audit';
+  if (!isStr(table)) config.audit.table = 'audit_logs';
+  if (!isStr(pool)) config.audit.pool = undefined;
+  if (!isArrOfStr(tables)) config.audit.tables = undefined;
+  if (!isArrOfStr(exclude)) config.audit.exclude = [];
+  if (!isArrOfStr(hidden)) {
+    config.audit.hidden = [
+      'password',
+      'token',
+      'remember_token',
+      'two_factor_secret',
+      'two_factor_recovery_codes',
+    ];
+  }
+  if (!isStr(key)) config.audit.key = 'id';
+
+  return config;
+});
+
+/**
+ * Set default values for `jwt`.
+ */
+Bnjsx.register((config: AppOptions) => {
+  if (!isObj(config.jwt)) config.jwt = {};
+
+  const { algorithm, secret, privateKey, publicKey } = config.jwt;
+  const { ttl, issuer, audience, skew } = config.jwt;
+
+  if (algorithm !== 'RS256') config.jwt.algorithm = 'HS256';
+  if (!isStr(secret)) config.jwt.secret = undefined;
+  if (!isStr(privateKey)) config.jwt.privateKey = undefined;
+  if (!isStr(publicKey)) config.jwt.publicKey = undefined;
+  if (!isInt(ttl) || ttl <= 0) config.jwt.ttl = 3600;
+  if (!isStr(issuer)) config.jwt.issuer = undefined;
+  if (!isStr(audience)) config.jwt.audience = undefined;
+  if (!isInt(skew) || skew < 0) config.jwt.skew = 60;
+
+  return config;
+});
+
 /**
  * Set default values for `cors`.
  */
@@ -1223,6 +1748,22 @@ Bnjsx.register((config: AppOptions) => {
   return config;
 });
 
+/**
+ * Set default values for `nonce`.
+ */
+Bnjsx.register((config: AppOptions) => {
+  if (isUndefined(config.security.nonce)) {
+    config.security.nonce = true;
+  } else if (!isBool(config.security.nonce)) {
+    throw new ConfigError(
+      `Invalid option 'nonce': Expected boolean but received ${typeof config
+        .security.nonce}.`
+    );
+  }
+
+  return config;
+});
+
 /**
  * Get the framework configuration manager.
  *
@@ -2,12 +2,20 @@ import './modules/Response';
 import './modules/Request';
 
 // Modules
+export * from './modules/AccessToken';
 export * from './modules/App';
+export * from './modules/Audit';
+export * from './modules/AuditGenerator';
+export * from './modules/Auth';
+export * from './modules/AuthService';
+export * from './modules/Gate';
 export * from './modules/Builder';
 export * from './modules/Cluster';
 export * from './modules/Driver';
 export * from './modules/Form';
 export * from './modules/Generator';
+export * from './modules/Jwt';
+export * from './modules/Model';
 export * from './modules/MySQL';
 export * from './validation/Entry';
 export * from './modules/Pool';
@@ -17,8 +25,10 @@ export * from './modules/Response';
 export * from './modules/Router';
 export * from './modules/Seeder';
 export * from './modules/Service';
+export * from './modules/Session';
 export * from './modules/SQLite';
 export * from './modules/Table';
+export * from './modules/TwoFactor';
 export * from './modules/Validator';
 export * from '../helpers/Lang';
 export * from '../helpers/Mixer';
@@ -0,0 +1,105 @@
+import { config } from '../../config';
+import { ForbiddenError, UnauthorizedError } from '../../errors';
+import { Auth, INTENDED_SESSION_KEY } from '../modules/Auth';
+import { Request } from '../modules/Request';
+import { Response } from '../modules/Response';
+import { TwoFactor } from '../modules/TwoFactor';
+
+/**
+ * Loads the logged in user into `req.user`, `null` for guests.
+ *
+ * The user is found by the ID kept in the session, or logged back in using the
+ * remember me cookie. Run it after the `session` middleware.
+ *
+ * @param req - The request object.
+ * @param res - The response object.
+ *
+ * @returns A promise that resolves once the user is loaded.
+ */
+export async function user(req: Request, res: Response): Promise<void> {
+  req.user = await Auth.user(req, res);
+}
+
+/**
+ * Only lets logged in users through.
+ *
+ * Guests are redirected to the `auth.login` path with a flash message, and sent
+ * back to the page they asked for once logged in. API requests get an `UnauthorizedError` instead.
+ *
+ * @param req - The request object.
+ * @param res - The response object.
+ *
+ * @returns A promise that resolves once the request is allowed or redirected.
+ */
+export async function auth(req: Request, res: Response): Promise<void> {
+  if (req.user === undefined) await user(req, res);
+  if (req.user) return;
+
+  const app = config().loadSync();
+  const mode = req.path.startsWith('/api') ? 'api' : app.mode;
+
+  if (mode === 'api') throw new UnauthorizedError('Authentication required');
+
+  if (req.method === 'GET') req.session.set(INTENDED_SESSION_KEY, req.url);
+
+  return res
+    .redirect(app.auth.login)
+    .with('Please log in to continue.', 'info')
+    .send();
+}
+
+/**
+ * Only lets guests through, e.g., on the login and register pages.
+ *
+ * Logged in users are redirected to the `auth.home` path. API requests get a `ForbiddenError` instead.
+ *
+ * @param req - The request object.
+ * @param res - The response object.
+ *
+ * @returns A promise that resolves once the request is allowed or redirected.
+ */
+export async function guest(req: Request, res: Response): Promise<void> {
+  if (req.user === undefined) await user(req, res);
+  if (!req.user) return;
+
+  const app = config().loadSync();
+  const mode = req.path.startsWith('/api') ? 'api' : app.mode;
+
+  if (mode === 'api') throw new ForbiddenError('Already authenticated');
+
+  return res.redirect(app.auth.home).send();
+}
+
+/**
+ * Only lets users who passed their second factor through, e.g., in admin areas.
+ *
+ * Users without two-factor authentication enabled go through. The others are redirected
+ * to the `twoFactor.challenge` path until `TwoFactor.pass()` marks their device as verified,
+ * then sent back to the page they asked for. API requests get an `UnauthorizedError` instead.
+ *
+ * Run it after the `auth` middleware.
+ *
+ * @param req - The request object.
+ * @param res - The response object.
+ *
+ * @returns A promise that resolves once the request is allowed or redirected.
+ */
+export async function twoFactor(req: Request, res: Response): Promise<void> {
+  if (req.user === undefined) await user(req, res);
+  if (!req.user || !TwoFactor.enabled(req.user)) return;
+  if (TwoFactor.passed(req)) return;
+
+  const app = config().loadSync();
+  const mode = req.path.startsWith('/api') ? 'api' : app.mode;
+
+  if (mode === 'api') {
+    throw new UnauthorizedError('Two-factor authentication required');
+  }
+
+  if (req.method === 'GET') req.session.set(INTENDED_SESSION_KEY, req.url);
+
+  return res
+    .redirect(app.twoFactor.challenge)
+    .with('Please confirm your two-factor code to continue.', 'info')
+    .send();
+}
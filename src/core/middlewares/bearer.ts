@@ -0,0 +1,155 @@
+import { Middleware } from '.';
+import { ForbiddenError, UnauthorizedError } from '../../errors';
+import { isArrOfStr, isBool, isObj, isStr } from '../../helpers';
+import { AccessToken, AccessTokenError } from '../modules/AccessToken';
+import { Auth } from '../modules/Auth';
+import { can } from '../modules/Gate';
+import { Jwt, JwtError, JwtPayload } from '../modules/Jwt';
+import { Request } from '../modules/Request';
+import { Response } from '../modules/Response';
+
+/**
+ * The bearer token of a request, once verified.
+ */
+export interface BearerToken {
+  /** `jwt` for JSON Web Tokens, `pat` for personal access tokens. */
+  type: 'jwt' | 'pat';
+
+  /** The scopes granted to the token. */
+  scopes: Array<string>;
+
+  /** The claims of a JSON Web Token. */
+  claims?: JwtPayload;
+
+  /** The ID of a personal access token, e.g., to revoke it. */
+  id?: number | string;
+}
+
+/**
+ * Configuration options for the `bearer` middleware.
+ */
+export interface BearerOptions {
+  /** Accept JSON Web Tokens. Default: `true`. */
+  jwt?: boolean;
+
+  /** Accept personal access tokens. Default: `true`. */
+  pat?: boolean;
+
+  /** Let requests without a token through as guests. Default: `false`. */
+  optional?: boolean;
+
+  /** Load the user of JSON Web Tokens from their `sub` claim into `req.user`. Default: `true`. */
+  user?: boolean;
+}
+
+/**
+ * Refuses the request, asking the client for a valid bearer token.
+ *
+ * @param res - The response object.
+ * @param message - The error message.
+ * @param invalid - Whether a token was sent but is invalid.
+ */
+function refuse(res: Response, message: string, invalid = true): never {
+  res.setHeader(
+    'WWW-Authenticate',
+    invalid ? 'Bearer error="invalid_token"' : 'Bearer'
+  );
+
+  throw new UnauthorizedError(message);
+}
+
+/**
+ * Creates a middleware authenticating requests with an `Authorization: Bearer` token.
+ *
+ * Tokens with three dot separated parts are verified as JSON Web Tokens (signature,
+ * `exp`, `nbf`, `iss` and `aud` claims, using the `jwt` configuration), other tokens
+ * as personal access tokens. The verified token is exposed as `req.token`, and its
+ * user as `req.user`.
+ *
+ * Requests without a valid token get an `UnauthorizedError` and a `WWW-Authenticate` header.
+ *
+ * ```ts
+ * app.namespace('/api', api, bearer());
+ * router.get('/feed', bearer({ optional: true }), feed);
+ * ```
+ *
+ * @param options The bearer options.
+ * @returns The authentication middleware.
+ */
+export function bearer(options?: BearerOptions): Middleware {
+  if (!isObj(options)) options = {};
+
+  const jwt = isBool(options.jwt) ? options.jwt : true;
+  const pat = isBool(options.pat) ? options.pat : true;
+  const load = isBool(options.user) ? options.user : true;
+  const optional = options.optional === true;
+
+  return async (req: Request, res: Response): Promise<void> => {
+    const header = req.headers.authorization;
+    const match = isStr(header) && /^Bearer\s+(\S+)\s*$/i.exec(header);
+
+    if (!match) {
+      if (optional) return;
+      return refuse(res, 'Missing bearer token', false);
+    }
+
+    const token = match[1];
+
+    if (token.split('.').length === 3) {
+      if (!jwt) return refuse(res, 'Invalid bearer token');
+
+      let claims: JwtPayload;
+
+      try {
+        claims = Jwt.verify(token);
+      } catch (error) {
+        if (error instanceof JwtError) return refuse(res, error.message);
+        throw error;
+      }
+
+      req.token = { type: 'jwt', scopes: Jwt.scopes(claims), claims };
+
+      if (load && claims.sub !== undefined) {
+        const user = await Auth.users().find().one(String(claims.sub));
+        if (!isObj(user)) return refuse(res, 'Unknown bearer token subject');
+
+        req.user = user;
+      }
+
+      return;
+    }
+
+    if (!pat) return refuse(res, 'Invalid bearer token');
+
+    const record = await AccessToken.verify(token);
+    if (!record) return refuse(res, 'Invalid bearer token');
+
+    req.token = { type: 'pat', scopes: record.scopes, id: record.row.id };
+    req.user = record.user;
+  };
+}
+
+/**
+ * Creates a middleware only letting bearer tokens granted every given scope through.
+ *
+ * Run it after the `bearer` middleware. Scopes follow permission names, so a token
+ * granted `posts.*` passes `scopes('posts.update')`.
+ *
+ * @param required The required scopes.
+ * @returns The scope checking middleware.
+ * @throws `UnauthorizedError` from the middleware if the request has no bearer token.
+ * @throws `ForbiddenError` from the middleware if a scope is missing.
+ */
+export function scopes(...required: Array<string>): Middleware {
+  if (!isArrOfStr(required)) throw new AccessTokenError('Invalid token scopes');
+
+  return async (req: Request, res: Response): Promise<void> => {
+    if (!req.token) return refuse(res, 'Missing bearer token', false);
+
+    for (const scope of required) {
+      if (!can(req.token.scopes, scope)) {
+        throw new ForbiddenError(`Missing token scope '${scope}'`);
+      }
+    }
+  };
+}
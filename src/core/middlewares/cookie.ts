@@ -1,9 +1,13 @@
-import { isStr } from '../../helpers';
+import { hasAppKey, isStr } from '../../helpers';
 import { Request } from '../modules/Request';
-import { Response } from '../modules/Response';
+import { Cookie, Response } from '../modules/Response';
 
 /**
- * Parses the cookie header and populates `req.cookies`.
+ * Parses the cookie header and populates `req.cookies` and `req.signedCookies`.
+ *
+ * Signed (`s:`) and encrypted (`e:`) cookies are verified using the current and previous
+ * app keys, and moved to `req.signedCookies`. Cookies failing the check, or any check
+ * without an app key, stay in `req.cookies` as they are.
  *
  * @param req - The request object.
  * @param res - The response object (not used in this function).
@@ -14,6 +18,7 @@ export function cookie(req: Request, res: Response): Promise<void> {
   return new Promise((resolve) => {
     const cookie = req.getHeader('cookie');
 
+    req.signedCookies = {};
     if (!isStr(cookie)) return (req.cookies = {}) && resolve();
 
     req.cookies = cookie
@@ -25,6 +30,21 @@ export function cookie(req: Request, res: Response): Promise<void> {
         return cookies;
       }, {});
 
+    if (!hasAppKey()) return resolve();
+
+    for (const [name, value] of Object.entries(req.cookies)) {
+      if (!value.startsWith('s:') && !value.startsWith('e:')) continue;
+
+      const verified = value.startsWith('s:')
+        ? Cookie.unsign(name, value)
+        : Cookie.decrypt(name, value);
+
+      if (verified === undefined) continue;
+
+      req.signedCookies[name] = verified;
+      delete req.cookies[name];
+    }
+
     return resolve();
   });
 }
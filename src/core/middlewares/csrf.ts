@@ -1,13 +1,190 @@
-import { randomBytes } from 'crypto';
+import { randomBytes, timingSafeEqual } from 'crypto';
+import { Middleware } from '.';
 import { Request } from '../modules/Request';
-import { Response } from '../modules/Response';
-import { isObj, isStr, UTC } from '../../helpers';
+import { Cookie, Response } from '../modules/Response';
+import { csrfBind, Folder, hasAppKey, isBool } from '../../helpers';
+import { isChildOf, isInt } from '../../helpers';
+import { isArr, isObj, isRegex, isStr, Store, store, UTC } from '../../helpers';
 import { config } from '../../config';
 import { BadRequestError } from '../../errors';
 import { Form } from '../modules/Form';
 
 /**
- * Ensures a CSRF token is available in cookies and request.
+ * Marks requests where body tokens must be bound to the form action and method.
+ */
+export const CSRF_FORMS_KEY = Symbol('csrf_forms_key');
+
+/**
+ * Configuration options for the `csrfGuard` middleware.
+ */
+export interface CsrfOptions {
+  /**
+   * Where the request token is kept:
+   * - `cookie`: in a signed `csrfToken` cookie, compared to the submitted token (default).
+   * - `synchronizer`: server-side in a `Store` or `Folder`, the client only gets a signed `csrfId` cookie.
+   */
+  mode?: 'cookie' | 'synchronizer';
+
+  /** Where `synchronizer` tokens are kept, a `Store` (in memory, default) or a `Folder` (on disk). */
+  store?: Store | Folder;
+
+  /** The number of seconds `synchronizer` tokens live. Default: 43200 (12 hours). */
+  ttl?: number;
+
+  /** Require per-form tokens in bodies, bound to the form action and method. Default: `false`. */
+  forms?: boolean;
+
+  /** Verify the `Origin` (or `Referer`) header of unsafe requests. Default: `true`. */
+  origin?: boolean;
+
+  /** Origins trusted besides the app itself, e.g., `https://admin.example.com`. */
+  origins?: Array<string>;
+
+  /** Paths never checked, e.g., webhooks. A trailing `*` matches any rest of the path. */
+  exempt?: Array<string | RegExp>;
+}
+
+/**
+ * The methods that must not change state, and are never checked.
+ */
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS', 'TRACE'];
+
+/**
+ * Compares two strings in constant time.
+ *
+ * @param a The first string.
+ * @param b The second string.
+ * @returns `true` if both strings are equal.
+ */
+function equal(a: string, b: string): boolean {
+  const x = Buffer.from(a);
+  const y = Buffer.from(b);
+  return x.length === y.length && timingSafeEqual(x, y);
+}
+
+/**
+ * Returns the origin of a URL.
+ *
+ * @param url The URL.
+ * @returns The origin, or `undefined` if the URL is invalid.
+ */
+function originOf(url: unknown): string | undefined {
+  if (!isStr(url)) return;
+
+  try {
+    return new URL(url).origin;
+  } catch {
+    return;
+  }
+}
+
+/**
+ * Returns the origin a request was sent from, using the `Origin` header, or the
+ * `Referer` header when missing.
+ *
+ * @param req - The HTTP request object.
+ * @returns The origin, `null` if opaque, or `undefined` without both headers.
+ */
+function sender(req: Request): string | undefined {
+  const origin = req.getHeader('origin');
+  if (isStr(origin)) return origin;
+
+  const referer = req.getHeader('referer');
+  if (referer === undefined) return;
+
+  return originOf(referer) ?? 'null';
+}
+
+/**
+ * Compiles the exempt paths into tests.
+ *
+ * @param paths The exempt paths.
+ * @returns The path tests.
+ */
+function compile(paths: unknown): Array<(path: string) => boolean> {
+  if (!isArr(paths)) return [];
+
+  return paths
+    .filter((path) => isStr(path) || isRegex(path))
+    .map((path: string | RegExp) => {
+      if (isRegex(path)) return (value: string) => path.test(value);
+      if (!path.endsWith('*')) return (value: string) => value === path;
+
+      const prefix = path.slice(0, -1);
+      return (value: string) => value.startsWith(prefix);
+    });
+}
+
+/**
+ * Returns the token of the request in `synchronizer` mode, issuing one if needed.
+ *
+ * @param req - The HTTP request object.
+ * @param res - The HTTP response object.
+ * @param cache - Where tokens are kept.
+ * @param ttl - The number of seconds tokens live.
+ * @returns The request token.
+ */
+async function synchronize(
+  req: Request,
+  res: Response,
+  cache: Store | Folder,
+  ttl: number
+): Promise<string> {
+  let id = req.signedCookies?.csrfId;
+
+  if (isStr(id)) {
+    const token = await cache.get(`csrf:${id}`);
+    if (isStr(token)) return token;
+  } else {
+    id = randomBytes(16).toString('base64url');
+    res.cookie().signed('csrfId', id);
+  }
+
+  const token = randomBytes(32).toString('base64url');
+  await cache.set(`csrf:${id}`, token, ttl);
+
+  return token;
+}
+
+/**
+ * Checks a submitted CSRF token against the token of the request.
+ *
+ * Accepts the request token, or a per-form token bound to the request path and method
+ * (see `csrfBind`). Once `csrfGuard({ forms: true })` runs, body tokens must be bound,
+ * while the `x-csrf-token` header may still carry the request token.
+ *
+ * The header may also carry the signed value of the readable `csrfToken` cookie as is,
+ * so clients can copy the cookie into the header.
+ *
+ * @param req - The HTTP request object.
+ * @param value - The submitted token.
+ * @param header - Whether the token was sent in the `x-csrf-token` header.
+ * @returns `true` if the token is valid.
+ */
+export function csrfValid(
+  req: Request,
+  value: unknown,
+  header: boolean = false
+): boolean {
+  const token = isStr(req.csrfToken)
+    ? req.csrfToken
+    : req.signedCookies?.csrfToken;
+
+  if (!isStr(token) || !isStr(value) || !value) return false;
+
+  // Signed values copied from the readable cookie
+  if (header && hasAppKey() && value.startsWith('s:')) {
+    value = Cookie.unsign('csrfToken', value);
+    if (!isStr(value)) return false;
+  }
+
+  if (equal(value, csrfBind(token, req.path || '/', req.method))) return true;
+
+  return (header || !req[CSRF_FORMS_KEY]) && equal(value, token);
+}
+
+/**
+ * Ensures a CSRF token is available in a signed cookie and the request.
  *
  * - If already present, assigns it to `req.csrfToken`.
  * - Otherwise, generates a new token and sets it as a cookie.
@@ -18,16 +195,17 @@ import { Form } from '../modules/Form';
  * @param res - The HTTP response object.
  */
 export async function csrft(req: Request, res: Response): Promise<void> {
-  if (!isStr(req.cookies?.csrfToken)) {
+  if (!isStr(req.signedCookies?.csrfToken)) {
     const options = config().loadSync();
     const token = randomBytes(32).toString('base64url');
 
     if (options.cookies?.csrfToken) {
       req.csrfToken = token;
-      return res.cookie().set('csrfToken', token);
+      return res.cookie().signed('csrfToken', token);
     }
 
-    const cookie = res.cookie().get('csrfToken', token, {
+    const signed = Cookie.sign('csrfToken', token);
+    const cookie = res.cookie().get('csrfToken', signed, {
       path: '/',
       sameSite: 'Strict',
       priority: 'High',
@@ -40,14 +218,14 @@ export async function csrft(req: Request, res: Response): Promise<void> {
     return res.cookie().add(cookie);
   }
 
-  req.csrfToken = req.cookies.csrfToken;
+  req.csrfToken = req.signedCookies.csrfToken;
 }
 
 /**
  * Validates the CSRF token.
  *
  * Accepts the token from either `req.body.csrfToken` or the `x-csrf-token` header,
- * and compares it against the `csrfToken` cookie.
+ * and checks it against `req.csrfToken`, or the signed `csrfToken` cookie (see `csrfValid`).
  *
  * This method parses the request body if not already parsed.
  * Should only be used on requests without file uploads, as files are not validated.
@@ -62,14 +240,93 @@ export async function csrft(req: Request, res: Response): Promise<void> {
 export async function csrf(req: Request, res: Response): Promise<void> {
   if (!req[Form.BODY_PARSED]) await new Form().parse(req, res);
 
-  const cookie = req.cookies?.csrfToken;
   const bodyToken = req.body?.csrfToken;
   const headerToken = req.getHeader('x-csrf-token');
-  const token = bodyToken || headerToken;
 
-  if (!cookie || !token || cookie !== token) {
-    throw new BadRequestError('Invalid or missing CSRF token');
-  }
+  const valid = bodyToken
+    ? csrfValid(req, bodyToken)
+    : csrfValid(req, headerToken, true);
+
+  if (!valid) throw new BadRequestError('Invalid or missing CSRF token');
+}
+
+/**
+ * Creates a middleware protecting every route against cross-site request forgery.
+ *
+ * Run it globally, after the `cookie` middleware. On every request, it makes a token
+ * available in `req.csrfToken` (rendered as `$csrf`). Unsafe requests (not `GET`,
+ * `HEAD`, `OPTIONS` or `TRACE`) to non exempt paths are then checked:
+ *
+ * 1. Their `Origin` header, or the origin of their `Referer` header, must be the app
+ *    base URL, the `Host` the request was sent to, or one of the trusted `origins`.
+ *    Without both headers, protection falls back to the token and `SameSite` cookies.
+ * 2. Their token, sent in `req.body.csrfToken` or the `x-csrf-token` header, must be valid.
+ *
+ * `multipart/form-data` bodies are left to `Validator.csrf()` unless the token is sent in
+ * the header, so uploads are validated while parsed. Their origin is then required.
+ *
+ * ```ts
+ * app.use(csrfGuard({ mode: 'synchronizer', forms: true, exempt: ['/webhooks/*'] }));
+ * ```
+ *
+ * Invalid options fall back to their defaults.
+ *
+ * @param options The CSRF options.
+ * @returns The CSRF protection middleware.
+ * @throws `BadRequestError` from the middleware if the origin or the token is invalid.
+ */
+export function csrfGuard(options?: CsrfOptions): Middleware {
+  if (!isObj(options)) options = {};
+
+  const mode = options.mode === 'synchronizer' ? 'synchronizer' : 'cookie';
+  const ttl = isInt(options.ttl) && options.ttl > 0 ? options.ttl : 43200;
+  const forms = options.forms === true;
+  const check = isBool(options.origin) ? options.origin : true;
+  const exempt = compile(options.exempt);
+
+  const origins = isArr(options.origins)
+    ? options.origins.map(originOf).filter(Boolean)
+    : [];
+
+  const cache =
+    isChildOf(options.store, Store) || isChildOf(options.store, Folder)
+      ? options.store
+      : mode === 'synchronizer'
+      ? store('csrf')
+      : undefined;
+
+  return async (req: Request, res: Response): Promise<void> => {
+    if (mode === 'synchronizer') {
+      req.csrfToken = await synchronize(req, res, cache, ttl);
+    } else await csrft(req, res);
+
+    req[CSRF_FORMS_KEY] = forms;
+
+    if (SAFE_METHODS.includes(req.method)) return;
+    if (exempt.some((test) => test(req.path))) return;
+
+    const deferred =
+      req.type('multipart/form-data') && !isStr(req.getHeader('x-csrf-token'));
+
+    if (check || deferred) {
+      const origin = sender(req);
+      const trusted = [
+        originOf(req.base || req.getBase()),
+        originOf(`${req.protocol}://${req.getHeader('host')}`),
+        ...origins,
+      ];
+
+      if (origin === undefined && deferred) {
+        throw new BadRequestError('Missing request origin');
+      }
+
+      if (origin !== undefined && !trusted.includes(origin)) {
+        throw new BadRequestError('Invalid request origin');
+      }
+    }
+
+    if (!deferred) await csrf(req, res);
+  };
 }
 
 /**
@@ -2,6 +2,7 @@ import { resolve } from 'path';
 import { config } from '../../config';
 import { Request } from '../modules/Request';
 import { Response } from '../modules/Response';
+import { Component } from '../template/Component';
 import { Logger } from '../../helpers';
 
 import {
@@ -9,9 +10,30 @@ import {
   BadRequestError,
   ForbiddenError,
   MaintenanceError,
+  MethodNotAllowedError,
   NotFoundError,
+  TooManyRequestsError,
+  UnauthorizedError,
 } from '../../errors';
 
+/**
+ * Renders an error page, or a fallback page when the app has no template for the error yet.
+ *
+ * @param res - The response object.
+ * @param view - The error page template.
+ * @param fallback - The template rendered if the error page template does not exist.
+ * @param err - The error.
+ */
+async function page(
+  res: Response,
+  view: string,
+  fallback: string,
+  err: Error
+): Promise<void> {
+  if (await Component.exists(view)) return res.render(view, { err });
+  return res.render(fallback, { err });
+}
+
 export async function error(req: Request, res: Response, err?: Error) {
   const mode = req.path.startsWith('/api') ? 'api' : config().loadSync().mode;
 
@@ -20,6 +42,10 @@ export async function error(req: Request, res: Response, err?: Error) {
       return res.status(400).render('errors.400', { err });
     }
 
+    if (err instanceof UnauthorizedError) {
+      return page(res.status(401), 'errors.401', 'errors.403', err);
+    }
+
     if (err instanceof ForbiddenError) {
       return res.status(403).render('errors.403', { err });
     }
@@ -28,6 +54,14 @@ export async function error(req: Request, res: Response, err?: Error) {
       return res.status(404).render('errors.404', { err });
     }
 
+    if (err instanceof MethodNotAllowedError) {
+      return page(res.status(405), 'errors.405', 'errors.404', err);
+    }
+
+    if (err instanceof TooManyRequestsError) {
+      return page(res.status(429), 'errors.429', 'errors.500', err);
+    }
+
     if (err instanceof MaintenanceError) {
       return res.status(503).render('errors.503', { err });
     }
@@ -46,6 +80,17 @@ export async function error(req: Request, res: Response, err?: Error) {
     });
   }
 
+  if (err instanceof UnauthorizedError) {
+    return res.status(401).json({
+      success: false,
+      error: {
+        name: 'UnauthorizedError',
+        message: 'Authentication required.',
+        code: err.code,
+      },
+    });
+  }
+
   if (err instanceof ForbiddenError) {
     return res.status(403).json({
       success: false,
@@ -68,6 +113,28 @@ export async function error(req: Request, res: Response, err?: Error) {
     });
   }
 
+  if (err instanceof MethodNotAllowedError) {
+    return res.status(405).json({
+      success: false,
+      error: {
+        name: 'MethodNotAllowedError',
+        message: 'The request method is not allowed for this resource.',
+        code: err.code,
+      },
+    });
+  }
+
+  if (err instanceof TooManyRequestsError) {
+    return res.status(429).json({
+      success: false,
+      error: {
+        name: 'TooManyRequestsError',
+        message: 'Too many requests, please try again later.',
+        code: err.code,
+      },
+    });
+  }
+
   if (err instanceof MaintenanceError) {
     return res.status(503).json({
       success: false,
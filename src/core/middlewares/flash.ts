@@ -1,4 +1,4 @@
-import { isArr } from '../../helpers';
+import { hasAppKey, isArr } from '../../helpers';
 import { Request } from '../modules/Request';
 import { Response } from '../modules/Response';
 
@@ -6,15 +6,31 @@ export const FLASH_GET_KEY = Symbol('flash_get_key');
 export const FLASH_SET_KEY = Symbol('flash_set_key');
 
 /**
- * Parses the cookie header and populates `req.cookies`.
+ * The session key holding flash messages, when sessions are used.
+ */
+export const FLASH_SESSION_KEY = '__flash__';
+
+/**
+ * Loads the flash messages of the previous request into the request.
+ *
+ * Messages are read from the session if the `session` middleware ran, otherwise from the `flash` cookie,
+ * which must be signed once an app key is set.
  *
  * @param req - The request object.
- * @param res - The response object (not used in this function).
+ * @param res - The response object.
  *
- * @returns A promise that resolves once the cookies are parsed and set in `req.cookies`.
+ * @returns A promise that resolves once the flash messages are loaded.
  */
 export async function flash(req: Request, res: Response): Promise<void> {
-  const raw = req.cookies?.flash;
+  if (req.session) {
+    const messages = req.session.pull(FLASH_SESSION_KEY, []);
+
+    req[FLASH_GET_KEY] = isArr(messages) ? messages : [];
+    req[FLASH_SET_KEY] = [];
+    return;
+  }
+
+  const raw = hasAppKey() ? req.signedCookies?.flash : req.cookies?.flash;
   let messages = [];
 
   if (raw) {
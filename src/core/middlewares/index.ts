@@ -2,13 +2,19 @@ import { Request } from '../modules/Request';
 import { Response } from '../modules/Response';
 
 export * from './asset';
+export * from './auth';
+export * from './bearer';
 export * from './cookie';
 export * from './cors';
 export * from './csrf';
 export * from './flash';
+export * from './ip';
 export * from './json';
 export * from './maintenance';
+export * from './permit';
+export * from './rate';
 export * from './secure';
+export * from './session';
 export * from './text';
 export * from './error';
 
@@ -0,0 +1,53 @@
+import { Request } from '../modules/Request';
+import { Response } from '../modules/Response';
+import { Middleware } from '.';
+import { ForbiddenError } from '../../errors';
+import { ipMatcher, isObj, isUndefined } from '../../helpers';
+
+/**
+ * Configuration options for the `ipFilter` middleware.
+ *
+ * Ranges are given in CIDR notation (e.g., `10.0.0.0/8` or `2001:db8::/32`), as single
+ * IP addresses, or by name: `loopback`, `linklocal` and `private`.
+ */
+export interface IpFilterOptions {
+  /** The only ranges allowed through, every client is allowed by default. */
+  allow?: Array<string>;
+
+  /** The ranges refused, even if allowed. Default: none. */
+  deny?: Array<string>;
+}
+
+/**
+ * Creates a middleware filtering requests by client IP address.
+ *
+ * Requests from a denied range, or from outside the allowed ranges, get a `ForbiddenError`.
+ * The client IP is `req.ip`, so configure `trustProxy` when the app runs behind a proxy.
+ *
+ * ```ts
+ * // Admin area for the office network only
+ * app.namespace('/admin', admin, ipFilter({ allow: ['203.0.113.0/24', '2001:db8::/32'] }));
+ *
+ * // Block abusive ranges
+ * app.use(ipFilter({ deny: ['198.51.100.0/24'] }));
+ * ```
+ *
+ * @param options The allowed and denied ranges.
+ * @returns The middleware.
+ * @throws `IpError` if a range is invalid.
+ */
+export function ipFilter(options?: IpFilterOptions): Middleware {
+  if (!isObj(options)) options = {};
+
+  const { allow, deny } = options;
+  const allowed = isUndefined(allow) ? () => true : ipMatcher(allow);
+  const denied = isUndefined(deny) ? () => false : ipMatcher(deny);
+
+  return async (req: Request, res: Response): Promise<void> => {
+    const ip = req.ip || req.getIp();
+
+    if (denied(ip) || !allowed(ip)) {
+      throw new ForbiddenError(`IP address '${ip}' is not allowed`);
+    }
+  };
+}
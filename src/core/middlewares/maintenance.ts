@@ -4,7 +4,7 @@ import { resolve } from 'path';
 import { config } from '../../config';
 import { Request } from '../modules/Request';
 import { Response } from '../modules/Response';
-import { isArrOfStr, isBool, isNum, isObj } from '../../helpers';
+import { inCidr, isArrOfStr, isBool, isNum, isObj } from '../../helpers';
 import { MaintenanceError } from '../../errors';
 
 /**
@@ -19,7 +19,7 @@ import { MaintenanceError } from '../../errors';
  *
  * Available config options:
  * - `ttl` (seconds): Cache maintenance status for this duration.
- * - `ips` (string[]): Allowlisted client IPs.
+ * - `ips` (string[]): Allowlisted client IPs or IP ranges in CIDR notation.
  * - `routes` (string[]): Route prefixes to exempt from maintenance.
  */
 export class Maintenance {
@@ -97,7 +97,7 @@ export class Maintenance {
    */
 
   private ipAllowed(ip: string): boolean {
-    return this.ips.includes(ip);
+    return this.ips.some((range) => inCidr(ip, range));
   }
 
   /**
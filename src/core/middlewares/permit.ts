@@ -0,0 +1,94 @@
+import { Middleware } from '.';
+import { NotFoundError } from '../../errors';
+import { isInt, isObj, isStr } from '../../helpers';
+import { Gate, GateError } from '../modules/Gate';
+import { Request } from '../modules/Request';
+import { Response } from '../modules/Response';
+import { Table } from '../modules/Table';
+import { user } from './auth';
+
+/**
+ * Configuration options for the `permit` middleware.
+ */
+export interface PermitOptions {
+  /** The table the resource is loaded from. */
+  table: string;
+
+  /** The route parameter holding the resource primary key. Default: `id`. */
+  param?: string;
+
+  /** The pool the table is in. Default: the `default` pool. */
+  pool?: string;
+}
+
+/**
+ * Loads the logged in user, if not loaded yet and a session is available.
+ *
+ * @param req - The request object.
+ * @param res - The response object.
+ */
+async function load(req: Request, res: Response): Promise<void> {
+  if (req.user === undefined && req.session) await user(req, res);
+}
+
+/**
+ * Loads the permission names of the logged in user into `req.permissions`.
+ *
+ * Responses rendered afterwards get them as `$permissions`, for the `can` template tool.
+ *
+ * @param req - The request object.
+ * @param res - The response object.
+ *
+ * @returns A promise that resolves once the permissions are loaded.
+ */
+export async function permissions(req: Request, res: Response): Promise<void> {
+  await load(req, res);
+  req.permissions = await Gate.permissionsOf(req.user);
+}
+
+/**
+ * Creates a middleware only letting users allowed to perform an action through.
+ *
+ * The policy of the matched service (its `can()` method) decides first, then the role
+ * permissions of the user. When a table is given, the row matching the route parameter
+ * is loaded into `req.resource` and passed to the policy.
+ *
+ * ```ts
+ * this.post('/posts', permit('posts.create'), () => this.store());
+ * this.put('/posts/:id', permit('posts.update', { table: 'posts' }), () => this.update());
+ * ```
+ *
+ * @param action The action to check, e.g., `posts.update`.
+ * @param options The resource to load, if any.
+ * @returns The authorization middleware.
+ * @throws `GateError` if the action or the options are invalid.
+ */
+export function permit(action: string, options?: PermitOptions): Middleware {
+  if (!isStr(action)) throw new GateError('Invalid permit action');
+
+  if (options !== undefined && !(isObj(options) && isStr(options.table))) {
+    throw new GateError('Invalid permit options');
+  }
+
+  const param = isStr(options?.param) ? options.param : 'id';
+
+  return async (req: Request, res: Response): Promise<void> => {
+    await permissions(req, res);
+
+    if (options) {
+      const id = req.params?.[param];
+      const row =
+        isStr(id) || isInt(id)
+          ? await Table.request(options.table, options.pool).find().one(id)
+          : null;
+
+      if (!isObj(row)) {
+        throw new NotFoundError(`Resource not found at '${req.url}'`);
+      }
+
+      req.resource = row;
+    }
+
+    await Gate.authorize(req.user ?? null, action, req.resource, req.policy);
+  };
+}
@@ -0,0 +1,239 @@
+import { Request } from '../modules/Request';
+import { Response } from '../modules/Response';
+import { Middleware } from '.';
+import { TooManyRequestsError } from '../../errors';
+import { Folder, Store, store } from '../../helpers';
+import { isChildOf, isFunc, isInt, isObj, isStr } from '../../helpers';
+
+/**
+ * Resolves the key requests are counted by.
+ */
+export type RateLimitKey = (req: Request) => string | Promise<string>;
+
+/**
+ * Configuration options for the `rateLimit` middleware.
+ */
+export interface RateLimitOptions {
+  /** Length of the window in seconds. Default: 60. */
+  window?: number;
+
+  /** Maximum number of requests allowed per window. Default: 60. */
+  max?: number;
+
+  /**
+   * What requests are counted by:
+   * - `ip`: per client IP (default).
+   * - `route`: per client IP and matched route (e.g., `/users/:id`), so each route gets its own budget.
+   * - A function returning a custom key (e.g., the email of a login attempt).
+   */
+  key?: 'ip' | 'route' | RateLimitKey;
+
+  /**
+   * How the window moves:
+   * - `fixed`: counters reset at the end of each window (default).
+   * - `sliding`: only requests of the last `window` seconds are counted, preventing bursts at window edges.
+   */
+  mode?: 'fixed' | 'sliding';
+
+  /** Where counters are kept, a `Store` (in memory, default) or a `Folder` (on disk). */
+  store?: Store | Folder;
+
+  /** Prefix of counter keys, set it to separate limiters with the same settings. */
+  name?: string;
+}
+
+/**
+ * The state of a counter after a hit.
+ */
+type Hit = {
+  /** Whether the request is allowed. */
+  allowed: boolean;
+
+  /** Number of requests left in the window. */
+  remaining: number;
+
+  /** Seconds until a request is allowed again, or the window resets. */
+  reset: number;
+};
+
+/**
+ * The pending counter updates, by counter key.
+ */
+const locks = new Map<string, Promise<unknown>>();
+
+/**
+ * Runs the updates of a counter one at a time, so concurrent requests cannot read the same count.
+ *
+ * @param key The counter key.
+ * @param task The counter update.
+ * @returns The result of the update.
+ *
+ * @note Counters are locked within the process only, processes sharing a `Folder` may still race.
+ */
+function atomic<T>(key: string, task: () => Promise<T>): Promise<T> {
+  const current = (locks.get(key) || Promise.resolve()).then(task, task);
+  const done = current.catch(() => undefined);
+
+  locks.set(key, done);
+  done.then(() => locks.get(key) === done && locks.delete(key));
+
+  return current;
+}
+
+/**
+ * Saves a counter, and checks it was kept.
+ *
+ * Full stores free space but skip the write, so the write is tried again once.
+ *
+ * @param cache The counters store.
+ * @param key The counter key.
+ * @param counter The counter.
+ * @param ttl The counter lifetime in seconds.
+ * @returns `true` if the counter was kept.
+ */
+async function save(
+  cache: Store | Folder,
+  key: string,
+  counter: unknown,
+  ttl: number
+): Promise<boolean> {
+  for (let attempt = 0; attempt < 2; attempt++) {
+    if (await cache.set(key, counter, ttl)) return true;
+  }
+
+  return false;
+}
+
+/**
+ * Counts a request in a fixed window.
+ *
+ * @param cache The counters store.
+ * @param key The counter key.
+ * @param window The window length in seconds.
+ * @param max The maximum number of requests per window.
+ * @returns The counter state.
+ */
+async function fixed(
+  cache: Store | Folder,
+  key: string,
+  window: number,
+  max: number
+): Promise<Hit> {
+  const now = Date.now();
+  let counter = await cache.get(key);
+
+  if (!isObj(counter) || !isInt(counter.count) || now >= counter.resetAt) {
+    counter = { count: 0, resetAt: now + window * 1000 };
+  }
+
+  const reset = Math.ceil((counter.resetAt - now) / 1000);
+  if (counter.count >= max) return { allowed: false, remaining: 0, reset };
+
+  counter.count++;
+
+  if (!(await save(cache, key, counter, reset))) {
+    return { allowed: false, remaining: 0, reset };
+  }
+
+  return { allowed: true, remaining: max - counter.count, reset };
+}
+
+/**
+ * Counts a request in a sliding window, keeping the time of each allowed request.
+ *
+ * @param cache The counters store.
+ * @param key The counter key.
+ * @param window The window length in seconds.
+ * @param max The maximum number of requests per window.
+ * @returns The counter state.
+ */
+async function sliding(
+  cache: Store | Folder,
+  key: string,
+  window: number,
+  max: number
+): Promise<Hit> {
+  const now = Date.now();
+  const start = now - window * 1000;
+  const saved = await cache.get(key);
+
+  const hits: Array<number> = Array.isArray(saved)
+    ? saved.filter((time) => isInt(time) && time > start)
+    : [];
+
+  if (hits.length >= max) {
+    const reset = Math.ceil((hits[0] - start) / 1000);
+    return { allowed: false, remaining: 0, reset };
+  }
+
+  hits.push(now);
+
+  const reset = Math.ceil((hits[0] - start) / 1000);
+
+  if (!(await save(cache, key, hits, window))) {
+    return { allowed: false, remaining: 0, reset };
+  }
+
+  return { allowed: true, remaining: max - hits.length, reset };
+}
+
+/**
+ * Creates a rate limiting middleware.
+ *
+ * Every response gets the `RateLimit-Limit`, `RateLimit-Remaining`, `RateLimit-Reset`
+ * and `RateLimit-Policy` headers. Once the limit is reached, `Retry-After` is set
+ * and a `TooManyRequestsError` is thrown, rendered by the `error` middleware.
+ * Requests are refused as well when the store is full and cannot keep their counter.
+ *
+ * ```ts
+ * // 5 login attempts per minute and route, for each client
+ * router.post('/login', rateLimit({ window: 60, max: 5, key: 'route' }), login);
+ *
+ * // 100 requests per hour, kept on disk
+ * app.use(rateLimit({ window: 3600, max: 100, store: folder('rate') }));
+ * ```
+ *
+ * Invalid options fall back to their defaults.
+ *
+ * @param options The rate limit options.
+ * @returns The rate limiting middleware.
+ */
+export function rateLimit(options?: RateLimitOptions): Middleware {
+  if (!isObj(options)) options = {};
+
+  const { window, max, key } = options;
+  const seconds = isInt(window) && window > 0 ? window : 60;
+  const limit = isInt(max) && max > 0 ? max : 60;
+  const mode = options.mode === 'sliding' ? 'sliding' : 'fixed';
+  const name = isStr(options.name)
+    ? options.name
+    : `${mode}:${seconds}:${limit}`;
+
+  const cache =
+    isChildOf(options.store, Store) || isChildOf(options.store, Folder)
+      ? options.store
+      : store('rate');
+
+  const resolve: RateLimitKey = isFunc(key)
+    ? (key as RateLimitKey)
+    : key === 'route'
+    ? (req) => `${req.ip}:${req.method}:${req.route ?? '*'}`
+    : (req) => req.ip;
+
+  const count = mode === 'sliding' ? sliding : fixed;
+
+  return async (req: Request, res: Response): Promise<void> => {
+    const id = `${name}:${await resolve(req)}`;
+    const hit = await atomic(id, () => count(cache, id, seconds, limit));
+
+    res.setHeader('RateLimit-Limit', limit);
+    res.setHeader('RateLimit-Remaining', hit.remaining);
+    res.setHeader('RateLimit-Reset', hit.reset);
+    res.setHeader('RateLimit-Policy', `${limit};w=${seconds}`);
+
+    if (!hit.allowed) {
+      res.setHeader('Retry-After', hit.reset);
+      throw new TooManyRequestsError(`Rate limit exceeded for '${id}'`);
+    }
+  };
+}
@@ -1,11 +1,51 @@
+import { randomBytes } from 'crypto';
+import { resolve as resolver } from 'path';
+import { Middleware } from '.';
 import { AppOptions, config } from '../../config';
-import { isArr, isTrue } from '../../helpers';
+import { isArr, isChildOf, isInt, isObj, isStr, isTrue } from '../../helpers';
+import { Logger } from '../../helpers';
 import { Request } from '../modules/Request';
 import { Response } from '../modules/Response';
 
+/**
+ * Configuration options for the `cspReport` middleware.
+ */
+export interface CspReportOptions {
+  /** The path browsers send reports to, as set in `reportUri`. Default: `/csp-report`. */
+  path?: string;
+
+  /** The logger violations are written to. Default: the app `.log` file. */
+  logger?: Logger;
+}
+
+/**
+ * The largest report accepted, in bytes.
+ */
+const REPORT_LIMIT = 64 * 1024;
+
+/**
+ * Adds a nonce source to a Content-Security-Policy directive.
+ *
+ * Directives allowing `'unsafe-inline'` are returned as is, since browsers ignore
+ * `'unsafe-inline'` once a nonce is present.
+ *
+ * @param value - The directive sources.
+ * @param nonce - The nonce.
+ * @returns The directive sources.
+ */
+function addNonce(value: string | string[], nonce: string): string | string[] {
+  const sources = isArr(value) ? value : value.split(' ');
+  if (sources.includes("'unsafe-inline'")) return value;
+  return [...sources, `'nonce-${nonce}'`];
+}
+
 /**
  * Sets security-related HTTP headers for the response.
  *
+ * When `security.nonce` is enabled, a nonce is generated for each request, exposed as
+ * `req.nonce` (and `$nonce` in templates) and added to the `script-src` and `style-src`
+ * directives of the Content-Security-Policy.
+ *
  * @param req - The request object.
  * @param res - The response object.
  *
@@ -16,7 +56,19 @@ export function secure(req: Request, res: Response): Promise<void> {
     const options = config().loadSync<AppOptions>().security;
 
     if (options.contentSecurityPolicy) {
-      const policy = Object.entries(options.contentSecurityPolicy)
+      const csp = { ...options.contentSecurityPolicy };
+
+      if (options.nonce) {
+        req.nonce = randomBytes(16).toString('base64');
+
+        for (const key of ['scriptSrc', 'styleSrc']) {
+          if (isStr(csp[key]) || isArr(csp[key])) {
+            csp[key] = addNonce(csp[key], req.nonce);
+          }
+        }
+      }
+
+      const policy = Object.entries(csp)
         .map(([key, value]) => {
           key = key.replace(/([a-z])([A-Z])/g, '$1-$2').toLowerCase();
           if (isTrue(value)) return key;
@@ -96,3 +148,100 @@ export function secure(req: Request, res: Response): Promise<void> {
     resolve();
   });
 }
+
+/**
+ * Reads a report body, up to `REPORT_LIMIT` bytes.
+ *
+ * @param req - The request object.
+ * @returns The parsed JSON, or `undefined` if too large or malformed.
+ */
+function read(req: Request): Promise<unknown> {
+  return new Promise((resolve) => {
+    const chunks: Array<Buffer> = [];
+    let size = 0;
+
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size <= REPORT_LIMIT) chunks.push(chunk);
+    });
+
+    req.on('end', () => {
+      if (size > REPORT_LIMIT) return resolve(undefined);
+
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch {
+        resolve(undefined);
+      }
+    });
+
+    req.on('error', () => resolve(undefined));
+  });
+}
+
+/**
+ * Describes the violations of a report, sent with `report-uri` (`application/csp-report`)
+ * or `report-to` (`application/reports+json`).
+ *
+ * @param report - The parsed report.
+ * @returns A log message for each violation.
+ */
+function violations(report: unknown): Array<string> {
+  const entries = isArr(report)
+    ? report
+        .filter((entry) => isObj(entry) && entry.type === 'csp-violation')
+        .map((entry) => entry.body)
+    : [isObj(report) ? report['csp-report'] : undefined];
+
+  return entries.filter(isObj).map((entry: Record<string, any>) => {
+    const directive =
+      entry.effectiveDirective ??
+      entry['effective-directive'] ??
+      entry['violated-directive'];
+
+    const blocked = entry.blockedURL ?? entry['blocked-uri'] ?? 'inline';
+    const page = entry.documentURL ?? entry['document-uri'];
+    const file = entry.sourceFile ?? entry['source-file'];
+    const line = entry.lineNumber ?? entry['line-number'];
+
+    let message = `CSP violation: '${directive}' blocked '${blocked}' on '${page}'`;
+    if (isStr(file)) message += ` (${file}${isInt(line) ? `:${line}` : ''})`;
+
+    return message;
+  });
+}
+
+/**
+ * Creates a middleware collecting Content-Security-Policy violation reports into a `Logger`.
+ *
+ * Reports sent to the path (`POST` only) are answered with `204 No Content`, other
+ * requests go through. Point the policy to it:
+ *
+ * ```ts
+ * // bnjsx.config.js
+ * security: { contentSecurityPolicy: { reportUri: '/csp-report' } }
+ *
+ * app.use(cspReport());
+ * ```
+ *
+ * @param options The report options.
+ * @returns The report collecting middleware.
+ */
+export function cspReport(options?: CspReportOptions): Middleware {
+  if (!isObj(options)) options = {};
+
+  const path = isStr(options.path) ? options.path : '/csp-report';
+  let logger = isChildOf(options.logger, Logger) ? options.logger : undefined;
+
+  return async (req: Request, res: Response): Promise<void> => {
+    if (req.method !== 'POST' || req.path !== path) return;
+
+    if (!logger) logger = new Logger(resolver(config().resolveSync(), '.log'));
+
+    for (const message of violations(await read(req))) {
+      await logger.log(message);
+    }
+
+    return res.status(204).send();
+  };
+}
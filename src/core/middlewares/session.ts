@@ -0,0 +1,22 @@
+import { Request } from '../modules/Request';
+import { Response } from '../modules/Response';
+import { Session } from '../modules/Session';
+
+/**
+ * Starts the session of the request and populates `req.session`.
+ *
+ * The session ID travels in a signed cookie (`session` by default) and the session
+ * is kept by the configured driver: `store` (memory), `folder` (disk) or `sql` (table).
+ * Changes are saved once the response ends.
+ *
+ * Run it after the `cookie` middleware, and before `flash` to keep flash messages on the session.
+ *
+ * @param req - The request object.
+ * @param res - The response object.
+ *
+ * @returns A promise that resolves once the session is loaded.
+ */
+export async function session(req: Request, res: Response): Promise<void> {
+  req.session = await Session.start(req, res);
+  req.session.bind();
+}
@@ -0,0 +1,230 @@
+import { config } from '../../config';
+import { isArrOfStr, isInt, isObj, isStr } from '../../helpers';
+import { UTC } from '../../helpers/UTC';
+import { CASCADE } from '../schema/Column';
+import { Auth } from './Auth';
+import { Row } from './Driver';
+import { can } from './Gate';
+import { Generator } from './Generator';
+import { Table } from './Table';
+
+/**
+ * Custom error class for personal access token errors.
+ */
+export class AccessTokenError extends Error {}
+
+/**
+ * A personal access token, once verified.
+ */
+export interface AccessTokenRecord {
+  /** The token row. */
+  row: Row;
+
+  /** The user the token belongs to. */
+  user: Row;
+
+  /** The scopes granted to the token. */
+  scopes: Array<string>;
+}
+
+/**
+ * Parses the scopes kept in a token row.
+ *
+ * @param value The JSON array of scopes.
+ * @returns The scopes, or none if malformed.
+ */
+function parse(value: unknown): Array<string> {
+  if (!isStr(value)) return [];
+
+  try {
+    const scopes = JSON.parse(value);
+    return isArrOfStr(scopes) ? scopes : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Long-lived personal access tokens, used by API clients as bearer tokens.
+ *
+ * Tokens are kept hashed in the `auth.accessTokens` table (`access_tokens` by default) with:
+ * - `id`: the primary key.
+ * - `user_id`: the user the token belongs to.
+ * - `name`: a label shown to the user (e.g., `CI deploy`).
+ * - `token`: a unique string column holding the SHA-256 hash of the token (64 characters).
+ * - `scopes`: a text column holding the JSON array of granted scopes.
+ * - `last_used_at`: a nullable datetime column, updated each time the token is used.
+ * - `expires_at`: a nullable big integer holding the expiry timestamp (ms).
+ * - `created_at`: a datetime column.
+ *
+ * The table can be created with `AccessTokensGenerator`. Scopes follow permission
+ * names, so `posts.*` covers `posts.update` and `*` covers everything.
+ */
+export class AccessToken {
+  /**
+   * Returns the access tokens table.
+   */
+  public static table(): Table {
+    const { accessTokens, pool } = config().loadSync().auth;
+    return Table.request(accessTokens, pool);
+  }
+
+  /**
+   * Issues a token for a user. Only its hash is kept, so show it to the user once.
+   *
+   * @param user The user row.
+   * @param name A label for the token.
+   * @param scopes The scopes granted to the token. Defaults to every scope.
+   * @param ttl The number of seconds the token lives. Defaults to no expiry.
+   * @returns The plain token.
+   * @throws `AccessTokenError` if the name, scopes or ttl are invalid.
+   */
+  public static async issue(
+    user: Row,
+    name: string,
+    scopes: Array<string> = ['*'],
+    ttl?: number
+  ): Promise<string> {
+    if (!isStr(name)) throw new AccessTokenError('Invalid token name');
+    if (!isArrOfStr(scopes)) throw new AccessTokenError('Invalid token scopes');
+
+    if (ttl !== undefined && !(isInt(ttl) && ttl > 0)) {
+      throw new AccessTokenError('Invalid token ttl');
+    }
+
+    const token = Auth.token();
+
+    await AccessToken.table().insert({
+      user_id: user.id,
+      name,
+      token: Auth.digest(token),
+      scopes: JSON.stringify(scopes),
+      last_used_at: null,
+      expires_at: ttl ? Date.now() + ttl * 1000 : null,
+      created_at: UTC.get.datetime(),
+    });
+
+    return token;
+  }
+
+  /**
+   * Verifies a token and records its use.
+   *
+   * Expired tokens are deleted.
+   *
+   * @param token The plain token.
+   * @returns The token row, its user and scopes, or `null` if the token is invalid or expired.
+   */
+  public static async verify(token: string): Promise<AccessTokenRecord | null> {
+    if (!isStr(token)) return null;
+
+    const row = await AccessToken.table()
+      .where((col) => col('token').equal(Auth.digest(token)))
+      .first();
+
+    if (!isObj(row)) return null;
+
+    if (row.expires_at && Number(row.expires_at) <= Date.now()) {
+      await AccessToken.revoke(row.id as number);
+      return null;
+    }
+
+    const user = await Auth.users()
+      .find()
+      .one(row.user_id as number);
+    if (!isObj(user)) return null;
+
+    row.last_used_at = UTC.get.datetime();
+
+    await AccessToken.table()
+      .where((col) => col('id').equal(row.id))
+      .update({ last_used_at: row.last_used_at });
+
+    return { row, user, scopes: parse(row.scopes) };
+  }
+
+  /**
+   * Checks if a token was granted a scope.
+   *
+   * @param record The verified token.
+   * @param scope The scope, e.g., `posts.update`.
+   * @returns `true` if one of the token scopes covers the scope.
+   */
+  public static can(record: AccessTokenRecord, scope: string): boolean {
+    return can(record?.scopes, scope);
+  }
+
+  /**
+   * Lists the tokens of a user, without their hashes.
+   *
+   * @param user The user row.
+   * @returns The token rows.
+   */
+  public static async list(user: Row): Promise<Array<Row>> {
+    const rows = await AccessToken.table()
+      .where((col) => col('user_id').equal(user.id))
+      .all();
+
+    return rows.map(({ token, ...row }) => ({
+      ...row,
+      scopes: parse(row.scopes),
+    }));
+  }
+
+  /**
+   * Revokes a token.
+   *
+   * @param id The token ID.
+   */
+  public static async revoke(id: number | string): Promise<void> {
+    await AccessToken.table()
+      .where((col) => col('id').equal(id))
+      .delete();
+  }
+
+  /**
+   * Revokes every token of a user, e.g., after a password reset.
+   *
+   * @param user The user row.
+   */
+  public static async revokeAll(user: Row): Promise<void> {
+    await AccessToken.table()
+      .where((col) => col('user_id').equal(user.id))
+      .delete();
+  }
+}
+
+/**
+ * Creates the `auth.accessTokens` table, generate it after the users table.
+ *
+ * @example
+ * // generators/03_generate_access_tokens_table.ts
+ * export default new AccessTokensGenerator();
+ */
+export class AccessTokensGenerator extends Generator {
+  /**
+   * Creates a generator instance for the configured access tokens table.
+   */
+  constructor() {
+    super();
+    this.set.table(config().loadSync().auth.accessTokens);
+  }
+
+  /**
+   * Creates the access tokens table.
+   */
+  public create(): Promise<void> {
+    const { table } = config().loadSync().auth;
+
+    return this.schema(
+      this.primaryKey(),
+      this.column('user_id').fk().notNull().ref(table, 'id').onDelete(CASCADE),
+      this.column('name').varChar(100).notNull(),
+      this.column('token').char(64).notNull().unique(),
+      this.column('scopes').text().notNull(),
+      this.column('last_used_at').datetime(),
+      this.column('expires_at').bigInt(),
+      this.createdAt()
+    );
+  }
+}
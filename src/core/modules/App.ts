@@ -1,15 +1,20 @@
 import * as http from 'http';
 import * as https from 'https';
+import * as http2 from 'http2';
 import * as fs from 'fs';
 import EventEmitter from 'events';
-import { RouteMatch, Router } from './Router';
-import { Request } from './Request';
+import { Socket } from 'net';
+import { randomBytes } from 'crypto';
+import { RouteMatch, RouteParams, Router } from './Router';
+import { Request, withRequest } from './Request';
 import { Response } from './Response';
 import { AppOptions, config } from '../../config';
 import { isChildOf, isSubclass } from '../../helpers';
 import { bugger, orange, isPromise, isStr, isFunc, isArr } from '../../helpers';
-import { AppError, NotFoundError } from '../../errors';
+import { isObj, isInt, Logger } from '../../helpers';
+import { AppError, MethodNotAllowedError, NotFoundError } from '../../errors';
 import { Service } from './Service';
+import { can } from './Gate';
 import { Entry } from '../validation/Entry';
 import { Middleware } from '../middlewares';
 
@@ -37,6 +42,71 @@ export const STOP = Symbol('STOP');
  */
 export const STOPPED = Symbol('STOPPED');
 
+/**
+ * Symbol representing the request received event.
+ * Emitted when a request enters the app, before any middleware runs.
+ */
+export const REQUEST_RECEIVED = Symbol('REQUEST_RECEIVED');
+
+/**
+ * Symbol representing the route matched event.
+ * Emitted when a route matches the request.
+ */
+export const ROUTE_MATCHED = Symbol('ROUTE_MATCHED');
+
+/**
+ * Symbol representing the middleware start event.
+ * Emitted before each middleware runs.
+ */
+export const MIDDLEWARE_START = Symbol('MIDDLEWARE_START');
+
+/**
+ * Symbol representing the middleware finish event.
+ * Emitted after each middleware settles, with its duration.
+ */
+export const MIDDLEWARE_FINISH = Symbol('MIDDLEWARE_FINISH');
+
+/**
+ * Symbol representing the response finish event.
+ * Emitted once the response has been sent.
+ */
+export const RESPONSE_FINISH = Symbol('RESPONSE_FINISH');
+
+/**
+ * Symbol representing the request error event.
+ * Emitted when an error reaches the app error handler.
+ */
+export const REQUEST_ERROR = Symbol('REQUEST_ERROR');
+
+/**
+ * The payload of request lifecycle events.
+ *
+ * @property `id` The request ID, also available as `req.id`.
+ * @property `req` The request object.
+ * @property `res` The response object.
+ * @property `time` Milliseconds elapsed since the request was received.
+ * @property `namespace` The matched namespace (`ROUTE_MATCHED`).
+ * @property `params` The matched route params (`ROUTE_MATCHED`).
+ * @property `middleware` The middleware function (`MIDDLEWARE_START`, `MIDDLEWARE_FINISH`).
+ * @property `index` The middleware position in the stack (`MIDDLEWARE_START`, `MIDDLEWARE_FINISH`).
+ * @property `duration` Milliseconds spent in the middleware (`MIDDLEWARE_FINISH`).
+ * @property `status` The response status code (`RESPONSE_FINISH`).
+ * @property `error` The error thrown (`REQUEST_ERROR`, or `MIDDLEWARE_FINISH` if the middleware failed).
+ */
+export type RequestEvent = {
+  id: string;
+  req: Request;
+  res: Response;
+  time: number;
+  namespace?: string;
+  params?: RouteMatch['params'];
+  middleware?: Middleware;
+  index?: number;
+  duration?: number;
+  status?: number;
+  error?: Error;
+};
+
 /**
  * A class constructor type for creating instances of a Service-based router.
  */
@@ -48,19 +118,56 @@ export type RouterConstructor = new (req: Request, res: Response) => Service;
 export type RouterInstance = Service | Router;
 
 /**
- * Retrieves the application key (APP_KEY) from environment variables.
+ * Describes a route registered in the app, as listed by `App.routes()`.
  *
- * @throwsIf APP_KEY is not defined.
- * @returns The application key as a string.
+ * @property `method` The HTTP method of the route, or `*` for all methods.
+ * @property `path` The full route path including the namespace, or the route RegExp.
+ * @property `namespace` The namespace of the router defining the route.
+ * @property `name` The route name, if any.
+ * @property `service` The service class defining the route, if any.
+ * @property `middlewares` The namespace, router, group and route middlewares, the handler being last.
  */
-export function appKey(): string {
-  if (!process.env.APP_KEY) {
-    throw new AppError(
-      'Missing APP_KEY: execute "node exec mk:env" to generate a new APP_KEY'
-    );
-  }
+export type AppRoute = {
+  method: string;
+  path: string | RegExp;
+  namespace: string;
+  name?: string;
+  service?: RouterConstructor;
+  middlewares: Array<Middleware>;
+};
+
+/**
+ * Query string values appended to a generated route URL.
+ */
+export type RouteQuery =
+  | URLSearchParams
+  | Record<
+      string,
+      string | number | boolean | Array<string | number | boolean>
+    >;
+
+export { appKey, appKeys } from '../../helpers';
 
-  return process.env.APP_KEY;
+/**
+ * Generates the URL path of a named route registered in the application.
+ *
+ * @param name - The route name.
+ * @param params - The values of the route parameters.
+ * @param query - Optional query string values.
+ * @returns The route path, including its namespace and query string.
+ * @throws `AppError` If no route has the given name.
+ * @throws `RouterError` If a param is missing or unknown.
+ *
+ * @example
+ * route('posts.show', { id: 12 });                // '/posts/12'
+ * route('posts.index', {}, { page: 2 });          // '/posts?page=2'
+ */
+export function route(
+  name: string,
+  params?: RouteParams,
+  query?: RouteQuery
+): string {
+  return new App().route(name, params, query);
 }
 
 /**
@@ -99,9 +206,29 @@ export class App extends EventEmitter {
   private static app: App;
 
   /**
-   * HTTP or HTTPS server instance.
+   * HTTP, HTTPS or HTTP/2 server instance.
+   */
+  private server: http.Server | https.Server | http2.Http2SecureServer;
+
+  /**
+   * The plain HTTP server redirecting to HTTPS, if any.
+   */
+  private redirector: http.Server;
+
+  /**
+   * Open HTTP/2 sessions, closed on shutdown.
    */
-  private server: http.Server;
+  private sessions: Set<http2.ServerHttp2Session> = new Set();
+
+  /**
+   * Open sockets of the HTTP/2 server, including HTTP/1.1 fallback connections.
+   */
+  private sockets: Set<Socket> = new Set();
+
+  /**
+   * The listener reloading certificates, registered by `start()` if `reload` is enabled.
+   */
+  private reloader: () => void;
 
   /**
    * Array to store middleware functions to be executed in sequence.
@@ -118,6 +245,31 @@ export class App extends EventEmitter {
    */
   private routers: Record<string, Array<Router | RouterConstructor>> = {};
 
+  /**
+   * Object that maps namespaces to the middlewares scoped to them.
+   */
+  private stacks: Record<string, Array<Middleware>> = {};
+
+  /**
+   * The time each request in progress was received at, in nanoseconds.
+   */
+  private clocks: WeakMap<Request, bigint> = new WeakMap();
+
+  /**
+   * The shutdown in progress, if any.
+   */
+  private closing: Promise<void>;
+
+  /**
+   * The `SIGTERM` and `SIGINT` listener registered by `start()`, if any.
+   */
+  private trap: () => void;
+
+  /**
+   * An instance of each service, used to match requests before creating a new instance.
+   */
+  private blueprints: Map<RouterConstructor, Service> = new Map();
+
   /**
    * Application options with default values.
    */
@@ -135,19 +287,49 @@ export class App extends EventEmitter {
 
     this.options = config().loadSync();
 
+    // Generate named route paths with `@route`, check permissions with `@can`
+    this.options.tools = { ...this.options.tools, route, can };
+
+    const app = this;
+
+    // Handle each request in its own context, see `currentRequest()`
+    // HTTP/2 requests come through the compatibility API, which mirrors HTTP/1
+    function listener(req: Request, res: Response): void;
+    function listener(
+      req: http2.Http2ServerRequest,
+      res: http2.Http2ServerResponse
+    ): void;
+    function listener(req: any, res: any): void {
+      withRequest(req, () => app.process(req, res));
+    }
+
     // Choose server based on protocol
     if (this.options.protocol === 'https') {
       if (!isStr(this.options.key) || !isStr(this.options.cert)) {
         throw new AppError('For HTTPS, key and cert must be provided');
       }
 
-      const httpsOptions = {
-        key: fs.readFileSync(this.options.key),
-        cert: fs.readFileSync(this.options.cert),
-      };
+      if (this.options.http2) {
+        const server = http2.createSecureServer(
+          { ...this.credentials(), allowHTTP1: true },
+          listener
+        );
 
-      this.server = https.createServer(httpsOptions, this.process.bind(this));
-    } else this.server = http.createServer(this.process.bind(this));
+        server.on('secureConnection', (socket: Socket) => {
+          this.sockets.add(socket);
+          socket.once('close', () => this.sockets.delete(socket));
+        });
+
+        server.on('session', (session: http2.ServerHttp2Session) => {
+          this.sessions.add(session);
+          session.once('close', () => this.sessions.delete(session));
+        });
+
+        this.server = server;
+      } else {
+        this.server = https.createServer(this.credentials(), listener);
+      }
+    } else this.server = http.createServer(listener);
 
     // Keep a reference to the first instance
     App.app = this;
@@ -170,18 +352,39 @@ export class App extends EventEmitter {
   /**
    * Associates a router with a specific namespace.
    *
+   * Namespace middlewares run for every route matched in the namespace, after the
+   * global `App.use` middlewares and before the router, group and route middlewares.
+   *
    * @param name The namespace for the router.
    * @param router The router to associate with the namespace.
-   * @throws `AppError` if the namespace or router is invalid.
+   * @param middlewares Optional middlewares scoped to the namespace.
+   * @throws `AppError` if the namespace, router or middlewares are invalid.
+   *
+   * @example
+   * app.namespace('/admin', AdminService, auth, csrf);
    */
-  public namespace(name: string, router: Router | RouterConstructor): this {
+  public namespace(
+    name: string,
+    router: Router | RouterConstructor,
+    ...middlewares: Middleware[]
+  ): this {
     if (!isStr(name)) throw new AppError('Invalid namespace');
     if (!isChildOf(router, Router) && !isSubclass(router, Service)) {
       throw new AppError('Invalid router');
     }
 
+    if (middlewares.some((m) => !isFunc(m) || m.length > 2)) {
+      throw new AppError('Invalid middleware function');
+    }
+
     if (!isArr(this.routers[name])) this.routers[name] = new Array();
     this.routers[name].push(router);
+
+    if (middlewares.length > 0) {
+      if (!isArr(this.stacks[name])) this.stacks[name] = new Array();
+      this.stacks[name].push(...middlewares);
+    }
+
     return this;
   }
 
@@ -204,6 +407,102 @@ export class App extends EventEmitter {
     return this;
   }
 
+  /**
+   * Generates the URL path of a named route.
+   *
+   * Routers are searched in registration order, and the namespace of the router
+   * defining the route is prefixed to the generated path.
+   *
+   * @param name - The route name.
+   * @param params - The values of the route parameters.
+   * @param query - Optional query string values.
+   * @returns The route path, including its namespace and query string.
+   * @throws `AppError` If the name is invalid or no route has that name.
+   * @throws `RouterError` If a param is missing or unknown.
+   */
+  public route(name: string, params?: RouteParams, query?: RouteQuery): string {
+    if (!isStr(name)) throw new AppError('Invalid route name');
+
+    for (const namespace of Object.keys(this.routers)) {
+      for (const r of this.routers[namespace]) {
+        const router =
+          isFunc(r) && isSubclass(r, Service)
+            ? this.blueprint(r as RouterConstructor)
+            : (r as Router);
+
+        if (!isFunc(router.path)) continue;
+
+        const path = router.path(name, params);
+        if (!isStr(path)) continue;
+
+        const prefix = namespace === '/' ? '' : namespace.replace(/\/$/, '');
+        const search = new URLSearchParams();
+
+        if (query instanceof URLSearchParams) {
+          query.forEach((value, key) => search.append(key, value));
+        } else if (isObj(query)) {
+          for (const [key, value] of Object.entries(query)) {
+            const values = isArr(value) ? value : [value];
+
+            values
+              .filter((value) => value !== undefined && value !== null)
+              .forEach((value) => search.append(key, String(value)));
+          }
+        }
+
+        const href = prefix && path === '/' ? prefix : prefix + path;
+        const string = search.toString();
+
+        return string ? `${href}?${string}` : href;
+      }
+    }
+
+    throw new AppError(`Undefined route name '${name}'`);
+  }
+
+  /**
+   * Lists the routes registered in every namespace.
+   *
+   * Service routes are read from the service blueprint.
+   * Global middlewares registered with `use()` are not included.
+   *
+   * @returns The registered routes, in namespace and registration order.
+   */
+  public routes(): Array<AppRoute> {
+    const routes: Array<AppRoute> = [];
+
+    for (const namespace of Object.keys(this.routers)) {
+      const prefix = namespace === '/' ? '' : namespace.replace(/\/$/, '');
+      const stack = this.stacks[namespace] || [];
+
+      for (const r of this.routers[namespace]) {
+        const service = isFunc(r) && isSubclass(r, Service);
+        const router = service
+          ? this.blueprint(r as RouterConstructor)
+          : (r as Router);
+
+        for (const route of router.list()) {
+          let path = route.path;
+
+          if (isStr(path)) {
+            path = prefix && path === '/' ? prefix : prefix + path || '/';
+          }
+
+          routes.push({
+            method: route.method,
+            path,
+            namespace,
+            name: route.name,
+            service: service ? (r as RouterConstructor) : undefined,
+            middlewares: [...stack, ...route.middlewares],
+          });
+        }
+      }
+    }
+
+    return routes;
+  }
+
   /**
    * Starts the server and begins listening for requests.
    *
@@ -229,9 +528,21 @@ export class App extends EventEmitter {
             )
           );
 
-          // After Start
-          this.emit(STARTED);
-          return resolve();
+          this.redirect()
+            .then(() => {
+              // Shut down gracefully on SIGTERM and SIGINT
+              if (this.options.shutdown?.signals !== false) {
+                this.handleSignals();
+              }
+
+              // Rotate certificates without restarting
+              if (this.options.reload && protocol === 'https') this.watch();
+
+              // After Start
+              this.emit(STARTED);
+              return resolve();
+            })
+            .catch(reject);
         }
       );
     });
@@ -248,19 +559,251 @@ export class App extends EventEmitter {
       // Before Stop
       this.emit(STOP);
 
+      this.unwatch();
+
       // Close the server gracefully
       this.server.close((error?: Error) => {
         if (error) return reject(error);
 
-        console.log(orange('  💡  Server stopped gracefully'));
+        this.unredirect().then(() => {
+          console.log(orange('  💡  Server stopped gracefully'));
+
+          // After Stop
+          this.emit(STOPPED);
+          return resolve();
+        });
+      });
+    });
+  }
+
+  /**
+   * Shuts down the app gracefully.
+   *
+   * The server stops accepting new connections and idle keep-alive sockets are closed.
+   * In-flight requests get until the deadline to complete, after which the remaining
+   * connections are closed. Then every pool in the configured `Cluster` is shut down
+   * and pending `Logger` writes are flushed.
+   *
+   * @param timeout Optional deadline in milliseconds, defaults to `shutdown.timeout`.
+   * @returns A promise that resolves once the app is shut down.
+   * @throws `ShutdownError` if the cluster fails to shut down.
+   */
+  public shutdown(timeout?: number): Promise<void> {
+    if (this.closing) return this.closing;
+
+    if (!isInt(timeout) || timeout < 0) {
+      timeout = this.options.shutdown?.timeout ?? 10000;
+    }
+
+    this.closing = new Promise((resolve, reject) => {
+      // Before Stop
+      this.emit(STOP);
+      this.releaseSignals();
+      this.unwatch();
+
+      new Promise<void>((drained) => {
+        // Close in-flight connections once the deadline passes
+        const timer = setTimeout(() => this.closeAllConnections(), timeout);
+
+        // Resolves once every connection is closed, errors if not listening
+        this.server.close(() => {
+          clearTimeout(timer);
+          drained();
+        });
+
+        this.closeIdleConnections();
+      })
+        .then(() => this.unredirect())
+        .then(() => {
+          const cluster = this.options.cluster;
+          if (isFunc(cluster?.shutdown)) return cluster.shutdown(true);
+        })
+        .then(
+          () => undefined,
+          (error: Error) => error
+        )
+        .then((error) => {
+          return Logger.flush().then(() => {
+            console.log(orange('  💡  Server shut down gracefully'));
+
+            // After Stop
+            this.emit(STOPPED);
+
+            if (error) return reject(error);
+            return resolve();
+          });
+        });
+    });
+
+    return this.closing;
+  }
+
+  /**
+   * Closes idle connections: idle keep-alive sockets, or HTTP/2 sessions once their streams end.
+   */
+  private closeIdleConnections(): void {
+    if (!this.options.http2 || this.options.protocol !== 'https') {
+      return (this.server as http.Server).closeIdleConnections();
+    }
+
+    this.sessions.forEach((session) => session.close());
+  }
+
+  /**
+   * Closes every connection, including those with requests in progress.
+   */
+  private closeAllConnections(): void {
+    if (!this.options.http2 || this.options.protocol !== 'https') {
+      return (this.server as http.Server).closeAllConnections();
+    }
+
+    this.sessions.forEach((session) => session.destroy());
+    this.sockets.forEach((socket) => socket.destroy());
+  }
 
-        // After Stop
-        this.emit(STOPPED);
-        return resolve();
+  /**
+   * Starts the plain HTTP listener redirecting to HTTPS, if configured.
+   *
+   * @returns A promise that resolves once the listener is ready, or if there is none.
+   */
+  private redirect(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const { protocol, host, redirect } = this.options;
+      if (protocol !== 'https' || !isInt(redirect)) return resolve();
+
+      this.redirector = http.createServer((req, res) => {
+        res.writeHead(301, { Location: this.location(req) }).end();
       });
+
+      this.redirector.once('error', reject);
+      this.redirector.listen(redirect, host, () => resolve());
+    });
+  }
+
+  /**
+   * Closes the plain HTTP listener redirecting to HTTPS, if any.
+   *
+   * @returns A promise that always resolves once the listener is closed.
+   */
+  private unredirect(): Promise<void> {
+    return new Promise((resolve) => {
+      if (!this.redirector) return resolve();
+
+      const redirector = this.redirector;
+      this.redirector = undefined;
+
+      redirector.close(() => resolve());
+      redirector.closeAllConnections();
     });
   }
 
+  /**
+   * Builds the HTTPS URL a plain HTTP request is redirected to.
+   *
+   * @param req The plain HTTP request.
+   * @returns The HTTPS URL, based on `base` if configured or on the `Host` header.
+   */
+  private location(req: http.IncomingMessage): string {
+    const { base, port } = this.options;
+
+    if (isStr(base) && base.startsWith('https://')) {
+      return base.replace(/\/+$/, '') + req.url;
+    }
+
+    const host = (req.headers.host || this.options.host).replace(/:\d+$/, '');
+    return `https://${host}${port === 443 ? '' : `:${port}`}${req.url}`;
+  }
+
+  /**
+   * Reads the HTTPS key and certificate from disk.
+   *
+   * @returns The key and certificate contents.
+   */
+  private credentials(): { key: Buffer; cert: Buffer } {
+    return {
+      key: fs.readFileSync(this.options.key),
+      cert: fs.readFileSync(this.options.cert),
+    };
+  }
+
+  /**
+   * Reloads the HTTPS key and certificate from disk, without restarting the server.
+   *
+   * New connections use the new certificate, established connections are not affected.
+   *
+   * @throws `AppError` if the app is not served over HTTPS.
+   * @throws `Error` if the files cannot be read or do not form a valid key pair.
+   */
+  public reload(): void {
+    if (this.options.protocol !== 'https') {
+      throw new AppError('Only HTTPS servers can reload certificates');
+    }
+
+    (this.server as https.Server).setSecureContext(this.credentials());
+  }
+
+  /**
+   * Reloads certificates when the key or certificate files change, or on `SIGHUP`.
+   */
+  private watch(): void {
+    if (this.reloader) return;
+
+    // Keep serving the current certificate if the new one is invalid
+    this.reloader = () => {
+      try {
+        this.reload();
+      } catch (error) {
+        bugger(error);
+      }
+    };
+
+    fs.watchFile(this.options.key, { interval: 1000 }, this.reloader);
+    fs.watchFile(this.options.cert, { interval: 1000 }, this.reloader);
+    process.on('SIGHUP', this.reloader);
+  }
+
+  /**
+   * Stops reloading certificates, if watching.
+   */
+  private unwatch(): void {
+    if (!this.reloader) return;
+
+    fs.unwatchFile(this.options.key, this.reloader);
+    fs.unwatchFile(this.options.cert, this.reloader);
+    process.removeListener('SIGHUP', this.reloader);
+    this.reloader = undefined;
+  }
+
+  /**
+   * Registers the `SIGTERM` and `SIGINT` listener shutting down the app.
+   */
+  private handleSignals(): void {
+    if (this.trap) return;
+
+    this.trap = () => {
+      this.shutdown()
+        .then(() => process.exit(0))
+        .catch((error) => {
+          bugger(error);
+          process.exit(1);
+        });
+    };
+
+    process.once('SIGTERM', this.trap);
+    process.once('SIGINT', this.trap);
+  }
+
+  /**
+   * Removes the `SIGTERM` and `SIGINT` listener, if registered.
+   */
+  private releaseSignals(): void {
+    if (!this.trap) return;
+
+    process.removeListener('SIGTERM', this.trap);
+    process.removeListener('SIGINT', this.trap);
+    this.trap = undefined;
+  }
+
   /**
    * The final error handler — executes your registered error handlers, and if none of them handle the error,
    * it gracefully handles the error itself. It also catches any errors thrown by your error handlers.
@@ -277,6 +820,7 @@ export class App extends EventEmitter {
   private handler(req: Request, res: Response, err: Error): Promise<void> {
     return new Promise((resolve) => {
       if (this.options.env === 'dev') bugger(err);
+      this.trace(REQUEST_ERROR, req, res, { error: err });
 
       return this.execute(this.handlers, req, res, err)
         .then(resolve)
@@ -332,6 +876,38 @@ export class App extends EventEmitter {
       req.port = url.port || this.options.port;
       req.ip = req.getIp();
 
+      if (this.options.trustProxy) {
+        req.protocol = req.getProtocol();
+        req.host = req.getHost();
+      }
+
+      req.id = randomBytes(16).toString('hex');
+
+      this.clocks.set(req, process.hrtime.bigint());
+      res.setHeader('X-Request-Id', req.id);
+      res.once('finish', () => {
+        this.trace(RESPONSE_FINISH, req, res, { status: res.statusCode });
+        this.clocks.delete(req);
+
+        // Keep-alive sockets become idle once their response is sent
+        if (this.closing) setImmediate(() => this.closeIdleConnections());
+      });
+
+      // Ask clients not to reuse connections while shutting down
+      // HTTP/2 forbids the header, sessions are closed instead
+      if (this.closing && req.httpVersionMajor !== 2) {
+        res.setHeader('Connection', 'close');
+      }
+
+      this.trace(REQUEST_RECEIVED, req, res);
+
+      // Service constructors may throw while creating blueprints
+      try {
+        this.compile();
+      } catch (err) {
+        return this.handler(req, res, err).catch(reject).then(resolve);
+      }
+
       const issue = async () => {
         throw new NotFoundError(`Resource not found at '${req.url}'`);
       };
@@ -348,15 +924,16 @@ export class App extends EventEmitter {
       }
 
       let found: { router: RouterInstance; match: RouteMatch } | void;
+      const path = stripNamespace(namespace, req.path);
 
       for (const r of this.routers[namespace]) {
-        const instance =
+        const { instance, match } =
           isFunc(r) && isSubclass(r, Service)
-            ? new (r as RouterConstructor)(req, res)
-            : (r as RouterInstance);
-
-        const path = stripNamespace(namespace, req.path);
-        const match = instance.match(path, req.method);
+            ? this.dispatch(r as RouterConstructor, path, req, res)
+            : {
+                instance: r as RouterInstance,
+                match: (r as Router).match(path, req.method),
+              };
 
         if (match) {
           if (instance instanceof Service) {
@@ -369,6 +946,10 @@ export class App extends EventEmitter {
 
             instance.query = new Entry(query);
             instance.params = new Entry(match.params);
+
+            // Let the permit middleware consult the service policy
+            req.policy = (user, action, resource) =>
+              instance.can(user, action, resource);
           }
 
           found = { router: instance, match };
@@ -377,14 +958,52 @@ export class App extends EventEmitter {
       }
 
       if (!found) {
-        return this.execute([...this.middlewares, issue], req, res)
+        const methods = this.methods(namespace, path);
+
+        if (methods.length === 0) {
+          return this.execute([...this.middlewares, issue], req, res)
+            .catch((err) => this.handler(req, res, err))
+            .catch(reject)
+            .then(resolve);
+        }
+
+        if (!methods.includes('OPTIONS')) methods.push('OPTIONS');
+        res.setHeader('Allow', methods.join(', '));
+
+        // Answer OPTIONS automatically, after middlewares like cors had their turn
+        const fallback =
+          req.method === 'OPTIONS'
+            ? async () => res.status(204).send()
+            : async () => {
+                throw new MethodNotAllowedError(
+                  `Method '${req.method}' not allowed at '${req.url}'`
+                );
+              };
+
+        const middlewares = [
+          ...this.middlewares,
+          ...(this.stacks[namespace] || []),
+          fallback,
+        ];
+
+        return this.execute(middlewares, req, res)
           .catch((err) => this.handler(req, res, err))
           .catch(reject)
           .then(resolve);
       }
 
-      const middlewares = [...this.middlewares, ...found.match.middlewares];
-      req.params = found.match.params as any;
+      const middlewares = [
+        ...this.middlewares,
+        ...(this.stacks[namespace] || []),
+        ...found.match.middlewares,
+      ];
+      req.params = found.match.params as Request['params'];
+      req.route = found.match.route;
+
+      this.trace(ROUTE_MATCHED, req, res, {
+        namespace,
+        params: found.match.params,
+      });
 
       return this.execute(middlewares, req, res)
         .catch((err) => this.handler(req, res, err))
@@ -393,6 +1012,146 @@ export class App extends EventEmitter {
     });
   }
 
+  /**
+   * Returns the HTTP methods allowed for a path across the routers of a namespace.
+   *
+   * @param namespace The namespace of the routers.
+   * @param path The request path, relative to the namespace.
+   * @returns The allowed methods, or an empty array if no route matches the path.
+   */
+  private methods(namespace: string, path: string): Array<string> {
+    const methods = new Set<string>();
+
+    for (const r of this.routers[namespace]) {
+      const router =
+        isFunc(r) && isSubclass(r, Service)
+          ? this.blueprint(r as RouterConstructor)
+          : (r as Router);
+
+      router.methods(path).forEach((method) => methods.add(method));
+    }
+
+    return Array.from(methods);
+  }
+
+  /**
+   * Returns the milliseconds elapsed since a request was received.
+   *
+   * @param req The request object.
+   * @returns The elapsed time, or `0` if the request is not being processed.
+   */
+  private elapsed(req: Request): number {
+    const clock = this.clocks.get(req);
+    if (clock === undefined) return 0;
+    return Number(process.hrtime.bigint() - clock) / 1e6;
+  }
+
+  /**
+   * Emits a request lifecycle event, if it has listeners.
+   *
+   * @param event The event symbol.
+   * @param req The request object.
+   * @param res The response object.
+   * @param data Additional event data.
+   */
+  private trace(
+    event: symbol,
+    req: Request,
+    res: Response,
+    data: Partial<RequestEvent> = {}
+  ): void {
+    if (this.listenerCount(event) === 0) return;
+
+    const payload: RequestEvent = {
+      id: req.id,
+      req,
+      res,
+      time: this.elapsed(req),
+      ...data,
+    };
+
+    this.emit(event, payload);
+  }
+
+  /**
+   * Returns the blueprint of a service, creating it on first use.
+   *
+   * Blueprints are created with a detached request and response, so they keep no request alive.
+   * Services must register the same routes whatever the request.
+   *
+   * @param service The service class.
+   * @returns The service blueprint.
+   */
+  private blueprint(service: RouterConstructor): Service {
+    if (!this.blueprints.has(service)) {
+      const req = new http.IncomingMessage(new Socket()) as Request;
+      const res: Response = new http.ServerResponse(req) as any;
+
+      req.method = 'GET';
+      req.url = '/';
+      req.path = '/';
+      req.query = new URLSearchParams();
+      req.response = res;
+      res.request = req;
+
+      this.blueprints.set(service, new service(req, res));
+    }
+
+    return this.blueprints.get(service);
+  }
+
+  /**
+   * Creates the blueprint of every registered service, so named routes
+   * can be resolved before the service has handled a request.
+   */
+  private compile(): void {
+    for (const routers of Object.values(this.routers)) {
+      for (const r of routers) {
+        if (isFunc(r) && isSubclass(r, Service)) {
+          this.blueprint(r as RouterConstructor);
+        }
+      }
+    }
+  }
+
+  /**
+   * Matches a request against a service without creating an instance unless a route matches.
+   *
+   * The request is matched against the service blueprint, and a new instance is created
+   * only when one of its routes matches.
+   *
+   * @param service The service class.
+   * @param path The request path, relative to the namespace.
+   * @param req The request object.
+   * @param res The response object.
+   * @returns The service instance (if created) and the matched route (if any).
+   */
+  private dispatch(
+    service: RouterConstructor,
+    path: string,
+    req: Request,
+    res: Response
+  ): { instance?: Service; match?: RouteMatch } {
+    const blueprint = this.blueprint(service);
+    const found = blueprint.lookup(path, req.method);
+    if (!found) return {};
+
+    const instance = new service(req, res);
+    const expected = blueprint.routes[found.index];
+    const route = instance.routes[found.index];
+
+    // Services registering routes conditionally fall back to a full match
+    if (
+      !route ||
+      route.method !== expected.method ||
+      route.pattern.source !== expected.pattern.source
+    ) {
+      return { instance, match: instance.match(path, req.method) };
+    }
+
+    return { instance, match: instance.resolve(found) };
+  }
+
   /**
    * Executes the provided middlewares in sequence.
    *
@@ -421,14 +1180,37 @@ export class App extends EventEmitter {
       }
 
       const middleware = middlewares[index];
+      const started = this.elapsed(req);
+
+      const finish = (error?: Error) => {
+        const duration = this.elapsed(req) - started;
+        this.trace(MIDDLEWARE_FINISH, req, res, {
+          middleware,
+          index,
+          duration,
+          error,
+        });
+      };
+
+      this.trace(MIDDLEWARE_START, req, res, { middleware, index });
       const promise = middleware(req, res, err);
 
       if (!isPromise(promise)) {
+        finish();
         return reject(new AppError('Invalid middleware'));
       }
 
       promise
-        .then(() => this.execute(middlewares, req, res, err, index + 1))
+        .then(
+          () => {
+            finish();
+            return this.execute(middlewares, req, res, err, index + 1);
+          },
+          (error: Error) => {
+            finish(error);
+            throw error;
+          }
+        )
         .then(resolve)
         .catch(reject);
     });
@@ -0,0 +1,496 @@
+import { resolve } from 'path';
+import { AuditOptions, config } from '../../config';
+import { isArr, isBool, isFullStr, isInt, isObj, isStr } from '../../helpers';
+import { Logger } from '../../helpers';
+import { UTC } from '../../helpers/UTC';
+import { Insert } from '../sql/Insert';
+import { Write } from '../sql/Query';
+import { DESC, Pagination, Select } from '../sql/Select';
+import { Builder } from './Builder';
+import { Row, Rows } from './Driver';
+import { PoolConnection } from './Pool';
+import { currentRequest } from './Request';
+
+/**
+ * Custom error class for audit log errors.
+ */
+export class AuditError extends Error {}
+
+/**
+ * An audit log entry.
+ */
+export interface AuditEntry {
+  /** The entry ID, for entries kept in a table. */
+  id?: number;
+
+  /** The event: `insert`, `upsert`, `update`, `delete`, or an auth event like `auth.login`. */
+  event: string;
+
+  /** The ID of the user behind the event, `null` for guests and outside requests. */
+  user_id: number | string | null;
+
+  /** The table changed, `null` for other events. */
+  table_name: string | null;
+
+  /** The primary key of the row changed, if known. */
+  record_key: string | null;
+
+  /** The changed columns before the change, `null` for inserts. */
+  old_values: Row | null;
+
+  /** The changed columns after the change, `null` for deletes. */
+  new_values: Row | null;
+
+  /** Details about the event (e.g., the email of a failed login). */
+  details: Record<string, unknown> | null;
+
+  /** The client IP address. */
+  ip: string | null;
+
+  /** The request ID, as sent in the `X-Request-Id` header. */
+  request_id: string | null;
+
+  /** The date of the event (`YYYY-MM-DD hh:mm:ss`, UTC). */
+  created_at: string;
+}
+
+/**
+ * Filters for `Audit.query()`, all optional and combined.
+ */
+export interface AuditFilters {
+  /** The event, e.g., `update` or `auth.failed`. */
+  event?: string;
+
+  /** The ID of the user behind the events. */
+  user?: number | string;
+
+  /** The table changed. */
+  table?: string;
+
+  /** The primary key of the row changed. */
+  key?: number | string;
+
+  /** The client IP address. */
+  ip?: string;
+
+  /** The request ID. */
+  request?: string;
+
+  /** The earliest date (`YYYY-MM-DD hh:mm:ss`, UTC). */
+  from?: string;
+
+  /** The latest date (`YYYY-MM-DD hh:mm:ss`, UTC). */
+  to?: string;
+}
+
+/**
+ * A filter of `Audit.query()`: the column, its operator, and its value.
+ */
+type Filter = [string, '=' | '>=' | '<=', string | number];
+
+/**
+ * The value masking hidden columns.
+ */
+const HIDDEN = '[hidden]';
+
+/**
+ * The JSON columns of audit log rows.
+ */
+const JSON_COLUMNS = ['old_values', 'new_values', 'details'];
+
+/**
+ * Audit log files, by path.
+ */
+const loggers: Map<string, Logger> = new Map();
+
+/**
+ * Returns the audit log options.
+ */
+function options(): AuditOptions {
+  return config().loadSync().audit;
+}
+
+/**
+ * Checks if the changes of a table are recorded.
+ *
+ * @param table The table name.
+ * @returns `true` if auditing is enabled and covers the table.
+ */
+function audited(table: string): boolean {
+  const app = config().loadSync();
+  const { enabled, tables, exclude } = app.audit || {};
+
+  if (enabled !== true || !isStr(table)) return false;
+  if (table === app.audit.table || table === app.session?.table) return false;
+  if (isArr(exclude) && exclude.includes(table)) return false;
+
+  return !isArr(tables) || tables.includes(table);
+}
+
+/**
+ * Masks the hidden columns of a row.
+ *
+ * @param row The row.
+ * @returns A copy of the row.
+ */
+function mask(row: Row): Row {
+  const { hidden } = options();
+
+  return Object.fromEntries(
+    Object.entries(row).map(([column, value]) => [
+      column,
+      hidden.includes(column) && value !== null ? HIDDEN : value,
+    ])
+  );
+}
+
+/**
+ * Checks if a column keeps its value, as databases return booleans as numbers
+ * and numbers as strings at times.
+ */
+function same(a: unknown, b: unknown): boolean {
+  if (isBool(a)) a = Number(a);
+  if (isBool(b)) b = Number(b);
+  if (a === null || b === null) return a === b;
+
+  return String(a) === String(b);
+}
+
+/**
+ * Converts a primary key to a record key.
+ */
+function key(value: unknown): string | null {
+  return isStr(value) || isInt(value) ? String(value) : null;
+}
+
+/**
+ * Creates an entry for the current request.
+ *
+ * @param event The event name.
+ * @param values The entry values.
+ * @returns The entry.
+ */
+function entry(event: string, values: Partial<AuditEntry> = {}): AuditEntry {
+  const req = currentRequest();
+  const user = req?.user?.id;
+
+  return {
+    event,
+    user_id: isStr(user) || isInt(user) ? user : null,
+    table_name: null,
+    record_key: null,
+    old_values: null,
+    new_values: null,
+    details: null,
+    ip: req?.ip || null,
+    request_id: req?.id || null,
+    created_at: UTC.get.datetime(),
+    ...values,
+  };
+}
+
+/**
+ * Records data changes and security events, with the user, IP address and
+ * request ID behind them.
+ *
+ * Once `audit.enabled` is set, every insert, upsert, update and delete made through
+ * a `Builder` (so `Table` too) is recorded with the primary key and the
+ * changed columns, before and after. Raw queries are not. Auth events are recorded
+ * by `Auth` and `AuthService`:
+ * - `auth.login`, `auth.logout`: a user logged in or out.
+ * - `auth.failed`: a failed login, with the email used.
+ * - `auth.forgot`, `auth.reset`: a password reset was requested or done.
+ *
+ * Entries go to a JSON lines file (`audit.path`) or to a table (`audit.table`, see
+ * `AuditGenerator`), and are listed with `Audit.query()`, newest first.
+ *
+ * @example
+ * await Audit.event('export.users', { count: 120 });
+ *
+ * const history = await Audit.query({ table: 'posts', key: 7 });
+ */
+export class Audit {
+  /**
+   * Records a write, running it with `exec`. Used by `Builder` as the observer of writes.
+   *
+   * Updated and deleted rows are read first, on the connection of the write.
+   *
+   * @param connection The connection of the write.
+   * @param write The write.
+   * @param exec Runs the write.
+   * @returns The result of the write.
+   */
+  public static async observe(
+    connection: PoolConnection,
+    write: Write,
+    exec: () => Promise<any>
+  ): Promise<any> {
+    if (!audited(write.table)) return exec();
+
+    const { key: pk } = options();
+    const table = write.table;
+
+    if (write.type === 'insert' || write.type === 'upsert') {
+      const result = await exec();
+      const rows = write.rows || [];
+
+      const entries = rows.map((row, index) => {
+        // Generated keys come back as returned rows, or as the ID of a single insert
+        const returned = isArr(result) ? result[index] : result;
+        let id = row[pk];
+
+        if (id === undefined && isObj(returned)) id = returned[pk];
+        else if (
+          id === undefined &&
+          rows.length === 1 &&
+          write.type === 'insert'
+        ) {
+          id = returned;
+        }
+
+        return entry(write.type, {
+          table_name: table,
+          record_key: key(id),
+          new_values: mask(row),
+        });
+      });
+
+      await Audit.store(entries, connection);
+      return result;
+    }
+
+    // Deleted rows are recorded whole, updated rows by their changed columns
+    const select = new Select(connection).from(table).where(write.condition);
+
+    if (write.type === 'update') {
+      select.col(...new Set([pk, ...Object.keys(write.values)]));
+    }
+
+    const rows: Rows = await select.exec();
+
+    const result = await exec();
+
+    const entries = rows
+      .map((row) => {
+        if (write.type === 'delete') {
+          return entry('delete', {
+            table_name: table,
+            record_key: key(row[pk]),
+            old_values: mask(row),
+          });
+        }
+
+        const columns = Object.keys(write.values).filter(
+          (column) => !same(row[column], write.values[column])
+        );
+
+        if (columns.length === 0) return null;
+
+        const pick = (values: Row) => {
+          return mask(Object.fromEntries(columns.map((c) => [c, values[c]])));
+        };
+
+        return entry('update', {
+          table_name: table,
+          record_key: key(row[pk]),
+          old_values: pick(row),
+          new_values: pick(write.values),
+        });
+      })
+      .filter(Boolean);
+
+    await Audit.store(entries, connection);
+    return result;
+  }
+
+  /**
+   * Records an event, such as a security event, for the current request.
+   *
+   * Does nothing unless `audit.enabled` is set.
+   *
+   * @param name The event name (e.g., `auth.login`).
+   * @param details Details about the event.
+   * @param user The user behind the event. Defaults to the logged in user.
+   * @throws `AuditError` if the name is invalid.
+   */
+  public static async event(
+    name: string,
+    details?: Record<string, unknown>,
+    user?: Row | null
+  ): Promise<void> {
+    if (!isFullStr(name)) throw new AuditError('Invalid audit event name');
+    if (options()?.enabled !== true) return;
+
+    const values: Partial<AuditEntry> = {};
+
+    if (isObj(details)) values.details = mask(details as Row);
+    if (isObj(user) && (isStr(user.id) || isInt(user.id))) {
+      values.user_id = user.id as number | string;
+    }
+
+    await Audit.store([entry(name, values)]);
+  }
+
+  /**
+   * Lists the entries matching the filters, newest first.
+   *
+   * @param filters The filters.
+   * @param page The page number. Defaults to `1`.
+   * @param items The number of entries per page. Defaults to `20`.
+   * @returns The page of entries.
+   */
+  public static async query(
+    filters: AuditFilters = {},
+    page: number = 1,
+    items: number = 20
+  ): Promise<Pagination<AuditEntry>> {
+    if (!isInt(page) || page < 1) page = 1;
+    if (!isInt(items) || items < 1) items = 20;
+    if (!isObj(filters)) filters = {};
+
+    const candidates: Array<[string, Filter[1], unknown]> = [
+      ['event', '=', filters.event],
+      ['user_id', '=', key(filters.user) ?? undefined],
+      ['table_name', '=', filters.table],
+      ['record_key', '=', key(filters.key) ?? undefined],
+      ['ip', '=', filters.ip],
+      ['request_id', '=', filters.request],
+      ['created_at', '>=', filters.from],
+      ['created_at', '<=', filters.to],
+    ];
+
+    const conditions = candidates.filter((filter): filter is Filter => {
+      return isStr(filter[2]) || isInt(filter[2]);
+    });
+
+    const { driver, table, pool } = options();
+
+    if (driver === 'table') {
+      const pagination = await Builder.require((builder) => {
+        const select = builder.select().from(table).orderBy('id', DESC);
+
+        if (conditions.length) {
+          select.where((col, con) => {
+            conditions.forEach(([column, operator, value], index) => {
+              if (index > 0) con.and();
+              if (operator === '>=') col(column).greaterThanOrEqual(value);
+              else if (operator === '<=') col(column).lessThanOrEqual(value);
+              else col(column).equal(value);
+            });
+          });
+        }
+
+        return select.paginate(page, items);
+      }, pool);
+
+      return {
+        ...pagination,
+        result: pagination.result.map((row) => Audit.parse(row)),
+      };
+    }
+
+    const entries = (await Audit.logger().get.json<AuditEntry>())
+      .filter((entry) => {
+        return conditions.every(([column, operator, value]) => {
+          const actual = entry[column];
+
+          if (operator === '>=') return String(actual) >= String(value);
+          if (operator === '<=') return String(actual) <= String(value);
+          return actual !== null && String(actual) === String(value);
+        });
+      })
+      .reverse();
+
+    const pages = Math.ceil(entries.length / items);
+
+    return {
+      result: entries.slice((page - 1) * items, page * items),
+      page: {
+        current: page,
+        prev: page > 1 ? page - 1 : undefined,
+        next: page < pages ? page + 1 : undefined,
+        items,
+      },
+      total: { pages, items: entries.length },
+    };
+  }
+
+  /**
+   * Writes entries to the audit log.
+   *
+   * With the `table` driver, entries are inserted on the connection of the change,
+   * unless `audit.pool` is set.
+   *
+   * @param entries The entries.
+   * @param connection The connection of the change, if any.
+   */
+  private static async store(
+    entries: Array<AuditEntry>,
+    connection?: PoolConnection
+  ): Promise<void> {
+    if (entries.length === 0) return;
+
+    const { driver, table, pool } = options();
+
+    if (driver !== 'table') return Audit.logger().json(...entries);
+
+    const rows = entries.map((entry) => {
+      const row: Row = { ...entry } as Row;
+
+      JSON_COLUMNS.forEach((column) => {
+        row[column] =
+          entry[column] === null ? null : JSON.stringify(row[column]);
+      });
+
+      return row;
+    });
+
+    // Entries join the transaction of the change, unless kept in another pool
+    const current =
+      connection && !isStr(pool) ? new Builder(connection) : undefined;
+
+    await Builder.require(
+      (builder) => {
+        return new Insert(builder.get.connection())
+          .into(table)
+          .rows(rows)
+          .exec();
+      },
+      pool,
+      current,
+      'write'
+    );
+  }
+
+  /**
+   * Parses the JSON columns of an audit log row.
+   *
+   * @param row The row.
+   * @returns The entry.
+   */
+  private static parse(row: Row): AuditEntry {
+    const entry = { ...row } as Record<string, any>;
+
+    JSON_COLUMNS.forEach((column) => {
+      if (!isStr(entry[column])) return;
+
+      try {
+        entry[column] = JSON.parse(entry[column]);
+      } catch {
+        entry[column] = null;
+      }
+    });
+
+    return entry as AuditEntry;
+  }
+
+  /**
+   * Returns the audit log file.
+   */
+  private static logger(): Logger {
+    const path = resolve(config().resolveSync(), options().path);
+
+    if (!loggers.has(path)) loggers.set(path, new Logger(path));
+    return loggers.get(path);
+  }
+}
@@ -0,0 +1,38 @@
+import { config } from '../../config';
+import { Generator } from './Generator';
+
+/**
+ * Creates the `audit.table` table, used by the `table` driver.
+ *
+ * @example
+ * // generators/04_generate_audit_logs_table.ts
+ * export default new AuditGenerator();
+ */
+export class AuditGenerator extends Generator {
+  /**
+   * Creates a generator instance for the configured audit log table.
+   */
+  constructor() {
+    super();
+    this.set.table(config().loadSync().audit.table);
+  }
+
+  /**
+   * Creates the audit log table.
+   */
+  public create(): Promise<void> {
+    return this.schema(
+      this.primaryKey(),
+      this.column('event').varChar(100).notNull().index(),
+      this.column('user_id').varChar(64).index(),
+      this.column('table_name').varChar(100).index(),
+      this.column('record_key').varChar(64),
+      this.column('old_values').text(),
+      this.column('new_values').text(),
+      this.column('details').text(),
+      this.column('ip').ip(),
+      this.column('request_id').varChar(32),
+      this.createdAt()
+    );
+  }
+}
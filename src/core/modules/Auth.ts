@@ -0,0 +1,369 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { config } from '../../config';
+import { isInt, isObj, isStr } from '../../helpers';
+import { Audit } from './Audit';
+import { Builder } from './Builder';
+import { Row } from './Driver';
+import { Request } from './Request';
+import { Response } from './Response';
+import { Table } from './Table';
+
+/**
+ * Custom error class for authentication-related errors.
+ */
+export class AuthError extends Error {}
+
+/**
+ * The session key holding the ID of the logged in user.
+ */
+export const AUTH_SESSION_KEY = '__auth__';
+
+/**
+ * The session key holding the URL a guest was sent away from by the `auth` middleware.
+ */
+export const INTENDED_SESSION_KEY = '__intended__';
+
+/**
+ * The purpose of a token, so a token issued for one purpose cannot be used for another.
+ */
+export type AuthTokenType = 'verify' | 'reset' | 'remember';
+
+/**
+ * The scrypt cost parameters used for new hashes.
+ */
+const SCRYPT = { N: 16384, r: 8, p: 1, length: 64 };
+
+/**
+ * Derives a key from a password using scrypt.
+ *
+ * @param password The password.
+ * @param salt The salt.
+ * @param options The scrypt cost parameters.
+ * @returns The derived key.
+ */
+function derive(
+  password: string,
+  salt: Buffer,
+  options: typeof SCRYPT
+): Promise<Buffer> {
+  const { N, r, p, length } = options;
+
+  return new Promise((resolve, reject) => {
+    scrypt(
+      password,
+      salt,
+      length,
+      { N, r, p, maxmem: 256 * N * r },
+      (error, key) => (error ? reject(error) : resolve(key))
+    );
+  });
+}
+
+/**
+ * Authentication primitives shared by the `AuthService` and the auth middlewares.
+ *
+ * Users are read from the `auth.table` table (`users` by default), which needs at least:
+ * - `id`: the primary key.
+ * - `email`: a unique string column.
+ * - `password`: a string column holding the hash (at least 180 characters).
+ * - `verified_at`: a nullable datetime column, set once the email is verified.
+ *
+ * Tokens are kept hashed in the `auth.tokens` table (`tokens` by default) with:
+ * - `id`: the primary key.
+ * - `user_id`: the user the token belongs to.
+ * - `type`: `verify`, `reset` or `remember`.
+ * - `token`: a unique string column holding the SHA-256 hash of the token (64 characters).
+ * - `expires_at`: a big integer holding the expiry timestamp (ms).
+ *
+ * Both tables can be created using a `Generator`.
+ */
+export class Auth {
+  /**
+   * Hashes a password using scrypt with a random salt.
+   *
+   * The hash keeps the cost parameters, so they can be raised without breaking existing hashes.
+   *
+   * @param password The plain password.
+   * @returns The hash, formatted as `scrypt$N$r$p$salt$key`.
+   * @throws `AuthError` if the password is not a string.
+   */
+  public static async hash(password: string): Promise<string> {
+    if (!isStr(password)) throw new AuthError('Invalid password');
+
+    const salt = randomBytes(16);
+    const key = (await derive(password, salt, SCRYPT)).toString('base64url');
+    const { N, r, p } = SCRYPT;
+
+    return `scrypt$${N}$${r}$${p}$${salt.toString('base64url')}$${key}`;
+  }
+
+  /**
+   * Checks a password against a hash in constant time.
+   *
+   * @param password The plain password.
+   * @param hash The hash created by `Auth.hash()`.
+   * @returns `true` if the password matches, `false` otherwise or if the hash is malformed.
+   */
+  public static async verify(password: string, hash: string): Promise<boolean> {
+    if (!isStr(password) || !isStr(hash)) return false;
+
+    const [name, N, r, p, salt, key] = hash.split('$');
+    const options = { N: Number(N), r: Number(r), p: Number(p), length: 0 };
+
+    if (name !== 'scrypt' || !isStr(salt) || !isStr(key)) return false;
+    if (![options.N, options.r, options.p].every((n) => isInt(n) && n > 0)) {
+      return false;
+    }
+
+    const expected = Buffer.from(key, 'base64url');
+    if (expected.length === 0) return false;
+
+    options.length = expected.length;
+
+    try {
+      const actual = await derive(
+        password,
+        Buffer.from(salt, 'base64url'),
+        options
+      );
+
+      return timingSafeEqual(actual, expected);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Generates a random token to send to the user.
+   *
+   * @returns A 64 characters hex token.
+   */
+  public static token(): string {
+    return randomBytes(32).toString('hex');
+  }
+
+  /**
+   * Hashes a token for storage, so leaked rows cannot be used as tokens.
+   *
+   * @param token The token.
+   * @returns The SHA-256 hex digest of the token.
+   */
+  public static digest(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  /**
+   * Returns the users table.
+   */
+  public static users(): Table {
+    const { table, pool } = config().loadSync().auth;
+    return Table.request(table, pool);
+  }
+
+  /**
+   * Returns the tokens table.
+   */
+  public static tokens(): Table {
+    const { tokens, pool } = config().loadSync().auth;
+    return Table.request(tokens, pool);
+  }
+
+  /**
+   * Issues a token for a user, kept hashed in the tokens table.
+   *
+   * @param user The user row.
+   * @param type The token purpose.
+   * @param ttl The number of seconds the token lives.
+   * @returns The plain token, to send to the user.
+   */
+  public static async issue(
+    user: Row,
+    type: AuthTokenType,
+    ttl: number
+  ): Promise<string> {
+    const token = Auth.token();
+
+    await Auth.tokens().insert({
+      user_id: user.id,
+      type,
+      token: Auth.digest(token),
+      expires_at: Date.now() + ttl * 1000,
+    });
+
+    return token;
+  }
+
+  /**
+   * Uses a token: it is deleted whether it is still valid or not.
+   *
+   * The token row is locked in a transaction and read again first, so concurrent attempts
+   * cannot use the same token twice.
+   *
+   * @param token The plain token.
+   * @param type The expected token purpose.
+   * @returns The user the token belongs to, or `null` if the token is invalid or expired.
+   */
+  public static async consume(
+    token: string,
+    type: AuthTokenType
+  ): Promise<Row | null> {
+    if (!isStr(token)) return null;
+
+    const { pool } = config().loadSync().auth;
+    const digest = Auth.digest(token);
+
+    return Builder.transaction(async () => {
+      await Auth.tokens()
+        .where((col) => col('token').equal(digest))
+        .update({ token: digest });
+
+      const row = await Auth.tokens()
+        .where((col) => col('token').equal(digest))
+        .first();
+
+      if (!isObj(row) || row.type !== type) return null;
+
+      await Auth.tokens()
+        .where((col) => col('id').equal(row.id))
+        .delete();
+
+      if (Number(row.expires_at) <= Date.now()) return null;
+
+      return (await Auth.users().find().one(row.user_id)) || null;
+    }, pool);
+  }
+
+  /**
+   * Deletes the tokens of a user, of the given purpose.
+   *
+   * @param user The user row.
+   * @param type The token purpose.
+   */
+  public static async revoke(user: Row, type: AuthTokenType): Promise<void> {
+    await Auth.tokens()
+      .where((col) =>
+        col('user_id').equal(user.id).and().col('type').equal(type)
+      )
+      .delete();
+  }
+
+  /**
+   * Logs a user in: the session moves to a new ID and holds the user ID.
+   *
+   * @param req The request, with a session.
+   * @param res The response.
+   * @param user The user row.
+   * @param remember Whether to set a remember me cookie, keeping the user logged in across sessions.
+   * @throws `AuthError` if the `session` middleware did not run.
+   */
+  public static async login(
+    req: Request,
+    res: Response,
+    user: Row,
+    remember = false
+  ): Promise<void> {
+    if (!req.session) {
+      throw new AuthError('Auth requires the session middleware');
+    }
+
+    await req.session.regenerate();
+    req.session.set(AUTH_SESSION_KEY, user.id);
+    req.user = user;
+
+    await Audit.event('auth.login', { remember }, user);
+
+    if (!remember) return;
+
+    const { cookie, remember: ttl } = config().loadSync().auth;
+    const token = await Auth.issue(user, 'remember', ttl);
+    const options = { ...res.cookie().options(cookie) };
+
+    // The cookie expires with the token, unless configured otherwise
+    if (!isObj(config().loadSync().cookies?.[cookie])) {
+      delete options.expires;
+      options.maxAge = ttl;
+    }
+
+    res.cookie().add(res.cookie().get(cookie, token, options));
+  }
+
+  /**
+   * Logs the current user out, deleting the remember me token and the two-factor cookie if any.
+   *
+   * The session moves to a new ID and keeps its other values (e.g., flash messages).
+   *
+   * @param req The request, with a session.
+   * @param res The response.
+   * @throws `AuthError` if the `session` middleware did not run.
+   */
+  public static async logout(req: Request, res: Response): Promise<void> {
+    if (!req.session) {
+      throw new AuthError('Auth requires the session middleware');
+    }
+
+    const { cookie } = config().loadSync().auth;
+    const token = req.cookies?.[cookie];
+
+    if (isStr(token)) {
+      await Auth.tokens()
+        .where((col) => col('token').equal(Auth.digest(token)))
+        .delete();
+
+      res.cookie().forget(cookie);
+    }
+
+    // The second factor is verified again on the next login
+    const twoFactor = config().loadSync().twoFactor?.cookie;
+    if (isStr(twoFactor) && isStr(req.signedCookies?.[twoFactor])) {
+      res.cookie().forget(twoFactor);
+    }
+
+    if (req.user) await Audit.event('auth.logout', undefined, req.user);
+
+    req.session.forget(AUTH_SESSION_KEY);
+    await req.session.regenerate();
+    req.user = null;
+  }
+
+  /**
+   * Loads the user of the request from the session, or from the remember me cookie.
+   *
+   * Remember me tokens are single use: a new one is issued each time the user is
+   * logged back in, so stolen cookies stop working once the user comes back.
+   *
+   * @param req The request, with a session.
+   * @param res The response.
+   * @returns The user row, or `null` for guests.
+   * @throws `AuthError` if the `session` middleware did not run.
+   */
+  public static async user(req: Request, res: Response): Promise<Row | null> {
+    if (!req.session) {
+      throw new AuthError('Auth requires the session middleware');
+    }
+
+    const id = req.session.get(AUTH_SESSION_KEY);
+
+    if (id !== null) {
+      const user = await Auth.users().find().one(id);
+      if (isObj(user)) return user;
+
+      // The user is gone
+      req.session.forget(AUTH_SESSION_KEY);
+    }
+
+    const { cookie } = config().loadSync().auth;
+    const token = req.cookies?.[cookie];
+
+    if (!isStr(token)) return null;
+
+    const user = await Auth.consume(token, 'remember');
+
+    if (!user) {
+      res.cookie().forget(cookie);
+      return null;
+    }
+
+    await Auth.login(req, res, user, true);
+    return user;
+  }
+}
@@ -0,0 +1,308 @@
+import { isStr } from '../../helpers';
+import { UTC } from '../../helpers/UTC';
+import { Audit } from './Audit';
+import { Auth, AUTH_SESSION_KEY, INTENDED_SESSION_KEY } from './Auth';
+import { Row } from './Driver';
+import { Service } from './Service';
+import { Validator } from './Validator';
+
+/**
+ * A base service handling registration, login, logout, email verification and password resets.
+ *
+ * Extend it, register your routes, and call the protected helpers from their handlers.
+ * Input is checked with the service `Validator`, and outcomes are flashed, so handlers
+ * only decide where to go next. Override `sendVerification()` and `sendReset()` to email the tokens.
+ *
+ * @example
+ * class Account extends AuthService {
+ *   constructor(req: Request, res: Response) {
+ *     super(req, res);
+ *     this.post('/login', guest, () => this.signIn());
+ *     this.post('/logout', auth, () => this.signOut());
+ *   }
+ *
+ *   private async signIn() {
+ *     if (!(await this.login())) return this.redirect().back().send();
+ *     return this.redirect(this.intended()).send();
+ *   }
+ *
+ *   private async signOut() {
+ *     await this.logout();
+ *     return this.redirect('/').send();
+ *   }
+ *
+ *   protected async sendVerification(user: Row, token: string) {
+ *     await mailer.send(user.email, `${this.request.base}/verify?token=${token}`);
+ *   }
+ * }
+ */
+export class AuthService extends Service {
+  /**
+   * Returns the logged in user, loaded by the `user`, `auth` or `guest` middlewares.
+   *
+   * @returns The user row, or `null` for guests.
+   */
+  protected user(): Row | null {
+    return this.request.user ?? null;
+  }
+
+  /**
+   * Returns the URL a guest asked for before being sent to login, and forgets it.
+   *
+   * @param fallback - The URL to use if there is none. Defaults to the `auth.home` path.
+   * @returns The URL to redirect to.
+   */
+  protected intended(fallback?: string): string {
+    if (!isStr(fallback)) fallback = this.config.auth.home;
+
+    const url = this.request.session?.pull(INTENDED_SESSION_KEY, null);
+    return isStr(url) && url.startsWith('/') && !url.startsWith('//')
+      ? url
+      : fallback;
+  }
+
+  /**
+   * Registers a user from the `email`, `password` and `confirm` fields, and logs them in.
+   *
+   * A verification token is issued and passed to `sendVerification()`.
+   *
+   * @param row - Extra columns to insert (e.g., a `name` you validated yourself).
+   * @returns The new user row, or `null` if the input is invalid or the email is taken.
+   */
+  protected async register(row: Row = {}): Promise<Row | null> {
+    const validator = await this.check((v) => {
+      v.field('email', 'Email').required().email();
+      v.field('password', 'Password').required().min(8).max(64);
+      v.field('confirm', 'Password confirmation')
+        .required()
+        .match('password', 'Passwords do not match.');
+    });
+
+    if (!validator) return null;
+
+    const email = validator.get<string>('email').trim().toLowerCase();
+    const users = Auth.users();
+
+    if (await users.find().oneBy('email', email)) {
+      this.flash('This email is already registered.');
+      return null;
+    }
+
+    const id = await users.insert({
+      ...row,
+      email,
+      password: await Auth.hash(validator.get('password')),
+      verified_at: null,
+      created_at: UTC.get.datetime(),
+    });
+
+    const user = await users.find().one(id);
+    const token = await Auth.issue(user, 'verify', this.config.auth.verify);
+
+    await this.sendVerification(user, token);
+    await Auth.login(this.request, this.response, user);
+
+    this.flash('Your account has been created, check your email.', 'success');
+    return user;
+  }
+
+  /**
+   * Logs a user in from the `email` and `password` fields.
+   *
+   * A truthy `remember` field keeps the user logged in across sessions.
+   *
+   * @returns The user row, or `null` if the input or the credentials are invalid.
+   */
+  protected async login(): Promise<Row | null> {
+    const validator = await this.check((v) => {
+      v.field('email', 'Email').required().email();
+      v.field('password', 'Password').required().max(64);
+      v.field('remember');
+    });
+
+    if (!validator) return null;
+
+    const email = validator.get<string>('email').trim().toLowerCase();
+    const password = validator.get<string>('password');
+    const user = await Auth.users().find().oneBy('email', email);
+
+    // Hash anyway, so response times do not reveal which emails are registered
+    if (!user) await Auth.hash(password);
+
+    if (!user || !(await Auth.verify(password, user.password as string))) {
+      await Audit.event('auth.failed', { email });
+      this.flash('These credentials do not match our records.');
+      return null;
+    }
+
+    const remember = validator.get().asBoolean('remember') === true;
+    await Auth.login(this.request, this.response, user, remember);
+
+    return user;
+  }
+
+  /**
+   * Logs the current user out.
+   */
+  protected async logout(): Promise<void> {
+    await Auth.logout(this.request, this.response);
+    this.flash('You have been logged out.', 'success');
+  }
+
+  /**
+   * Marks the email of the token owner as verified.
+   *
+   * @param token - The verification token, usually from the link query string.
+   * @returns `true` if the email is verified, `false` if the token is invalid or expired.
+   */
+  protected async verify(token: string): Promise<boolean> {
+    const user = await Auth.consume(token, 'verify');
+
+    if (!user) {
+      this.flash('This verification link is invalid or has expired.');
+      return false;
+    }
+
+    const verified_at = UTC.get.datetime();
+
+    await Auth.users()
+      .where((col) => col('id').equal(user.id))
+      .update({ verified_at });
+
+    if (this.request.user && this.request.user.id === user.id) {
+      this.request.user.verified_at = verified_at;
+    }
+
+    this.flash('Your email has been verified.', 'success');
+    return true;
+  }
+
+  /**
+   * Sends a new verification token to the logged in user, if not verified yet.
+   *
+   * @returns `true` if a token was sent.
+   */
+  protected async resend(): Promise<boolean> {
+    const user = this.user();
+    if (!user || user.verified_at) return false;
+
+    await Auth.revoke(user, 'verify');
+    const token = await Auth.issue(user, 'verify', this.config.auth.verify);
+    await this.sendVerification(user, token);
+
+    this.flash('A new verification link has been sent.', 'info');
+    return true;
+  }
+
+  /**
+   * Issues a password reset token for the `email` field, passed to `sendReset()`.
+   *
+   * The same message is flashed whether the email is registered or not.
+   *
+   * @returns `true` if the input is valid, `false` otherwise.
+   */
+  protected async forgot(): Promise<boolean> {
+    const validator = await this.check((v) => {
+      v.field('email', 'Email').required().email();
+    });
+
+    if (!validator) return false;
+
+    const email = validator.get<string>('email').trim().toLowerCase();
+    const user = await Auth.users().find().oneBy('email', email);
+
+    if (user) {
+      await Auth.revoke(user, 'reset');
+      const token = await Auth.issue(user, 'reset', this.config.auth.reset);
+      await this.sendReset(user, token);
+      await Audit.event('auth.forgot', { email }, user);
+    }
+
+    this.flash(
+      'If this email is registered, a reset link is on its way.',
+      'info'
+    );
+    return true;
+  }
+
+  /**
+   * Sets a new password from the `password` and `confirm` fields, using a reset token.
+   *
+   * Remember me tokens of the user are revoked and, if logged in, the user is logged out,
+   * so every device has to log in with the new password.
+   *
+   * @param token - The reset token, usually from the link query string.
+   * @returns `true` if the password is reset, `false` otherwise.
+   */
+  protected async reset(token: string): Promise<boolean> {
+    const validator = await this.check((v) => {
+      v.field('password', 'Password').required().min(8).max(64);
+      v.field('confirm', 'Password confirmation')
+        .required()
+        .match('password', 'Passwords do not match.');
+    });
+
+    if (!validator) return false;
+
+    const user = await Auth.consume(token, 'reset');
+
+    if (!user) {
+      this.flash('This reset link is invalid or has expired.');
+      return false;
+    }
+
+    await Auth.users()
+      .where((col) => col('id').equal(user.id))
+      .update({ password: await Auth.hash(validator.get('password')) });
+
+    await Auth.revoke(user, 'remember');
+    await Audit.event('auth.reset', undefined, user);
+
+    if (this.request.session?.has(AUTH_SESSION_KEY)) {
+      await Auth.logout(this.request, this.response);
+    }
+
+    this.flash('Your password has been reset, you can now log in.', 'success');
+    return true;
+  }
+
+  /**
+   * Sends the email verification token to the user.
+   *
+   * Does nothing by default, override it to email a link holding the token.
+   *
+   * @param user - The user row.
+   * @param token - The plain verification token.
+   */
+  protected async sendVerification(user: Row, token: string): Promise<void> {}
+
+  /**
+   * Sends the password reset token to the user.
+   *
+   * Does nothing by default, override it to email a link holding the token.
+   *
+   * @param user - The user row.
+   * @param token - The plain reset token.
+   */
+  protected async sendReset(user: Row, token: string): Promise<void> {}
+
+  /**
+   * Validates the request body, flashing the first error on failure.
+   *
+   * @param setup - Function registering the fields on the validator.
+   * @returns The validator, or `null` if the input is invalid.
+   */
+  private async check(
+    setup: (v: Validator) => void
+  ): Promise<Validator | null> {
+    const validator = this.validator(setup);
+    await validator.validate();
+
+    if (validator.fail()) {
+      this.flash(validator.get().firstError());
+      return null;
+    }
+
+    return validator;
+  }
+}
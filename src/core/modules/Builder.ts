@@ -1,4 +1,5 @@
-import { isFunc, isPoolCon, isStr } from '../../helpers';
+import { AsyncLocalStorage } from 'async_hooks';
+import { isFunc, isInt, isObj, isPoolCon, isStr } from '../../helpers';
 import { QueryError } from '../../errors';
 
 import { Insert } from '../sql/Insert';
@@ -9,7 +10,83 @@ import { Delete } from '../sql/Delete';
 import { PoolConnection } from './Pool';
 import { QueryResult, Row, Rows } from './Driver';
 import { Upsert } from '../sql/Upsert';
+import { Write } from '../sql/Query';
 import { config } from '../../config';
+import { Audit } from './Audit';
+import { Intent } from './Cluster';
+import { currentRequest } from './Request';
+
+/**
+ * The pools each request wrote to, so it keeps reading its own writes.
+ */
+const writes: WeakMap<object, Set<string>> = new WeakMap();
+
+/**
+ * The pool each connection was requested from, so its writes are routed too.
+ */
+const origins: WeakMap<PoolConnection, string> = new WeakMap();
+
+/**
+ * Observes the writes of builders: their pool becomes sticky for the current
+ * request, then the write goes through `Audit`.
+ *
+ * @param connection - The connection of the write.
+ * @param write - The write.
+ * @param exec - Runs the write.
+ * @returns The result of the write.
+ */
+function observe(
+  connection: PoolConnection,
+  write: Write,
+  exec: () => Promise<any>
+): Promise<any> {
+  const pool = origins.get(connection);
+  if (pool) Builder.route(pool, 'write');
+
+  return Audit.observe(connection, write, exec);
+}
+
+/**
+ * Options for `Builder.transaction()`.
+ */
+export interface TransactionOptions {
+  /**
+   * How many times to retry the transaction when it fails on a deadlock or
+   * serialization error. Only applies to outermost transactions. Defaults to 0.
+   */
+  retries?: number;
+}
+
+/**
+ * An active transaction: its builder, how many savepoints deep it is,
+ * and the nested transactions waiting for their turn.
+ */
+interface Transaction {
+  builder: Builder;
+  depth: number;
+  queue: Promise<unknown>;
+}
+
+/**
+ * Holds the active transactions of the current async context, by pool name.
+ */
+const transactions = new AsyncLocalStorage<Map<string, Transaction>>();
+
+/**
+ * Checks if an error is a deadlock or serialization failure, which succeed
+ * once the transaction is retried.
+ *
+ * @param error - The error.
+ * @returns `true` if the transaction can be retried.
+ */
+function retryable(error: unknown): boolean {
+  return (
+    error instanceof Error &&
+    /deadlock|could not serialize access|lock wait timeout|database is locked/i.test(
+      error.message
+    )
+  );
+}
 
 /**
  * A Simple Yet Powerful Query Builder
@@ -18,6 +95,9 @@ import { config } from '../../config';
  * - `Parameterized Queries`: Safely handle dynamic values to prevent SQL injection.
  * - `Flexible Query Builders`: Separate builders for `SELECT`, `INSERT`, `UPDATE`, and `DELETE`.
  * - `Error Validation`: Catch invalid inputs early to avoid runtime issues.
+ * - `Audit Trail`: Writes go through `Audit`, which records them once `audit.enabled` is set.
+ * - `Read Replicas`: Reads may be served by replica pools, writes by their writer pool.
+ * - `Transactions`: Nest with savepoints, and cover every query of the pool they run in.
  */
 export class Builder {
   /**
@@ -105,7 +185,7 @@ export class Builder {
       | Row
       | Rows
   >(): Insert<T> {
-    return new Insert<T>(this.connection);
+    return new Insert<T>(this.connection).observe(observe);
   }
 
   /**
@@ -121,7 +201,7 @@ export class Builder {
       | Row
       | Rows
   >(): Upsert<T> {
-    return new Upsert<T>(this.connection);
+    return new Upsert<T>(this.connection).observe(observe);
   }
 
   /**
@@ -140,7 +220,7 @@ export class Builder {
    * @returns An instance of the `Update` builder.
    */
   public update(): Update {
-    return new Update(this.connection);
+    return new Update(this.connection).observe(observe);
   }
 
   /**
@@ -149,7 +229,7 @@ export class Builder {
    * @returns An instance of the `Delete` builder.
    */
   public delete(): Delete {
-    return new Delete(this.connection);
+    return new Delete(this.connection).observe(observe);
   }
 
   /**
@@ -161,37 +241,31 @@ export class Builder {
    * Internally, if you provide a Builder, it will reuse it without releasing the connection (for advanced use).
    * But normally, you just use this to avoid ever forgetting to release connections.
    *
+   * Within `Builder.transaction()`, the transaction builder of the pool is used,
+   * so queries run in the transaction without passing its builder around.
+   *
    * @template T
    * @param callback - Function that gets a Builder instance to run queries.
    * @param pool - Optional pool name to get connections from.
    * @param builder - Internal: optional existing Builder (connection not released automatically).
+   * @param intent - Optional `read` or `write`, to route the connection to a replica or writer pool.
    * @returns Result from the callback.
    */
   public static async require<T>(
     callback: (builder: Builder) => Promise<T> | T,
     pool?: string,
-    builder?: Builder
+    builder?: Builder,
+    intent?: Intent
   ): Promise<T> {
     if (!isFunc(callback)) {
       throw new QueryError('Invalid callback function');
     }
 
-    let release = true;
-    let connection: PoolConnection;
-
-    if (builder instanceof Builder) {
-      connection = builder.get.connection();
-      release = false;
-    } else {
-      const app = config().loadSync();
-      if (!isStr(pool)) pool = app.default;
-
-      connection = await app.cluster.request(pool);
-      builder = new Builder(connection);
-    }
+    const acquired = await Builder.acquire(pool, builder, intent);
+    const { connection, release } = acquired;
 
     try {
-      const result = await callback(builder);
+      const result = await callback(acquired.builder);
       release && connection.release();
       return result;
     } catch (error) {
@@ -199,4 +273,214 @@ export class Builder {
       throw error;
     }
   }
+
+  /**
+   * Streams rows from a connection held for as long as the iteration runs.
+   *
+   * Works like `Builder.require()`, except the callback returns an async iterable,
+   * and the connection is released once the iteration ends, even if it stops early.
+   *
+   * @template T
+   * @param callback - Function that gets a Builder instance and returns the iterable to stream.
+   * @param pool - Optional pool name to get connections from.
+   * @param builder - Internal: optional existing Builder (connection not released automatically).
+   * @param intent - Optional `read` or `write`, to route the connection to a replica or writer pool.
+   * @returns An async generator yielding the values of the iterable.
+   *
+   * @example
+   * const chunks = Builder.stream((builder) => {
+   *   return builder.select().from('users').stream(500);
+   * });
+   *
+   * for await (const users of chunks) await write(users);
+   */
+  public static async *stream<T>(
+    callback: (builder: Builder) => AsyncIterable<T>,
+    pool?: string,
+    builder?: Builder,
+    intent?: Intent
+  ): AsyncGenerator<T> {
+    if (!isFunc(callback)) {
+      throw new QueryError('Invalid callback function');
+    }
+
+    const acquired = await Builder.acquire(pool, builder, intent);
+    const { connection, release } = acquired;
+
+    try {
+      yield* callback(acquired.builder);
+    } finally {
+      release && connection.release();
+    }
+  }
+
+  /**
+   * Acquires the connection for `Builder.require()` and `Builder.stream()`.
+   *
+   * @param pool - Optional pool name to get connections from.
+   * @param builder - Optional existing Builder to reuse the connection of.
+   * @param intent - Optional `read` or `write` intent.
+   * @returns The builder, its connection, and whether to release it after use.
+   */
+  private static async acquire(
+    pool?: string,
+    builder?: Builder,
+    intent?: Intent
+  ): Promise<{
+    builder: Builder;
+    connection: PoolConnection;
+    release: boolean;
+  }> {
+    if (builder instanceof Builder) {
+      return { builder, connection: builder.get.connection(), release: false };
+    }
+
+    const app = config().loadSync();
+    if (!isStr(pool)) pool = app.default;
+
+    const transaction = transactions.getStore()?.get(pool);
+
+    if (transaction) {
+      builder = transaction.builder;
+      return { builder, connection: builder.get.connection(), release: false };
+    }
+
+    const connection = await app.cluster.request(
+      pool,
+      Builder.route(pool, intent)
+    );
+
+    origins.set(connection, pool);
+
+    return { builder: new Builder(connection), connection, release: true };
+  }
+
+  /**
+   * Resolves the intent of a connection request made within an HTTP request.
+   *
+   * Once a request writes to a pool, its later reads from that pool go to the
+   * writer as well, so it never reads stale data from a lagging replica.
+   * Writes made through the builders of `Builder.require()` count too.
+   *
+   * @param pool - The pool name.
+   * @param intent - The intent of the connection request.
+   * @returns The intent to request the connection with.
+   */
+  public static route(pool: string, intent?: Intent): Intent | undefined {
+    const req = currentRequest();
+    if (!req || !intent) return intent;
+
+    if (!writes.has(req)) writes.set(req, new Set());
+
+    const pools = writes.get(req);
+    if (intent === 'write') pools.add(pool);
+
+    return pools.has(pool) ? 'write' : intent;
+  }
+
+  /**
+   * Runs a callback in a transaction, committed once the callback resolves and
+   * rolled back if it throws.
+   *
+   * Every `Builder.require()` call for the same pool made while the callback
+   * runs (including the ones made by `Table`, `Fetcher` and `Model`) uses the
+   * transaction connection.
+   *
+   * Transactions started within a transaction of the same pool are nested with
+   * savepoints: they roll back their own queries only. Savepoints of a connection
+   * cannot interleave, so nested transactions started side by side (e.g., with
+   * `Promise.all()`) run one after the other.
+   *
+   * @example
+   * await Builder.transaction(async (builder) => {
+   *   await Table.request('orders').insert(order);
+   *
+   *   // Failed payments keep the order
+   *   await Builder.transaction(() => pay(order)).catch(() => null);
+   * });
+   *
+   * @param callback - Function receiving the transaction builder.
+   * @param pool - Optional pool name. Defaults to the default pool.
+   * @param options - Optional transaction options.
+   * @returns The result of the callback.
+   * @throws `QueryError` if the callback or options are invalid.
+   * @throws Any error thrown by the callback, once rolled back.
+   */
+  public static async transaction<T>(
+    callback: (builder: Builder) => Promise<T> | T,
+    pool?: string,
+    options: TransactionOptions = {}
+  ): Promise<T> {
+    if (!isFunc(callback)) {
+      throw new QueryError('Invalid transaction handler');
+    }
+
+    if (
+      !isObj(options) ||
+      (options.retries !== undefined &&
+        (!isInt(options.retries) || options.retries < 0))
+    ) {
+      throw new QueryError(`Invalid transaction options: ${String(options)}`);
+    }
+
+    const app = config().loadSync();
+    if (!isStr(pool)) pool = app.default;
+
+    const store = transactions.getStore();
+    const active = store?.get(pool);
+
+    if (active) {
+      const builder = active.builder;
+      const depth = active.depth + 1;
+      const savepoint = `bnjsx_savepoint_${depth}`;
+      const queue = Promise.resolve();
+      const scope = new Map(store).set(pool, { builder, depth, queue });
+
+      // Siblings share the savepoint name, and wait for each other
+      const run = active.queue.then(async () => {
+        await builder.raw(`SAVEPOINT ${savepoint}`);
+
+        try {
+          const result = await transactions.run(scope, () => callback(builder));
+          await builder.raw(`RELEASE SAVEPOINT ${savepoint}`);
+          return result;
+        } catch (error) {
+          await builder.raw(`ROLLBACK TO SAVEPOINT ${savepoint}`);
+          await builder.raw(`RELEASE SAVEPOINT ${savepoint}`);
+          throw error;
+        }
+      });
+
+      active.queue = run.catch(() => null);
+      return run;
+    }
+
+    const retries = options.retries || 0;
+
+    for (let attempt = 0; ; attempt++) {
+      const connection = await app.cluster.request(
+        pool,
+        Builder.route(pool, 'write')
+      );
+
+      const builder = new Builder(connection);
+      const queue = Promise.resolve();
+      const scope = new Map(store).set(pool, { builder, depth: 0, queue });
+
+      try {
+        await connection.beginTransaction();
+        const result = await transactions.run(scope, () => callback(builder));
+
+        await connection.commit();
+        connection.release();
+        return result;
+      } catch (error) {
+        await connection.rollback();
+        connection.release();
+
+        if (attempt < retries && retryable(error)) continue;
+        throw error;
+      }
+    }
+  }
 }
@@ -25,6 +25,9 @@ import {
   isBool,
   isChildOf,
   isEmptyArr,
+  isInt,
+  isMySQL,
+  isPostgreSQL,
   isRegex,
   isStr,
   isUndefined,
@@ -133,6 +136,15 @@ interface Checker {
    * @throws `ClusterError` if the name is invalid.
    */
   active(name?: string | RegExp): boolean;
+
+  /**
+   * Checks if a replica pool was set aside for lagging, optionally by name or pattern.
+   *
+   * @param name - The name or pattern of the replica pool to check.
+   * @returns True if a matching lagging pool exists, otherwise false.
+   * @throws `ClusterError` if the name is invalid.
+   */
+  lagging(name?: string | RegExp): boolean;
 }
 
 /**
@@ -154,6 +166,13 @@ interface Getter {
    */
   logger(): Logger;
 
+  /**
+   * Retrieves the replication lag, in seconds, above which replicas are set aside.
+   *
+   * @returns The maximum replication lag.
+   */
+  lag(): number;
+
   /**
    * Retrieves the registered warnings in the cluster.
    *
@@ -178,17 +197,29 @@ interface Getter {
      * @returns An array of active pools.
      */
     active(): Array<ClusterPool>;
+
+    /**
+     * Retrieves the list of active replica pools set aside for lagging.
+     *
+     * @returns An array of lagging pools.
+     */
+    lagging(): Array<ClusterPool>;
   };
 
   /**
    * Retrieves a pool by name or returns a pool based on the current mode if no name is provided.
    *
+   * Names resolve to writer pools (pools that are not replicas), unless they only
+   * match replicas. With the `read` intent, one of the healthy replicas of the
+   * resolved pool is returned instead, if it has any.
+   *
    * @param name - The name or pattern to match a pool.
+   * @param intent - Whether the connection is used to `read` or `write`.
    * @returns The matched pool, or a pool selected based on the mode.
    * @throws Throws an error if no pool is found or the name is invalid.
    * @note The RANDOM_MODE is the default selection mode
    */
-  pool(name?: string | RegExp): ClusterPool;
+  pool(name?: string | RegExp, intent?: Intent): ClusterPool;
 
   /**
    * Retrieves detailed information about the cluster, including pool statistics and warnings.
@@ -229,6 +260,14 @@ interface Setter {
    */
   logger(instance: Logger): void;
 
+  /**
+   * Sets the replication lag, in seconds, above which replicas are set aside.
+   *
+   * @param seconds - The maximum replication lag.
+   * @throws an error if the provided lag is not a positive integer.
+   */
+  lag(seconds: number): void;
+
   /**
    * Register warnings in the cluster.
    *
@@ -238,6 +277,12 @@ interface Setter {
   warnings(messages: Array<string> | string): void;
 }
 
+/**
+ * What a connection is requested for: reads may be served by replicas,
+ * writes are always served by writer pools.
+ */
+export type Intent = 'read' | 'write';
+
 /**
  * Symbol representing the order mode in a cluster.
  */
@@ -335,6 +380,21 @@ export class Cluster {
    */
   private frozen: Array<ClusterPool>;
 
+  /**
+   * An array containing active replica pools set aside for lagging.
+   */
+  private lagging: Array<ClusterPool>;
+
+  /**
+   * The replication lag, in seconds, above which replicas are set aside.
+   */
+  private lag: number = 5;
+
+  /**
+   * The timer running replica health checks.
+   */
+  private monitoring: NodeJS.Timeout;
+
   /**
    * Constructs a new Cluster instance with an array of pools.
    * Providing pools is optional; you can always add a pool at runtime using the `cluster.add()` method.
@@ -346,6 +406,7 @@ export class Cluster {
     this.warnings = new Array();
     this.pools = new Array();
     this.frozen = new Array();
+    this.lagging = new Array();
     this.PendingConnections = new Array();
     this.createdAt = UTC.get.datetime();
 
@@ -373,60 +434,192 @@ export class Cluster {
       throw new ClusterError(`Pool names must be unique: ${pool.name}`);
     }
 
-    const log = (message: string) => {
-      if (this.has.logger()) {
-        this.logger.log(message).catch((error) => {
-          this.warnings.push(`Failed to write log: ${error.message}`);
-        });
-      }
-
-      this.warnings.push(message);
-    };
-
     pool.on(CLOSE_FAIL, (connection: PendingConnection) => {
       this.PendingConnections.push(connection);
-      log(`Closing connection failed in: ${pool.name}`);
+      this.log(`Closing connection failed in: ${pool.name}`);
     });
 
     pool.on(CREATE_FAIL, () => {
-      log(`Creating connection failed in: ${pool.name}`);
+      this.log(`Creating connection failed in: ${pool.name}`);
     });
 
     pool.on(MAX_CONNECTION, () => {
-      log(`Max number of connections passed in: ${pool.name}`);
+      this.log(`Max number of connections passed in: ${pool.name}`);
     });
 
     pool.on(MAX_QUEUE_TIME, () => {
-      log(`Max request queue time passed in: ${pool.name}`);
+      this.log(`Max request queue time passed in: ${pool.name}`);
     });
 
     pool.on(MAX_QUEUE_SIZE, () => {
-      log(`Max request queue size passed in: ${pool.name}`);
+      this.log(`Max request queue size passed in: ${pool.name}`);
     });
 
     pool.on(COMMIT_FAIL, () => {
-      log(`Commit transaction failed in: ${pool.name}`);
+      this.log(`Commit transaction failed in: ${pool.name}`);
     });
 
     pool.on(QUERY_FAIL, () => {
-      log(`Query execution failed in: ${pool.name}`);
+      this.log(`Query execution failed in: ${pool.name}`);
     });
 
     pool.on(ROLLBACK_FAIL, () => {
-      log(`Rollback failed in: ${pool.name}`);
+      this.log(`Rollback failed in: ${pool.name}`);
     });
 
     pool.on(SHUTDOWN_FAIL, () => {
-      log(`Shutdown failed in: ${pool.name}`);
+      this.log(`Shutdown failed in: ${pool.name}`);
     });
 
     pool.on(TRANSACTION_FAIL, () => {
-      log(`Transaction failed in: ${pool.name}`);
+      this.log(`Transaction failed in: ${pool.name}`);
     });
 
     this.pools.push(pool);
   }
 
+  /**
+   * Logs a message with the cluster logger, and registers it as a warning.
+   *
+   * @param message - The message.
+   */
+  private log(message: string): void {
+    if (this.has.logger()) {
+      this.logger.log(message).catch((error) => {
+        this.warnings.push(`Failed to write log: ${error.message}`);
+      });
+    }
+
+    this.warnings.push(message);
+  }
+
+  /**
+   * Picks one of the given pools based on the current mode.
+   *
+   * In `ORDER_MODE`, the picked pool is moved to the end of the active pools.
+   *
+   * @param pools - The candidate pools.
+   * @returns The picked pool.
+   */
+  private pick(pools: Array<ClusterPool>): ClusterPool {
+    if (pools.length === 1) return pools[0];
+
+    if (this.mode === RANDOM_MODE) {
+      const index = randomBetween(0, pools.length - 1);
+      return pools[index];
+    }
+
+    const $pool = pools.shift();
+
+    this.pools = this.pools.filter((pool) => $pool.name !== pool.name);
+    this.pools.push($pool);
+
+    return $pool;
+  }
+
+  /**
+   * Measures the replication lag of a replica pool.
+   *
+   * MySQL replicas report it in `SHOW REPLICA STATUS` (`SHOW SLAVE STATUS`
+   * before MySQL 8.0.22), PostgreSQL standbys through their last replayed
+   * transaction. Other drivers have no lag.
+   *
+   * @param pool - The replica pool.
+   * @returns The lag in seconds, `Infinity` if replication is stopped.
+   */
+  private measure(pool: ClusterPool): Promise<number> {
+    return pool.request().then((connection) => {
+      const driver = pool.get.driver();
+      let lag: Promise<number> = Promise.resolve(0);
+
+      if (isMySQL(driver)) {
+        lag = connection
+          .query('SHOW REPLICA STATUS')
+          .catch(() => connection.query('SHOW SLAVE STATUS'))
+          .then((rows) => {
+            if (!isArr(rows) || isEmptyArr(rows)) return 0;
+
+            const seconds =
+              rows[0].Seconds_Behind_Source !== undefined
+                ? rows[0].Seconds_Behind_Source
+                : rows[0].Seconds_Behind_Master;
+
+            return seconds === null ? Infinity : Number(seconds);
+          });
+      }
+
+      if (isPostgreSQL(driver)) {
+        lag = connection
+          .query(
+            'SELECT CASE WHEN NOT pg_is_in_recovery() OR ' +
+              'pg_last_wal_receive_lsn() = pg_last_wal_replay_lsn() THEN 0 ' +
+              'ELSE EXTRACT(EPOCH FROM now() - pg_last_xact_replay_timestamp()) ' +
+              'END AS lag'
+          )
+          .then((rows) => Number(rows[0].lag));
+      }
+
+      return lag.finally(() => connection.release());
+    });
+  }
+
+  /**
+   * Checks the replication lag of the active replica pools.
+   *
+   * Replicas lagging more than the maximum lag, or failing the check, are set
+   * aside: reads go to other replicas or to the writer until they catch up.
+   * Failed checks are logged with their error.
+   *
+   * @returns A promise that resolves once all replicas are checked.
+   */
+  public check(): Promise<void> {
+    const replicas = this.pools.filter((pool) => isStr(pool.replicaOf));
+
+    const checks = replicas.map((pool) => {
+      return this.measure(pool)
+        .then((lag) => lag <= this.lag)
+        .catch((error) => {
+          this.log(`Replica check failed in: ${pool.name}: ${error.message}`);
+          return false;
+        })
+        .then((healthy) => {
+          const lagging = this.lagging.includes(pool);
+
+          if (healthy && lagging) {
+            this.lagging = this.lagging.filter((p) => p !== pool);
+            this.log(`Replica caught up in: ${pool.name}`);
+          }
+
+          if (!healthy && !lagging) {
+            this.lagging.push(pool);
+            this.log(`Replica lagging behind in: ${pool.name}`);
+          }
+        });
+    });
+
+    return Promise.all(checks).then(() => undefined);
+  }
+
+  /**
+   * Checks the replicas health periodically.
+   *
+   * @param interval - The interval in milliseconds, `0` to stop monitoring.
+   * @throws `ClusterError` if the interval is not a positive integer.
+   */
+  public monitor(interval: number): void {
+    if (!isInt(interval) || interval < 0) {
+      throw new ClusterError(`Invalid monitor interval: ${String(interval)}`);
+    }
+
+    clearInterval(this.monitoring);
+    this.monitoring = undefined;
+
+    if (interval === 0) return;
+
+    this.monitoring = setInterval(() => this.check(), interval);
+    this.monitoring.unref();
+  }
+
   /**
    * Shutdown and remove one or more pools from the cluster.
    *
@@ -469,6 +662,7 @@ export class Cluster {
         });
 
         this.pools = this.pools.filter((pool) => !resolved.includes(pool));
+        this.lagging = this.lagging.filter((pool) => !resolved.includes(pool));
 
         if (isEmptyArr(rejected)) return resolve();
 
@@ -484,11 +678,15 @@ export class Cluster {
   /**
    * Request a connection from an active pool.
    * @param name Optionally, you can specify the pool(s) to request from.
+   * @param intent Optionally, `read` to request from a replica of the pool.
    * @note You can only request connections from active pools.
    */
-  public request(name?: string | RegExp): Promise<PoolConnection> {
+  public request(
+    name?: string | RegExp,
+    intent?: Intent
+  ): Promise<PoolConnection> {
     return new Promise((resolve, reject) => {
-      return this.get.pool(name).request().then(resolve).catch(reject);
+      return this.get.pool(name, intent).request().then(resolve).catch(reject);
     });
   }
 
@@ -602,10 +800,13 @@ export class Cluster {
       this.remove('*')
         .then(() => this.closePendingConnections(force))
         .then(() => {
+          this.monitor(0);
+
           this.id = null;
           this.warnings = null;
           this.createdAt = null;
           this.pools = null;
+          this.lagging = null;
           this.PendingConnections = null;
           this.logger = null;
           this.mode = null;
@@ -664,6 +865,15 @@ export class Cluster {
 
       return match(toRegex(name), this.pools).length > 0;
     },
+    lagging: (name?: string | RegExp) => {
+      if (isUndefined(name)) return this.lagging.length > 0;
+
+      if (!isStr(name) && !isRegex(name)) {
+        throw new ClusterError(`Invalid pool name: ${name}`);
+      }
+
+      return match(toRegex(name), this.lagging).length > 0;
+    },
   };
 
   /**
@@ -684,6 +894,13 @@ export class Cluster {
 
       this.logger = instance;
     },
+    lag: (seconds: number) => {
+      if (!isInt(seconds) || seconds < 0) {
+        throw new ClusterError(`Invalid replication lag: ${String(seconds)}`);
+      }
+
+      this.lag = seconds;
+    },
     warnings: (messages: string | Array<string>) => {
       if (isStr(messages)) return this.warnings.push(messages as any);
       if (isEmptyArr(messages)) return (this.warnings = []);
@@ -711,46 +928,39 @@ export class Cluster {
     pools: {
       frozen: () => this.frozen,
       active: () => this.pools,
+      lagging: () => this.lagging,
     },
-    pool: (name?: string | RegExp) => {
+    lag: () => this.lag,
+    pool: (name?: string | RegExp, intent?: Intent) => {
       if (isEmptyArr(this.pools)) {
         throw new ClusterError(`No pool found!`);
       }
 
-      if (isUndefined(name)) {
-        if (this.mode === RANDOM_MODE) {
-          const index = randomBetween(0, this.pools.length - 1);
-          return this.pools[index];
-        }
-
-        const pool = this.pools.shift();
-        this.pools.push(pool);
-        return pool;
-      }
-
-      if (!isStr(name) && !isRegex(name)) {
+      if (!isUndefined(name) && !isStr(name) && !isRegex(name)) {
         throw new ClusterError(`Invalid pool name: ${name}`);
       }
 
-      const pools = match(toRegex(name), this.pools);
+      const writers = this.pools.filter((pool) => !isStr(pool.replicaOf));
+      let pools = isUndefined(name) ? writers : match(toRegex(name), writers);
 
-      if (isEmptyArr(pools)) {
-        throw new ClusterError(`No matching pool found: ${name}`);
+      // Replicas can still be requested by name
+      if (isEmptyArr(pools) && !isUndefined(name)) {
+        pools = match(toRegex(name), this.pools);
       }
 
-      if (pools.length === 1) return pools[0];
-
-      if (this.mode === RANDOM_MODE) {
-        const index = randomBetween(0, pools.length - 1);
-        return pools[index];
+      if (isEmptyArr(pools)) {
+        throw new ClusterError(`No matching pool found: ${name}`);
       }
 
-      const $pool = pools.shift();
+      const pool = this.pick(pools);
+      if (intent !== 'read') return pool;
 
-      this.pools = this.pools.filter((pool) => $pool.name !== pool.name);
-      this.pools.push($pool);
+      const replicas = this.pools.filter(
+        (replica) =>
+          replica.replicaOf === pool.name && !this.lagging.includes(replica)
+      );
 
-      return $pool;
+      return isEmptyArr(replicas) ? pool : this.pick(replicas);
     },
     info: (): ClusterMap => {
       return {
@@ -819,21 +1029,41 @@ export class ClusterPool extends Pool {
    */
   public name: string;
 
+  /**
+   * The name of the writer pool this pool replicates, if it is a replica.
+   */
+  public replicaOf?: string;
+
   /**
    * Creates an instance of the ClusterPool.
    *
    * @param name - The name of the connection pool. Must be a valid text string.
    * @param driver - An instance of the Driver to manage database connections.
    * @param options - Optional configuration settings for the pool.
-   * @throws an error if the provided name is not valid text.
+   * @param replicaOf - Optional name of the writer pool, to make this pool one of its read replicas.
+   * @throws an error if the provided name or writer name is not valid text.
    */
-  constructor(name: string, driver: Driver, options?: PoolOptions) {
+  constructor(
+    name: string,
+    driver: Driver,
+    options?: PoolOptions,
+    replicaOf?: string
+  ) {
     super(driver, options);
 
     if (!isStr(name)) {
       throw new ClusterPoolError(`Invalid pool name: ${String(name)}`);
     }
 
+    if (!isUndefined(replicaOf) && !isStr(replicaOf)) {
+      throw new ClusterPoolError(`Invalid writer pool: ${String(replicaOf)}`);
+    }
+
+    if (replicaOf === name) {
+      throw new ClusterPoolError(`A pool cannot replicate itself: ${name}`);
+    }
+
     this.name = name;
+    this.replicaOf = replicaOf;
   }
 }
@@ -74,6 +74,34 @@ export interface Connection {
     values?: Array<string | number | boolean>
   ): Promise<QueryResult>;
 
+  /**
+   * Executes a SELECT query and yields its rows in chunks, without loading the whole result in memory.
+   *
+   * MySQL streams the result set row by row, PostgreSQL fetches from a server-side cursor,
+   * and SQLite keeps the result in a temporary table, read one chunk at a time.
+   *
+   * @param sql - The SELECT query to execute.
+   * @param values - Optional array of values to substitute in the SQL query.
+   * @param size - The number of rows per chunk (default: 1000).
+   *
+   * @returns An async iterable of row chunks.
+   *
+   * @example
+   * const driver = new MySQL(options);
+   * const connection = await driver.create();
+   *
+   * for await (const rows of connection.stream('SELECT * FROM users', [], 500)) {
+   *   console.log(rows.length); // Up to 500 rows
+   * }
+   *
+   * @note Run no other queries on the connection until the iteration ends.
+   */
+  stream(
+    sql: string,
+    values?: Array<string | number | boolean>,
+    size?: number
+  ): AsyncIterable<Rows>;
+
   /**
    * Closes the database connection.
    *
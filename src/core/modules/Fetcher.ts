@@ -1,7 +1,16 @@
 import { QueryError } from '../../errors';
 import { isArr, isFullStr, isFunc, logSQL } from '../../helpers';
 import { Col, Con, Condition, ref } from '../sql/Condition';
-import { ASC, CountOptions, DESC, Pagination, Select } from '../sql/Select';
+import {
+  ASC,
+  CountOptions,
+  CursorPagination,
+  DESC,
+  Pagination,
+  Select,
+  Subquery,
+  Window,
+} from '../sql/Select';
 import { Builder } from './Builder';
 import { Driver, Row, Rows } from './Driver';
 /**
@@ -128,6 +137,18 @@ export class Clause {
     order: [] as OrderClause[],
     debug: false,
     random: false,
+    ctes: [] as Array<{
+      name: string;
+      subquery: Subquery;
+      columns: string[];
+      recursive: boolean;
+    }>,
+    subqueries: [] as Array<{ subquery: Subquery; alias: string }>,
+    windows: [] as Array<{
+      expression: string;
+      alias: string;
+      window?: Window;
+    }>,
   };
 
   constructor(protected driver: Driver) {}
@@ -679,6 +700,20 @@ export class Fetcher extends JoinClause {
   private build(select: Select): Select {
     select.from(this.table).col(...this.state.columns);
 
+    this.state.ctes.forEach((cte) => {
+      const { name, subquery, columns, recursive } = cte;
+      if (recursive) return select.recursive(name, subquery, ...columns);
+      select.cte(name, subquery, ...columns);
+    });
+
+    this.state.subqueries.forEach(({ subquery, alias }) => {
+      select.subquery(subquery, alias);
+    });
+
+    this.state.windows.forEach(({ expression, alias, window }) => {
+      select.over(expression, alias, window);
+    });
+
     if (this.state.distinct) select.distinct();
     if (this.state.random) select.random();
     if (this.state.limit) select.limit(this.state.limit);
@@ -734,6 +769,87 @@ export class Fetcher extends JoinClause {
     return this;
   }
 
+  /**
+   * Add a subquery column, named by the given alias.
+   * @param subquery - Select instance or callback building the subquery.
+   * @param alias - Column name.
+   * @returns The current Fetcher instance.
+   */
+  public subquery(subquery: Subquery, alias: string): this {
+    this.state.subqueries.push({ subquery, alias });
+    return this;
+  }
+
+  /**
+   * Add a window function column (`expression OVER (...)`), named by the given alias.
+   * @param expression - Window function, e.g. `SUM(score)`.
+   * @param alias - Column name.
+   * @param window - Optional PARTITION BY and ORDER BY columns.
+   * @returns The current Fetcher instance.
+   */
+  public over(expression: string, alias: string, window?: Window): this {
+    this.state.windows.push({ expression, alias, window });
+    return this;
+  }
+
+  /**
+   * Add a `ROW_NUMBER()` window function column.
+   * @param alias - Column name.
+   * @param window - Optional PARTITION BY and ORDER BY columns.
+   * @returns The current Fetcher instance.
+   */
+  public rowNumber(alias: string, window?: Window): this {
+    return this.over('ROW_NUMBER()', alias, window);
+  }
+
+  /**
+   * Add a `RANK()` window function column.
+   * @param alias - Column name.
+   * @param window - Optional PARTITION BY and ORDER BY columns.
+   * @returns The current Fetcher instance.
+   */
+  public rank(alias: string, window?: Window): this {
+    return this.over('RANK()', alias, window);
+  }
+
+  /**
+   * Add a `DENSE_RANK()` window function column.
+   * @param alias - Column name.
+   * @param window - Optional PARTITION BY and ORDER BY columns.
+   * @returns The current Fetcher instance.
+   */
+  public denseRank(alias: string, window?: Window): this {
+    return this.over('DENSE_RANK()', alias, window);
+  }
+
+  /**
+   * Add a common table expression (`WITH`) to the query.
+   * @param name - Name of the common table expression.
+   * @param subquery - Select instance or callback building the subquery.
+   * @param columns - Optional column names.
+   * @returns The current Fetcher instance.
+   */
+  public cte(name: string, subquery: Subquery, ...columns: string[]): this {
+    this.state.ctes.push({ name, subquery, columns, recursive: false });
+    return this;
+  }
+
+  /**
+   * Add a recursive common table expression (`WITH RECURSIVE`) to the query.
+   * @param name - Name of the common table expression.
+   * @param subquery - Select instance or callback building the subquery.
+   * @param columns - Optional column names.
+   * @returns The current Fetcher instance.
+   */
+  public recursive(
+    name: string,
+    subquery: Subquery,
+    ...columns: string[]
+  ): this {
+    this.state.ctes.push({ name, subquery, columns, recursive: true });
+    return this;
+  }
+
   /**
    * Limit number of rows returned.
    * @param value - Maximum number of rows.
@@ -799,7 +915,8 @@ export class Fetcher extends JoinClause {
         return query.exec();
       },
       this.pool,
-      this.builder
+      this.builder,
+      'read'
     );
   }
 
@@ -819,7 +936,8 @@ export class Fetcher extends JoinClause {
         return query.first();
       },
       this.pool,
-      this.builder
+      this.builder,
+      'read'
     );
   }
 
@@ -846,7 +964,56 @@ export class Fetcher extends JoinClause {
         return query.paginate(page, items, options);
       },
       this.pool,
-      this.builder
+      this.builder,
+      'read'
+    );
+  }
+
+  /**
+   * Execute the built query with cursor (keyset) pagination.
+   * @param cursor - Optional cursor of the page to fetch, from a previous page.
+   * @param items - Optional items per page.
+   * @returns Promise resolving with the page rows and the next/previous page cursors.
+   */
+  public cursor(
+    cursor?: string | void,
+    items?: number
+  ): Promise<CursorPagination<Row>> {
+    return Builder.require(
+      (builder) => {
+        const query = this.build(builder.select());
+
+        if (this.state.debug) {
+          logSQL(query.get.query(), query.get.values());
+        }
+
+        return query.cursor(cursor, items);
+      },
+      this.pool,
+      this.builder,
+      'read'
+    );
+  }
+
+  /**
+   * Stream the rows matching the query in chunks, holding a connection until the iteration ends.
+   * @param size - Optional number of rows per chunk.
+   * @returns Async generator yielding chunks of rows.
+   */
+  public stream(size?: number): AsyncGenerator<Rows> {
+    return Builder.stream(
+      (builder) => {
+        const query = this.build(builder.select());
+
+        if (this.state.debug) {
+          logSQL(query.get.query(), query.get.values());
+        }
+
+        return query.stream(size);
+      },
+      this.pool,
+      this.builder,
+      'read'
     );
   }
 
@@ -861,7 +1028,64 @@ export class Fetcher extends JoinClause {
     return Builder.require(
       (builder) => this.build(builder.select()).count(options),
       this.pool,
-      this.builder
+      this.builder,
+      'read'
+    );
+  }
+
+  /**
+   * Sum a column over the rows matching the query.
+   * @param column - Column to sum.
+   * @returns Promise resolving with the sum.
+   */
+  public sum(column: string): Promise<number> {
+    return Builder.require(
+      (builder) => this.build(builder.select()).sum(column),
+      this.pool,
+      this.builder,
+      'read'
+    );
+  }
+
+  /**
+   * Average a column over the rows matching the query.
+   * @param column - Column to average.
+   * @returns Promise resolving with the average, or null without rows.
+   */
+  public avg(column: string): Promise<number | null> {
+    return Builder.require(
+      (builder) => this.build(builder.select()).avg(column),
+      this.pool,
+      this.builder,
+      'read'
+    );
+  }
+
+  /**
+   * Get the smallest value of a column over the rows matching the query.
+   * @param column - Column to look up.
+   * @returns Promise resolving with the smallest value, or null without rows.
+   */
+  public min<T = string | number>(column: string): Promise<T | null> {
+    return Builder.require(
+      (builder) => this.build(builder.select()).min<T>(column),
+      this.pool,
+      this.builder,
+      'read'
+    );
+  }
+
+  /**
+   * Get the largest value of a column over the rows matching the query.
+   * @param column - Column to look up.
+   * @returns Promise resolving with the largest value, or null without rows.
+   */
+  public max<T = string | number>(column: string): Promise<T | null> {
+    return Builder.require(
+      (builder) => this.build(builder.select()).max<T>(column),
+      this.pool,
+      this.builder,
+      'read'
     );
   }
 
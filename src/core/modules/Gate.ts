@@ -0,0 +1,463 @@
+import { config } from '../../config';
+import { ForbiddenError } from '../../errors';
+import { isArr, isArrOfStr, isBool, isFunc, isObj, isStr } from '../../helpers';
+import { UTC } from '../../helpers/UTC';
+import { CASCADE } from '../schema/Column';
+import { Row } from './Driver';
+import { Generator } from './Generator';
+import { Seeder } from './Seeder';
+import { Table } from './Table';
+
+/**
+ * Custom error class for authorization-related errors.
+ */
+export class GateError extends Error {}
+
+/**
+ * Decides whether a user can perform an action, optionally on a resource.
+ *
+ * Return `true` or `false` to decide, or nothing to fall back to the role permissions.
+ */
+export type Policy = (
+  user: Row | null,
+  action: string,
+  resource?: Row
+) => boolean | void | Promise<boolean | void>;
+
+/**
+ * The permissions loaded for each user row.
+ */
+const loaded: WeakMap<Row, Array<string>> = new WeakMap();
+
+/**
+ * Checks if a list of permissions includes an action.
+ *
+ * Permissions ending with `.*` cover every action under them (`posts.*` covers `posts.update`),
+ * and `*` covers every action. Registered as the `can` template tool:
+ *
+ * ```html
+ * [if @can($permissions, 'posts.update')]
+ *   <a href="/posts/{{ $post.id }}/edit">Edit</a>
+ * [end]
+ * ```
+ *
+ * @param permissions The permission names, e.g., `req.permissions`.
+ * @param action The action to check, e.g., `posts.update`.
+ * @returns `true` if one of the permissions covers the action.
+ */
+export function can(permissions: Array<string>, action: string): boolean {
+  if (!isArr(permissions) || !isStr(action)) return false;
+
+  return permissions.some((permission) => {
+    if (permission === '*' || permission === action) return true;
+
+    return (
+      isStr(permission) &&
+      permission.endsWith('.*') &&
+      action.startsWith(permission.slice(0, -1))
+    );
+  });
+}
+
+/**
+ * Role and permission based authorization, shared by services and the `permit` middleware.
+ *
+ * Roles and permissions are kept in the `auth.roles` and `auth.permissions` tables
+ * (`roles` and `permissions` by default), both with:
+ * - `id`: the primary key.
+ * - `name`: a unique string column (e.g., `admin`, `posts.update`).
+ *
+ * Users get roles through the `auth.userRoles` table (`role_user`), with `user_id` and `role_id`
+ * columns, and roles get permissions through the `auth.rolePermissions` table (`permission_role`),
+ * with `role_id` and `permission_id` columns.
+ *
+ * The tables can be created with `RolesGenerator`, `PermissionsGenerator`, `UserRolesGenerator`
+ * and `RolePermissionsGenerator`, and filled with `RolesSeeder` and `PermissionsSeeder`.
+ */
+export class Gate {
+  /**
+   * Returns the roles table.
+   */
+  public static roles(): Table {
+    const { roles, pool } = config().loadSync().auth;
+    return Table.request(roles, pool);
+  }
+
+  /**
+   * Returns the permissions table.
+   */
+  public static permissions(): Table {
+    const { permissions, pool } = config().loadSync().auth;
+    return Table.request(permissions, pool);
+  }
+
+  /**
+   * Returns the table linking users to roles.
+   */
+  public static userRoles(): Table {
+    const { userRoles, pool } = config().loadSync().auth;
+    return Table.request(userRoles, pool);
+  }
+
+  /**
+   * Returns the table linking roles to permissions.
+   */
+  public static rolePermissions(): Table {
+    const { rolePermissions, pool } = config().loadSync().auth;
+    return Table.request(rolePermissions, pool);
+  }
+
+  /**
+   * Loads the role names of a user.
+   *
+   * @param user The user row.
+   * @returns The role names.
+   */
+  public static async rolesOf(user: Row): Promise<Array<string>> {
+    if (!isObj(user)) return [];
+
+    const links = await Gate.userRoles()
+      .where((col) => col('user_id').equal(user.id))
+      .all();
+
+    if (links.length === 0) return [];
+
+    const ids = links.map((link) => link.role_id as number);
+    const roles = await Gate.roles()
+      .where((col) => col('id').in(...ids))
+      .all();
+
+    return roles.map((role) => role.name as string);
+  }
+
+  /**
+   * Loads the permission names a user gets from their roles.
+   *
+   * Permissions are loaded once per user row, so checks in the same request share them.
+   *
+   * @param user The user row.
+   * @returns The permission names.
+   */
+  public static async permissionsOf(user: Row): Promise<Array<string>> {
+    if (!isObj(user)) return [];
+    if (loaded.has(user)) return loaded.get(user);
+
+    const names: Array<string> = [];
+    const links = await Gate.userRoles()
+      .where((col) => col('user_id').equal(user.id))
+      .all();
+
+    if (links.length > 0) {
+      const roles = links.map((link) => link.role_id as number);
+      const grants = await Gate.rolePermissions()
+        .where((col) => col('role_id').in(...roles))
+        .all();
+
+      if (grants.length > 0) {
+        const ids = grants.map((grant) => grant.permission_id as number);
+        const permissions = await Gate.permissions()
+          .where((col) => col('id').in(...ids))
+          .all();
+
+        names.push(...permissions.map((row) => row.name as string));
+      }
+    }
+
+    loaded.set(user, names);
+    return names;
+  }
+
+  /**
+   * Checks if a user can perform an action.
+   *
+   * The policy decides first, when given and returning a boolean. Otherwise, guests
+   * are refused and users need a role with a permission covering the action.
+   *
+   * @param user The user row, or `null` for guests.
+   * @param action The action, e.g., `posts.update`.
+   * @param resource The row the action is performed on, if any.
+   * @param policy The policy to consult first, if any.
+   * @returns `true` if the action is allowed.
+   */
+  public static async allows(
+    user: Row | null,
+    action: string,
+    resource?: Row,
+    policy?: Policy
+  ): Promise<boolean> {
+    if (!isStr(action)) throw new GateError('Invalid action');
+
+    if (isFunc(policy)) {
+      const decision = await policy(user ?? null, action, resource);
+      if (isBool(decision)) return decision;
+    }
+
+    if (!isObj(user)) return false;
+
+    return can(await Gate.permissionsOf(user), action);
+  }
+
+  /**
+   * Same as `allows()`, but throws when the action is not allowed.
+   *
+   * @param user The user row, or `null` for guests.
+   * @param action The action, e.g., `posts.update`.
+   * @param resource The row the action is performed on, if any.
+   * @param policy The policy to consult first, if any.
+   * @throws `ForbiddenError` if the action is not allowed.
+   */
+  public static async authorize(
+    user: Row | null,
+    action: string,
+    resource?: Row,
+    policy?: Policy
+  ): Promise<void> {
+    if (await Gate.allows(user, action, resource, policy)) return;
+    throw new ForbiddenError(`Not allowed to '${action}'`);
+  }
+
+  /**
+   * Gives a role to a user, if not given already.
+   *
+   * @param user The user row.
+   * @param role The role name.
+   * @throws `GateError` if the role does not exist.
+   */
+  public static async assign(user: Row, role: string): Promise<void> {
+    const found = await Gate.roles().find().oneBy('name', role);
+    if (!isObj(found)) throw new GateError(`Undefined role: ${String(role)}`);
+
+    const link = await Gate.userRoles()
+      .where((col) =>
+        col('user_id').equal(user.id).and().col('role_id').equal(found.id)
+      )
+      .first();
+
+    if (isObj(link)) return;
+
+    await Gate.userRoles().insert({ user_id: user.id, role_id: found.id });
+    loaded.delete(user);
+  }
+
+  /**
+   * Gives a permission to a role, if not given already.
+   *
+   * @param role The role name.
+   * @param permission The permission name.
+   * @throws `GateError` if the role or the permission does not exist.
+   */
+  public static async grant(role: string, permission: string): Promise<void> {
+    const from = await Gate.roles().find().oneBy('name', role);
+    if (!isObj(from)) throw new GateError(`Undefined role: ${String(role)}`);
+
+    const to = await Gate.permissions().find().oneBy('name', permission);
+    if (!isObj(to)) {
+      throw new GateError(`Undefined permission: ${String(permission)}`);
+    }
+
+    const link = await Gate.rolePermissions()
+      .where((col) =>
+        col('role_id').equal(from.id).and().col('permission_id').equal(to.id)
+      )
+      .first();
+
+    if (isObj(link)) return;
+
+    await Gate.rolePermissions().insert({
+      role_id: from.id,
+      permission_id: to.id,
+    });
+  }
+}
+
+/**
+ * Creates the `auth.roles` table.
+ *
+ * @example
+ * // generators/01_generate_roles_table.ts
+ * export default new RolesGenerator();
+ */
+export class RolesGenerator extends Generator {
+  /**
+   * Creates a generator instance for the configured roles table.
+   */
+  constructor() {
+    super();
+    this.set.table(config().loadSync().auth.roles);
+  }
+
+  /**
+   * Creates the roles table.
+   */
+  public create(): Promise<void> {
+    return this.schema(
+      this.primaryKey(),
+      this.column('name').varChar(100).notNull().unique(),
+      this.createdAt()
+    );
+  }
+}
+
+/**
+ * Creates the `auth.permissions` table.
+ */
+export class PermissionsGenerator extends Generator {
+  /**
+   * Creates a generator instance for the configured permissions table.
+   */
+  constructor() {
+    super();
+    this.set.table(config().loadSync().auth.permissions);
+  }
+
+  /**
+   * Creates the permissions table.
+   */
+  public create(): Promise<void> {
+    return this.schema(
+      this.primaryKey(),
+      this.column('name').varChar(100).notNull().unique(),
+      this.createdAt()
+    );
+  }
+}
+
+/**
+ * Creates the `auth.userRoles` table, generate it after the users and roles tables.
+ */
+export class UserRolesGenerator extends Generator {
+  /**
+   * Creates a generator instance for the configured user roles table.
+   */
+  constructor() {
+    super();
+    this.set.table(config().loadSync().auth.userRoles);
+  }
+
+  /**
+   * Creates the user roles table.
+   */
+  public create(): Promise<void> {
+    const { table, roles } = config().loadSync().auth;
+
+    this.unique('user_id', 'role_id');
+
+    return this.schema(
+      this.primaryKey(),
+      this.column('user_id').fk().notNull().ref(table, 'id').onDelete(CASCADE),
+      this.column('role_id').fk().notNull().ref(roles, 'id').onDelete(CASCADE)
+    );
+  }
+}
+
+/**
+ * Creates the `auth.rolePermissions` table, generate it after the roles and permissions tables.
+ */
+export class RolePermissionsGenerator extends Generator {
+  /**
+   * Creates a generator instance for the configured role permissions table.
+   */
+  constructor() {
+    super();
+    this.set.table(config().loadSync().auth.rolePermissions);
+  }
+
+  /**
+   * Creates the role permissions table.
+   */
+  public create(): Promise<void> {
+    const { roles, permissions } = config().loadSync().auth;
+
+    this.unique('role_id', 'permission_id');
+
+    return this.schema(
+      this.primaryKey(),
+      this.column('role_id').fk().notNull().ref(roles, 'id').onDelete(CASCADE),
+      this.column('permission_id')
+        .fk()
+        .notNull()
+        .ref(permissions, 'id')
+        .onDelete(CASCADE)
+    );
+  }
+}
+
+/**
+ * Inserts the given roles into the `auth.roles` table.
+ *
+ * @example
+ * // seeders/01_seed_roles_table.ts
+ * export default new RolesSeeder(['admin', 'editor']);
+ */
+export class RolesSeeder extends Seeder {
+  /**
+   * The role names to insert.
+   */
+  private names: Array<string>;
+
+  /**
+   * Creates a seeder instance for the configured roles table.
+   *
+   * @param names The role names to insert.
+   * @throws `GateError` if the names are not strings.
+   */
+  constructor(names: Array<string>) {
+    super();
+
+    if (!isArrOfStr(names)) throw new GateError('Invalid role names');
+
+    this.names = names;
+    this.set.table(config().loadSync().auth.roles);
+    this.set.rows(names.length);
+  }
+
+  /**
+   * Returns the role of the current row.
+   */
+  protected layout(): Row {
+    return {
+      name: this.names[this.get.index()],
+      created_at: UTC.get.datetime(),
+    };
+  }
+}
+
+/**
+ * Inserts the given permissions into the `auth.permissions` table.
+ *
+ * @example
+ * // seeders/02_seed_permissions_table.ts
+ * export default new PermissionsSeeder(['posts.create', 'posts.update']);
+ */
+export class PermissionsSeeder extends Seeder {
+  /**
+   * The permission names to insert.
+   */
+  private names: Array<string>;
+
+  /**
+   * Creates a seeder instance for the configured permissions table.
+   *
+   * @param names The permission names to insert.
+   * @throws `GateError` if the names are not strings.
+   */
+  constructor(names: Array<string>) {
+    super();
+
+    if (!isArrOfStr(names)) throw new GateError('Invalid permission names');
+
+    this.names = names;
+    this.set.table(config().loadSync().auth.permissions);
+    this.set.rows(names.length);
+  }
+
+  /**
+   * Returns the permission of the current row.
+   */
+  protected layout(): Row {
+    return {
+      name: this.names[this.get.index()],
+      created_at: UTC.get.datetime(),
+    };
+  }
+}
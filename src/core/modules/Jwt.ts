@@ -0,0 +1,266 @@
+import { createHmac, createSign, createVerify, timingSafeEqual } from 'crypto';
+import { config } from '../../config';
+import { isArr, isInt, isNum, isObj, isStr } from '../../helpers';
+import { appKey, appKeys } from './App';
+
+/**
+ * Custom error class for JSON Web Token errors.
+ */
+export class JwtError extends Error {}
+
+/**
+ * The claims of a JSON Web Token.
+ */
+export interface JwtPayload {
+  /** The subject, usually the user ID. */
+  sub?: string;
+
+  /** The issuer. */
+  iss?: string;
+
+  /** The audience, one or many. */
+  aud?: string | Array<string>;
+
+  /** The expiry time (seconds since epoch). */
+  exp?: number;
+
+  /** The time the token becomes valid (seconds since epoch). */
+  nbf?: number;
+
+  /** The time the token was issued (seconds since epoch). */
+  iat?: number;
+
+  /** The space separated scopes granted to the token. */
+  scope?: string;
+
+  [claim: string]: unknown;
+}
+
+/**
+ * Options overriding the `jwt` configuration for a single token.
+ */
+export interface JwtSignOptions {
+  /** The number of seconds the token lives, `0` for no expiry. */
+  ttl?: number;
+
+  /** The `iss` claim. */
+  issuer?: string;
+
+  /** The `aud` claim. */
+  audience?: string;
+}
+
+/**
+ * Options overriding the `jwt` configuration when verifying a token.
+ */
+export interface JwtVerifyOptions {
+  /** The required `iss` claim. */
+  issuer?: string;
+
+  /** The accepted audiences. */
+  audience?: string | Array<string>;
+
+  /** The number of seconds `exp` and `nbf` may be off by. */
+  skew?: number;
+}
+
+/**
+ * Encodes a JSON value as base64url.
+ *
+ * @param value The value.
+ * @returns The encoded JSON.
+ */
+function encode(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+/**
+ * Decodes a base64url JSON object.
+ *
+ * @param value The encoded JSON.
+ * @returns The object, or `undefined` if malformed.
+ */
+function decode(value: string): Record<string, any> | undefined {
+  try {
+    const json = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    return isObj(json) ? json : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Computes an HS256 signature.
+ *
+ * @param secret The secret.
+ * @param data The signed part of the token.
+ * @returns The base64url signature.
+ */
+function hmac(secret: string, data: string): string {
+  return createHmac('sha256', secret).update(data).digest('base64url');
+}
+
+/**
+ * Compares two strings in constant time.
+ *
+ * @param a The first string.
+ * @param b The second string.
+ * @returns `true` if both strings are equal.
+ */
+function equal(a: string, b: string): boolean {
+  const x = Buffer.from(a);
+  const y = Buffer.from(b);
+  return x.length === y.length && timingSafeEqual(x, y);
+}
+
+/**
+ * Signs and verifies JSON Web Tokens (JWS compact serialization) using HS256 or RS256.
+ *
+ * HS256 tokens are signed with the `jwt.secret`, or the app key when not set. RS256 tokens
+ * are signed with the `jwt.privateKey` and verified with the `jwt.publicKey`, so other
+ * services can verify them without being able to sign.
+ *
+ * @example
+ * const token = Jwt.sign({ sub: String(user.id), scope: 'posts.read' });
+ * const payload = Jwt.verify(token); // throws `JwtError` if invalid
+ */
+export class Jwt {
+  /**
+   * Signs a token.
+   *
+   * The `iat` claim is set, as well as the `exp`, `iss` and `aud` claims from the options,
+   * unless the payload sets them.
+   *
+   * @param payload The claims.
+   * @param options Options overriding the `jwt` configuration.
+   * @returns The token.
+   * @throws `JwtError` if the payload is not an object or the signing key is missing.
+   */
+  public static sign(
+    payload: JwtPayload,
+    options: JwtSignOptions = {}
+  ): string {
+    if (!isObj(payload)) throw new JwtError('Invalid JWT payload');
+
+    const jwt = config().loadSync().jwt;
+    const ttl = isInt(options.ttl) && options.ttl >= 0 ? options.ttl : jwt.ttl;
+    const issuer = isStr(options.issuer) ? options.issuer : jwt.issuer;
+    const audience = isStr(options.audience) ? options.audience : jwt.audience;
+    const iat = Math.floor(Date.now() / 1000);
+
+    const claims: JwtPayload = { iat };
+
+    if (ttl > 0) claims.exp = iat + ttl;
+    if (isStr(issuer)) claims.iss = issuer;
+    if (isStr(audience)) claims.aud = audience;
+
+    const header = encode({ alg: jwt.algorithm, typ: 'JWT' });
+    const data = `${header}.${encode({ ...claims, ...payload })}`;
+
+    if (jwt.algorithm === 'RS256') {
+      if (!isStr(jwt.privateKey)) {
+        throw new JwtError('Missing JWT private key');
+      }
+
+      const signature = createSign('RSA-SHA256')
+        .update(data)
+        .sign(jwt.privateKey, 'base64url');
+
+      return `${data}.${signature}`;
+    }
+
+    return `${data}.${hmac(jwt.secret ?? appKey(), data)}`;
+  }
+
+  /**
+   * Verifies a token: its algorithm, signature, and `exp`, `nbf`, `iss` and `aud` claims.
+   *
+   * @param token The token.
+   * @param options Options overriding the `jwt` configuration.
+   * @returns The claims.
+   * @throws `JwtError` if the token is malformed, forged, expired, not active yet, or not meant for us.
+   */
+  public static verify(
+    token: string,
+    options: JwtVerifyOptions = {}
+  ): JwtPayload {
+    if (!isStr(token)) throw new JwtError('Malformed JWT');
+
+    const parts = token.split('.');
+    if (parts.length !== 3) throw new JwtError('Malformed JWT');
+
+    const [header, body, signature] = parts;
+    const head = decode(header);
+    const payload = decode(body) as JwtPayload;
+
+    if (!head || !payload) throw new JwtError('Malformed JWT');
+
+    const jwt = config().loadSync().jwt;
+
+    // Never let the token choose how it is verified
+    if (head.alg !== jwt.algorithm) throw new JwtError('Invalid JWT algorithm');
+
+    const data = `${header}.${body}`;
+
+    if (jwt.algorithm === 'RS256') {
+      if (!isStr(jwt.publicKey)) throw new JwtError('Missing JWT public key');
+
+      const valid = createVerify('RSA-SHA256')
+        .update(data)
+        .verify(jwt.publicKey, signature, 'base64url');
+
+      if (!valid) throw new JwtError('Invalid JWT signature');
+    } else {
+      const secrets = isStr(jwt.secret) ? [jwt.secret] : appKeys();
+
+      if (!secrets.some((secret) => equal(hmac(secret, data), signature))) {
+        throw new JwtError('Invalid JWT signature');
+      }
+    }
+
+    const skew =
+      isInt(options.skew) && options.skew >= 0 ? options.skew : jwt.skew;
+    const now = Math.floor(Date.now() / 1000);
+
+    if (payload.exp !== undefined) {
+      if (!isNum(payload.exp)) throw new JwtError('Invalid JWT expiry');
+      if (now - skew >= payload.exp) throw new JwtError('Expired JWT');
+    }
+
+    if (payload.nbf !== undefined) {
+      if (!isNum(payload.nbf)) throw new JwtError('Invalid JWT not before');
+      if (now + skew < payload.nbf) throw new JwtError('JWT not active yet');
+    }
+
+    const issuer = isStr(options.issuer) ? options.issuer : jwt.issuer;
+
+    if (isStr(issuer) && payload.iss !== issuer) {
+      throw new JwtError('Invalid JWT issuer');
+    }
+
+    const audience = [].concat(options.audience ?? jwt.audience ?? []);
+
+    if (audience.length > 0) {
+      const aud = [].concat(payload.aud ?? []);
+
+      if (!aud.some((value) => audience.includes(value))) {
+        throw new JwtError('Invalid JWT audience');
+      }
+    }
+
+    return payload;
+  }
+
+  /**
+   * Returns the scopes granted to a token, from its `scope` claim (space separated)
+   * or `scopes` claim (array).
+   *
+   * @param payload The claims.
+   * @returns The scopes.
+   */
+  public static scopes(payload: JwtPayload): Array<string> {
+    if (isStr(payload?.scope)) return payload.scope.split(' ').filter(Boolean);
+    if (isArr(payload?.scopes)) return payload.scopes.filter((s) => isStr(s));
+    return [];
+  }
+}
@@ -0,0 +1,834 @@
+import { config } from '../../config';
+import { isArr, isFullStr, isFunc, isObj, isStr } from '../../helpers';
+import { Condition } from '../sql/Condition';
+import { CountOptions, CursorPagination, Pagination } from '../sql/Select';
+import { Builder } from './Builder';
+import { Driver, Row, Rows } from './Driver';
+import { CB, Fetcher } from './Fetcher';
+
+/**
+ * Custom error class for model and relation errors.
+ */
+export class ModelError extends Error {}
+
+/**
+ * A relation between two models.
+ */
+export interface Relation {
+  /** The relation type. */
+  type: 'hasMany' | 'belongsTo' | 'manyToMany';
+
+  /** Returns the related model, lazily to allow models referencing each other. */
+  model: () => typeof Model;
+
+  /**
+   * The foreign key: on the related table for `hasMany`, on the model table
+   * for `belongsTo`, and the pivot column pointing to the model for `manyToMany`.
+   */
+  foreignKey: string;
+
+  /** The pivot column pointing to the related model (`manyToMany` only). */
+  relatedKey?: string;
+
+  /** The pivot table name (`manyToMany` only). */
+  pivot?: string;
+
+  /** The model column referenced by the foreign key. Defaults to the model key. */
+  localKey?: string;
+
+  /** The related model column referenced by the foreign key. Defaults to the related model key. */
+  ownerKey?: string;
+}
+
+/**
+ * Callback constraining the query of an eager loaded relation.
+ */
+export type Constraint = (query: ModelQuery) => void;
+
+/**
+ * Relations to eager load or count: names (dotted for nested relations),
+ * or objects mapping names to constraints.
+ */
+export type Relations = Array<string | Record<string, Constraint>>;
+
+/**
+ * A node of the eager loading tree.
+ */
+interface Eager {
+  constraint?: Constraint;
+  nested: Map<string, Eager>;
+}
+
+/**
+ * Maximum number of keys per `IN (...)` list when eager loading.
+ */
+const CHUNK = 1000;
+
+/**
+ * Alias of the key column added to eager loading and counting queries.
+ */
+const KEY = 'bnjsx_key';
+
+/**
+ * Alias of the count column added to counting queries.
+ */
+const COUNT = 'bnjsx_count';
+
+/**
+ * Validates a relation model and keys.
+ *
+ * @param model - The related model callback.
+ * @param keys - The relation keys, `undefined` ones being optional.
+ * @throws `ModelError` if the model callback or a key is invalid.
+ */
+function check(model: unknown, keys: Record<string, unknown>): void {
+  if (!isFunc(model)) {
+    throw new ModelError(`Invalid related model: ${String(model)}`);
+  }
+
+  Object.entries(keys).forEach(([name, key]) => {
+    if (key !== undefined && !isFullStr(key)) {
+      throw new ModelError(`Invalid relation ${name}: ${String(key)}`);
+    }
+  });
+}
+
+/**
+ * Defines a one-to-many relation (e.g., a user has many posts).
+ *
+ * @param model - Returns the related model.
+ * @param foreignKey - The related table column pointing to the model (e.g., `user_id`).
+ * @param localKey - The model column it points to. Defaults to the model key.
+ * @returns The relation.
+ * @throws `ModelError` if an argument is invalid.
+ */
+export function hasMany(
+  model: () => typeof Model,
+  foreignKey: string,
+  localKey?: string
+): Relation {
+  check(model, { foreignKey, localKey });
+  return { type: 'hasMany', model, foreignKey, localKey };
+}
+
+/**
+ * Defines an inverse one-to-many relation (e.g., a post belongs to a user).
+ *
+ * @param model - Returns the related model.
+ * @param foreignKey - The model column pointing to the related model (e.g., `user_id`).
+ * @param ownerKey - The related model column it points to. Defaults to the related model key.
+ * @returns The relation.
+ * @throws `ModelError` if an argument is invalid.
+ */
+export function belongsTo(
+  model: () => typeof Model,
+  foreignKey: string,
+  ownerKey?: string
+): Relation {
+  check(model, { foreignKey, ownerKey });
+  return { type: 'belongsTo', model, foreignKey, ownerKey };
+}
+
+/**
+ * Defines a many-to-many relation through a pivot table (e.g., posts and tags).
+ *
+ * @param model - Returns the related model.
+ * @param pivot - The pivot table (e.g., `post_tag`).
+ * @param foreignKey - The pivot column pointing to the model (e.g., `post_id`).
+ * @param relatedKey - The pivot column pointing to the related model (e.g., `tag_id`).
+ * @param localKey - The model column `foreignKey` points to. Defaults to the model key.
+ * @param ownerKey - The related model column `relatedKey` points to. Defaults to the related model key.
+ * @returns The relation.
+ * @throws `ModelError` if an argument is invalid.
+ */
+export function manyToMany(
+  model: () => typeof Model,
+  pivot: string,
+  foreignKey: string,
+  relatedKey: string,
+  localKey?: string,
+  ownerKey?: string
+): Relation {
+  check(model, { pivot, foreignKey, relatedKey, localKey, ownerKey });
+
+  return {
+    type: 'manyToMany',
+    model,
+    pivot,
+    foreignKey,
+    relatedKey,
+    localKey,
+    ownerKey,
+  };
+}
+
+/**
+ * Adds a dotted relation path to an eager loading tree.
+ *
+ * @param tree - The tree.
+ * @param path - The relation path (e.g., `posts.comments`).
+ * @returns The node of the last relation in the path.
+ * @throws `ModelError` if the path is invalid.
+ */
+function branch(tree: Map<string, Eager>, path: string): Eager {
+  if (!isFullStr(path)) {
+    throw new ModelError(`Invalid relation: ${String(path)}`);
+  }
+
+  let node: Eager;
+
+  path.split('.').forEach((name) => {
+    if (!isFullStr(name)) throw new ModelError(`Invalid relation: ${path}`);
+
+    if (!tree.has(name)) tree.set(name, { nested: new Map() });
+    node = tree.get(name);
+    tree = node.nested;
+  });
+
+  return node;
+}
+
+/**
+ * Collects the distinct non-null values of a column.
+ *
+ * @param rows - The rows.
+ * @param column - The column.
+ * @returns The distinct values.
+ */
+function keys(rows: Rows, column: string): Array<string | number> {
+  const values = new Map<string, string | number>();
+
+  rows.forEach((row) => {
+    const value = row[column];
+    if (value !== null && value !== undefined) {
+      values.set(String(value), value as string | number);
+    }
+  });
+
+  return Array.from(values.values());
+}
+
+/**
+ * Query builder for models, adding eager loading, relation counts and
+ * relation filters to `Fetcher`.
+ *
+ * Related rows are fetched in one batched `IN (...)` query per relation
+ * (chunked for large key lists) instead of one query per row.
+ */
+export class ModelQuery extends Fetcher {
+  /** Relations to eager load. */
+  private eager: Map<string, Eager> = new Map();
+
+  /** Relations to count, with their optional constraints. */
+  private counts: Map<string, Constraint | undefined> = new Map();
+
+  /**
+   * Create a new ModelQuery instance.
+   *
+   * @param model - The model to query.
+   * @param driver - Database driver instance.
+   * @param builder - Optional query builder instance.
+   */
+  constructor(private model: typeof Model, driver: Driver, builder?: Builder) {
+    super(model.table, model.pool, driver, builder);
+  }
+
+  /**
+   * Resolves a relation of the model.
+   *
+   * @param name - The relation name.
+   * @returns The relation.
+   * @throws `ModelError` if the model has no such relation.
+   */
+  private relation(name: string): Relation {
+    const relations = this.model.relations || {};
+
+    if (!Object.prototype.hasOwnProperty.call(relations, name)) {
+      throw new ModelError(
+        `Undefined relation '${name}' on model ${this.model.name}`
+      );
+    }
+
+    return relations[name];
+  }
+
+  /**
+   * Eager load relations with the fetched rows.
+   *
+   * Dotted names load nested relations (e.g., `posts.comments`), and objects
+   * map relation names to constraints on their query:
+   *
+   * @example
+   * await User.query()
+   *   .with('roles', 'posts.comments')
+   *   .with({ posts: (query) => query.where('published', true) })
+   *   .all();
+   *
+   * @param relations - The relations to load.
+   * @returns The current ModelQuery instance.
+   * @throws `ModelError` if a relation or constraint is invalid.
+   * @note Limits set by constraints apply to each batch, not to each row.
+   */
+  public with(...relations: Relations): this {
+    relations.forEach((relation) => {
+      if (isStr(relation)) return branch(this.eager, relation);
+
+      if (!isObj(relation)) {
+        throw new ModelError(`Invalid relation: ${String(relation)}`);
+      }
+
+      Object.entries(relation).forEach(([path, constraint]) => {
+        if (!isFunc(constraint)) {
+          throw new ModelError(`Invalid constraint for relation: ${path}`);
+        }
+
+        branch(this.eager, path).constraint = constraint;
+      });
+    });
+
+    return this;
+  }
+
+  /**
+   * Count related rows, setting a `{relation}_count` column on each row.
+   *
+   * @param relations - The relations to count, optionally with constraints.
+   * @returns The current ModelQuery instance.
+   * @throws `ModelError` if a relation or constraint is invalid.
+   */
+  public withCount(...relations: Relations): this {
+    const add = (name: string, constraint?: Constraint) => {
+      if (!isFullStr(name) || name.includes('.')) {
+        throw new ModelError(`Invalid relation: ${String(name)}`);
+      }
+
+      if (constraint !== undefined && !isFunc(constraint)) {
+        throw new ModelError(`Invalid constraint for relation: ${name}`);
+      }
+
+      this.counts.set(name, constraint);
+    };
+
+    relations.forEach((relation) => {
+      if (isStr(relation)) return add(relation);
+
+      if (!isObj(relation)) {
+        throw new ModelError(`Invalid relation: ${String(relation)}`);
+      }
+
+      Object.entries(relation).forEach(([name, c]) => add(name, c));
+    });
+
+    return this;
+  }
+
+  /**
+   * Builds an `EXISTS` subquery matching rows having related rows.
+   *
+   * @param path - The relation names, nested from the model.
+   * @param outer - The table (or alias) of the outer query.
+   * @param cb - Optional condition on the last related rows.
+   * @param depth - The nesting depth, used to alias self relations.
+   * @returns The subquery and its values.
+   */
+  private exists(
+    path: Array<string>,
+    outer: string,
+    cb?: CB,
+    depth: number = 1
+  ): { sql: string; values: Array<any> } {
+    const [name, ...rest] = path;
+    const relation = this.relation(name);
+    const related = relation.model();
+    const local = relation.localKey || this.model.key;
+    const owner = relation.ownerKey || related.key;
+
+    // Self relations need an alias to tell the tables apart
+    const alias = related.table === outer ? `bnjsx_${depth}` : related.table;
+    const from =
+      alias === related.table ? alias : `${related.table} AS ${alias}`;
+
+    let sql: string;
+
+    if (relation.type === 'hasMany') {
+      sql = `SELECT 1 FROM ${from} WHERE ${alias}.${relation.foreignKey} = ${outer}.${local}`;
+    } else if (relation.type === 'belongsTo') {
+      sql = `SELECT 1 FROM ${from} WHERE ${alias}.${owner} = ${outer}.${relation.foreignKey}`;
+    } else {
+      const { pivot, foreignKey, relatedKey } = relation;
+      sql =
+        `SELECT 1 FROM ${from} INNER JOIN ${pivot} ON ${pivot}.${relatedKey} = ${alias}.${owner} ` +
+        `WHERE ${pivot}.${foreignKey} = ${outer}.${local}`;
+    }
+
+    const values = [];
+
+    if (rest.length) {
+      const query = related.query(this.builder);
+      const nested = query.exists(rest, alias, cb, depth + 1);
+
+      sql = `${sql} AND ${nested.sql}`;
+      values.push(...nested.values);
+    } else if (cb) {
+      if (!isFunc(cb)) {
+        throw new ModelError(`Invalid condition for relation: ${name}`);
+      }
+
+      const condition = new Condition(this.driver);
+      cb(condition.col.bind(condition), condition);
+
+      sql = `${sql} AND (${condition.build()})`;
+      values.push(...condition.values);
+    }
+
+    return { sql: `EXISTS (${sql})`, values };
+  }
+
+  /**
+   * Adds a relation filter to the `WHERE` clause.
+   *
+   * @param connector - How to connect it to the existing conditions.
+   * @param not - Whether to match rows without related rows.
+   * @param relation - The relation name, dotted for nested relations.
+   * @param cb - Optional condition on the related rows.
+   * @returns The current ModelQuery instance.
+   */
+  private has(
+    connector: 'and' | 'or' | undefined,
+    not: boolean,
+    relation: string,
+    cb?: CB
+  ): this {
+    if (!isFullStr(relation)) {
+      throw new ModelError(`Invalid relation: ${String(relation)}`);
+    }
+
+    const { sql, values } = this.exists(relation.split('.'), this.table, cb);
+
+    if (!this.state.where) this.state.where = new Condition(this.driver);
+    else if (connector) this.state.where[connector]();
+
+    this.state.where.raw(not ? `NOT ${sql}` : sql, ...values);
+    return this;
+  }
+
+  /**
+   * Add a `WHERE EXISTS` filter matching rows having related rows.
+   *
+   * @example
+   * // Users with at least one published post
+   * User.query().whereHas('posts', (col) => col('published').isTrue());
+   *
+   * // Users with a comment on one of their posts
+   * User.query().whereHas('posts.comments');
+   *
+   * @param relation - The relation name, dotted for nested relations.
+   * @param cb - Optional condition on the (last) related rows.
+   * @returns The current ModelQuery instance.
+   * @throws `ModelError` if the relation is invalid.
+   */
+  public whereHas(relation: string, cb?: CB): this {
+    return this.has(undefined, false, relation, cb);
+  }
+
+  /**
+   * Add an `AND WHERE EXISTS` relation filter.
+   * @param relation - The relation name, dotted for nested relations.
+   * @param cb - Optional condition on the related rows.
+   */
+  public andWhereHas(relation: string, cb?: CB): this {
+    return this.has('and', false, relation, cb);
+  }
+
+  /**
+   * Add an `OR WHERE EXISTS` relation filter.
+   * @param relation - The relation name, dotted for nested relations.
+   * @param cb - Optional condition on the related rows.
+   */
+  public orWhereHas(relation: string, cb?: CB): this {
+    return this.has('or', false, relation, cb);
+  }
+
+  /**
+   * Add a `WHERE NOT EXISTS` filter matching rows without related rows.
+   * @param relation - The relation name, dotted for nested relations.
+   * @param cb - Optional condition on the related rows.
+   */
+  public whereDoesntHave(relation: string, cb?: CB): this {
+    return this.has(undefined, true, relation, cb);
+  }
+
+  /**
+   * Add an `AND WHERE NOT EXISTS` relation filter.
+   * @param relation - The relation name, dotted for nested relations.
+   * @param cb - Optional condition on the related rows.
+   */
+  public andWhereDoesntHave(relation: string, cb?: CB): this {
+    return this.has('and', true, relation, cb);
+  }
+
+  /**
+   * Add an `OR WHERE NOT EXISTS` relation filter.
+   * @param relation - The relation name, dotted for nested relations.
+   * @param cb - Optional condition on the related rows.
+   */
+  public orWhereDoesntHave(relation: string, cb?: CB): this {
+    return this.has('or', true, relation, cb);
+  }
+
+  /**
+   * Fetches the rows whose column matches one of the keys, in chunks.
+   *
+   * @param column - The column to match.
+   * @param values - The keys.
+   * @returns The rows, with their eager loaded relations.
+   */
+  private async in(
+    column: string,
+    values: Array<string | number>
+  ): Promise<Rows> {
+    const where = this.state.where;
+    const rows: Rows = [];
+
+    try {
+      for (let i = 0; i < values.length; i += CHUNK) {
+        const condition = new Condition(this.driver);
+
+        if (where) condition.nest(where).and();
+        condition.col(column).in(...values.slice(i, i + CHUNK));
+
+        this.state.where = condition;
+        rows.push(...(await super.all()));
+      }
+    } finally {
+      this.state.where = where;
+    }
+
+    return this.load(rows);
+  }
+
+  /**
+   * Resolves the model column a relation is matched on.
+   *
+   * @param relation - The relation.
+   * @returns The column name.
+   */
+  private local(relation: Relation): string {
+    if (relation.type === 'belongsTo') return relation.foreignKey;
+    return relation.localKey || this.model.key;
+  }
+
+  /**
+   * Prepares the query of a relation, joining the pivot table of
+   * many-to-many relations.
+   *
+   * @param relation - The relation.
+   * @param constraint - Optional constraint on the query.
+   * @returns The query and the related column matching the model rows.
+   */
+  private prepare(
+    relation: Relation,
+    constraint?: Constraint
+  ): { query: ModelQuery; column: string } {
+    const related = relation.model();
+    const query = related.query(this.builder);
+
+    if (constraint) constraint(query);
+
+    if (relation.type === 'hasMany') {
+      return { query, column: `${related.table}.${relation.foreignKey}` };
+    }
+
+    if (relation.type === 'belongsTo') {
+      const owner = relation.ownerKey || related.key;
+      return { query, column: `${related.table}.${owner}` };
+    }
+
+    const { pivot, foreignKey, relatedKey } = relation;
+    const owner = relation.ownerKey || related.key;
+
+    query.innerJoin(
+      pivot,
+      `${pivot}.${relatedKey}`,
+      `${related.table}.${owner}`
+    );
+
+    return { query, column: `${pivot}.${foreignKey}` };
+  }
+
+  /**
+   * Eager loads a relation with the given rows.
+   *
+   * @param rows - The model rows.
+   * @param name - The relation name.
+   * @param node - The relation node, holding its constraint and nested relations.
+   */
+  private async relate(rows: Rows, name: string, node: Eager): Promise<void> {
+    const relation = this.relation(name);
+    const local = this.local(relation);
+    const { query, column } = this.prepare(relation, node.constraint);
+    const values = keys(rows, local);
+    const groups = new Map<string, Rows>();
+
+    // Select the key under an alias, the pivot key being on another table
+    const columns = query.state.columns;
+    const all = columns.length === 1 && columns[0] === '*';
+
+    query.columns(
+      ...(all ? [`${query.table}.*`] : columns),
+      `${column} AS ${KEY}`
+    );
+
+    query.eager = node.nested;
+
+    const related = values.length ? await query.in(column, values) : [];
+
+    related.forEach((row) => {
+      const key = String(row[KEY]);
+      delete row[KEY];
+
+      if (!groups.has(key)) groups.set(key, []);
+      groups.get(key).push(row);
+    });
+
+    rows.forEach((row) => {
+      const group = groups.get(String(row[local]));
+
+      if (relation.type !== 'belongsTo') row[name] = group || [];
+      else row[name] = group ? group[0] : null;
+    });
+  }
+
+  /**
+   * Counts the related rows of a relation for the given rows.
+   *
+   * @param rows - The model rows.
+   * @param name - The relation name.
+   * @param constraint - Optional constraint on the related rows.
+   */
+  private async tally(
+    rows: Rows,
+    name: string,
+    constraint?: Constraint
+  ): Promise<void> {
+    const relation = this.relation(name);
+    const local = this.local(relation);
+    const { query, column } = this.prepare(relation, constraint);
+    const values = keys(rows, local);
+    const totals = new Map<string, number>();
+
+    query.columns(`${column} AS ${KEY}`, `COUNT(*) AS ${COUNT}`);
+    query.groupBy(column);
+
+    const counts = values.length ? await query.in(column, values) : [];
+    counts.forEach((row) => totals.set(String(row[KEY]), Number(row[COUNT])));
+
+    rows.forEach((row) => {
+      row[`${name}_count`] = totals.get(String(row[local])) || 0;
+    });
+  }
+
+  /**
+   * Loads the requested relations and counts with the given rows.
+   *
+   * @param rows - The model rows, updated in place.
+   * @returns Promise resolving with the rows.
+   */
+  public async load(rows: Rows): Promise<Rows> {
+    if (!isArr(rows)) throw new ModelError(`Invalid rows: ${String(rows)}`);
+    if (!rows.length) return rows;
+
+    for (const [name, node] of this.eager) await this.relate(rows, name, node);
+
+    for (const [name, constraint] of this.counts) {
+      await this.tally(rows, name, constraint);
+    }
+
+    return rows;
+  }
+
+  /**
+   * Execute the built query and return all matching rows, with their relations.
+   * @returns Promise resolving with all rows.
+   */
+  public async all(): Promise<Rows> {
+    return this.load(await super.all());
+  }
+
+  /**
+   * Execute the built query and return the first matching row, with its relations.
+   * @returns Promise resolving with a single row.
+   */
+  public async first(): Promise<Row> {
+    const row = await super.first();
+    if (row) await this.load([row]);
+    return row;
+  }
+
+  /**
+   * Execute the built query with pagination, loading the relations of the page rows.
+   * @param page - Page number to fetch.
+   * @param items - Optional items per page.
+   * @param options - Additional count options.
+   * @returns Promise resolving with paginated results.
+   */
+  public async paginate(
+    page: number,
+    items?: number,
+    options?: CountOptions
+  ): Promise<Pagination<Row>> {
+    const pagination = await super.paginate(page, items, options);
+    await this.load(pagination.result);
+    return pagination;
+  }
+
+  /**
+   * Execute the built query with cursor pagination, loading the relations of the page rows.
+   * @param cursor - Optional cursor of the page to fetch.
+   * @param items - Optional items per page.
+   * @returns Promise resolving with the page rows and cursors.
+   */
+  public async cursor(
+    cursor?: string | void,
+    items?: number
+  ): Promise<CursorPagination<Row>> {
+    const pagination = await super.cursor(cursor, items);
+    await this.load(pagination.result);
+    return pagination;
+  }
+}
+
+/**
+ * Base class for models: a table with its relations.
+ *
+ * Rows are plain objects, as with `Table`. Relations are declared on the
+ * static `relations` property and loaded with `with()`:
+ *
+ * @example
+ * class User extends Model {
+ *   static table = 'users';
+ *   static relations = {
+ *     posts: hasMany(() => Post, 'user_id'),
+ *   };
+ * }
+ *
+ * class Post extends Model {
+ *   static table = 'posts';
+ *   static relations = {
+ *     author: belongsTo(() => User, 'user_id'),
+ *     tags: manyToMany(() => Tag, 'post_tag', 'post_id', 'tag_id'),
+ *   };
+ * }
+ *
+ * const posts = await Post.with('author', 'tags').withCount('tags').all();
+ */
+export class Model {
+  /** The table name. */
+  public static table: string;
+
+  /** The connection pool name. Defaults to the default pool. */
+  public static pool?: string;
+
+  /** The primary key column. */
+  public static key: string = 'id';
+
+  /** The model relations, by name. */
+  public static relations: Record<string, Relation> = {};
+
+  /**
+   * Creates a query for the model.
+   *
+   * @param builder - Optional builder, to query within a transaction.
+   * @returns `ModelQuery` instance.
+   * @throws `ModelError` if the model table is invalid.
+   */
+  public static query(builder?: Builder): ModelQuery {
+    if (!isFullStr(this.table)) {
+      throw new ModelError(`Invalid table for model ${this.name}`);
+    }
+
+    const driver =
+      builder instanceof Builder
+        ? builder.get.connection().driver
+        : config()
+            .loadSync()
+            .cluster.get.pool(
+              isStr(this.pool) ? this.pool : config().loadSync().default
+            )['driver'];
+
+    return new ModelQuery(this, driver, builder);
+  }
+
+  /**
+   * Creates a query eager loading the given relations.
+   *
+   * @param relations - The relations to load.
+   * @returns `ModelQuery` instance.
+   */
+  public static with(...relations: Relations): ModelQuery {
+    return this.query().with(...relations);
+  }
+
+  /**
+   * Creates a query counting the given relations.
+   *
+   * @param relations - The relations to count.
+   * @returns `ModelQuery` instance.
+   */
+  public static withCount(...relations: Relations): ModelQuery {
+    return this.query().withCount(...relations);
+  }
+
+  /**
+   * Creates a query matching rows having related rows.
+   *
+   * @param relation - The relation name, dotted for nested relations.
+   * @param cb - Optional condition on the related rows.
+   * @returns `ModelQuery` instance.
+   */
+  public static whereHas(relation: string, cb?: CB): ModelQuery {
+    return this.query().whereHas(relation, cb);
+  }
+
+  /**
+   * Finds a row by primary key.
+   *
+   * @param id - The key value.
+   * @param relations - Optional relations to load.
+   * @returns Promise resolving with the row, or `undefined`.
+   */
+  public static find(
+    id: string | number,
+    ...relations: Relations
+  ): Promise<Row> {
+    return this.query()
+      .with(...relations)
+      .where(this.key, id)
+      .first();
+  }
+
+  /**
+   * Fetches all rows.
+   *
+   * @param relations - Optional relations to load.
+   * @returns Promise resolving with the rows.
+   */
+  public static all(...relations: Relations): Promise<Rows> {
+    return this.query()
+      .with(...relations)
+      .all();
+  }
+
+  /**
+   * Loads relations with rows fetched beforehand.
+   *
+   * @param rows - The model rows, updated in place.
+   * @param relations - The relations to load.
+   * @returns Promise resolving with the rows.
+   */
+  public static load(rows: Rows, ...relations: Relations): Promise<Rows> {
+    return this.query()
+      .with(...relations)
+      .load(rows);
+  }
+}
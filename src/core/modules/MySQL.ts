@@ -1,11 +1,14 @@
+import { Connection as CoreConnection } from 'mysql2';
 import { createConnection } from 'mysql2/promise';
-import { Connection, Driver } from './Driver';
+import { Connection as PromiseConnection } from 'mysql2/promise';
+import { Connection, Driver, Rows } from './Driver';
 
 // Helpers
 import {
   isArr,
   isBool,
   isDefined,
+  isInt,
   isNum,
   isObj,
   isStr,
@@ -159,6 +162,14 @@ export interface MySQLOptions {
   bigNumberStrings?: boolean;
 }
 
+/**
+ * A mysql2 promise connection, along with the core connection it wraps.
+ */
+interface WrappedConnection extends PromiseConnection {
+  /** The core connection, used to stream query results. */
+  connection: CoreConnection;
+}
+
 /**
  * MySQL driver responsible for creating MySQL connections.
  * @implements `Driver` interface.
@@ -290,7 +301,7 @@ export class MySQL implements Driver {
   public create(): Promise<Connection> {
     return new Promise((resolve, reject) => {
       createConnection(this.options)
-        .then((connection) => {
+        .then((connection: WrappedConnection) => {
           const mysql: Connection = {
             id: Symbol('Connection'),
             driver: this,
@@ -323,11 +334,20 @@ export class MySQL implements Driver {
                   });
                 }
 
-                connection
-                  .execute(sql, values)
+                // Savepoints are not supported by prepared statements
+                const execute = /^\s*(SAVEPOINT|RELEASE|ROLLBACK)/i.test(sql)
+                  ? connection.query(sql, values)
+                  : connection.execute(sql, values);
+
+                execute
                   .then(([result, fields]: any) => {
-                    // Handle SELECT queries
-                    if (/^\s*SELECT/i.test(sql)) return resolve(result);
+                    // Handle SELECT and SHOW queries
+                    if (/^\s*(SELECT|SHOW)/i.test(sql)) return resolve(result);
+
+                    // Handle WITH queries returning rows
+                    if (/^\s*WITH/i.test(sql) && isArr(result)) {
+                      return resolve(result);
+                    }
 
                     // Handle INSERT queries
                     if (/^\s*INSERT/i.test(sql)) {
@@ -345,6 +365,52 @@ export class MySQL implements Driver {
                   .catch((error) => reject(new QueryError(error.message)));
               });
             },
+            async *stream(
+              sql: string,
+              values?: Array<string | number | boolean>,
+              size: number = 1000
+            ) {
+              if (!isStr(sql)) {
+                throw new QueryError(`Invalid query: ${String(sql)}`);
+              }
+
+              if (isDefined(values) && !isArr(values)) {
+                throw new QueryError(`Invalid query values: ${String(values)}`);
+              }
+
+              if (!isInt(size) || size < 1) {
+                throw new QueryError(`Invalid stream size: ${String(size)}`);
+              }
+
+              values = (values || []).map((value) => {
+                if (isBool(value)) return value ? 1 : 0;
+                return value;
+              });
+
+              // Prepared statements buffer the result set, so stream through the core connection
+              const stream = connection.connection.query(sql, values).stream();
+
+              let rows: Rows = [];
+
+              try {
+                for await (const row of stream.iterator({
+                  destroyOnReturn: false,
+                })) {
+                  rows.push(row);
+                  if (rows.length < size) continue;
+
+                  yield rows;
+                  rows = [];
+                }
+              } catch (error) {
+                throw new QueryError(error.message);
+              } finally {
+                // Drain the rows left when the iteration stops early
+                stream.resume();
+              }
+
+              if (rows.length > 0) yield rows;
+            },
             close() {
               return new Promise((resolve, reject) => {
                 connection
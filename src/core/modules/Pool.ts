@@ -1,5 +1,5 @@
 import { EventEmitter } from 'events';
-import { Connection, QueryResult, Driver } from './Driver';
+import { Connection, QueryResult, Driver, Rows } from './Driver';
 
 import {
   MaxConnectionError,
@@ -137,6 +137,34 @@ export interface PoolConnection {
     values?: Array<string | number | boolean>
   ): Promise<QueryResult>;
 
+  /**
+   * Executes a SELECT query and yields its rows in chunks, without loading the whole result in memory.
+   *
+   * @param sql - The SELECT query to execute.
+   * @param values - Optional array of values to substitute in the SQL query.
+   * @param size - The number of rows per chunk (default: 1000).
+   *
+   * @returns An async iterable of row chunks.
+   *
+   * @example
+   * // Request connection
+   * const connection = await pool.request();
+   *
+   * // Export users 500 at a time
+   * for await (const users of connection.stream('SELECT * FROM users', [], 500)) {
+   *   await write(users);
+   * }
+   *
+   * connection.release();
+   *
+   * @note Run no other queries on the connection until the iteration ends.
+   */
+  stream(
+    sql: string,
+    values?: Array<string | number | boolean>,
+    size?: number
+  ): AsyncIterable<Rows>;
+
   /**
    * Starts a new transaction on the database connection.
    * @returns A promise that resolves when the transaction is started.
@@ -318,6 +346,16 @@ const createPoolConnection = (
       });
     },
 
+    // Method: Streams a query in chunks
+    async *stream(sql: string, values?: Array<string | number>, size?: number) {
+      try {
+        yield* inner.stream(sql, values, size);
+      } catch (error) {
+        pool.emit(QUERY_FAIL, error);
+        throw error;
+      }
+    },
+
     // Method: Starts a transaction
     beginTransaction() {
       return new Promise<void>((resolve, reject) => {
@@ -817,6 +855,7 @@ export class Pool extends EventEmitter {
 
     connection.release = fail;
     connection.query = reject;
+    connection.stream = fail;
     connection.commit = reject;
     connection.rollback = reject;
     connection.beginTransaction = reject;
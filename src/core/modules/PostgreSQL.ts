@@ -5,7 +5,15 @@ import { ConnectionOptions } from 'tls';
 import { Driver, Connection } from './Driver';
 
 // Helpers
-import { isArr, isDefined, isNum, isObj, isStr, isBool } from '../../helpers';
+import {
+  isArr,
+  isDefined,
+  isInt,
+  isNum,
+  isObj,
+  isStr,
+  isBool,
+} from '../../helpers';
 
 // Errors
 import {
@@ -198,6 +206,9 @@ export class PostgreSQL implements Driver {
       // JSON
       types.setTypeParser(114, (v) => JSON.parse(v));
 
+      // Names the cursors of the connection streams
+      let cursors = 0;
+
       client
         .connect()
         .then(() => {
@@ -244,6 +255,11 @@ export class PostgreSQL implements Driver {
                     // Handle SELECT queries
                     if (/^\s*SELECT/i.test(sql)) return resolve(result.rows);
 
+                    // Handle WITH queries returning rows
+                    if (/^\s*WITH/i.test(sql) && result.command === 'SELECT') {
+                      return resolve(result.rows);
+                    }
+
                     // Handle INSERT queries
                     if (/^\s*INSERT/i.test(sql)) {
                       if (!isArr(result.rows)) return resolve(undefined);
@@ -261,6 +277,59 @@ export class PostgreSQL implements Driver {
                   .catch((error) => reject(new QueryError(error.message)));
               });
             },
+            async *stream(
+              sql: string,
+              values?: Array<string | number | boolean>,
+              size: number = 1000
+            ) {
+              if (!isStr(sql)) {
+                throw new QueryError(`Invalid query: ${String(sql)}`);
+              }
+
+              if (isDefined(values) && !isArr(values)) {
+                throw new QueryError(`Invalid query values: ${String(values)}`);
+              }
+
+              if (!isInt(size) || size < 1) {
+                throw new QueryError(`Invalid stream size: ${String(size)}`);
+              }
+
+              values = (values || []).map((value) => {
+                if (isBool(value)) return value ? 1 : 0;
+                return value;
+              });
+
+              let counter = 1;
+              const cursor = `bnjsx_cursor_${++cursors}`;
+              const query = sql
+                .replace(/;\s*$/, '')
+                .replace(/\?/g, () => `$${counter++}`);
+
+              const run = (sql: string, values?: Array<any>) => {
+                return client.query(sql, values).catch((error) => {
+                  throw new QueryError(error.message);
+                });
+              };
+
+              // WITH HOLD keeps the cursor open outside of transactions
+              await run(
+                `DECLARE ${cursor} NO SCROLL CURSOR WITH HOLD FOR ${query}`,
+                values
+              );
+
+              try {
+                while (true) {
+                  const { rows } = await run(
+                    `FETCH FORWARD ${size} FROM ${cursor}`
+                  );
+
+                  if (rows.length > 0) yield rows;
+                  if (rows.length < size) return;
+                }
+              } finally {
+                await client.query(`CLOSE ${cursor}`).catch(() => undefined);
+              }
+            },
             close() {
               return new Promise((resolve, reject) => {
                 client
@@ -1,6 +1,19 @@
+import { AsyncLocalStorage } from 'async_hooks';
 import { IncomingMessage } from 'http';
-import { isStr } from '../../helpers';
+import { Http2ServerRequest } from 'http2';
+import {
+  ipMatcher,
+  isArrOfStr,
+  isInt,
+  isStr,
+  normalizeIp,
+} from '../../helpers';
 import { Response } from './Response';
+import { Session } from './Session';
+import { Row } from './Driver';
+import { Policy } from './Gate';
+import { RouteValue } from './Router';
+import { BearerToken } from '../middlewares/bearer';
 import mime from 'mime-types';
 import { config } from '../../config';
 
@@ -9,22 +22,79 @@ import { config } from '../../config';
  */
 export class RequestError extends Error {}
 
+/**
+ * Holds the request being processed.
+ */
+const requests = new AsyncLocalStorage<Request>();
+
+/**
+ * Runs a callback with a request, available to `currentRequest()` in everything
+ * it runs, synchronously or not (e.g., queries made while handling the request).
+ *
+ * @param req - The request.
+ * @param callback - The callback.
+ * @returns The result of the callback.
+ */
+export function withRequest<T>(req: Request, callback: () => T): T {
+  return requests.run(req, callback);
+}
+
+/**
+ * Returns the request being processed.
+ *
+ * @returns The request, or `undefined` outside `withRequest()` (e.g., in commands and jobs).
+ */
+export function currentRequest(): Request | undefined {
+  return requests.getStore();
+}
+
 /**
  * Represents an HTTP request with additional properties and methods.
  *
  * @template B - The expected type of the request body.
  * @template P - The type of route parameters, can be an object or array.
+ * Typed params (`:id(int)`, `:price(float)`, `:on(bool)`) hold numbers and booleans, e.g., `Request<B, { id: number }>`.
  */
 export interface Request<
   B = any,
-  P extends Record<string, string> | string[] = Record<string, string>
+  P extends Record<string, RouteValue> | string[] = Record<string, string>
 > extends IncomingMessage {
   /** The response object associated with the request. */
   response: Response;
 
+  /** The unique request ID, also sent in the `X-Request-Id` response header. */
+  id: string;
+
   /** The cookies sent with the request. */
   cookies: Record<string, string>;
 
+  /** The signed and encrypted cookies sent with the request, once verified (and decrypted). */
+  signedCookies: Record<string, string>;
+
+  /** The CSRF token of the request, set by the `csrft` and `csrfGuard` middlewares. */
+  csrfToken?: string;
+
+  /** The Content-Security-Policy nonce of the response, set by the `secure` middleware. */
+  nonce?: string;
+
+  /** The request session, available once the `session` middleware runs. */
+  session?: Session;
+
+  /** The logged in user, loaded by the `user`, `auth` and `guest` middlewares, `null` for guests. */
+  user?: Row | null;
+
+  /** The verified bearer token, set by the `bearer` middleware. */
+  token?: BearerToken;
+
+  /** The permission names of the user, loaded by the `permit` and `permissions` middlewares. */
+  permissions?: Array<string>;
+
+  /** The row loaded by the `permit` middleware for resource-level checks. */
+  resource?: Row;
+
+  /** The policy of the matched service, consulted by the `permit` middleware. */
+  policy?: Policy;
+
   /** The protocol used for the request (e.g., HTTP or HTTPS). */
   protocol: 'http' | 'https' | string;
 
@@ -52,6 +122,9 @@ export interface Request<
   /** The parameters extracted from the route. */
   params: P;
 
+  /** The path of the matched route (e.g., `/users/:id`), relative to its namespace. */
+  route?: string;
+
   /** The parsed body of the request. */
   body: B;
 
@@ -86,13 +159,32 @@ export interface Request<
   getHeader: (name: string) => string | string[];
 
   /**
-   * Retrieves the client’s IP address (IPv4 only).
-   * Normalizes `::ffff:127.0.0.1` to `127.0.0.1`.
+   * Retrieves the client’s IP address.
+   * Normalizes `::ffff:127.0.0.1` and `::1` to `127.0.0.1`.
+   *
+   * The `Forwarded` or `X-Forwarded-For` chain is only followed through the proxies
+   * trusted by the `trustProxy` option, so clients cannot spoof their address.
    *
-   * @returns The client IPv4 address as a string.
+   * @returns The client IP address as a string.
    */
   getIp(): string;
 
+  /**
+   * Retrieves the protocol the client used, from the `Forwarded` or `X-Forwarded-Proto`
+   * header when sent by a trusted proxy, or from the base app URL.
+   *
+   * @returns `http` or `https`.
+   */
+  getProtocol(): string;
+
+  /**
+   * Retrieves the hostname the client used, from the `Forwarded` or `X-Forwarded-Host`
+   * header when sent by a trusted proxy, or from the base app URL.
+   *
+   * @returns The hostname.
+   */
+  getHost(): string;
+
   /**
    * Gets the base app URL from config (e.g., `https://example.com`).
    *
@@ -117,24 +209,122 @@ IncomingMessage.prototype.isAjax = function (): boolean {
   return xReq?.toLowerCase() === 'xmlhttprequest';
 };
 
+/**
+ * The `trustProxy` range lists, once compiled.
+ */
+const matchers = new WeakMap<Array<string>, (ip: string) => boolean>();
+
+/**
+ * Checks if a proxy is trusted by the `trustProxy` option.
+ *
+ * @param ip - The proxy address.
+ * @param hop - The number of proxies between the app and this one.
+ * @returns `true` if the headers set by the proxy can be trusted.
+ */
+function trusted(ip: string, hop: number): boolean {
+  const { trustProxy } = config().loadSync();
+
+  if (trustProxy === true) return true;
+  if (isInt(trustProxy)) return hop < trustProxy;
+  if (!isArrOfStr(trustProxy)) return false;
+
+  if (!matchers.has(trustProxy)) {
+    matchers.set(trustProxy, ipMatcher(trustProxy));
+  }
+
+  return matchers.get(trustProxy)(ip);
+}
+
+/**
+ * Reads a parameter of the `Forwarded` header, or its `X-Forwarded-*` counterpart.
+ *
+ * @param req - The request.
+ * @param name - The parameter name, `for`, `proto` or `host`.
+ * @returns The values of the parameter, from the client to the last proxy.
+ */
+function forwarded(req: Request, name: 'for' | 'proto' | 'host'): string[] {
+  const header = req.getHeader('forwarded');
+
+  if (isStr(header)) {
+    return header.split(',').flatMap((element) => {
+      const pair = element
+        .split(';')
+        .map((pair) => pair.split('='))
+        .find(([key]) => key.trim().toLowerCase() === name);
+
+      return pair ? [pair.slice(1).join('=').trim().replace(/^"|"$/g, '')] : [];
+    });
+  }
+
+  const value = req.getHeader(`x-forwarded-${name}`);
+  if (!isStr(value)) return [];
+
+  return value.split(',').map((item) => item.trim());
+}
+
+/**
+ * Reads a forwarded parameter as set by the outermost trusted proxy.
+ *
+ * Proxies append their values, so the leftmost ones may come from the client:
+ * walk back from the app through trusted proxies only, like `getIp` does.
+ *
+ * @param req - The request.
+ * @param name - The parameter name, `proto` or `host`.
+ * @returns The value of the parameter, or `undefined` if no trusted proxy set it.
+ */
+function outermost(req: Request, name: 'proto' | 'host'): string | undefined {
+  const chain = forwarded(req, 'for').map(normalizeIp).reverse();
+  const values = forwarded(req, name).reverse();
+  let ip = normalizeIp(req.socket?.remoteAddress);
+  let value: string | undefined;
+
+  for (let hop = 0; hop < values.length && trusted(ip, hop); hop++) {
+    value = values[hop];
+    ip = chain[hop];
+    if (!ip) break;
+  }
+
+  return value;
+}
+
 // @ts-ignore
 IncomingMessage.prototype.getIp = function (): string {
-  const forwarded = this.getHeader('x-forwarded-for');
-  let ip = '';
+  const chain = forwarded(this, 'for').map(normalizeIp).reverse();
+  let ip = normalizeIp(this.socket?.remoteAddress);
 
-  if (typeof forwarded === 'string') {
-    ip = forwarded.split(',')[0].trim();
-  } else {
-    ip = this.socket?.remoteAddress || '';
+  // Walk back from the app, through trusted proxies only
+  for (let hop = 0; hop < chain.length && trusted(ip, hop); hop++) {
+    if (!chain[hop]) break;
+    ip = chain[hop];
   }
 
-  // Normalize IPv6-embedded IPv4 and localhost
-  if (ip.startsWith('::ffff:')) return ip.replace('::ffff:', '');
-  else if (ip === '::1') return '127.0.0.1';
+  if (ip === '::1') return '127.0.0.1';
 
   return ip || '0.0.0.0';
 };
 
+// @ts-ignore
+IncomingMessage.prototype.getProtocol = function (): string {
+  const fallback = new URL(this.getBase()).protocol.replace(':', '');
+  const protocol = outermost(this, 'proto')?.toLowerCase();
+
+  return ['http', 'https'].includes(protocol) ? protocol : fallback;
+};
+
+// @ts-ignore
+IncomingMessage.prototype.getHost = function (): string {
+  const fallback = new URL(this.getBase()).hostname;
+  const host = outermost(this, 'host');
+
+  if (!host) return fallback;
+
+  try {
+    return new URL(`http://${host}`).hostname || fallback;
+  } catch {
+    return fallback;
+  }
+};
+
 // @ts-ignore
 IncomingMessage.prototype.getBase = function () {
   const { host, port, protocol, base } = config().loadSync();
@@ -180,3 +370,18 @@ IncomingMessage.prototype.accepts = function (name: string): boolean {
     .map((type) => type.trim())
     .some(($type) => $type === type || $type.includes(type));
 };
+
+// HTTP/2 requests get the same methods
+[
+  'isAjax',
+  'getIp',
+  'getProtocol',
+  'getHost',
+  'getBase',
+  'getHeader',
+  'type',
+  'accepts',
+].forEach(
+  (name) =>
+    (Http2ServerRequest.prototype[name] = IncomingMessage.prototype[name])
+);
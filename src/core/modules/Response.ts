@@ -1,4 +1,12 @@
 import { ServerResponse } from 'http';
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHmac,
+  randomBytes,
+  timingSafeEqual,
+} from 'crypto';
+import { Http2ServerResponse } from 'http2';
 import { createReadStream, ReadStream } from 'fs';
 import { stat } from 'fs/promises';
 import { NotFoundError } from '../../errors';
@@ -18,9 +26,17 @@ import {
   isChildOf,
   isInt,
   UTC,
+  withNonce,
+  hasAppKey,
 } from '../../helpers';
-import { FLASH_GET_KEY, FLASH_SET_KEY } from '../middlewares/flash';
+import {
+  FLASH_GET_KEY,
+  FLASH_SESSION_KEY,
+  FLASH_SET_KEY,
+} from '../middlewares/flash';
 import { config } from '../../config';
+import { appKeys, route, RouteQuery } from './App';
+import { RouteParams } from './Router';
 
 /**
  * Represents options for setting cookies in HTTP responses.
@@ -192,6 +208,9 @@ export interface Response extends ServerResponse {
   /**
    * Renders the component and sends the resulting HTML as the response.
    *
+   * Templates get the `$flash`, `$csrf`, `$permissions` and `$nonce` locals, and tools
+   * like `vite`, `csrf` and `bot` add the nonce to the tags they render.
+   *
    * @param path - The file path to the `Flex` component to be rendered.
    * @param locals - An optional object containing local variables to be passed to the component.
    * @param replacements - An optional object containing replacements to be applied during rendering.
@@ -238,6 +257,10 @@ export interface Response extends ServerResponse {
    * // Set a cookie
    * res.cookie('session', 'abc123');
    *
+   * // Set a signed or an encrypted cookie
+   * res.cookie().signed('theme', 'dark');
+   * res.cookie().encrypted('cart', JSON.stringify(cart));
+   *
    * // Forget (clear) a cookie
    * res.cookie().forget('session');
    */
@@ -299,6 +322,20 @@ export class Redirector {
     return this;
   }
 
+  /**
+   * Sets the redirect destination to a named route.
+   *
+   * @param name - The route name.
+   * @param params - The values of the route parameters.
+   * @param query - Optional query string values.
+   * @returns The current instance for chaining.
+   * @throws `AppError` If no route has the given name.
+   */
+  public route(name: string, params?: RouteParams, query?: RouteQuery): this {
+    this.url = route(name, params, query);
+    return this;
+  }
+
   /**
    * Adds a flash message to the request for use in the next response.
    * Messages are stored in a cookie and cleared after one use.
@@ -317,7 +354,15 @@ export class Redirector {
 
     this.req[FLASH_SET_KEY].push({ type, message });
 
-    this.res.cookie().set('flash', JSON.stringify(this.req[FLASH_SET_KEY]));
+    if (this.req.session) {
+      this.req.session.set(FLASH_SESSION_KEY, this.req[FLASH_SET_KEY]);
+    } else {
+      const messages = JSON.stringify(this.req[FLASH_SET_KEY]);
+
+      // Without an app key, the cookie cannot be signed
+      if (hasAppKey()) this.res.cookie().signed('flash', messages);
+      else this.res.cookie('flash', messages);
+    }
 
     return this;
   }
@@ -343,6 +388,30 @@ export class Redirector {
   }
 }
 
+/**
+ * Computes the signature of a cookie.
+ *
+ * @param key The app key.
+ * @param name The cookie name.
+ * @param value The cookie value.
+ * @returns The base64url HMAC-SHA256 signature.
+ */
+function hmac(key: string, name: string, value: string): string {
+  return createHmac('sha256', key)
+    .update(`${name}=${value}`)
+    .digest('base64url');
+}
+
+/**
+ * Derives the cookie encryption key from an app key, so it differs from the signing key.
+ *
+ * @param key The app key.
+ * @returns A 32 bytes AES key.
+ */
+function secret(key: string): Buffer {
+  return createHmac('sha256', key).update('bnjsx:cookie:encryption').digest();
+}
+
 /**
  * Error type for cookie-related operations.
  */
@@ -362,6 +431,111 @@ export class Cookie {
    */
   constructor(private req: Request, private res: Response) {}
 
+  /**
+   * Signs a cookie value with the app key (HMAC-SHA256).
+   *
+   * The signature covers the cookie name, so a signed value cannot be moved to another cookie.
+   *
+   * @param name - The cookie name.
+   * @param value - The cookie value.
+   * @returns The `s:value.signature` cookie value.
+   * @throws `CookieError` if the name or value is not a string.
+   */
+  public static sign(name: string, value: string): string {
+    if (!isStr(name)) throw new CookieError('Invalid cookie name');
+    if (!isStr(value)) throw new CookieError('Invalid cookie value');
+
+    return `s:${value}.${hmac(appKeys()[0], name, value)}`;
+  }
+
+  /**
+   * Verifies a signed cookie value against the current and previous app keys.
+   *
+   * @param name - The cookie name.
+   * @param signed - The `s:value.signature` cookie value.
+   * @returns The value, or `undefined` if the signature is invalid.
+   */
+  public static unsign(name: string, signed: string): string | undefined {
+    if (!isStr(name) || !isStr(signed) || !signed.startsWith('s:')) return;
+
+    const index = signed.lastIndexOf('.');
+    if (index < 2) return;
+
+    const value = signed.slice(2, index);
+    const received = Buffer.from(signed.slice(index + 1));
+
+    const valid = appKeys().some((key) => {
+      const expected = Buffer.from(hmac(key, name, value));
+
+      return (
+        expected.length === received.length &&
+        timingSafeEqual(expected, received)
+      );
+    });
+
+    if (valid) return value;
+  }
+
+  /**
+   * Encrypts a cookie value with the app key (AES-256-GCM).
+   *
+   * The cookie name is authenticated with the value, so an encrypted value cannot be moved to another cookie.
+   *
+   * @param name - The cookie name.
+   * @param value - The cookie value.
+   * @returns The `e:payload` cookie value.
+   * @throws `CookieError` if the name or value is not a string.
+   */
+  public static encrypt(name: string, value: string): string {
+    if (!isStr(name)) throw new CookieError('Invalid cookie name');
+    if (!isStr(value)) throw new CookieError('Invalid cookie value');
+
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', secret(appKeys()[0]), iv);
+
+    cipher.setAAD(Buffer.from(name));
+    const encrypted = Buffer.concat([cipher.update(value), cipher.final()]);
+    const payload = Buffer.concat([iv, cipher.getAuthTag(), encrypted]);
+
+    return `e:${payload.toString('base64url')}`;
+  }
+
+  /**
+   * Decrypts a cookie value using the current and previous app keys.
+   *
+   * @param name - The cookie name.
+   * @param encrypted - The `e:payload` cookie value.
+   * @returns The value, or `undefined` if it cannot be decrypted or was tampered with.
+   */
+  public static decrypt(name: string, encrypted: string): string | undefined {
+    if (!isStr(name) || !isStr(encrypted) || !encrypted.startsWith('e:')) {
+      return;
+    }
+
+    const payload = Buffer.from(encrypted.slice(2), 'base64url');
+    if (payload.length < 28) return;
+
+    const iv = payload.subarray(0, 12);
+    const tag = payload.subarray(12, 28);
+    const data = payload.subarray(28);
+
+    for (const key of appKeys()) {
+      try {
+        const decipher = createDecipheriv('aes-256-gcm', secret(key), iv);
+
+        decipher.setAAD(Buffer.from(name));
+        decipher.setAuthTag(tag);
+
+        return Buffer.concat([
+          decipher.update(data),
+          decipher.final(),
+        ]).toString();
+      } catch {
+        // Try the previous key
+      }
+    }
+  }
+
   /**
    * Retrieve cookie options for a given cookie name.
    *
@@ -450,6 +624,32 @@ export class Cookie {
     this.add(this.get(name, value, this.options(name)));
   }
 
+  /**
+   * Set a signed cookie on the HTTP response.
+   *
+   * The value stays readable by the client, but any change is detected: once the `cookie`
+   * middleware verifies it, the value is available in `req.signedCookies`.
+   *
+   * @param name Cookie name (must be a string)
+   * @param value Cookie value (must be a string)
+   */
+  public signed(name: string, value: string): void {
+    this.add(this.get(name, Cookie.sign(name, value), this.options(name)));
+  }
+
+  /**
+   * Set an encrypted cookie on the HTTP response.
+   *
+   * The value is hidden from the client and any change is detected: once the `cookie`
+   * middleware decrypts it, the value is available in `req.signedCookies`.
+   *
+   * @param name Cookie name (must be a string)
+   * @param value Cookie value (must be a string)
+   */
+  public encrypted(name: string, value: string): void {
+    this.add(this.get(name, Cookie.encrypt(name, value), this.options(name)));
+  }
+
   /**
    * Remove a cookie by name.
    *
@@ -526,10 +726,9 @@ ServerResponse.prototype.getMessage = function (code: number): string {
     424: 'Failed Dependency',
     425: 'Too Early',
     426: 'Upgrade Required',
-    427: 'Precondition Required',
-    428: 'Too Many Requests',
-    429: 'Request Header Fields Too Large',
-    431: 'Unavailable For Legal Reasons',
+    428: 'Precondition Required',
+    429: 'Too Many Requests',
+    431: 'Request Header Fields Too Large',
     451: 'Unavailable For Legal Reasons',
 
     // Server Error 5xx
@@ -583,6 +782,15 @@ ServerResponse.prototype.send = function (data?: unknown): Promise<void> {
       else return reject(new ResponseError('Invalid response data type'));
     }
 
+    // HEAD responses keep the GET headers without the body
+    if (this.request?.method === 'HEAD') {
+      if (data && !this.hasHeader('Content-Length')) {
+        this.setHeader('Content-Length', Buffer.byteLength(data as string));
+      }
+
+      return this.end((err?: Error) => (err ? reject(err) : resolve()));
+    }
+
     this.end(data, (err?: Error) => (err ? reject(err) : resolve()));
   });
 };
@@ -675,6 +883,11 @@ ServerResponse.prototype.stream = function (read: ReadStream): Promise<void> {
       return reject(new ResponseError('Invalid read stream'));
     }
 
+    if (this.request?.method === 'HEAD') {
+      read.destroy();
+      return this.end((err?: Error) => (err ? reject(err) : resolve()));
+    }
+
     read.pipe(this).on('finish', resolve).on('error', reject);
   });
 };
@@ -700,7 +913,12 @@ ServerResponse.prototype.status = function (
   }
 
   this.statusCode = code;
-  this.statusMessage = message ? message : this.getMessage(code);
+
+  // HTTP/2 has no status messages
+  if (!(this instanceof Http2ServerResponse)) {
+    this.statusMessage = message ? message : this.getMessage(code);
+  }
+
   return this;
 };
 
@@ -719,8 +937,10 @@ ServerResponse.prototype.render = function (
 
     locals.flash = flash;
     locals.csrf = csrf;
+    locals.permissions = this.request.permissions || [];
+    locals.nonce = this.request.nonce;
 
-    render(path, locals, replacements)
+    withNonce(this.request.nonce, () => render(path, locals, replacements))
       .then((content) => {
         this.setHeader('Content-Type', 'text/html');
         resolve(this.send(content));
@@ -760,3 +980,25 @@ ServerResponse.prototype.cookie = function (
   if (isStr(name) && isStr(value)) cookie.set(name, value);
   return cookie;
 };
+
+// HTTP/2 responses get the same methods, replacing the `stream` getter of the compatibility API
+[
+  'getMessage',
+  'contentType',
+  'send',
+  'sendFile',
+  'download',
+  'stream',
+  'redirect',
+  'status',
+  'render',
+  'html',
+  'json',
+  'cookie',
+].forEach((name) =>
+  Object.defineProperty(Http2ServerResponse.prototype, name, {
+    value: ServerResponse.prototype[name],
+    writable: true,
+    configurable: true,
+  })
+);
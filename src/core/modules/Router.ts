@@ -1,4 +1,5 @@
-import { isArrOfFunc, isHTTPMethod, isRegex, isStr } from '../../helpers';
+import { isArr, isArrOfFunc, isFunc, isHTTPMethod } from '../../helpers';
+import { isObj, isRegex, isStr } from '../../helpers';
 import { Middleware } from '../middlewares';
 import { HTTPMethod } from '../../config';
 
@@ -9,25 +10,284 @@ import { HTTPMethod } from '../../config';
  * @property `pattern` The regular expression pattern used to match the route path.
  * @property `params` Optional array of parameter names extracted from the route path.
  * @property `middlewares` The middleware functions to execute for this route.
+ * @property `name` Optional name used to generate the route path.
  */
 type Route = {
   method: HTTPMethod | '*';
   pattern: RegExp;
   params?: string[];
   middlewares: Middleware[];
+  name?: string;
 };
 
+/**
+ * A route parameter value, coerced according to the parameter type.
+ */
+export type RouteValue = string | number | boolean;
+
+/**
+ * Values used to fill the parameters of a named route.
+ */
+export type RouteParams = Record<string, RouteValue | Array<RouteValue>>;
+
 /**
  * Represents the result of a matched route.
  *
  * @property `middlewares` The middleware functions associated with the matched route.
  * @property `params` Extracted route parameters as a key-value object or an array.
+ * @property `route` The path of the matched route, including its group prefix (e.g., `/users/:id`).
  */
 export type RouteMatch = {
   middlewares: Middleware[];
-  params: Record<string, string> | Array<string>;
+  params: Record<string, RouteValue> | Array<string>;
+  route: string;
+};
+
+/**
+ * Describes a registered route, as listed by `Router.list()`.
+ *
+ * @property `method` The HTTP method of the route, or `*` for all methods.
+ * @property `path` The route path, including its group prefix, or the route RegExp.
+ * @property `name` The route name, if any.
+ * @property `middlewares` The router, group and route middlewares, the handler being last.
+ */
+export type RouteInfo = {
+  method: HTTPMethod | '*';
+  path: string | RegExp;
+  name?: string;
+  middlewares: Middleware[];
+};
+
+/**
+ * Represents the position of a matched route in the router.
+ *
+ * @property `index` The index of the matched route in `Router.routes`.
+ * @property `params` Extracted route parameters as a key-value object or an array.
+ */
+export type RouteLookup = {
+  index: number;
+  params: Record<string, RouteValue> | Array<string>;
+};
+
+/**
+ * A parsed `:param` path segment.
+ *
+ * @property `name` The parameter name.
+ * @property `source` The regular expression source the segment must match.
+ * @property `constraint` The constraint given in parentheses, if any.
+ * @property `test` The compiled constraint, anchored to the whole segment.
+ * @property `cast` Converts the matched value to the parameter type.
+ * @property `optional` Whether the segment may be omitted (`:param?`).
+ * @property `rest` Whether the parameter captures the rest of the path (`:param*`).
+ */
+type Param = {
+  name: string;
+  source: string;
+  constraint?: string;
+  test?: RegExp;
+  cast?: (value: string) => RouteValue;
+  optional: boolean;
+  rest: boolean;
+};
+
+/**
+ * Registration details of a route, by route index.
+ *
+ * @property `path` The path the route was registered with.
+ * @property `groups` The capture group index of each parameter in the route pattern.
+ * @property `casts` The type conversion of each typed parameter, by name.
+ */
+type Definition = {
+  path: string | RegExp;
+  groups?: number[];
+  casts?: Record<string, (value: string) => RouteValue>;
+};
+
+/**
+ * A route stored in the compiled route tree.
+ *
+ * @property `index` The index of the route in `Router.routes`.
+ * @property `path` The path the route was registered with.
+ * @property `keys` The names of the parameters captured on this branch, in order.
+ * @property `wildcard` Whether the route contains a `*` and must be tested with its pattern.
+ */
+type Leaf = {
+  index: number;
+  path: string;
+  keys: string[];
+  wildcard: boolean;
+};
+
+/**
+ * An edge from a node to a child matching parameter segments.
+ *
+ * @property `source` The constraint source, or an empty string for unconstrained params.
+ * @property `test` The compiled constraint, if any.
+ * @property `node` The child node.
+ */
+type Edge = {
+  source: string;
+  test?: RegExp;
+  node: Node;
+};
+
+/**
+ * A node in the compiled route tree.
+ *
+ * @property `statics` Child nodes keyed by their static segment.
+ * @property `params` Child nodes matching a single segment, constrained ones first.
+ * @property `rests` Child nodes matching all remaining segments.
+ * @property `leaves` Routes ending at this node, keyed by method.
+ * @property `wildcards` Routes with a `*` after this node, tested against the full path.
+ */
+type Node = {
+  statics: Map<string, Node>;
+  params: Array<Edge>;
+  rests: Array<Edge>;
+  leaves: Map<string, Leaf>;
+  wildcards: Array<Leaf>;
+};
+
+/**
+ * HTTP methods reported by `methods()`, in the order they are listed.
+ */
+const METHODS: Array<HTTPMethod> = [
+  'GET',
+  'HEAD',
+  'POST',
+  'PUT',
+  'PATCH',
+  'DELETE',
+  'OPTIONS',
+];
+
+/**
+ * Built-in parameter types, usable as constraints (e.g., `:id(int)`).
+ *
+ * Values of `int`, `float` and `bool` params are converted to their type.
+ */
+const TYPES: Record<
+  string,
+  { source: string; cast?: (value: string) => RouteValue }
+> = {
+  int: { source: '\\d+', cast: Number },
+  float: { source: '\\d+(?:\\.\\d+)?', cast: Number },
+  bool: { source: 'true|false', cast: (value) => value === 'true' },
+  alpha: { source: '[a-zA-Z]+' },
+  slug: { source: '[a-z0-9]+(?:-[a-z0-9]+)*' },
+  uuid: {
+    source:
+      '[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}',
+  },
 };
 
+/**
+ * Creates an empty route tree node.
+ */
+function node(): Node {
+  return {
+    statics: new Map(),
+    params: [],
+    rests: [],
+    leaves: new Map(),
+    wildcards: [],
+  };
+}
+
+/**
+ * Splits a path into segments, ignoring the leading and one trailing slash.
+ *
+ * @param path The path to split.
+ * @returns The path segments.
+ *
+ * @example
+ * segments('/users/12/'); // ['users', '12']
+ * segments('/');          // []
+ */
+function segments(path: string): string[] {
+  if (path.length > 1 && path.endsWith('/')) path = path.slice(0, -1);
+  if (path.startsWith('/')) path = path.slice(1);
+  return path === '' ? [] : path.split('/');
+}
+
+/**
+ * Parses a `:param` path segment.
+ *
+ * Supported forms are `:name`, `:name(regex)`, `:name(type)`, and any of them
+ * followed by `?` (optional) or `*` (rest of the path).
+ *
+ * @param segment The path segment.
+ * @returns The parsed param, or `undefined` if the segment is not a param.
+ * @throws `RouterError` If the segment or its constraint is invalid.
+ *
+ * @example
+ * param(':id(int)'); // { name: 'id', source: '\\d+', cast: Number, ... }
+ * param(':slug?');    // { name: 'slug', source: '[^\\/]+', optional: true, ... }
+ */
+function param(segment: string): Param | undefined {
+  if (!segment.startsWith(':')) return;
+
+  let index = 1;
+  while (index < segment.length && !'(?*'.includes(segment[index])) index++;
+
+  const name = decodeURIComponent(segment.slice(1, index));
+  let constraint: string;
+
+  if (segment[index] === '(') {
+    let depth = 0;
+    const start = index;
+
+    for (; index < segment.length; index++) {
+      if (segment[index] === '\\') index++;
+      else if (segment[index] === '(') depth++;
+      else if (segment[index] === ')' && --depth === 0) break;
+    }
+
+    if (depth !== 0) {
+      throw new RouterError(`Invalid route param '${segment}'`);
+    }
+
+    constraint = segment.slice(start + 1, index++);
+  }
+
+  const modifier = segment.slice(index);
+
+  if (!name || !['', '?', '*'].includes(modifier)) {
+    throw new RouterError(`Invalid route param '${segment}'`);
+  }
+
+  const type = TYPES[constraint];
+  const source = type ? type.source : constraint;
+  let test: RegExp;
+
+  if (source !== undefined) {
+    try {
+      test = new RegExp(`^(?:${source})$`);
+    } catch (error) {
+      throw new RouterError(`Invalid route param pattern '${segment}'`);
+    }
+  }
+
+  return {
+    name,
+    source: source === undefined ? '[^\\/]+' : source,
+    constraint,
+    test,
+    cast: type?.cast,
+    optional: modifier === '?',
+    rest: modifier === '*',
+  };
+}
+
+/**
+ * Counts the capture groups of a regular expression source.
+ *
+ * @param source The regular expression source.
+ */
+function groups(source: string): number {
+  return new RegExp(`${source}|`).exec('').length - 1;
+}
+
 /**
  * Custom error class for router-related errors.
  */
@@ -46,13 +306,58 @@ export class Router {
    */
   public routes: Array<Route> = new Array();
 
+  /**
+   * The compiled route tree for string paths.
+   */
+  private tree: Node = node();
+
+  /**
+   * Indexes of the routes registered with a RegExp path, in order.
+   */
+  private expressions: Array<number> = new Array();
+
+  /**
+   * Registration details of the routes, by route index.
+   */
+  private definitions: Array<Definition> = new Array();
+
+  /**
+   * Indexes of the named routes, by name.
+   */
+  private names: Map<string, number> = new Map();
+
+  /**
+   * Middlewares executed before the middlewares of every route in this router.
+   */
+  private stack: Array<Middleware> = new Array();
+
+  /**
+   * The path prefix and middlewares of the group being defined, if any.
+   */
+  private scope: { prefix: string; middlewares: Array<Middleware> } = {
+    prefix: '',
+    middlewares: [],
+  };
+
   /**
    * Adds a new route to the router.
    *
+   * String paths are compiled into the route tree, where static segments take priority
+   * over constrained `:param(regex)` segments, then `:param` segments, then `:param*`
+   * segments and finally `*` wildcards. A param failing its constraint falls through
+   * to the next matching route.
+   *
    * @param method The HTTP method for the route (e.g., `GET`, `POST`) or `*` for all methods.
    * @param  path The route path, which can be a string (supports dynamic parameters) or a RegExp.
    * @param middlewares The middleware functions to be executed for this route.
-   * @throws `RouterError` If the method, path, or middlewares are invalid.
+   * @throws `RouterError` If the method, path, or middlewares are invalid, or if the route conflicts with an existing one.
+   *
+   * @example
+   * router.add('GET', '/users/:id(int)', show);   // id is a number
+   * router.add('GET', '/users/:id(\\d+)', show);  // id is a string of digits
+   * router.add('GET', '/files/:path*', file);      // path is 'a/b/c'
+   * router.add('GET', '/blog/:slug?', blog);       // slug is optional
+   * router.add('GET', '/:lang(en|fr)/docs', docs); // lang is 'en' or 'fr'
    */
   public add(
     method: HTTPMethod | '*',
@@ -71,33 +376,336 @@ export class Router {
       throw new RouterError('Invalid route middlewares');
     }
 
+    middlewares = [...this.scope.middlewares, ...middlewares];
+
     if (isRegex(path)) {
+      if (this.scope.prefix) {
+        throw new RouterError('Cannot add a RegExp route to a prefixed group');
+      }
+
+      this.expressions.push(this.routes.length);
+      this.definitions.push({ path });
       this.routes.push({ method, pattern: path, middlewares });
-      return;
+      return this;
+    }
+
+    if (this.scope.prefix) {
+      if (!path.startsWith('/')) path = `/${path}`;
+      path = path === '/' ? this.scope.prefix : this.scope.prefix + path;
     }
 
     const params: string[] = [];
+    const definition: Definition = { path, groups: [], casts: {} };
+    const parts = path.split('/');
+    let starred = false;
+    let group = 1;
+
+    const source = parts
+      .map((part, index) => {
+        const p = index === 0 ? undefined : param(part);
+
+        if (!p) {
+          // Only the first `*` of the path is a wildcard
+          if (!starred && part.includes('*')) {
+            starred = true;
+            part = part.replace('*', '.*');
+          }
+
+          return index === 0 ? part : `/${part}`;
+        }
+
+        if (p.rest && index !== parts.length - 1) {
+          throw new RouterError(`Invalid route param '${part}'`);
+        }
+
+        params.push(p.name);
+        definition.groups.push(group);
+        if (p.cast) definition.casts[p.name] = p.cast;
+        group += 1 + groups(p.source);
+
+        if (p.rest) return '(?:\\/(.*?))?';
+        return `(?:\\/(${p.source}))${p.optional ? '?' : ''}`;
+      })
+      .join('');
+
+    const pattern = new RegExp(`^${source}\\/?$`);
+
+    const route: Route =
+      params.length === 0
+        ? { method, pattern, middlewares }
+        : { method, pattern, params, middlewares };
+
+    this.insert(path, route);
+    this.definitions.push(definition);
+    this.routes.push(route);
 
-    const pattern = new RegExp(
-      `^${path
-        .replace('*', '.*')
-        .replace(/\/:([^\/\?]+)/g, (_, name: string) => {
-          params.push(name);
-          return '(?:\\/([^\\/]+))';
-        })}\/?$`
+    return this;
+  }
+
+  /**
+   * Compiles a string route into the route tree.
+   *
+   * Optional `:param?` segments create one branch with and one without the segment.
+   * Segments after the first `*` are not compiled; the route is tested with its full
+   * pattern once the tree reaches the wildcard.
+   *
+   * @param path The route path.
+   * @param route The route to insert, which will be stored at the next index.
+   * @throws `RouterError` If a route with the same method and shape already exists.
+   */
+  private insert(path: string, route: Route): void {
+    const parts = segments(path);
+    const wildcard = parts.findIndex(
+      (part) => !part.startsWith(':') && part.includes('*')
     );
 
-    if (params.length === 0) {
-      this.routes.push({ method, pattern, middlewares });
-      return;
+    const end = wildcard === -1 ? parts.length : wildcard;
+
+    let branches: Array<{ node: Node; keys: string[] }> = [
+      { node: this.tree, keys: [] },
+    ];
+
+    for (const part of parts.slice(0, end)) {
+      const p = param(part);
+      const next: typeof branches = [];
+
+      for (const branch of branches) {
+        if (p) {
+          const edges = p.rest ? branch.node.rests : branch.node.params;
+          const source = p.test ? p.source : '';
+          let edge = edges.find((edge) => edge.source === source);
+
+          if (!edge) {
+            edge = { source, test: p.test, node: node() };
+
+            // Constrained params are tried before unconstrained ones
+            const position = edges.findIndex((edge) => edge.source === '');
+            if (source === '' || position === -1) edges.push(edge);
+            else edges.splice(position, 0, edge);
+          }
+
+          next.push({ node: edge.node, keys: [...branch.keys, p.name] });
+          if (p.optional) next.push(branch);
+          continue;
+        }
+
+        if (!branch.node.statics.has(part)) {
+          branch.node.statics.set(part, node());
+        }
+
+        next.push({ node: branch.node.statics.get(part), keys: branch.keys });
+      }
+
+      // Branches ending on the same node keep the first (greedy) one
+      branches = next.filter(
+        (branch, index) =>
+          next.findIndex((b) => b.node === branch.node) === index
+      );
     }
 
-    const decoded = params.map((p) => decodeURIComponent(p));
-    this.routes.push({ method, pattern, params: decoded, middlewares });
+    const index = this.routes.length;
+    const method = route.method;
+
+    for (const { node } of branches) {
+      const existing =
+        wildcard === -1
+          ? node.leaves.get(method)
+          : node.wildcards.find((leaf) => {
+              const other = this.routes[leaf.index];
+              return (
+                other.method === method &&
+                other.pattern.source === route.pattern.source
+              );
+            });
+
+      if (existing) {
+        throw new RouterError(
+          `Route conflict: '${method} ${path}' conflicts with '${method} ${existing.path}'`
+        );
+      }
+    }
+
+    for (const { node, keys } of branches) {
+      const leaf: Leaf = { index, path, keys, wildcard: wildcard !== -1 };
+      if (wildcard === -1) node.leaves.set(method, leaf);
+      else node.wildcards.push(leaf);
+    }
+  }
+
+  /**
+   * Adds middlewares executed for every route of this router.
+   *
+   * Router middlewares run after the global `App.use` and namespace middlewares,
+   * and before group and route middlewares. They apply to all routes of the router,
+   * including routes registered before the call.
+   *
+   * @param middlewares The middleware functions to add.
+   * @throws `RouterError` If the middlewares are invalid.
+   */
+  public use(...middlewares: Middleware[]): this {
+    if (!isArrOfFunc(middlewares)) {
+      throw new RouterError('Invalid router middlewares');
+    }
+
+    this.stack.push(...middlewares);
+    return this;
+  }
+
+  /**
+   * Defines a group of routes sharing a path prefix and middlewares.
+   *
+   * Group middlewares run after router middlewares and before route middlewares.
+   * Nested groups combine their prefixes and run the outer group middlewares first.
+   *
+   * @param prefix The path prefix of the group routes (e.g., `/admin`), or `/` for none.
+   * @param callback Receives the router to register the group routes.
+   * @param middlewares The middleware functions executed for the group routes only.
+   * @throws `RouterError` If the prefix, callback or middlewares are invalid.
+   *
+   * @example
+   * router.group('/admin', (r) => {
+   *   r.get('/users', users);        // GET /admin/users
+   *   r.post('/users/:id', update);  // POST /admin/users/:id
+   * }, auth, csrf);
+   */
+  public group(
+    prefix: string,
+    callback: (router: this) => void,
+    ...middlewares: Middleware[]
+  ): this {
+    if (!isStr(prefix)) {
+      throw new RouterError('Invalid group prefix');
+    }
+
+    if (!isFunc(callback)) {
+      throw new RouterError('Invalid group callback');
+    }
+
+    if (middlewares.some((middleware) => !isFunc(middleware))) {
+      throw new RouterError('Invalid group middlewares');
+    }
+
+    const scope = this.scope;
+    const path = prefix.replace(/\/+$/, '');
+
+    this.scope = {
+      prefix:
+        scope.prefix +
+        (path === '' || path.startsWith('/') ? path : `/${path}`),
+      middlewares: [...scope.middlewares, ...middlewares],
+    };
+
+    try {
+      callback(this);
+    } finally {
+      this.scope = scope;
+    }
+
+    return this;
+  }
+
+  /**
+   * Names the last registered route, so its path can be generated with `path()`.
+   *
+   * @param name The route name (e.g., `posts.show`).
+   * @throws `RouterError` If the name is invalid or taken, or if the last route cannot be named.
+   *
+   * @example
+   * router.get('/posts/:id', show).name('posts.show');
+   */
+  public name(name: string): this {
+    if (!isStr(name) || name.trim() === '') {
+      throw new RouterError('Invalid route name');
+    }
+
+    const index = this.routes.length - 1;
+
+    if (index < 0) {
+      throw new RouterError(`No route to name '${name}'`);
+    }
+
+    if (!isStr(this.definitions[index].path)) {
+      throw new RouterError(`Cannot name a RegExp route '${name}'`);
+    }
+
+    if (this.names.has(name)) {
+      throw new RouterError(`Duplicate route name '${name}'`);
+    }
+
+    this.routes[index].name = name;
+    this.names.set(name, index);
 
     return this;
   }
 
+  /**
+   * Generates the path of a named route.
+   *
+   * Rest params (`:path*`) accept a string or an array of segments.
+   *
+   * @param name The route name.
+   * @param params The values of the route parameters.
+   * @returns The generated path, or `undefined` if this router has no route with that name.
+   * @throws `RouterError` If a required param is missing or fails its constraint, an unknown param is given, or the route has a wildcard.
+   *
+   * @example
+   * router.get('/posts/:id', show).name('posts.show');
+   * router.path('posts.show', { id: 12 }); // '/posts/12'
+   */
+  public path(name: string, params?: RouteParams): string | undefined {
+    const index = this.names.get(name);
+    if (index === undefined) return;
+
+    const values: RouteParams = isObj(params) ? params : {};
+    const used: string[] = [];
+
+    const parts = segments(this.definitions[index].path as string).map(
+      (part) => {
+        const p = param(part);
+
+        if (!p) {
+          if (!part.includes('*')) return part;
+
+          throw new RouterError(
+            `Cannot generate a path for wildcard route '${name}'`
+          );
+        }
+
+        const value = values[p.name];
+        used.push(p.name);
+
+        if (value === undefined || value === null) {
+          if (p.optional || p.rest) return;
+          throw new RouterError(
+            `Missing param '${p.name}' for route '${name}'`
+          );
+        }
+
+        const pieces = p.rest
+          ? (isArr(value) ? value : String(value).split('/')).map(String)
+          : [String(value)];
+
+        if (pieces.some((piece) => p.test && !p.test.test(piece))) {
+          throw new RouterError(
+            `Invalid param '${p.name}' for route '${name}'`
+          );
+        }
+
+        return pieces.map((piece) => encodeURIComponent(piece)).join('/');
+      }
+    );
+
+    const extra = Object.keys(values).filter((key) => !used.includes(key));
+
+    if (extra.length > 0) {
+      throw new RouterError(
+        `Unknown params for route '${name}': ${extra.join(', ')}`
+      );
+    }
+
+    return '/' + parts.filter((part) => part).join('/');
+  }
+
   /**
    * Adds a `GET` route to the router.
    *
@@ -187,32 +795,210 @@ export class Router {
   }
 
   /**
-   * Matches a given path and HTTP method against the registered routes.
+   * Walks the route tree looking for a route matching the remaining segments.
+   *
+   * Static children are tried first, then param children, then rest children,
+   * then wildcard routes.
+   *
+   * @param node The current tree node.
+   * @param parts The request path segments.
+   * @param depth The index of the segment to match next.
+   * @param values The parameter values captured so far.
+   * @param path The full request path, used to test wildcard routes.
+   * @param method The HTTP method of the request.
+   * @returns The matched leaf with its captured values, or `undefined`.
+   */
+  private search(
+    node: Node,
+    parts: string[],
+    depth: number,
+    values: string[],
+    path: string,
+    method: string
+  ): { leaf: Leaf; values: string[] } | undefined {
+    if (depth === parts.length) {
+      const leaf = node.leaves.get(method) || node.leaves.get('*');
+      if (leaf) return { leaf, values };
+    } else {
+      const part = parts[depth];
+      const child = node.statics.get(part);
+
+      if (child) {
+        const found = this.search(
+          child,
+          parts,
+          depth + 1,
+          values,
+          path,
+          method
+        );
+
+        if (found) return found;
+      }
+
+      for (const edge of part === '' ? [] : node.params) {
+        if (edge.test && !edge.test.test(part)) continue;
+
+        const found = this.search(
+          edge.node,
+          parts,
+          depth + 1,
+          [...values, part],
+          path,
+          method
+        );
+
+        if (found) return found;
+      }
+    }
+
+    const rest = parts.slice(depth);
+
+    for (const edge of rest.includes('') ? [] : node.rests) {
+      if (edge.test && rest.some((part) => !edge.test.test(part))) continue;
+
+      const leaf = edge.node.leaves.get(method) || edge.node.leaves.get('*');
+      const value = rest.length > 0 ? rest.join('/') : undefined;
+      if (leaf) return { leaf, values: [...values, value] };
+    }
+
+    const leaf = node.wildcards.find((leaf) =>
+      this.test(leaf.index, path, method)
+    );
+
+    if (leaf) return { leaf, values };
+  }
+
+  /**
+   * Tests whether the route at the given index matches a path and method.
+   *
+   * @param index The index of the route in `routes`.
+   * @param path The request path.
+   * @param method The HTTP method of the request.
+   */
+  private test(index: number, path: string, method: string): boolean {
+    const route = this.routes[index];
+    if (route.method !== method && route.method !== '*') return false;
+    return route.pattern.test(path);
+  }
+
+  /**
+   * Finds the route matching a given path and HTTP method.
+   *
+   * String routes are resolved through the route tree. RegExp routes are tested in
+   * registration order, and when both kinds match, the route registered first wins.
+   * Typed params (`int`, `float` and `bool`) are converted to their type, others stay strings.
+   * `HEAD` requests fall back to `GET` routes when no `HEAD` route matches.
    *
    * @param path The request path to match against the routes.
    * @param method The HTTP method of the request (e.g., `GET`, `POST`).
-   * @returns The matched route with its middlewares and parameters, or `undefined` if no match is found.
+   * @returns The index of the matched route and its parameters, or `undefined` if no match is found.
    */
-  public match(path: string, method: string): RouteMatch | undefined {
-    const route = this.routes
-      .filter((route) => route.method === method || route.method === '*')
-      .find((route) => route.pattern.test(path));
+  public lookup(path: string, method: string): RouteLookup | undefined {
+    const found = this.search(this.tree, segments(path), 0, [], path, method);
+    const expression = this.expressions.find((index) =>
+      this.test(index, path, method)
+    );
 
-    if (route) {
-      const match = route.pattern.exec(path);
+    if (expression !== undefined && (!found || expression < found.leaf.index)) {
+      const match = this.routes[expression].pattern.exec(path);
+      return { index: expression, params: match.slice(1) };
+    }
 
-      if (route.params) {
-        const params: Record<string, string> = {};
+    if (!found) {
+      if (method === 'HEAD') return this.lookup(path, 'GET');
+      return;
+    }
 
-        route.params.forEach((param, index) => {
-          params[param] = match[index + 1];
-        });
+    const { leaf, values } = found;
+    const route = this.routes[leaf.index];
+    const { groups, casts } = this.definitions[leaf.index];
 
-        return { middlewares: route.middlewares, params };
+    if (!route.params) {
+      // Wildcard routes without params expose their captures, if any
+      if (leaf.wildcard) {
+        return {
+          index: leaf.index,
+          params: route.pattern.exec(path).slice(1),
+        };
       }
 
-      const params = match.slice(1);
-      return { middlewares: route.middlewares, params };
+      return { index: leaf.index, params: [] };
     }
+
+    const params: Record<string, RouteValue> = {};
+
+    // Wildcard routes capture their parameters with the full pattern
+    if (leaf.wildcard) {
+      const match = route.pattern.exec(path);
+      route.params.forEach((param, index) => {
+        params[param] = match[groups[index]];
+      });
+    } else {
+      route.params.forEach((param) => (params[param] = undefined));
+      leaf.keys.forEach((key, index) => (params[key] = values[index]));
+    }
+
+    for (const [param, cast] of Object.entries(casts)) {
+      if (params[param] !== undefined) {
+        params[param] = cast(params[param] as string);
+      }
+    }
+
+    return { index: leaf.index, params };
+  }
+
+  /**
+   * Returns the HTTP methods with a route matching a given path.
+   *
+   * `HEAD` is included whenever `GET` is, as `HEAD` requests are served by `GET` routes.
+   *
+   * @param path The request path to match against the routes.
+   * @returns The allowed methods, or an empty array if no route matches the path.
+   */
+  public methods(path: string): Array<HTTPMethod> {
+    return METHODS.filter((method) => this.lookup(path, method) !== undefined);
+  }
+
+  /**
+   * Lists the registered routes in registration order.
+   *
+   * @returns The method, path, name and middlewares of each route.
+   */
+  public list(): Array<RouteInfo> {
+    return this.routes.map((route, index) => ({
+      method: route.method,
+      path: this.definitions[index].path,
+      name: route.name,
+      middlewares: [...this.stack, ...route.middlewares],
+    }));
+  }
+
+  /**
+   * Returns the middlewares and parameters of a route found with `lookup()`.
+   *
+   * @param found The route lookup result.
+   * @returns The router and route middlewares, with the route parameters and path.
+   */
+  public resolve(found: RouteLookup): RouteMatch {
+    const route = this.routes[found.index];
+
+    return {
+      middlewares: [...this.stack, ...route.middlewares],
+      params: found.params,
+      route: String(this.definitions[found.index].path),
+    };
+  }
+
+  /**
+   * Matches a given path and HTTP method against the registered routes.
+   *
+   * @param path The request path to match against the routes.
+   * @param method The HTTP method of the request (e.g., `GET`, `POST`).
+   * @returns The matched route with its middlewares and parameters, or `undefined` if no match is found.
+   */
+  public match(path: string, method: string): RouteMatch | undefined {
+    const found = this.lookup(path, method);
+    if (found) return this.resolve(found);
   }
 }
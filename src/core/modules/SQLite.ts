@@ -4,7 +4,7 @@ import Database from 'better-sqlite3';
 import { Driver, Connection, Rows } from './Driver';
 
 // Helpers
-import { isArr, isBool, isNum, isStr } from '../../helpers';
+import { isArr, isBool, isInt, isNum, isStr } from '../../helpers';
 
 // Errors
 import {
@@ -16,6 +16,11 @@ import {
   RollbackTransactionError,
 } from '../../errors';
 
+/**
+ * Counts the streamed queries, to name the temporary tables they are kept in.
+ */
+let streams = 0;
+
 /**
  * SQLite driver responsible for creating SQLite connections.
  * @implements `Driver` interface.
@@ -154,12 +159,14 @@ export class SQLite implements Driver {
               });
 
               try {
-                // Handle SELECT queries
-                if (/^\s*SELECT/i.test(sql)) {
-                  return resolve(db.prepare(sql).all(...values) as Rows);
+                const statement = db.prepare(sql);
+
+                // Handle SELECT queries, and WITH queries returning rows
+                if (/^\s*(SELECT|WITH)/i.test(sql) && statement.reader) {
+                  return resolve(statement.all(...values) as Rows);
                 }
 
-                const info = db.prepare(sql).run(...values);
+                const info = statement.run(...values);
 
                 // Handle INSERT queries
                 if (/^\s*INSERT/i.test(sql)) {
@@ -177,6 +184,39 @@ export class SQLite implements Driver {
               }
             });
           },
+          async *stream(
+            sql: string,
+            values?: Array<string | number | boolean>,
+            size: number = 1000
+          ) {
+            if (!isStr(sql)) {
+              throw new QueryError(`Invalid query: ${String(sql)}`);
+            }
+
+            if (!isInt(size) || size < 1) {
+              throw new QueryError(`Invalid stream size: ${String(size)}`);
+            }
+
+            // Keep the result in a temporary table, and read it one chunk at a time
+            // in insertion order, so no statement stays open between chunks
+            const query = sql.replace(/;\s*$/, '');
+            const table = `temp.bnjsx_stream_${++streams}`;
+
+            await sqlite.query(`CREATE TABLE ${table} AS ${query};`, values);
+
+            try {
+              for (let offset = 0; ; offset += size) {
+                const rows = (await sqlite.query(
+                  `SELECT * FROM ${table} WHERE rowid > ${offset} ORDER BY rowid LIMIT ${size};`
+                )) as Rows;
+
+                if (rows.length > 0) yield rows;
+                if (rows.length < size) return;
+              }
+            } finally {
+              await sqlite.query(`DROP TABLE IF EXISTS ${table};`);
+            }
+          },
           close() {
             return new Promise((resolve, reject) => {
               try {
@@ -1,4 +1,11 @@
-import { isFunc, isInt, isObj, isStr, isSubclass } from '../../helpers';
+import {
+  hasAppKey,
+  isFunc,
+  isInt,
+  isObj,
+  isStr,
+  isSubclass,
+} from '../../helpers';
 import { AppOptions, config } from '../../config';
 import { UTC } from '../../helpers/UTC';
 import { Logger } from '../../helpers/Logger';
@@ -6,16 +13,20 @@ import { Request } from './Request';
 import { Redirector, Response } from './Response';
 import { Validator } from './Validator';
 import { Table, TableFinder } from './Table';
-import { Router } from './Router';
-import { FLASH_SET_KEY } from '../middlewares/flash';
+import { Router, RouteParams } from './Router';
+import { route, RouteQuery } from './App';
+import { FLASH_SESSION_KEY, FLASH_SET_KEY } from '../middlewares/flash';
 import { Fetcher } from './Fetcher';
 import { FileOptions, Form } from './Form';
 import { resolve, normalize, relative, sep, isAbsolute } from 'path';
 import { store, Store, StoreOptions } from '../../helpers/Store';
 import { folder, Folder, FolderOptions } from '../../helpers/Folder';
-import { Builder } from './Builder';
+import { Builder, TransactionOptions } from './Builder';
 import { Entry } from '../validation/Entry';
 import { ValidatorError } from '../../errors';
+import { Auth } from './Auth';
+import { Gate } from './Gate';
+import { Row } from './Driver';
 
 /**
  * Custom error class can be thrown and caught to handle service-specific errors.
@@ -45,8 +56,28 @@ export interface Page {
   total: number;
 }
 
+/**
+ * Represents cursor pagination navigation URLs.
+ *
+ * @property `next` - URL of the next page, or `false` if none.
+ * @property `prev` - URL of the previous page, or `false` if none.
+ *
+ * @example
+ * const page: CursorPage = {
+ *   next: '/users?cursor=WyJhZnRlciIsWzIwXV0.2f1c...',
+ *   prev: false,
+ * };
+ */
+export interface CursorPage {
+  next: string | false;
+  prev: string | false;
+}
+
 /**
  * A single unit combining routing, validation, data handling, rendering, and caching, all you need to handle HTTP requests in one place.
+ *
+ * Register routes in the constructor, the same ones whatever the request: requests are matched
+ * against a blueprint of the service, created with a detached request.
  */
 export class Service extends Router {
   /** The HTTP request object for the current request. */
@@ -190,6 +221,25 @@ export class Service extends Router {
     return this.response.redirect(path);
   }
 
+  /**
+   * Generates the URL path of a named route.
+   *
+   * @param name - The route name.
+   * @param params - The values of the route parameters.
+   * @param query - Optional query string values.
+   * @returns The route path, including its namespace and query string.
+   *
+   * @example
+   * this.route('posts.show', { id: 12 }); // '/posts/12'
+   */
+  protected route(
+    name: string,
+    params?: RouteParams,
+    query?: RouteQuery
+  ): string {
+    return route(name, params, query);
+  }
+
   /**
    * Redirect to the specified path with an optional flash message.
    *
@@ -223,15 +273,19 @@ export class Service extends Router {
    * Executes a transactional handler function with a Builder and Table factory.
    * Automatically begins, commits, or rolls back the transaction.
    *
+   * Nested calls use savepoints, see `Builder.transaction()`.
+   *
    * @param handler Function receiving a Table factory and Builder, which can return a value or Promise.
    * @param pool Optional connection pool name.
+   * @param options Optional transaction options, such as deadlock `retries`.
    * @returns The result of the handler function.
    */
   protected transaction<T>(
     handler: (table: (name: string) => Table, builder: Builder) => T,
-    pool?: string
+    pool?: string,
+    options?: TransactionOptions
   ): Promise<T> {
-    return Table.transaction(handler, pool);
+    return Table.transaction(handler, pool, options);
   }
 
   /**
@@ -333,10 +387,10 @@ export class Service extends Router {
   }
 
   /**
-   * Add a flash message to the current request and set a flash cookie on the response.
+   * Add a flash message to the current request and keep it for the next request.
    *
-   * Flash messages are stored in the request and sent as a JSON string cookie,
-   * with HTTP-only flag and 10 minutes expiration.
+   * Flash messages are stored in the request and kept on the session if started,
+   * otherwise sent as a signed JSON string cookie.
    *
    * @param message - The message to flash to the user.
    * @param error - The type/category of the flash message.
@@ -351,7 +405,64 @@ export class Service extends Router {
   ): void {
     if (!this.request[FLASH_SET_KEY]) this.request[FLASH_SET_KEY] = [];
     this.request[FLASH_SET_KEY].push({ type, message });
-    this.response.cookie('flash', JSON.stringify(this.request[FLASH_SET_KEY]));
+
+    if (this.request.session) {
+      this.request.session.set(FLASH_SESSION_KEY, this.request[FLASH_SET_KEY]);
+    } else {
+      const messages = JSON.stringify(this.request[FLASH_SET_KEY]);
+
+      // Without an app key, the cookie cannot be signed
+      if (hasAppKey()) this.response.cookie().signed('flash', messages);
+      else this.response.cookie('flash', messages);
+    }
+  }
+
+  /**
+   * The authorization policy of this service, consulted by the `permit` middleware and
+   * `authorize()` before the role permissions of the user.
+   *
+   * Override it for resource-level checks. Return `true` or `false` to decide,
+   * or nothing to fall back to the role permissions.
+   *
+   * @param user - The logged in user, or `null` for guests.
+   * @param action - The action, e.g., `posts.update`.
+   * @param resource - The row the action is performed on, if any.
+   *
+   * @example
+   * public can(user: Row | null, action: string, post?: Row) {
+   *   if (action === 'posts.update' && post) return post.user_id === user?.id;
+   * }
+   */
+  public can(
+    user: Row | null,
+    action: string,
+    resource?: Row
+  ): boolean | void | Promise<boolean | void> {
+    return undefined;
+  }
+
+  /**
+   * Makes sure the logged in user can perform an action, using the service policy and the role permissions.
+   *
+   * @param action - The action, e.g., `posts.update`.
+   * @param resource - The row the action is performed on, if any.
+   * @throws `ForbiddenError` if the action is not allowed.
+   *
+   * @example
+   * const post = await this.find('posts').one(this.request.params.id);
+   * await this.authorize('posts.update', post);
+   */
+  protected async authorize(action: string, resource?: Row): Promise<void> {
+    if (this.request.user === undefined && this.request.session) {
+      this.request.user = await Auth.user(this.request, this.response);
+    }
+
+    await Gate.authorize(
+      this.request.user ?? null,
+      action,
+      resource,
+      (...args) => this.can(...args)
+    );
   }
 
   /**
@@ -397,6 +508,44 @@ export class Service extends Router {
     };
   }
 
+  /**
+   * Generates navigation URLs for cursor pagination, with the page cursors in the `cursor` query param.
+   *
+   * Returns an object containing:
+   *  - `next`: URL string for next page or `false` if none,
+   *  - `prev`: URL string for previous page or `false` if none,
+   *  or `null` if pagination is not applicable.
+   *
+   * @param data Cursor pagination object containing the page cursors.
+   * @param href Optional href to build pagination links on. Defaults to current request URL.
+   * @returns CursorPage instance
+   */
+  protected cursors(data: any, href?: string): CursorPage | null {
+    if (!isObj(data) || !isObj(data.cursor)) return null;
+
+    const { next, prev } = data.cursor;
+
+    if (!isStr(next) && !isStr(prev)) return null;
+    if (!isStr(href)) href = this.request.href;
+
+    const url = (cursor: string) => {
+      try {
+        const url = new URL(href, this.request.base);
+        url.searchParams.set('cursor', cursor);
+        return url.pathname + url.search;
+      } catch (error) {
+        throw new ServiceError(
+          `Invalid URL for pagination: href='${href}', base='${this.request.base}'`
+        );
+      }
+    };
+
+    return {
+      next: isStr(next) ? url(next) : false,
+      prev: isStr(prev) ? url(prev) : false,
+    };
+  }
+
   /**
    * Extract and return a clean, domain name from a given URL or string.
    *
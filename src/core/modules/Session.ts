@@ -0,0 +1,567 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { config } from '../../config';
+import { bugger, isFunc, isInt, isObj, isStr } from '../../helpers';
+import { Folder, folder, Store, store } from '../../helpers';
+import { Builder } from './Builder';
+import { Request } from './Request';
+import { Response } from './Response';
+import { appKey, appKeys } from './App';
+
+/**
+ * Custom error class for session-related errors.
+ */
+export class SessionError extends Error {}
+
+/**
+ * A session as kept by an adapter.
+ */
+export type SessionRecord = {
+  /** The session values. */
+  data: Record<string, any>;
+
+  /** Timestamp (ms) when the session was created. */
+  createdAt: number;
+
+  /** Timestamp (ms) of the last request using the session. */
+  touchedAt: number;
+};
+
+/**
+ * Keeps sessions by ID.
+ *
+ * Implement it to keep sessions anywhere else, and set it as `session.driver` in your config.
+ */
+export interface SessionAdapter {
+  /**
+   * Reads a session.
+   *
+   * @param id The session ID.
+   * @returns The session, or `null` if missing or expired.
+   */
+  get(id: string): Promise<SessionRecord | null>;
+
+  /**
+   * Writes a session.
+   *
+   * @param id The session ID.
+   * @param record The session.
+   * @param ttl The number of seconds to keep the session.
+   */
+  set(id: string, record: SessionRecord, ttl: number): Promise<void>;
+
+  /**
+   * Deletes a session.
+   *
+   * @param id The session ID.
+   */
+  delete(id: string): Promise<void>;
+}
+
+/**
+ * Keeps sessions in memory, using a `Store`.
+ *
+ * Sessions are lost on restart and not shared between processes.
+ */
+export class StoreAdapter implements SessionAdapter {
+  /**
+   * @param cache The store to keep sessions in, the `sessions` store by default.
+   */
+  constructor(private cache: Store = store('sessions')) {}
+
+  public async get(id: string): Promise<SessionRecord | null> {
+    return this.cache.get(id);
+  }
+
+  public async set(id: string, record: SessionRecord, ttl: number) {
+    this.cache.set(id, record, ttl);
+  }
+
+  public async delete(id: string): Promise<void> {
+    this.cache.delete(id);
+  }
+}
+
+/**
+ * Keeps sessions on disk, using a `Folder`.
+ *
+ * The default `sessions` folder has no entry limit, expired sessions
+ * are cleaned up by the folder itself.
+ */
+export class FolderAdapter implements SessionAdapter {
+  /**
+   * @param cache The folder to keep sessions in, the `sessions` folder by default.
+   */
+  constructor(
+    private cache: Folder = folder('sessions', {
+      size: Number.MAX_SAFE_INTEGER,
+    })
+  ) {}
+
+  public get(id: string): Promise<SessionRecord | null> {
+    return this.cache.get(id);
+  }
+
+  /**
+   * Keeps the session in the folder.
+   *
+   * @throws `SessionError` if the folder did not keep the session (e.g., it is full).
+   */
+  public async set(id: string, record: SessionRecord, ttl: number) {
+    await this.cache.set(id, record, ttl);
+
+    if ((await this.cache.get(id)) === null) {
+      throw new SessionError(`Session could not be kept: ${id}`);
+    }
+  }
+
+  public delete(id: string): Promise<void> {
+    return this.cache.delete(id);
+  }
+}
+
+/**
+ * Keeps sessions in a database table, using `Builder`.
+ *
+ * The table needs the following columns:
+ * - `id`: a string primary key (64 characters).
+ * - `payload`: a text column holding the JSON session.
+ * - `expires_at`: a big integer holding the expiry timestamp (ms).
+ *
+ * Expired rows are ignored, remove them from time to time with `prune()`.
+ */
+export class SQLAdapter implements SessionAdapter {
+  /**
+   * @param table The sessions table, `sessions` by default.
+   * @param pool The pool name, the `default` pool if omitted.
+   */
+  constructor(private table: string = 'sessions', private pool?: string) {}
+
+  public get(id: string): Promise<SessionRecord | null> {
+    return Builder.require(async (builder) => {
+      const row = await builder
+        .select('payload', 'expires_at')
+        .from(this.table)
+        .where((col) => col('id').equal(id))
+        .first();
+
+      if (!row || Number(row.expires_at) <= Date.now()) return null;
+
+      try {
+        return JSON.parse(row.payload as string);
+      } catch {
+        return null;
+      }
+    }, this.pool);
+  }
+
+  public set(id: string, record: SessionRecord, ttl: number): Promise<void> {
+    return Builder.require(async (builder) => {
+      const payload = JSON.stringify(record);
+      const expires_at = Date.now() + ttl * 1000;
+
+      const row = await builder
+        .select('id')
+        .from(this.table)
+        .where((col) => col('id').equal(id))
+        .first();
+
+      if (row) {
+        await builder
+          .update()
+          .table(this.table)
+          .set({ payload, expires_at })
+          .where((col) => col('id').equal(id))
+          .exec();
+      } else {
+        await builder
+          .insert()
+          .into(this.table)
+          .row({ id, payload, expires_at })
+          .exec();
+      }
+    }, this.pool);
+  }
+
+  public delete(id: string): Promise<void> {
+    return Builder.require(async (builder) => {
+      await builder
+        .delete()
+        .from(this.table)
+        .where((col) => col('id').equal(id))
+        .exec();
+    }, this.pool);
+  }
+
+  /**
+   * Deletes expired sessions.
+   */
+  public prune(): Promise<void> {
+    return Builder.require(async (builder) => {
+      await builder
+        .delete()
+        .from(this.table)
+        .where((col) => col('expires_at').lessThanOrEqual(Date.now()))
+        .exec();
+    }, this.pool);
+  }
+}
+
+/**
+ * Represents the session of a request, available as `req.session` once the
+ * `session` middleware runs.
+ *
+ * Values are changed in memory and saved once the response ends, so the session
+ * is up to date for the next request. Save it yourself with `save()` before
+ * streaming a response, since the session cookie cannot be set once headers are sent.
+ *
+ * Empty new sessions are never saved, so visitors only get a session cookie
+ * once something is set.
+ */
+export class Session {
+  /**
+   * The session ID.
+   */
+  public id: string;
+
+  /**
+   * The session values.
+   */
+  private data: Record<string, any>;
+
+  /**
+   * Timestamp (ms) when the session was created.
+   */
+  private createdAt: number;
+
+  /**
+   * Timestamp (ms) of the previous request using the session.
+   */
+  private touchedAt: number;
+
+  /**
+   * Whether values changed since the session was loaded.
+   */
+  private dirty: boolean = false;
+
+  /**
+   * Whether the client has the cookie of the current session ID.
+   */
+  private issued: boolean;
+
+  /**
+   * Creates a session.
+   *
+   * @param res The response.
+   * @param adapter Where the session is kept.
+   * @param id The session ID, a new one if omitted.
+   * @param record The stored session, if any.
+   */
+  constructor(
+    private res: Response,
+    private adapter: SessionAdapter,
+    id?: string,
+    record?: SessionRecord
+  ) {
+    const now = Date.now();
+
+    this.id = isStr(id) && isObj(record) ? id : Session.generate();
+    this.data = isObj(record?.data) ? record.data : {};
+    this.createdAt = isInt(record?.createdAt) ? record.createdAt : now;
+    this.touchedAt = isInt(record?.touchedAt) ? record.touchedAt : now;
+    this.issued = isObj(record);
+  }
+
+  /**
+   * Generates a random session ID.
+   *
+   * @returns A 64 characters hex ID.
+   */
+  private static generate(): string {
+    return randomBytes(32).toString('hex');
+  }
+
+  /**
+   * Signs a session ID with the app key.
+   *
+   * @param id The session ID.
+   * @returns The `id.signature` cookie value.
+   */
+  public static sign(id: string): string {
+    const signature = createHmac('sha256', appKey())
+      .update(id)
+      .digest('base64url');
+
+    return `${id}.${signature}`;
+  }
+
+  /**
+   * Verifies a signed session ID.
+   *
+   * @param value The `id.signature` cookie value.
+   * @returns The session ID, or `undefined` if the signature is invalid.
+   */
+  public static unsign(value: string): string | undefined {
+    if (!isStr(value)) return;
+
+    const index = value.lastIndexOf('.');
+    if (index < 1) return;
+
+    const id = value.slice(0, index);
+    const received = Buffer.from(value.slice(index + 1));
+
+    // Sessions signed with a previous key stay valid
+    const valid = appKeys().some((key) => {
+      const expected = Buffer.from(
+        createHmac('sha256', key).update(id).digest('base64url')
+      );
+
+      return (
+        expected.length === received.length &&
+        timingSafeEqual(expected, received)
+      );
+    });
+
+    if (!valid) return;
+
+    return id;
+  }
+
+  /**
+   * Resolves the configured session adapter.
+   *
+   * @returns The session adapter.
+   */
+  public static adapter(): SessionAdapter {
+    const { driver, table, pool } = config().loadSync().session;
+
+    if (isObj(driver)) {
+      const adapter = driver as SessionAdapter;
+
+      if (!isFunc(adapter.get) || !isFunc(adapter.set)) {
+        throw new SessionError('Invalid session driver');
+      }
+
+      return adapter;
+    }
+
+    if (driver === 'folder') return new FolderAdapter();
+    if (driver === 'sql') return new SQLAdapter(table, pool);
+    return new StoreAdapter();
+  }
+
+  /**
+   * Loads the session of a request from its cookie, or starts a new one.
+   *
+   * Sessions idle for longer than `idle` seconds, or older than `absolute` seconds, are discarded.
+   *
+   * @param req The request.
+   * @param res The response.
+   * @returns The session.
+   */
+  public static async start(req: Request, res: Response): Promise<Session> {
+    const { cookie, idle, absolute } = config().loadSync().session;
+    const adapter = Session.adapter();
+    const id = Session.unsign(req.cookies?.[cookie]);
+
+    if (!id) return new Session(res, adapter);
+
+    const record = await adapter.get(id);
+    if (!isObj(record)) return new Session(res, adapter);
+
+    const now = Date.now();
+
+    if (
+      now - record.touchedAt > idle * 1000 ||
+      now - record.createdAt > absolute * 1000
+    ) {
+      await adapter.delete(id);
+      return new Session(res, adapter);
+    }
+
+    return new Session(res, adapter, id, record);
+  }
+
+  /**
+   * Retrieves a session value.
+   *
+   * @param key The value key.
+   * @param fallback The value to return if the key is missing.
+   * @returns The value, or the fallback.
+   */
+  public get<T = any>(key: string, fallback: T = null): T {
+    return key in this.data ? this.data[key] : fallback;
+  }
+
+  /**
+   * Sets a session value.
+   *
+   * @param key The value key.
+   * @param value The value, must be JSON serializable to be kept on disk or in SQL.
+   * @throws `SessionError` if the key is not a string.
+   */
+  public set(key: string, value: any): void {
+    if (!isStr(key)) throw new SessionError('Invalid session key');
+
+    this.data[key] = value;
+    this.dirty = true;
+  }
+
+  /**
+   * Checks if a session value exists.
+   *
+   * @param key The value key.
+   * @returns `true` if the key exists, otherwise `false`.
+   */
+  public has(key: string): boolean {
+    return key in this.data;
+  }
+
+  /**
+   * Removes a session value.
+   *
+   * @param key The value key.
+   */
+  public forget(key: string): void {
+    if (!(key in this.data)) return;
+
+    delete this.data[key];
+    this.dirty = true;
+  }
+
+  /**
+   * Retrieves a session value and removes it.
+   *
+   * @param key The value key.
+   * @param fallback The value to return if the key is missing.
+   * @returns The value, or the fallback.
+   */
+  public pull<T = any>(key: string, fallback: T = null): T {
+    const value = this.get(key, fallback);
+    this.forget(key);
+    return value;
+  }
+
+  /**
+   * Returns a copy of all session values.
+   *
+   * @returns The session values.
+   */
+  public all(): Record<string, any> {
+    return { ...this.data };
+  }
+
+  /**
+   * Moves the session to a new ID, keeping its values.
+   *
+   * Call it whenever privileges change (e.g., on login) to prevent session fixation.
+   *
+   * @returns A promise that resolves once the previous ID is deleted.
+   */
+  public async regenerate(): Promise<void> {
+    if (this.issued) await this.adapter.delete(this.id);
+
+    this.id = Session.generate();
+    this.issued = false;
+    this.dirty = true;
+  }
+
+  /**
+   * Deletes the session and forgets its cookie.
+   *
+   * The request continues with a new empty session, so values set afterward
+   * (e.g., a flash message after logout) start a new session.
+   *
+   * @returns A promise that resolves once the session is deleted.
+   */
+  public async destroy(): Promise<void> {
+    await this.adapter.delete(this.id);
+
+    const { cookie } = config().loadSync().session;
+    if (this.issued && !this.res.headersSent) this.res.cookie().forget(cookie);
+
+    this.id = Session.generate();
+    this.data = {};
+    this.createdAt = Date.now();
+    this.touchedAt = this.createdAt;
+    this.issued = false;
+    this.dirty = false;
+  }
+
+  /**
+   * Saves the session and sets its cookie if the client does not have it yet.
+   *
+   * Unchanged sessions are only saved to refresh their idle expiry, at most once a minute.
+   *
+   * @returns A promise that resolves once the session is saved.
+   */
+  public async save(): Promise<void> {
+    const { cookie, idle, absolute } = config().loadSync().session;
+    const now = Date.now();
+
+    // Do not start sessions for nothing
+    if (!this.issued && Object.keys(this.data).length === 0) return;
+
+    if (this.issued && !this.dirty && now - this.touchedAt < 60 * 1000) return;
+
+    const lifetime = Math.ceil((this.createdAt + absolute * 1000 - now) / 1000);
+    if (lifetime <= 0) return;
+
+    const record = {
+      data: { ...this.data },
+      createdAt: this.createdAt,
+      touchedAt: now,
+    };
+    await this.adapter.set(this.id, record, Math.min(idle, lifetime));
+
+    this.touchedAt = now;
+    this.dirty = false;
+
+    if (!this.issued && !this.res.headersSent) {
+      const options = { ...this.res.cookie().options(cookie) };
+
+      // The cookie expires with the session, unless configured otherwise
+      if (!isObj(config().loadSync().cookies?.[cookie])) {
+        delete options.expires;
+        options.maxAge = lifetime;
+      }
+
+      this.res
+        .cookie()
+        .add(this.res.cookie().get(cookie, Session.sign(this.id), options));
+
+      this.issued = true;
+    }
+  }
+
+  /**
+   * Saves the session before the response ends.
+   *
+   * Errors are reported in development, and the response ends anyway.
+   */
+  public bind(): void {
+    const res = this.res;
+    const end = res.end;
+    const save = () => this.save();
+
+    function ended(cb?: () => void): Response;
+    function ended(chunk: any, cb?: () => void): Response;
+    function ended(
+      chunk: any,
+      encoding: BufferEncoding,
+      cb?: () => void
+    ): Response;
+    function ended(...args: Array<any>): Response {
+      res.end = end;
+
+      save()
+        .catch((error) => {
+          if (config().loadSync().env === 'dev') bugger(error);
+        })
+        .finally(() => end.apply(res, args));
+
+      return res;
+    }
+
+    res.end = ended;
+  }
+}
@@ -1,9 +1,9 @@
 import { QueryError } from '../../errors';
 import { isArr, isFunc, isObj, isStr } from '../../helpers';
-import { Builder } from './Builder';
+import { Builder, TransactionOptions } from './Builder';
 import { Driver, Row, Rows } from './Driver';
 import { CB, Ops, Fetcher, WhereArgs, WhereClause } from './Fetcher';
-import { AppOptions, config } from '../../config';
+import { config } from '../../config';
 
 /**
  * Options for performing an UPSERT (insert or update) operation on a table.
@@ -53,7 +53,8 @@ export class TableWhere extends WhereClause {
         return builder.delete().from(this.table).where(this.state.where).exec();
       },
       this.pool,
-      this.builder
+      this.builder,
+      'write'
     );
   }
 
@@ -73,7 +74,8 @@ export class TableWhere extends WhereClause {
           .exec();
       },
       this.pool,
-      this.builder
+      this.builder,
+      'write'
     );
   }
 
@@ -91,7 +93,8 @@ export class TableWhere extends WhereClause {
           .first();
       },
       this.pool,
-      this.builder
+      this.builder,
+      'read'
     );
   }
 
@@ -105,7 +108,8 @@ export class TableWhere extends WhereClause {
         return builder.select().from(this.table).where(this.state.where).exec();
       },
       this.pool,
-      this.builder
+      this.builder,
+      'read'
     );
   }
 }
@@ -141,7 +145,8 @@ export class TableFinder {
           .first();
       },
       this.pool,
-      this.builder
+      this.builder,
+      'read'
     );
   }
 
@@ -161,7 +166,8 @@ export class TableFinder {
           .first();
       },
       this.pool,
-      this.builder
+      this.builder,
+      'read'
     );
   }
 
@@ -180,7 +186,8 @@ export class TableFinder {
           .exec();
       },
       this.pool,
-      this.builder
+      this.builder,
+      'read'
     );
   }
 
@@ -200,7 +207,8 @@ export class TableFinder {
           .exec();
       },
       this.pool,
-      this.builder
+      this.builder,
+      'read'
     );
   }
 }
@@ -267,16 +275,19 @@ export class Table {
    *
    * This method:
    * - Requests a connection from the pool.
-   * - Starts a transaction (`BEGIN`).
+   * - Starts a transaction (`BEGIN`), or a savepoint if a transaction of the pool is already active.
    * - Provides a `Builder` and a `Table(name)` to the handler.
-   * - Commits the transaction on success.
-   * - Rolls back the transaction on error.
+   * - Commits the transaction (or releases the savepoint) on success.
+   * - Rolls back the transaction (or to the savepoint) on error.
    * - Releases the connection in all cases.
    *
    * In short, this method manages the full transaction lifecycle for you.
+   * Queries made by the handler through `Table`, `Fetcher` or `Builder.require()`
+   * also run in the transaction, see `Builder.transaction()`.
    *
    * @param handler - A function that receives a `Table` factory and `Builder`. Can be async or sync.
    * @param pool - Optional name of the connection pool to use. Defaults to the app's default pool.
+   * @param options - Optional transaction options, such as deadlock `retries`.
    * @returns The resolved value of the handler function.
    * @throws QueryError if the handler is not a function.
    * @throws Any error thrown by the handler will propagate after rollback.
@@ -286,32 +297,16 @@ export class Table {
       table: (name: string) => Table,
       builder: Builder
     ) => Promise<T> | T,
-    pool?: string
+    pool?: string,
+    options?: TransactionOptions
   ): Promise<T> {
     if (!isFunc(handler)) throw new QueryError('Invalid transaction hanlder');
 
-    const app = config().loadSync() as AppOptions;
-
-    if (!isStr(pool)) pool = app.default;
-
-    const connection = await app.cluster.request(pool);
-    const builder = new Builder(connection);
-
-    try {
-      await connection.beginTransaction();
-      const result = await handler(
-        (name: string) => new Table(name, builder),
-        builder
-      );
-
-      await connection.commit();
-      connection.release();
-      return result as T;
-    } catch (error) {
-      await connection.rollback();
-      connection.release();
-      throw error;
-    }
+    return Builder.transaction(
+      (builder) => handler((name: string) => new Table(name, builder), builder),
+      pool,
+      options
+    );
   }
 
   /**
@@ -374,7 +369,8 @@ export class Table {
         return upsert.exec();
       },
       this.pname,
-      this.builder
+      this.builder,
+      'write'
     ) as Promise<T>;
   }
 
@@ -389,7 +385,8 @@ export class Table {
         return builder.insert().into(this.table).rows(rows).exec();
       },
       this.pname,
-      this.builder
+      this.builder,
+      'write'
     ) as Promise<number>;
   }
 
@@ -0,0 +1,448 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { config } from '../../config';
+import { isArrOfStr, isInt, isObj, isStr } from '../../helpers';
+import { Auth, AuthError } from './Auth';
+import { Builder } from './Builder';
+import { Row } from './Driver';
+import { Request } from './Request';
+import { Cookie, Response } from './Response';
+
+/**
+ * Custom error class for two-factor authentication errors.
+ */
+export class TwoFactorError extends Error {}
+
+/**
+ * The base32 alphabet (RFC 4648) secrets are encoded with.
+ */
+const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/**
+ * Encodes bytes to base32, without padding.
+ *
+ * @param bytes The bytes.
+ * @returns The base32 string.
+ */
+function encode(bytes: Buffer): string {
+  let result = '';
+  let value = 0;
+  let bits = 0;
+
+  for (const byte of bytes) {
+    value = ((value << 8) | byte) & 0xffff;
+    bits += 8;
+
+    while (bits >= 5) {
+      result += ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) result += ALPHABET[(value << (5 - bits)) & 31];
+
+  return result;
+}
+
+/**
+ * Decodes a base32 string, ignoring case, spaces and padding.
+ *
+ * @param text The base32 string.
+ * @returns The bytes, or `undefined` if the string is not base32.
+ */
+function decode(text: string): Buffer | undefined {
+  if (!isStr(text)) return;
+
+  const chars = text.replace(/[\s=]/g, '').toUpperCase();
+  const bytes: Array<number> = [];
+  let value = 0;
+  let bits = 0;
+
+  for (const char of chars) {
+    const index = ALPHABET.indexOf(char);
+    if (index === -1) return;
+
+    value = ((value << 5) | index) & 0xffff;
+    bits += 5;
+
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  if (bytes.length === 0) return;
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * Computes an HMAC-based one-time password (RFC 4226).
+ *
+ * @param key The secret key.
+ * @param counter The counter, the time step for TOTP.
+ * @returns The code, left padded with zeros.
+ */
+function hotp(key: Buffer, counter: number): string {
+  const { digits, algorithm } = config().loadSync().twoFactor;
+  const message = Buffer.alloc(8);
+
+  message.writeUInt32BE(Math.floor(counter / 2 ** 32), 0);
+  message.writeUInt32BE(counter >>> 0, 4);
+
+  const hash = createHmac(algorithm.toLowerCase(), key)
+    .update(message)
+    .digest();
+  const offset = hash[hash.length - 1] & 15;
+  const binary =
+    ((hash[offset] & 127) << 24) |
+    (hash[offset + 1] << 16) |
+    (hash[offset + 2] << 8) |
+    hash[offset + 3];
+
+  return String(binary % 10 ** digits).padStart(digits, '0');
+}
+
+/**
+ * Compares two strings in constant time.
+ *
+ * @param a The first string.
+ * @param b The second string.
+ * @returns `true` if both strings are equal.
+ */
+function equal(a: string, b: string): boolean {
+  const first = Buffer.from(a);
+  const second = Buffer.from(b);
+
+  return first.length === second.length && timingSafeEqual(first, second);
+}
+
+/**
+ * Parses the recovery code hashes kept in a user row.
+ *
+ * @param value The JSON array of hashes.
+ * @returns The hashes, or none if malformed.
+ */
+function parse(value: unknown): Array<string> {
+  if (!isStr(value)) return [];
+
+  try {
+    const hashes = JSON.parse(value);
+    return isArrOfStr(hashes) ? hashes : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Time-based one-time passwords (RFC 6238), compatible with authenticator apps,
+ * and single-use recovery codes.
+ *
+ * Two-factor settings are kept in the `auth.table` users table, with:
+ * - `two_factor_secret`: a nullable string column holding the base32 secret (at least 32 characters).
+ * - `two_factor_recovery_codes`: a nullable text column holding the JSON array of recovery code hashes.
+ * - `two_factor_step`: a nullable big integer holding the time step of the last code used,
+ *   so a code cannot be used twice.
+ *
+ * Once a user passes the second factor, a signed cookie (`twoFactor.cookie`) lets the
+ * `twoFactor` middleware through for `twoFactor.ttl` seconds.
+ *
+ * @example
+ * // Setup: show the URI as a QR code, then confirm a code
+ * const secret = TwoFactor.secret();
+ * const uri = TwoFactor.uri(secret, req.user.email);
+ * const codes = await TwoFactor.enable(req.user, secret, req.body.code);
+ *
+ * // Challenge: after login
+ * if (await TwoFactor.attempt(req.user, req.body.code)) TwoFactor.pass(req, res);
+ */
+export class TwoFactor {
+  /**
+   * Generates a random secret.
+   *
+   * @returns A base32 secret of 160 bits.
+   */
+  public static secret(): string {
+    return encode(randomBytes(20));
+  }
+
+  /**
+   * Builds the `otpauth://` URI authenticator apps read from a QR code.
+   *
+   * @param secret The base32 secret.
+   * @param account The account name shown in the app (e.g., the user email).
+   * @param issuer The issuer shown in the app. Defaults to `twoFactor.issuer`.
+   * @returns The URI.
+   * @throws `TwoFactorError` if the secret or account is invalid.
+   */
+  public static uri(secret: string, account: string, issuer?: string): string {
+    const options = config().loadSync().twoFactor;
+
+    if (!decode(secret)) throw new TwoFactorError('Invalid two-factor secret');
+    if (!isStr(account)) throw new TwoFactorError('Invalid account name');
+    if (!isStr(issuer)) issuer = options.issuer;
+
+    const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(
+      account
+    )}`;
+    const params = new URLSearchParams({
+      secret: secret.replace(/[\s=]/g, '').toUpperCase(),
+      issuer,
+      algorithm: options.algorithm,
+      digits: String(options.digits),
+      period: String(options.period),
+    });
+
+    return `otpauth://totp/${label}?${params.toString()}`;
+  }
+
+  /**
+   * Computes the code of a secret at a given time.
+   *
+   * @param secret The base32 secret.
+   * @param time The timestamp (ms). Defaults to now.
+   * @returns The code.
+   * @throws `TwoFactorError` if the secret is invalid.
+   */
+  public static code(secret: string, time: number = Date.now()): string {
+    const key = decode(secret);
+    if (!key) throw new TwoFactorError('Invalid two-factor secret');
+
+    const { period } = config().loadSync().twoFactor;
+    return hotp(key, Math.floor(time / 1000 / period));
+  }
+
+  /**
+   * Verifies a code, accepting codes of `twoFactor.window` time steps before
+   * and after the current one to allow for clock drift.
+   *
+   * @param secret The base32 secret.
+   * @param code The code entered by the user.
+   * @param last The time step of the last code used, only later ones are accepted.
+   * @returns The time step of the code, or `null` if the code is invalid.
+   */
+  public static verify(
+    secret: string,
+    code: string,
+    last?: number
+  ): number | null {
+    const { digits, period, window } = config().loadSync().twoFactor;
+    const key = decode(secret);
+
+    if (!key || !isStr(code)) return null;
+
+    code = code.replace(/\s/g, '');
+    if (!new RegExp(`^\\d{${digits}}$`).test(code)) return null;
+
+    const current = Math.floor(Date.now() / 1000 / period);
+    let match: number | null = null;
+
+    // Every step is checked, so timing does not tell which one matched
+    for (let step = current - window; step <= current + window; step++) {
+      if (isInt(last) && step <= last) continue;
+      if (equal(hotp(key, step), code) && match === null) match = step;
+    }
+
+    return match;
+  }
+
+  /**
+   * Generates recovery codes, to use when the authenticator is lost.
+   *
+   * @param count The number of codes. Defaults to `twoFactor.recoveryCodes`.
+   * @returns The plain codes (e.g., `4f1c9-a07be`).
+   */
+  public static recoveryCodes(count?: number): Array<string> {
+    if (!isInt(count) || count <= 0) {
+      count = config().loadSync().twoFactor.recoveryCodes;
+    }
+
+    return Array.from({ length: count }, () => {
+      const code = randomBytes(5).toString('hex');
+      return `${code.slice(0, 5)}-${code.slice(5)}`;
+    });
+  }
+
+  /**
+   * Checks if a user enabled two-factor authentication.
+   *
+   * @param user The user row.
+   * @returns `true` if the user has a secret.
+   */
+  public static enabled(user: Row): boolean {
+    return isObj(user) && isStr(user.two_factor_secret);
+  }
+
+  /**
+   * Enables two-factor authentication once the user confirms a code of the new secret.
+   *
+   * @param user The user row.
+   * @param secret The secret generated by `TwoFactor.secret()`.
+   * @param code A code of the secret, proving the authenticator is set up.
+   * @returns The plain recovery codes to show the user once, or `null` if the code is invalid.
+   */
+  public static async enable(
+    user: Row,
+    secret: string,
+    code: string
+  ): Promise<Array<string> | null> {
+    const step = TwoFactor.verify(secret, code);
+    if (step === null) return null;
+
+    const codes = TwoFactor.recoveryCodes();
+
+    await TwoFactor.update(user, {
+      two_factor_secret: secret,
+      two_factor_recovery_codes: JSON.stringify(
+        codes.map((code) => Auth.digest(code))
+      ),
+      two_factor_step: step,
+    });
+
+    return codes;
+  }
+
+  /**
+   * Disables two-factor authentication.
+   *
+   * @param user The user row.
+   */
+  public static async disable(user: Row): Promise<void> {
+    await TwoFactor.update(user, {
+      two_factor_secret: null,
+      two_factor_recovery_codes: null,
+      two_factor_step: null,
+    });
+  }
+
+  /**
+   * Replaces the recovery codes of a user.
+   *
+   * @param user The user row.
+   * @returns The new plain recovery codes.
+   */
+  public static async regenerate(user: Row): Promise<Array<string>> {
+    const codes = TwoFactor.recoveryCodes();
+
+    await TwoFactor.update(user, {
+      two_factor_recovery_codes: JSON.stringify(
+        codes.map((code) => Auth.digest(code))
+      ),
+    });
+
+    return codes;
+  }
+
+  /**
+   * Checks the second factor of a user: a code of the authenticator, or a recovery code.
+   *
+   * Codes are single use: the time step of the code is recorded, and recovery codes are deleted.
+   * The user row is locked in a transaction and read again first, so concurrent attempts
+   * cannot use the same code twice.
+   *
+   * @param user The user row.
+   * @param code The code entered by the user.
+   * @returns `true` if the code is valid.
+   */
+  public static async attempt(user: Row, code: string): Promise<boolean> {
+    if (!TwoFactor.enabled(user) || !isStr(code)) return false;
+
+    const { pool } = config().loadSync().auth;
+
+    return Builder.transaction(async () => {
+      await Auth.users()
+        .where((col) => col('id').equal(user.id))
+        .update({ id: user.id });
+
+      const row = await Auth.users()
+        .where((col) => col('id').equal(user.id))
+        .first();
+
+      if (!TwoFactor.enabled(row)) return false;
+
+      const last = Number(row.two_factor_step ?? NaN);
+      const step = TwoFactor.verify(
+        row.two_factor_secret as string,
+        code,
+        isInt(last) ? last : undefined
+      );
+
+      if (step !== null) {
+        await TwoFactor.update(user, { two_factor_step: step });
+        return true;
+      }
+
+      const hashes = parse(row.two_factor_recovery_codes);
+      const hash = Auth.digest(code.trim().toLowerCase());
+      const index = hashes.findIndex((item) => equal(item, hash));
+
+      if (index === -1) return false;
+
+      hashes.splice(index, 1);
+      await TwoFactor.update(user, {
+        two_factor_recovery_codes: JSON.stringify(hashes),
+      });
+
+      return true;
+    }, pool);
+  }
+
+  /**
+   * Marks the second factor of the logged in user as verified on this device,
+   * for `twoFactor.ttl` seconds.
+   *
+   * @param req The request, with a logged in user.
+   * @param res The response.
+   * @throws `AuthError` if no user is logged in.
+   */
+  public static pass(req: Request, res: Response): void {
+    if (!isObj(req.user)) throw new AuthError('No user is logged in');
+
+    const { cookie, ttl } = config().loadSync().twoFactor;
+    const value = `${req.user.id}|${Date.now() + ttl * 1000}`;
+    const options = { ...res.cookie().options(cookie) };
+
+    // The cookie expires with the verification, unless configured otherwise
+    if (!isObj(config().loadSync().cookies?.[cookie])) {
+      delete options.expires;
+      options.maxAge = ttl;
+    }
+
+    res
+      .cookie()
+      .add(res.cookie().get(cookie, Cookie.sign(cookie, value), options));
+  }
+
+  /**
+   * Checks if the second factor of the logged in user was verified on this device.
+   *
+   * Requires the `cookie` middleware, which verifies signed cookies.
+   *
+   * @param req The request.
+   * @returns `true` if the user passed the second factor and it did not expire.
+   */
+  public static passed(req: Request): boolean {
+    if (!isObj(req.user)) return false;
+
+    const { cookie } = config().loadSync().twoFactor;
+    const value = req.signedCookies?.[cookie];
+
+    if (!isStr(value)) return false;
+
+    const [id, expires] = value.split('|');
+    return id === String(req.user.id) && Number(expires) > Date.now();
+  }
+
+  /**
+   * Updates the two-factor columns of a user, and the row itself.
+   *
+   * @param user The user row.
+   * @param values The new values.
+   */
+  private static async update(user: Row, values: Row): Promise<void> {
+    await Auth.users()
+      .where((col) => col('id').equal(user.id))
+      .update(values);
+
+    Object.assign(user, values);
+  }
+}
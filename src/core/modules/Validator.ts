@@ -1,5 +1,6 @@
 import { BadRequestError, ValidatorError } from '../../errors';
 import { Form, UploadedFile } from './Form';
+import { csrfValid } from '../middlewares/csrf';
 import { Request } from './Request';
 import { Response } from './Response';
 import { isArr, isArrOfStr, isBool, isInt, isObj, isStr } from '../../helpers';
@@ -234,6 +235,8 @@ export class Validator {
     hex: ':field must be a valid hex color.',
     username:
       ':field must be :min-:max chars, letters, numbers, hyphens or underscores.',
+    totp: ':field must be a :digits-digit code.',
+    recoveryCode: ':field must be a valid recovery code.',
     between: ':field must be a number between :min and :max.',
     file: {
       count: ':field must have exactly :count file(s).',
@@ -310,15 +313,16 @@ export class Validator {
    * If the token is missing or does not match the expected value, the request is rejected
    * and any uploaded files are removed.
    *
+   * Works with every `csrfGuard` mode, and accepts per-form tokens bound to the request.
+   *
    * @returns The Validator instance for chaining.
    * @throws BadRequestError - If the CSRF token is invalid.
    */
   public csrf = (): this => {
     const field = new Field('csrfToken', this.messages);
-    const token = this.request.csrfToken;
 
     field.test((v) => {
-      if (!isStr(v) || !isStr(token) || v !== token) {
+      if (!csrfValid(this.request, v)) {
         throw new BadRequestError('Invalid or missing CSRF token');
       }
 
@@ -491,6 +495,8 @@ export class ValidatorFR extends Validator {
     hex: ':field doit être une couleur hexadécimale valide.',
     username:
       ':field doit contenir entre :min et :max caractères, lettres, chiffres, - ou _.',
+    totp: ':field doit être un code à :digits chiffres.',
+    recoveryCode: ':field doit être un code de récupération valide.',
     between: ':field doit être un nombre entre :min et :max.',
     file: {
       count: ':field doit contenir exactement :count fichier(s).',
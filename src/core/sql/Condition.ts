@@ -1,9 +1,11 @@
 import { config } from '../../config';
 import { QueryError } from '../../errors';
-import { isInt, isNum, isStr } from '../../helpers';
+import { isFunc, isInt, isNum, isStr } from '../../helpers';
 import { isEmptyArr, isEmptyStr, isFullStr } from '../../helpers';
 import { isMySQL, isPostgreSQL, isDriver } from '../../helpers';
 import { Driver } from '../modules/Driver';
+import { PoolConnection } from '../modules/Pool';
+import { Select, Subquery } from './Select';
 
 /**
  * Represents a reference to a database column.
@@ -219,6 +221,41 @@ export function exSecond(col: string, driver: Driver): string {
   return `STRFTIME('%S', ${col})`;
 }
 
+/**
+ * Checks if a value is a subquery: a `Select`, or a function building one.
+ *
+ * @param value The value to check.
+ * @returns `true` if the value is a subquery, otherwise `false`.
+ */
+function isSubquery(value: any): value is Subquery {
+  return value instanceof Select || isFunc(value);
+}
+
+/**
+ * Creates the connection of the subqueries built by conditions.
+ *
+ * Subqueries run as part of their outer query, so this connection refuses to run queries by itself.
+ *
+ * @param driver The driver of the outer query.
+ * @returns A connection that only builds queries.
+ */
+function detached(driver: Driver): PoolConnection {
+  const fail = (): never => {
+    throw new QueryError('Subqueries run as part of their outer query');
+  };
+
+  return {
+    id: Symbol('PoolConnection'),
+    driver,
+    release: fail,
+    query: fail,
+    stream: fail,
+    beginTransaction: fail,
+    commit: fail,
+    rollback: fail,
+  };
+}
+
 /**
  * A function to set the column name for a condition.
  * Returns a `Condition` instance to allow further method chaining.
@@ -314,6 +351,29 @@ export class Condition {
     return this;
   }
 
+  /**
+   * Adds another condition, wrapped in parentheses, along with its values.
+   *
+   * Useful to keep an existing condition and `AND` more conditions to it.
+   *
+   * @param condition The condition to add.
+   * @returns The `Condition` instance for chaining further query conditions.
+   * @throws `QueryError` if the condition is not a `Condition` instance.
+   *
+   * @example
+   * new Condition(driver).nest(where).and().col('id').in(1, 2);
+   * // (status = ?) AND id IN (?, ?)
+   */
+  public nest(condition: Condition): this {
+    if (!(condition instanceof Condition)) {
+      throw new QueryError(`Invalid condition: ${String(condition)}`);
+    }
+
+    this.values.push(...condition.values);
+    this.stack.push(`(${condition.build()})`);
+    return this;
+  }
+
   /**
    * Negates the current condition by applying a `NOT` operator.
    *
@@ -860,7 +920,20 @@ export class Condition {
    * @throws `QueryError` if the column is invalid or if the values array is empty or contains invalid values.
    * @returns The `Condition` instance for chaining further query conditions.
    */
-  public in(...values: Array<string | number | boolean | Ref>): this {
+  public in(...values: Array<string | number | boolean | Ref>): this;
+
+  /**
+   * Compares the column with the rows of a subquery to check if it is included in them.
+   *
+   * @param subquery A `Select`, or a function that receives a `Select` to build the subquery.
+   * @throws `QueryError` if the column or the subquery is invalid.
+   * @returns The `Condition` instance for chaining further query conditions.
+   *
+   * @example
+   * col('id').in((select) => select.col('user_id').from('orders'));
+   */
+  public in(subquery: Subquery): this;
+  public in(...values: Array<any>): this {
     if (!isFullStr(this.column)) {
       throw new QueryError(`Invalid column: ${String(this.column)}`);
     }
@@ -870,6 +943,17 @@ export class Condition {
     }
 
     const not = this.negate ? 'NOT ' : '';
+
+    if (values.length === 1 && isSubquery(values[0])) {
+      const subquery = this.subquery(values[0]);
+
+      this.stack.push(`${not}${this.column} IN (${subquery.query})`);
+      this.values.push(...subquery.values);
+      this.negate = false;
+
+      return this;
+    }
+
     const placeholders = values
       .map((v) => (v instanceof Ref ? v.column : '?'))
       .join(', ');
@@ -917,6 +1001,55 @@ export class Condition {
     return this;
   }
 
+  /**
+   * Checks if a subquery returns any rows, e.g., to filter rows having related rows.
+   *
+   * @param subquery A `Select`, or a function that receives a `Select` to build the subquery.
+   * @throws `QueryError` if the subquery is invalid.
+   * @returns The `Condition` instance for chaining further query conditions.
+   *
+   * @example
+   * con.exists((select) => {
+   *   select.col('1').from('orders').where((col) => col('orders.user_id').equal(ref('users.id')));
+   * });
+   */
+  public exists(subquery: Subquery): this {
+    const { query, values } = this.subquery(subquery);
+    const not = this.negate ? 'NOT ' : '';
+
+    this.stack.push(`${not}EXISTS (${query})`);
+    this.values.push(...values);
+    this.negate = false;
+
+    return this;
+  }
+
+  /**
+   * Builds a subquery of the condition.
+   *
+   * @param subquery A `Select`, or a function that receives a `Select` to build the subquery.
+   * @returns The subquery SQL and values.
+   * @throws `QueryError` if the subquery is invalid.
+   */
+  private subquery(subquery: Subquery): {
+    query: string;
+    values: Array<any>;
+  } {
+    if (!isSubquery(subquery)) {
+      throw new QueryError(`Invalid subquery: ${String(subquery)}`);
+    }
+
+    let select = subquery as Select;
+
+    if (isFunc(subquery)) {
+      select = new Select(detached(this.driver));
+      subquery(select);
+    }
+
+    const query = select.build(true);
+    return { query, values: select.get.values() };
+  }
+
   /**
    * Checks if a specified column is `NULL`. This condition is useful when you want to
    * filter results based on whether a column has no value (i.e., it is `NULL`).
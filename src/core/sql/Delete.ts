@@ -1,7 +1,7 @@
 import { QueryError } from '../../errors';
 import { isChildOf, isFullStr, isFunc, isUndefined } from '../../helpers';
 import { Col, Con, Condition } from './Condition';
-import { Query } from './Query';
+import { Query, Write } from './Query';
 
 /**
  * The `Delete` class provides methods to construct and execute `DELETE` SQL queries on a specified table.
@@ -215,4 +215,13 @@ export class Delete extends Query<void> {
     this.condition.close();
     return this;
   }
+
+  /**
+   * Describes the affected rows, for observers.
+   *
+   * @returns The delete write.
+   */
+  protected write(): Write {
+    return { type: 'delete', table: this.table, condition: this.condition };
+  }
 }
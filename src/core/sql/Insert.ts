@@ -1,6 +1,6 @@
 import { Row, Rows } from '../modules/Driver';
 import { QueryError } from '../../errors';
-import { Query } from './Query';
+import { Query, Write } from './Query';
 
 import {
   isArr,
@@ -269,4 +269,21 @@ export class Insert<
     rows.forEach((row) => this.row(row));
     return this;
   }
+
+  /**
+   * Describes the rows written, for observers.
+   *
+   * @returns The insert write.
+   */
+  protected write(): Write {
+    return {
+      type: 'insert',
+      table: this.table,
+      rows: (this.values as Array<Array<any>>).map((values) =>
+        Object.fromEntries(
+          (this.columns || []).map((col, i) => [col, values[i]])
+        )
+      ),
+    };
+  }
 }
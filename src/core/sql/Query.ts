@@ -1,7 +1,8 @@
-import { isArr, isPoolCon } from '../../helpers';
+import { isArr, isFunc, isPoolCon } from '../../helpers';
 import { QueryError } from '../../errors';
-import { QueryResult, Row } from '../modules/Driver';
+import { QueryResult, Row, Rows } from '../modules/Driver';
 import { PoolConnection } from '../modules/Pool';
+import { Condition } from './Condition';
 
 /**
  * Interface defining the methods for logging query information.
@@ -41,6 +42,38 @@ interface Getter {
   values(): Array<string | number>;
 }
 
+/**
+ * Describes the write a query makes, as seen by observers.
+ */
+export interface Write {
+  /** The kind of write. */
+  type: 'insert' | 'upsert' | 'update' | 'delete';
+
+  /** The table written to. */
+  table: string;
+
+  /** The rows written, for inserts and upserts. */
+  rows?: Rows;
+
+  /** The new column values, for updates. */
+  values?: Row;
+
+  /** The condition matching the affected rows, for updates and deletes. */
+  condition?: Condition;
+}
+
+/**
+ * Observes writes, e.g., to keep an audit trail.
+ *
+ * Observers receive the connection of the query, so they can read the affected rows
+ * before the write runs, and must call `exec` to run it.
+ */
+export type Observer = (
+  connection: PoolConnection,
+  write: Write,
+  exec: () => Promise<any>
+) => Promise<any>;
+
 /**
  * Abstract base class representing a database query.
  *
@@ -66,6 +99,11 @@ export abstract class Query<T> {
    */
   protected query: string;
 
+  /**
+   * The observer the query writes go through, if any.
+   */
+  protected observer: Observer;
+
   /**
    * Logger for the current query, providing methods to log query details.
    */
@@ -100,10 +138,42 @@ export abstract class Query<T> {
    * @returns A promise that resolves with the result of the query execution.
    */
   public exec(): Promise<T> {
-    return this.connection.query(
-      this.get.query(),
-      this.get.values().flat()
-    ) as Promise<T>;
+    const exec = () => {
+      return this.connection.query(
+        this.get.query(),
+        this.get.values().flat()
+      ) as Promise<T>;
+    };
+
+    const write = this.observer ? this.write() : undefined;
+    if (!write) return exec();
+
+    return this.observer(this.connection, write, exec) as Promise<T>;
+  }
+
+  /**
+   * Sets the observer the query writes go through.
+   *
+   * @param observer The observer.
+   * @returns The current Query instance for method chaining.
+   * @throws `QueryError` if the observer is not a function.
+   */
+  public observe(observer: Observer): this {
+    if (!isFunc(observer)) {
+      throw new QueryError(`Invalid observer: ${String(observer)}`);
+    }
+
+    this.observer = observer;
+    return this;
+  }
+
+  /**
+   * Describes the write the query makes, for observers.
+   *
+   * @returns The write, or `undefined` for queries that do not write.
+   */
+  protected write(): Write | undefined {
+    return undefined;
   }
 
   /**
@@ -1,5 +1,7 @@
+import { createHmac, timingSafeEqual } from 'crypto';
 import { QueryError } from '../../errors';
 import {
+  appKeys,
   isArr,
   isBool,
   isDefined,
@@ -7,6 +9,8 @@ import {
   isFunc,
   isInt,
   isMySQL,
+  isNum,
+  isObj,
   isStr,
   isUndefined,
 } from '../../helpers';
@@ -70,11 +74,70 @@ export interface Pagination<R = Row> {
   total: { items: number; pages: number };
 }
 
+/**
+ * Represents keyset (cursor) pagination results.
+ *
+ *  `result` The items for the current page.
+ *  `cursor` An object containing pagination details:
+ *   - `next`: The cursor of the next page, or `undefined` if the current page is the last page.
+ *   - `prev`: The cursor of the previous page, or `undefined` if the current page is the first page.
+ *   - `items`: The number of items per page.
+ *
+ * @example
+ * // Example of a cursor paginated query result:
+ * const pagination: CursorPagination<User> = {
+ *   result: usersOnPage, // e.g., the list of users for the current page
+ *   cursor: {
+ *     next: 'WyJhZnRlciIsWzIwXV0.2f1c...', // Pass it to `cursor()` to get the next page
+ *     prev: undefined, // No previous page
+ *     items: 10, // Items per page
+ *   },
+ * };
+ */
+export interface CursorPagination<R = Row> {
+  result: Array<R>;
+  cursor: {
+    next: string | void; // next page cursor
+    prev: string | void; // previous page cursor
+    items: number; // items per page
+  };
+}
+
 /**
  * Represents options for customizing the `count()` and `paginate()` methods.
  */
 export type CountOptions = { column?: string; distinct?: boolean };
 
+/**
+ * Represents a subquery, either a `Select` instance or a function that receives a `Select` instance to build it.
+ *
+ * @example
+ * // As a function
+ * const subquery: Subquery = (select) => select.col('user_id').from('orders');
+ *
+ * // As a Select instance
+ * const subquery: Subquery = new Select(connection).col('user_id').from('orders');
+ */
+export type Subquery = Select | ((select: Select) => void);
+
+/**
+ * Represents the `OVER` clause of a window function.
+ *
+ *  `partition` The columns to split the rows into partitions (`PARTITION BY`).
+ *  `order` The columns to order the rows of each partition (`ORDER BY`), in ascending order by default.
+ *
+ * @example
+ * // ROW_NUMBER() OVER (PARTITION BY game_id ORDER BY score DESC)
+ * const window: Window = {
+ *   partition: ['game_id'],
+ *   order: [{ column: 'score', type: DESC }],
+ * };
+ */
+export interface Window {
+  partition?: Array<string>;
+  order?: Array<{ column: string; type?: typeof ASC | typeof DESC }>;
+}
+
 /**
  * Represents the internal state of a SELECT query, holding the settings and clauses used to build the SQL query.
  *
@@ -92,6 +155,26 @@ type State = {
    */
   columns: Array<string> | '*';
 
+  /**
+   * The values of the subqueries in the selected columns.
+   */
+  columnValues: Array<string | number | null>;
+
+  /**
+   * The values of the subquery to select data from.
+   */
+  tableValues: Array<string | number | null>;
+
+  /**
+   * Defines the `WITH` clause. Each entry has a `name`, a `query` and a `recursive` flag.
+   */
+  ctes: Array<{
+    name: string;
+    query: string;
+    recursive: boolean;
+    values: Array<string | number | null>;
+  }>;
+
   /**
    * Sorting instructions for the query, each entry contains a `column` name and a `type` (e.g., 'ASC' or 'DESC').
    */
@@ -146,6 +229,96 @@ type State = {
   offset: number | undefined;
 };
 
+/**
+ * Computes the signature of a pagination cursor.
+ *
+ * @param key The app key.
+ * @param order The `ORDER BY` clause the cursor belongs to.
+ * @param data The cursor data.
+ * @returns The base64url HMAC-SHA256 signature.
+ */
+function hmac(key: string, order: string, data: string): string {
+  return createHmac('sha256', key)
+    .update(`bnjsx:cursor:${order}:${data}`)
+    .digest('base64url');
+}
+
+/**
+ * Creates a signed pagination cursor pointing after or before a row.
+ *
+ * @param direction Whether the cursor fetches the rows after or before the row.
+ * @param order The `ORDER BY` columns of the query.
+ * @param row The row the cursor points to.
+ * @returns The opaque cursor.
+ * @throws `QueryError` if the row lacks an `ORDER BY` column value.
+ */
+function encode(
+  direction: 'after' | 'before',
+  order: State['order'],
+  row: Row
+): string {
+  const values = order.map(({ column }) => {
+    const value = row[column.split('.').pop()];
+
+    if (!isStr(value) && !isNum(value) && !isBool(value)) {
+      throw new QueryError(`Invalid cursor value for column: ${column}`);
+    }
+
+    return value;
+  });
+
+  const data = Buffer.from(JSON.stringify([direction, values])).toString(
+    'base64url'
+  );
+
+  return `${data}.${hmac(appKeys()[0], clause(order), data)}`;
+}
+
+/**
+ * Verifies and decodes a pagination cursor, signed with the current or a previous app key.
+ *
+ * @param cursor The opaque cursor.
+ * @param order The `ORDER BY` columns of the query.
+ * @returns The cursor direction and the `ORDER BY` values of the row it points to.
+ * @throws `QueryError` if the cursor is tampered with or belongs to another ordering.
+ */
+function decode(
+  cursor: string,
+  order: State['order']
+): { direction: 'after' | 'before'; values: Array<string | number | boolean> } {
+  const index = isStr(cursor) ? cursor.lastIndexOf('.') : -1;
+  if (index < 1) throw new QueryError(`Invalid cursor: ${String(cursor)}`);
+
+  const data = cursor.slice(0, index);
+  const received = Buffer.from(cursor.slice(index + 1));
+
+  const valid = appKeys().some((key) => {
+    const expected = Buffer.from(hmac(key, clause(order), data));
+
+    return (
+      expected.length === received.length && timingSafeEqual(expected, received)
+    );
+  });
+
+  if (!valid) throw new QueryError(`Invalid cursor: ${cursor}`);
+
+  const [direction, values] = JSON.parse(
+    Buffer.from(data, 'base64url').toString()
+  );
+
+  return { direction, values };
+}
+
+/**
+ * Renders the `ORDER BY` columns a cursor is signed for.
+ *
+ * @param order The `ORDER BY` columns of the query.
+ * @returns The `ORDER BY` clause.
+ */
+function clause(order: State['order']): string {
+  return order.map(({ column, type }) => `${column} ${type}`).join(', ');
+}
+
 /**
  * The `Select` class provides methods to construct and execute `SELECT` SQL queries on a specified table.
  * It supports chaining methods to build and execute the query.
@@ -197,6 +370,9 @@ export class Select extends Query<Rows> {
    *
    * @property `table` The table to query.
    * @property `columns` The columns to select.
+   * @property `columnValues` The values of the subqueries in the selected columns.
+   * @property `tableValues` The values of the subquery to select data from.
+   * @property `ctes` Defines the `WITH` clause.
    * @property `order` Sorting instructions for the query.
    * @property `group` Grouping columns for aggregate functions.
    * @property `distinct` Whether to apply the `DISTINCT` keyword to the query.
@@ -210,6 +386,9 @@ export class Select extends Query<Rows> {
   private state: State = {
     table: undefined,
     columns: '*',
+    columnValues: new Array(),
+    tableValues: new Array(),
+    ctes: new Array(),
     order: new Array(),
     group: new Array(),
     distinct: false,
@@ -232,6 +411,9 @@ export class Select extends Query<Rows> {
   public reset(): this {
     this.state.table = undefined;
     this.state.columns = '*';
+    this.state.columnValues = new Array();
+    this.state.tableValues = new Array();
+    this.state.ctes = new Array();
     this.state.order = new Array();
     this.state.group = new Array();
     this.state.distinct = false;
@@ -270,6 +452,19 @@ export class Select extends Query<Rows> {
     const distinct = this.state.distinct ? 'DISTINCT ' : '';
     let statement = `SELECT ${distinct}${columns} FROM ${this.state.table}`;
 
+    if (this.state.ctes.length > 0) {
+      const recursive = this.state.ctes.some((cte) => cte.recursive);
+      const ctes = this.state.ctes
+        .map((cte) => {
+          this.values.push(...cte.values);
+          return `${cte.name} AS (${cte.query})`;
+        })
+        .join(', ');
+      statement = `WITH ${recursive ? 'RECURSIVE ' : ''}${ctes} ${statement}`;
+    }
+
+    this.values.push(...this.state.columnValues, ...this.state.tableValues);
+
     if (this.state.joins.length > 0) {
       const joins = this.state.joins
         .map((join) => {
@@ -418,10 +613,141 @@ export class Select extends Query<Rows> {
     });
 
     this.state.columns = columns;
+    this.state.columnValues = new Array();
 
     return this;
   }
 
+  /**
+   * Adds a subquery to the selected columns, e.g., to select a value related to each row.
+   *
+   * @param subquery A `Select` instance, or a function that receives a `Select` instance to build the subquery.
+   * @param alias The name of the column.
+   * @returns The `Select` query instance (`this`) to allow method chaining.
+   * @throws `QueryError` if the subquery or the alias is invalid.
+   *
+   * @example
+   * // SELECT *, (SELECT COUNT(*) FROM orders WHERE orders.user_id = users.id) AS orders FROM users
+   * select.from('users').subquery((select) => {
+   *   select.col('COUNT(*)').from('orders').where((col) => col('orders.user_id').equal(ref('users.id')));
+   * }, 'orders');
+   *
+   * @note The subquery must return a single column and at most a single row.
+   */
+  public subquery(subquery: Subquery, alias: string): this {
+    if (!isFullStr(alias)) {
+      throw new QueryError(`Invalid SELECT alias: ${String(alias)}`);
+    }
+
+    const { query, values } = this.nest(subquery, 'SELECT');
+    return this.append(`(${query}) AS ${alias}`, values);
+  }
+
+  /**
+   * Adds a window function to the selected columns, computed over the rows related to each row.
+   *
+   * @param expression The window function, e.g., `ROW_NUMBER()`, `SUM(score)` or `LAG(score, 1)`.
+   * @param alias The name of the column.
+   * @param window The `PARTITION BY` and `ORDER BY` columns of the window.
+   * @returns The `Select` query instance (`this`) to allow method chaining.
+   * @throws `QueryError` if the expression, the alias or the window is invalid.
+   *
+   * @example
+   * // SELECT *, SUM(score) OVER (PARTITION BY player_id ORDER BY played_at ASC) AS total FROM games
+   * select.from('games').over('SUM(score)', 'total', {
+   *   partition: ['player_id'],
+   *   order: [{ column: 'played_at' }],
+   * });
+   *
+   * @note Window functions require MySQL 8.0+, PostgreSQL 8.4+ or SQLite 3.25+.
+   */
+  public over(expression: string, alias: string, window: Window = {}): this {
+    if (!isFullStr(expression)) {
+      throw new QueryError(`Invalid window function: ${String(expression)}`);
+    }
+
+    if (!isFullStr(alias)) {
+      throw new QueryError(`Invalid SELECT alias: ${String(alias)}`);
+    }
+
+    if (!isObj(window)) {
+      throw new QueryError(`Invalid window: ${String(window)}`);
+    }
+
+    const { partition = [], order = [] } = window;
+    const clauses = new Array<string>();
+
+    if (!isArr(partition) || partition.some((column) => !isFullStr(column))) {
+      throw new QueryError(`Invalid PARTITION BY: ${String(partition)}`);
+    }
+
+    if (
+      !isArr(order) ||
+      order.some(
+        (o) => !isFullStr(o?.column) || ![ASC, DESC, undefined].includes(o.type)
+      )
+    ) {
+      throw new QueryError(`Invalid window ORDER BY: ${String(order)}`);
+    }
+
+    if (partition.length > 0) {
+      clauses.push(`PARTITION BY ${partition.join(', ')}`);
+    }
+
+    if (order.length > 0) {
+      const columns = order.map((o) => {
+        return `${o.column} ${(o.type || ASC).description}`;
+      });
+
+      clauses.push(`ORDER BY ${columns.join(', ')}`);
+    }
+
+    return this.append(`${expression} OVER (${clauses.join(' ')}) AS ${alias}`);
+  }
+
+  /**
+   * Adds a `ROW_NUMBER()` window function to the selected columns, numbering the rows of each partition.
+   *
+   * @param alias The name of the column.
+   * @param window The `PARTITION BY` and `ORDER BY` columns of the window.
+   * @returns The `Select` query instance (`this`) to allow method chaining.
+   * @throws `QueryError` if the alias or the window is invalid.
+   *
+   * @example
+   * // SELECT *, ROW_NUMBER() OVER (PARTITION BY game_id ORDER BY score DESC) AS position FROM scores
+   * select.from('scores').rowNumber('position', {
+   *   partition: ['game_id'],
+   *   order: [{ column: 'score', type: DESC }],
+   * });
+   */
+  public rowNumber(alias: string, window?: Window): this {
+    return this.over('ROW_NUMBER()', alias, window);
+  }
+
+  /**
+   * Adds a `RANK()` window function to the selected columns, ranking ties equally and skipping the next ranks.
+   *
+   * @param alias The name of the column.
+   * @param window The `PARTITION BY` and `ORDER BY` columns of the window.
+   * @returns The `Select` query instance (`this`) to allow method chaining.
+   * @throws `QueryError` if the alias or the window is invalid.
+   */
+  public rank(alias: string, window?: Window): this {
+    return this.over('RANK()', alias, window);
+  }
+
+  /**
+   * Adds a `DENSE_RANK()` window function to the selected columns, ranking ties equally without gaps.
+   *
+   * @param alias The name of the column.
+   * @param window The `PARTITION BY` and `ORDER BY` columns of the window.
+   * @returns The `Select` query instance (`this`) to allow method chaining.
+   * @throws `QueryError` if the alias or the window is invalid.
+   */
+  public denseRank(alias: string, window?: Window): this {
+    return this.over('DENSE_RANK()', alias, window);
+  }
+
   /**
    * Specifies the table to select data from.
    *
@@ -429,15 +755,103 @@ export class Select extends Query<Rows> {
    * @returns The `Select` query instance (`this`) to allow method chaining.
    * @throws `QueryError` if the table name is invalid.
    */
-  public from(name: string): this {
+  public from(name: string): this;
+
+  /**
+   * Specifies a subquery to select data from (a derived table).
+   *
+   * @param subquery A `Select` instance, or a function that receives a `Select` instance to build the subquery.
+   * @param alias The name of the derived table.
+   * @returns The `Select` query instance (`this`) to allow method chaining.
+   * @throws `QueryError` if the subquery or the alias is invalid.
+   *
+   * @example
+   * // SELECT * FROM (SELECT user_id, SUM(total) AS spent FROM orders GROUP BY user_id) AS spending
+   * select.from((select) => {
+   *   select.col('user_id', 'SUM(total) AS spent').from('orders').groupBy('user_id');
+   * }, 'spending');
+   */
+  public from(subquery: Subquery, alias: string): this;
+  public from(name: string | Subquery, alias?: string): this {
+    if (name instanceof Select || isFunc(name)) {
+      if (!isFullStr(alias)) {
+        throw new QueryError(`Invalid SELECT alias: ${String(alias)}`);
+      }
+
+      const { query, values } = this.nest(name, 'FROM');
+
+      this.state.table = `(${query}) AS ${alias}`;
+      this.state.tableValues = values;
+      return this;
+    }
+
     if (!isFullStr(name)) {
       throw new QueryError(`Invalid SELECT table: ${String(name)}`);
     }
 
     this.state.table = name;
+    this.state.tableValues = new Array();
     return this;
   }
 
+  /**
+   * Adds a common table expression (`WITH`) to the query, a named subquery you can select from or join.
+   *
+   * @param name The name of the common table expression.
+   * @param subquery A `Select` instance, or a function that receives a `Select` instance to build the subquery.
+   * @param columns Optional names of the columns of the common table expression.
+   * @returns The `Select` query instance (`this`) to allow method chaining.
+   * @throws `QueryError` if the name, the subquery or a column is invalid.
+   *
+   * @example
+   * // WITH active AS (SELECT * FROM users WHERE active = ?) SELECT * FROM active
+   * select
+   *   .cte('active', (select) => select.from('users').where((col) => col('active').isTrue()))
+   *   .from('active');
+   *
+   * @note You can chain multiple `cte()` calls, later ones can select from earlier ones.
+   */
+  public cte(
+    name: string,
+    subquery: Subquery,
+    ...columns: Array<string>
+  ): this {
+    return this.common(name, subquery, columns, false);
+  }
+
+  /**
+   * Adds a recursive common table expression (`WITH RECURSIVE`) to the query, a named subquery that selects from itself.
+   *
+   * @param name The name of the common table expression.
+   * @param subquery A `Select` instance, or a function that receives a `Select` instance to build the subquery.
+   * @param columns Optional names of the columns of the common table expression.
+   * @returns The `Select` query instance (`this`) to allow method chaining.
+   * @throws `QueryError` if the name, the subquery or a column is invalid.
+   *
+   * @example
+   * // WITH RECURSIVE tree AS (SELECT id, manager_id FROM users WHERE id = ?
+   * //   UNION ALL SELECT users.id, users.manager_id FROM users INNER JOIN tree ON users.manager_id = tree.id)
+   * // SELECT * FROM tree
+   * select
+   *   .recursive('tree', (select) => {
+   *     select.col('id', 'manager_id').from('users').where((col) => col('id').equal(1))
+   *       .unionAll((select) => {
+   *         select.col('users.id', 'users.manager_id').from('users')
+   *           .join('tree', (col) => col('users.manager_id').equal(ref('tree.id')));
+   *       });
+   *   })
+   *   .from('tree');
+   *
+   * @note The subquery must combine the starting rows with the recursive rows using `unionAll()` or `union()`.
+   */
+  public recursive(
+    name: string,
+    subquery: Subquery,
+    ...columns: Array<string>
+  ): this {
+    return this.common(name, subquery, columns, true);
+  }
+
   /**
    * Adds the `DISTINCT` keyword to the query, ensuring that the results are unique.
    * This eliminates duplicate rows from the result set.
@@ -784,6 +1198,125 @@ export class Select extends Query<Rows> {
     return this;
   }
 
+  /**
+   * Returns the sum of a column over the rows that match the current query conditions.
+   *
+   * @param column The column or expression to sum.
+   * @returns A promise that resolves to the sum, or `0` if no row matches.
+   * @throws `QueryError` If no valid table is set or if the column is invalid.
+   *
+   * @note The select list, `ORDER BY`, `LIMIT` and `OFFSET` are ignored. Grouped, distinct and `UNION` queries
+   * are aggregated over their result instead, so name the column as it appears in it.
+   */
+  public sum(column: string): Promise<number> {
+    return this.aggregate('SUM', column).then((sum) => Number(sum ?? 0));
+  }
+
+  /**
+   * Returns the average of a column over the rows that match the current query conditions.
+   *
+   * @param column The column or expression to average.
+   * @returns A promise that resolves to the average, or `null` if no row matches.
+   * @throws `QueryError` If no valid table is set or if the column is invalid.
+   *
+   * @note The select list, `ORDER BY`, `LIMIT` and `OFFSET` are ignored. Grouped, distinct and `UNION` queries
+   * are aggregated over their result instead, so name the column as it appears in it.
+   */
+  public avg(column: string): Promise<number | null> {
+    return this.aggregate('AVG', column).then((avg) => {
+      return avg === null ? null : Number(avg);
+    });
+  }
+
+  /**
+   * Returns the smallest value of a column over the rows that match the current query conditions.
+   *
+   * @param column The column or expression to look up.
+   * @returns A promise that resolves to the smallest value, or `null` if no row matches.
+   * @throws `QueryError` If no valid table is set or if the column is invalid.
+   *
+   * @note The select list, `ORDER BY`, `LIMIT` and `OFFSET` are ignored. Grouped, distinct and `UNION` queries
+   * are aggregated over their result instead, so name the column as it appears in it.
+   */
+  public min<T = string | number>(column: string): Promise<T | null> {
+    return this.aggregate('MIN', column);
+  }
+
+  /**
+   * Returns the largest value of a column over the rows that match the current query conditions.
+   *
+   * @param column The column or expression to look up.
+   * @returns A promise that resolves to the largest value, or `null` if no row matches.
+   * @throws `QueryError` If no valid table is set or if the column is invalid.
+   *
+   * @note The select list, `ORDER BY`, `LIMIT` and `OFFSET` are ignored. Grouped, distinct and `UNION` queries
+   * are aggregated over their result instead, so name the column as it appears in it.
+   */
+  public max<T = string | number>(column: string): Promise<T | null> {
+    return this.aggregate('MAX', column);
+  }
+
+  /**
+   * Applies an aggregate function to a column over the rows that match the current query conditions.
+   *
+   * @param fn The aggregate function.
+   * @param column The column or expression to aggregate.
+   * @returns A promise that resolves to the aggregated value, or `null` if no row matches.
+   * @throws `QueryError` If no valid table is set or if the column is invalid.
+   */
+  private aggregate(fn: string, column: string): Promise<any> {
+    return new Promise((resolve, reject) => {
+      if (!isFullStr(this.state.table)) {
+        throw new QueryError(
+          `Invalid SELECT table: ${String(this.state.table)}`
+        );
+      }
+
+      if (!isFullStr(column)) {
+        throw new QueryError(`Invalid ${fn} column: ${String(column)}`);
+      }
+
+      const state = this.state;
+      const expression = `${fn}(${column}) AS result`;
+      let query: string;
+
+      if (
+        state.group.length > 0 ||
+        state.distinct ||
+        state.unions.length > 0 ||
+        isDefined(state.having)
+      ) {
+        // Each row of the result stands for several rows of the table
+        query = `SELECT ${expression} FROM (${this.build(true)}) AS sub`;
+      } else {
+        const { columns, columnValues, order, limit, offset } = state;
+
+        try {
+          state.columns = [expression];
+          state.columnValues = [];
+          state.order = [];
+          state.limit = undefined;
+          state.offset = undefined;
+
+          query = this.build(true);
+        } finally {
+          state.columns = columns;
+          state.columnValues = columnValues;
+          state.order = order;
+          state.limit = limit;
+          state.offset = offset;
+        }
+      }
+
+      const values = this.get.values();
+
+      this.connection
+        .query(query, values)
+        .then((r) => resolve(r[0]?.result ?? null))
+        .catch(reject);
+    });
+  }
+
   /**
    * Returns the total number of rows that match the current query conditions.
    *
@@ -886,4 +1419,205 @@ export class Select extends Query<Rows> {
         .catch(reject);
     });
   }
+
+  /**
+   * Paginates the query results with a cursor (keyset pagination), returning a page of items
+   * along with the cursors of the next and previous pages.
+   *
+   * Unlike `paginate()`, pages are fetched with a `WHERE` condition on the `ORDER BY` columns
+   * instead of an `OFFSET`, so they stay fast deep into large tables and do not skip or repeat
+   * rows when rows are inserted or deleted in between.
+   *
+   * Cursors are opaque: they are signed with the app key, tell whether to fetch the rows after
+   * or before the row they point to, and only work with the ordering they were created for.
+   *
+   * @param cursor The cursor of the page to retrieve, omit it to get the first page.
+   * @param items The number of items per page (default: 10).
+   *
+   * @returns A promise that resolves to a pagination object containing:
+   * - `result`: The current page of query results.
+   * - `cursor`: The `next` and `prev` page cursors, and the number of `items` per page.
+   *
+   * @throws `QueryError` If the query has no `ORDER BY` columns or the cursor is invalid.
+   *
+   * @example
+   * const page = await query.orderBy('created_at', DESC).orderBy('id', DESC).cursor();
+   * const next = await query.cursor(page.cursor.next);
+   *
+   * @note The `ORDER BY` columns must be selected, not null, and unique together (end with the primary key).
+   */
+  public async cursor(
+    cursor?: string | void,
+    items: number = 10
+  ): Promise<CursorPagination<Row>> {
+    if (!isInt(items) || items < 1) items = 10;
+
+    const { where, order, limit } = this.state;
+
+    if (order.length === 0 || order.some(({ type }) => !type)) {
+      throw new QueryError(`Invalid cursor ORDER BY: ${clause(order)}`);
+    }
+
+    const position = isDefined(cursor)
+      ? decode(cursor as string, order)
+      : undefined;
+    const before = position?.direction === 'before';
+
+    if (position) {
+      const condition = new Condition(this.connection.driver);
+      const values: Array<string | number | boolean> = [];
+
+      // (a > ?) OR (a = ? AND b > ?) OR ...
+      const keyset = order.map(({ column, type }, index) => {
+        const op = (type === 'ASC') !== before ? '>' : '<';
+        const equal = order.slice(0, index).map((order, i) => {
+          values.push(position.values[i]);
+          return `${order.column} = ?`;
+        });
+
+        values.push(position.values[index]);
+        return `(${[...equal, `${column} ${op} ?`].join(' AND ')})`;
+      });
+
+      if (where) condition.nest(where).and();
+
+      this.state.where = condition.raw(`(${keyset.join(' OR ')})`, ...values);
+    }
+
+    if (before) {
+      this.state.order = order.map(({ column, type }) => {
+        return { column, type: type === 'ASC' ? 'DESC' : 'ASC' };
+      });
+    }
+
+    try {
+      this.state.limit = items + 1;
+
+      const rows = await this.exec();
+      const more = rows.length > items;
+      const result = rows.slice(0, items);
+
+      if (before) result.reverse();
+
+      const first = result[0];
+      const last = result[result.length - 1];
+
+      return {
+        result,
+        cursor: {
+          next:
+            last && (more || before) ? encode('after', order, last) : undefined,
+          prev:
+            first && position && (more || !before)
+              ? encode('before', order, first)
+              : undefined,
+          items,
+        },
+      };
+    } finally {
+      this.state.where = where;
+      this.state.order = order;
+      this.state.limit = limit;
+    }
+  }
+
+  /**
+   * Executes the query and yields its rows in chunks, without loading the whole result in memory.
+   *
+   * @param size The number of rows per chunk (default: 1000).
+   * @returns An async iterable of row chunks.
+   *
+   * @example
+   * for await (const users of query.from('users').stream(500)) {
+   *   await write(users);
+   * }
+   *
+   * @note Run no other queries on the connection until the iteration ends.
+   */
+  public stream(size?: number): AsyncIterable<Rows> {
+    const query = this.get.query();
+    return this.connection.stream(query, this.get.values().flat(), size);
+  }
+
+  /**
+   * Builds a subquery of the query.
+   *
+   * @param subquery A `Select` instance, or a function that receives a `Select` instance to build the subquery.
+   * @param clause The clause of the subquery, used in error messages.
+   * @returns The subquery SQL and values.
+   * @throws `QueryError` if the subquery is invalid.
+   */
+  private nest(
+    subquery: Subquery,
+    clause: string
+  ): { query: string; values: Array<string | number | null> } {
+    let select = subquery as Select;
+
+    if (isFunc(subquery)) {
+      select = new Select(this.connection);
+      subquery(select);
+    } else if (!(subquery instanceof Select)) {
+      throw new QueryError(`Invalid ${clause} subquery: ${String(subquery)}`);
+    }
+
+    const query = select.build(true);
+    return { query, values: select.get.values() };
+  }
+
+  /**
+   * Appends a column to the selected columns, keeping all columns (`*`) selected by default.
+   *
+   * @param column The column to append.
+   * @param values The values of the column.
+   * @returns The `Select` query instance (`this`) to allow method chaining.
+   */
+  private append(
+    column: string,
+    values: Array<string | number | null> = []
+  ): this {
+    const columns = this.state.columns === '*' ? ['*'] : this.state.columns;
+
+    this.state.columns = [...columns, column];
+    this.state.columnValues.push(...values);
+
+    return this;
+  }
+
+  /**
+   * Adds a common table expression to the `WITH` clause.
+   *
+   * @param name The name of the common table expression.
+   * @param subquery A `Select` instance, or a function that receives a `Select` instance to build the subquery.
+   * @param columns The names of the columns of the common table expression.
+   * @param recursive Whether the common table expression is recursive.
+   * @returns The `Select` query instance (`this`) to allow method chaining.
+   * @throws `QueryError` if the name, the subquery or a column is invalid.
+   */
+  private common(
+    name: string,
+    subquery: Subquery,
+    columns: Array<string>,
+    recursive: boolean
+  ): this {
+    if (!isFullStr(name)) {
+      throw new QueryError(`Invalid WITH name: ${String(name)}`);
+    }
+
+    columns.forEach((column) => {
+      if (!isFullStr(column)) {
+        throw new QueryError(`Invalid WITH column: ${String(column)}`);
+      }
+    });
+
+    const { query, values } = this.nest(subquery, 'WITH');
+
+    this.state.ctes.push({
+      name: columns.length > 0 ? `${name}(${columns.join(', ')})` : name,
+      query,
+      recursive,
+      values,
+    });
+
+    return this;
+  }
 }
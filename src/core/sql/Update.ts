@@ -1,7 +1,7 @@
 import { QueryError } from '../../errors';
 import { Row } from '../modules/Driver';
 import { Col, Con, Condition } from './Condition';
-import { Query } from './Query';
+import { Query, Write } from './Query';
 import {
   isBool,
   isChildOf,
@@ -242,4 +242,20 @@ export class Update extends Query<void> {
     this.state.condition.close();
     return this;
   }
+
+  /**
+   * Describes the new values and affected rows, for observers.
+   *
+   * @returns The update write.
+   */
+  protected write(): Write {
+    return {
+      type: 'update',
+      table: this.state.table,
+      values: Object.fromEntries(
+        this.state.columns.map((col, i) => [col, this.values[i]])
+      ),
+      condition: this.state.condition,
+    };
+  }
 }
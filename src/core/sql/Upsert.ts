@@ -1,6 +1,6 @@
 import { Row, Rows } from '../modules/Driver';
 import { QueryError } from '../../errors';
-import { Query } from './Query';
+import { Query, Write } from './Query';
 
 import {
   isArr,
@@ -256,4 +256,21 @@ export class Upsert<
     this.updates = columns;
     return this;
   }
+
+  /**
+   * Describes the rows written, for observers.
+   *
+   * @returns The upsert write.
+   */
+  protected write(): Write {
+    return {
+      type: 'upsert',
+      table: this.table,
+      rows: (this.values as Array<Array<any>>).map((values) =>
+        Object.fromEntries(
+          (this.columns || []).map((col, i) => [col, values[i]])
+        )
+      ),
+    };
+  }
 }
@@ -1,4 +1,4 @@
-import { readFile } from 'fs/promises';
+import { access, readFile } from 'fs/promises';
 import { basename, isAbsolute, resolve as resolver, sep } from 'path';
 
 import { Binary, Operand, Unary } from './Condition';
@@ -183,6 +183,21 @@ export class Component {
     this.replacements = replacements;
   }
 
+  /**
+   * Checks if a component file exists.
+   *
+   * @param path - The dot notation path of the component (e.g., `errors.404`).
+   * @returns A promise that resolves to `true` if the component file exists.
+   */
+  public static exists(path: string): Promise<boolean> {
+    if (!isStr(path)) return Promise.resolve(false);
+
+    return access(resolvePath(path)).then(
+      () => true,
+      () => false
+    );
+  }
+
   /**
    * Safely resolves a value from a nested object structure using a dot-notation or bracket-notation path.
    *
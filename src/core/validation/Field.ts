@@ -1051,6 +1051,37 @@ export class Field {
     );
   }
 
+  /**
+   * Checks if the value is a one-time password of an authenticator app (digits only, spaces allowed).
+   *
+   * @param digits Number of digits (default 6).
+   * @param message Optional custom error message.
+   * @returns The Field instance for chaining.
+   */
+  public totp(digits?: number, message?: string): this {
+    if (!isInt(digits)) digits = 6;
+
+    const regex = new RegExp(`^\\d{${digits}}$`);
+
+    return this.test(
+      (v) => isStr(v) && regex.test(v.replace(/\s/g, '')),
+      message ?? format(this.messages.totp, { field: this.getName(), digits })
+    );
+  }
+
+  /**
+   * Checks if the value is a recovery code generated by `TwoFactor` (e.g., `4f1c9-a07be`).
+   *
+   * @param message Optional custom error message.
+   * @returns The Field instance for chaining.
+   */
+  public recoveryCode(message?: string): this {
+    return this.is(
+      /^\s*[0-9a-fA-F]{5}-[0-9a-fA-F]{5}\s*$/,
+      message ?? format(this.messages.recoveryCode, { field: this.getName() })
+    );
+  }
+
   /**
    * Runs all validation tests for this field.
    *
@@ -33,6 +33,8 @@ export interface ValidationMessages {
   match: string;
   hex: string;
   username: string;
+  totp: string;
+  recoveryCode: string;
   between: string;
   file: {
     count: string;
@@ -187,6 +187,21 @@ export class BadRequestError extends AppError {
   }
 }
 
+/**
+ * Represents an unauthorized error (401).
+ * @extends AppError
+ */
+export class UnauthorizedError extends AppError {
+  /**
+   * Creates an instance of UnauthorizedError.
+   * @param message Optional custom error message. Defaults to 'Unauthorized'.
+   * @param code Optional custom error code to identify the error.
+   */
+  constructor(message?: string, code?: string) {
+    super(isStr(message) ? message : 'Unauthorized', code);
+  }
+}
+
 /**
  * Represents a not found error (404).
  * @extends AppError
@@ -220,6 +235,36 @@ export class ForbiddenError extends AppError {
   }
 }
 
+/**
+ * Represents a method not allowed error (405).
+ * @extends AppError
+ */
+export class MethodNotAllowedError extends AppError {
+  /**
+   * Creates an instance of MethodNotAllowedError.
+   * @param message Optional custom error message. Defaults to 'Method not allowed'.
+   * @param code Optional custom error code to identify the error.
+   */
+  constructor(message?: string, code?: string) {
+    super(isStr(message) ? message : 'Method not allowed', code);
+  }
+}
+
+/**
+ * Represents a too many requests error (429).
+ * @extends AppError
+ */
+export class TooManyRequestsError extends AppError {
+  /**
+   * Creates an instance of TooManyRequestsError.
+   * @param message Optional custom error message. Defaults to 'Too many requests'.
+   * @param code Optional custom error code to identify the error.
+   */
+  constructor(message?: string, code?: string) {
+    super(isStr(message) ? message : 'Too many requests', code);
+  }
+}
+
 /**
  * Represents a server error (500).
  * @extends AppError
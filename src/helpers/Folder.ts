@@ -184,8 +184,9 @@ export class Folder {
    * @param key - Unique key to identify the cached entry.
    * @param data - Data to cache (must be JSON-serializable).
    * @param ttl - Optional time-to-live in seconds. If omitted, the data is cached forever.
+   * @returns `true` if the data was written, `false` if it was skipped to free space or the write failed.
    */
-  public async set(key: string, data: any, ttl?: number): Promise<void>;
+  public async set(key: string, data: any, ttl?: number): Promise<boolean>;
 
   /**
    * @internal
@@ -201,7 +202,7 @@ export class Folder {
     data: any,
     ttl?: number,
     retry?: boolean
-  ): Promise<void>;
+  ): Promise<boolean>;
 
   // Actual implementation
   public async set(
@@ -209,7 +210,7 @@ export class Folder {
     data: any,
     ttl?: number,
     retry: boolean = true
-  ): Promise<void> {
+  ): Promise<boolean> {
     if (!isInt(ttl)) ttl = null;
     const expiresAt = ttl !== null ? Date.now() + ttl * 1000 : ttl;
 
@@ -217,7 +218,10 @@ export class Folder {
       const path = this.join(key);
       const addedAt = Date.now();
 
-      if (this.meta.size >= this.size) return this.cleanSpace();
+      if (this.meta.size >= this.size) {
+        await this.cleanSpace();
+        return false;
+      }
 
       const payload = {
         data,
@@ -234,6 +238,8 @@ export class Folder {
         addedAt,
         expiresAt,
       });
+
+      return true;
     } catch (err: any) {
       if (retry && err && err.code === 'ENOENT') {
         try {
@@ -241,6 +247,8 @@ export class Folder {
           return this.set(key, data, ttl, false);
         } catch {}
       }
+
+      return false;
     }
   }
 
@@ -0,0 +1,177 @@
+import { isIP } from 'net';
+import { isArr, isStr } from './Test';
+
+/**
+ * Custom error class for IP range errors.
+ */
+export class IpError extends Error {}
+
+/**
+ * Named IP ranges, usable wherever a list of IP ranges is expected.
+ */
+const RANGES: Map<string, Array<string>> = new Map(
+  Object.entries({
+    loopback: ['127.0.0.1/8', '::1/128'],
+    linklocal: ['169.254.0.0/16', 'fe80::/10'],
+    private: ['10.0.0.0/8', '172.16.0.0/12', '192.168.0.0/16', 'fc00::/7'],
+  })
+);
+
+/**
+ * Strips what surrounds an IP address in headers and sockets: IPv6 brackets,
+ * ports, zone indexes and the IPv4-mapped IPv6 prefix.
+ *
+ * @param value - The address (e.g., `[2001:db8::1]:8080` or `::ffff:10.0.0.1`).
+ * @returns The bare IP address, or an empty string if the value is not one.
+ */
+export function normalizeIp(value: string): string {
+  if (!isStr(value)) return '';
+
+  let ip = value.trim();
+
+  if (ip.startsWith('[')) ip = ip.slice(1, ip.indexOf(']'));
+  else if (ip.split(':').length === 2) ip = ip.split(':')[0];
+
+  ip = ip.replace(/%.*$/, '');
+
+  if (/^::ffff:\d+\.\d+\.\d+\.\d+$/i.test(ip)) ip = ip.slice(7);
+
+  return isIP(ip) ? ip : '';
+}
+
+/**
+ * Checks if a value is an IPv4 or IPv6 address.
+ *
+ * @param value - The value to check.
+ * @returns `true` if the value is an IP address.
+ */
+export function isIp(value: unknown): boolean {
+  return isStr(value) && isIP(value) !== 0;
+}
+
+/**
+ * Converts an IP address to its bytes, IPv4-mapped IPv6 addresses to IPv4 bytes.
+ *
+ * @param value - The IP address.
+ * @returns 4 bytes for IPv4, 16 bytes for IPv6, or `undefined` for invalid addresses.
+ */
+function bytes(value: string): Array<number> | undefined {
+  let ip = normalizeIp(value);
+  const version = isIP(ip);
+
+  if (version === 4) return ip.split('.').map(Number);
+  if (version !== 6) return;
+
+  // Embedded IPv4 tail (e.g., 64:ff9b::192.0.2.1)
+  if (ip.includes('.')) {
+    const index = ip.lastIndexOf(':') + 1;
+    const [a, b, c, d] = ip.slice(index).split('.').map(Number);
+    const hex = (high: number, low: number) => ((high << 8) | low).toString(16);
+
+    ip = `${ip.slice(0, index)}${hex(a, b)}:${hex(c, d)}`;
+  }
+
+  const groups = (part: string) => {
+    return part ? part.split(':').map((group) => parseInt(group, 16)) : [];
+  };
+
+  const [head, tail] = ip.split('::');
+  const left = groups(head);
+  const right = groups(tail);
+  const zeros = new Array(8 - left.length - right.length).fill(0);
+
+  const result = [...left, ...zeros, ...right].flatMap((group) => [
+    group >> 8,
+    group & 255,
+  ]);
+
+  const mapped =
+    result.slice(0, 10).every((byte) => byte === 0) &&
+    result[10] === 255 &&
+    result[11] === 255;
+
+  return mapped ? result.slice(12) : result;
+}
+
+/**
+ * Parses an IP range in CIDR notation, a bare address being a single-address range.
+ *
+ * @param cidr - The range (e.g., `10.0.0.0/8`, `2001:db8::/32` or `192.168.1.7`).
+ * @returns The range bytes and prefix length, or `undefined` if invalid.
+ */
+function parseCidr(
+  cidr: string
+): { bytes: Array<number>; bits: number } | undefined {
+  if (!isStr(cidr)) return;
+
+  const [ip, prefix, extra] = cidr.trim().split('/');
+  if (extra !== undefined) return;
+
+  const range = bytes(ip);
+  if (!range) return;
+
+  const max = range.length * 8;
+  if (prefix === undefined) return { bytes: range, bits: max };
+  if (!/^\d{1,3}$/.test(prefix) || Number(prefix) > max) return;
+
+  return { bytes: range, bits: Number(prefix) };
+}
+
+/**
+ * Checks if a value is an IP range in CIDR notation, or a single IP address.
+ *
+ * @param value - The value to check.
+ * @returns `true` if the value is a valid range.
+ */
+export function isCidr(value: unknown): boolean {
+  return parseCidr(value as string) !== undefined;
+}
+
+/**
+ * Checks if an IP address belongs to a range.
+ *
+ * @param ip - The IP address.
+ * @param cidr - The range in CIDR notation (e.g., `10.0.0.0/8`), or a single IP address.
+ * @returns `true` if the address is in the range, `false` otherwise or if either is invalid.
+ */
+export function inCidr(ip: string, cidr: string): boolean {
+  const range = parseCidr(cidr);
+  const address = bytes(ip);
+
+  if (!range || !address || range.bytes.length !== address.length) {
+    return false;
+  }
+
+  for (let bit = 0; bit < range.bits; bit += 8) {
+    const mask = (0xff00 >> Math.min(8, range.bits - bit)) & 0xff;
+    const index = bit / 8;
+
+    if ((address[index] & mask) !== (range.bytes[index] & mask)) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Creates a function checking IP addresses against a list of ranges.
+ *
+ * Ranges are given in CIDR notation, as single IP addresses, or by name:
+ * `loopback`, `linklocal` and `private` (IPv4 and IPv6 alike).
+ *
+ * @param ranges - The list of ranges.
+ * @returns A function returning `true` for addresses in one of the ranges.
+ * @throws `IpError` if the list or one of its ranges is invalid.
+ */
+export function ipMatcher(ranges: Array<string>): (ip: string) => boolean {
+  if (!isArr(ranges) || !ranges.every((range) => isStr(range))) {
+    throw new IpError('Invalid IP ranges');
+  }
+
+  const cidrs = ranges.flatMap((range) => RANGES.get(range) || [range]);
+
+  cidrs.forEach((cidr) => {
+    if (!isCidr(cidr)) throw new IpError(`Invalid IP range '${cidr}'`);
+  });
+
+  return (ip: string) => cidrs.some((cidr) => inCidr(ip, cidr));
+}
@@ -0,0 +1,44 @@
+import { AppError } from '../errors';
+
+/**
+ * Retrieves the application key (APP_KEY) from environment variables.
+ *
+ * @throwsIf APP_KEY is not defined.
+ * @returns The application key as a string.
+ */
+export function appKey(): string {
+  if (!process.env.APP_KEY) {
+    throw new AppError(
+      'Missing APP_KEY: execute "node exec mk:env" to generate a new APP_KEY'
+    );
+  }
+
+  return process.env.APP_KEY;
+}
+
+/**
+ * Checks if the application key (APP_KEY) is defined.
+ *
+ * @returns `true` if values can be signed and verified.
+ */
+export function hasAppKey(): boolean {
+  return Boolean(process.env.APP_KEY);
+}
+
+/**
+ * Retrieves the application keys, to rotate the app key without breaking signed values.
+ *
+ * The current key (APP_KEY) comes first and is used to sign, followed by the previous
+ * keys (APP_PREVIOUS_KEYS, comma separated) which are still accepted when verifying.
+ *
+ * @throws `AppError` If APP_KEY is not defined.
+ * @returns The application keys, newest first.
+ */
+export function appKeys(): Array<string> {
+  const previous = (process.env.APP_PREVIOUS_KEYS || '')
+    .split(',')
+    .map((key) => key.trim())
+    .filter((key) => key.length > 0);
+
+  return [appKey(), ...previous];
+}
@@ -54,6 +54,13 @@ interface Getter {
    * @throws Throws an error if there is an issue reading the log file.
    */
   from: (date: string) => Promise<Array<string>>;
+
+  /**
+   * Retrieves the entries written with `json()`, skipping lines that are not JSON.
+   * @returns A promise that resolves to an array of entries.
+   * @throws Throws an error if there is an issue reading the log file.
+   */
+  json: <T = any>() => Promise<Array<T>>;
 }
 
 /**
@@ -95,6 +102,9 @@ export class Logger {
   /** @private The file path where logs are stored */
   private path: string;
 
+  /** @private Log writes in progress, across all loggers */
+  private static writes: Set<Promise<void>> = new Set();
+
   /**
    * Creates an logger new instance
    * @param path - The path to the log file.
@@ -191,6 +201,28 @@ export class Logger {
           .catch(reject);
       });
     },
+
+    json: <T = any>(): Promise<Array<T>> => {
+      return new Promise((resolve, reject) => {
+        this.ensureFile()
+          .then(() => readFile(this.path, 'utf-8'))
+          .then((content) => {
+            resolve(
+              content
+                .split('\n')
+                .map((line) => {
+                  try {
+                    return line.trim() ? JSON.parse(line) : undefined;
+                  } catch {
+                    return undefined;
+                  }
+                })
+                .filter((entry) => entry !== undefined)
+            );
+          })
+          .catch((error) => reject(new LoggerError(error.message)));
+      });
+    },
   };
 
   /**
@@ -225,12 +257,54 @@ export class Logger {
 
       const logLine = `[${date}] [${name}] ${message} ${location}`.trim();
 
-      appendFile(this.path, `<-- LOG -->\n${logLine}\n\n`)
+      const write = appendFile(this.path, `<-- LOG -->\n${logLine}\n\n`);
+
+      Logger.writes.add(write);
+      write
+        .finally(() => Logger.writes.delete(write))
+        .then(resolve)
+        .catch((error) => reject(new LoggerError(error.message)));
+    });
+  }
+
+  /**
+   * Appends entries to the log file as JSON lines (JSONL), one entry per line.
+   *
+   * @param entries The entries to write, in order.
+   * @returns A promise that resolves when the entries are successfully written.
+   * @throws `LoggerError` If an entry cannot be serialized or the write fails.
+   */
+  public json(...entries: Array<unknown>): Promise<void> {
+    return new Promise((resolve, reject) => {
+      let lines: string;
+
+      try {
+        lines = entries.map((entry) => `${JSON.stringify(entry)}\n`).join('');
+      } catch (error) {
+        return reject(new LoggerError(error.message));
+      }
+
+      const write = appendFile(this.path, lines);
+
+      Logger.writes.add(write);
+      write
+        .finally(() => Logger.writes.delete(write))
         .then(resolve)
         .catch((error) => reject(new LoggerError(error.message)));
     });
   }
 
+  /**
+   * Waits for the log writes in progress to complete, across all loggers.
+   *
+   * Failed writes are ignored, as they are already reported to their callers.
+   *
+   * @returns A promise that resolves once every pending write has settled.
+   */
+  public static flush(): Promise<void> {
+    return Promise.allSettled(Array.from(Logger.writes)).then(() => {});
+  }
+
   /**
    * Clears all log messages in the log file.
    *
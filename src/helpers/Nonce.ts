@@ -0,0 +1,39 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { isStr } from './Test';
+
+/**
+ * Holds the Content-Security-Policy nonce of the template being rendered.
+ */
+const storage = new AsyncLocalStorage<string>();
+
+/**
+ * Runs a callback with a Content-Security-Policy nonce, available to `nonce()` in
+ * everything it runs, synchronously or not (e.g., template tools during rendering).
+ *
+ * @param value - The nonce.
+ * @param callback - The callback.
+ * @returns The result of the callback.
+ */
+export function withNonce<T>(value: string, callback: () => T): T {
+  if (!isStr(value)) return callback();
+  return storage.run(value, callback);
+}
+
+/**
+ * Returns the Content-Security-Policy nonce of the current response.
+ *
+ * @returns The nonce, or `undefined` outside `withNonce()`.
+ */
+export function nonce(): string | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Returns the `nonce` attribute for `<script>`, `<style>` and `<link>` tags, with a leading space.
+ *
+ * @returns The attribute, or an empty string without a nonce.
+ */
+export function nonceAttr(): string {
+  const value = nonce();
+  return isStr(value) ? ` nonce="${value}"` : '';
+}
@@ -1,5 +1,4 @@
 import { blue, green, isInt, isObj, isStr, orange, red, toSize } from '.';
-import { MB } from '../core/modules/Form';
 
 /**
  * Optional configuration settings for a Store instance.
@@ -98,7 +97,7 @@ export class Store {
 
     const { size, trim, timeout, space } = ops;
     this.size = isInt(size) && size > 0 ? size : 50_000;
-    this.space = isInt(space) && space > 0 ? space : 10 * MB;
+    this.space = isInt(space) && space > 0 ? space : 10 * 1024 * 1024; // 10 MB
     this.timeout = isInt(timeout) && timeout > 0 ? timeout * 1000 : 60 * 1000;
     this.trim = isInt(trim) && trim > 0 && trim <= 100 ? ops.trim : 10;
 
@@ -117,18 +116,21 @@ export class Store {
    * @param key - The key to associate with the value.
    * @param value - The value to cache.
    * @param ttl - Time-to-live in seconds.
+   * @returns `true` if the value was stored, `false` if it was skipped to free space.
    */
-  public set(key: string, value: any, ttl?: number): void {
+  public set(key: string, value: any, ttl?: number): boolean {
     if (!isInt(ttl)) ttl = null;
     const expiresAt = ttl !== null ? Date.now() + ttl * 1000 : ttl;
     const space = this.estimateSpace(value);
 
     if (this.memory + space >= this.space) {
-      return this.cleanSpace();
+      this.cleanSpace();
+      return false;
     }
 
     if (this.store.size >= this.size) {
-      return this.cleanSpace();
+      this.cleanSpace();
+      return false;
     }
 
     const item = this.store.get(key);
@@ -145,6 +147,7 @@ export class Store {
     this.memory += space;
 
     if (this.log) this.debug();
+    return true;
   }
 
   /**
@@ -1,3 +1,4 @@
+import { createHmac } from 'crypto';
 import { isArr, isFullStr, isInt, isNum, isObj, isRegex, isStr } from './Test';
 
 /**
@@ -1244,15 +1245,50 @@ export function botInput(): string {
   return '<input type="text" name="honeyPot" style="display:none" />';
 }
 
+/**
+ * Derives a per-form CSRF token, bound to the action and method of a form.
+ *
+ * A bound token leaked from one form cannot be replayed against another route.
+ * The action may be a path or a URL, only its path counts.
+ *
+ * @param token - The CSRF token of the request.
+ * @param action - The form action.
+ * @param method - The form method. Defaults to `POST`.
+ * @returns The bound token, or an empty string if the token is invalid.
+ */
+export function csrfBind(
+  token: string,
+  action: string,
+  method: string = 'POST'
+): string {
+  if (!isStr(token) || !isStr(action) || !isStr(method)) return '';
+
+  const path = new URL(action, 'http://localhost').pathname;
+
+  return createHmac('sha256', token)
+    .update(`${method.toUpperCase()} ${path}`)
+    .digest('base64url');
+}
+
 /**
  * Returns a hidden input field containing a CSRF token.
  * Place this in your form to validate submissions.
  *
+ * Given the form action (and method), the token is bound to it, as required by
+ * the `csrfGuard({ forms: true })` middleware.
+ *
  * @param token - The CSRF token value to embed.
+ * @param action - The form action, to embed a per-form token (optional).
+ * @param method - The form method. Defaults to `POST`.
  * @returns A hidden input with the given CSRF token.
  */
-export function csrfInput(token: string): string {
+export function csrfInput(
+  token: string,
+  action?: string,
+  method?: string
+): string {
+  const value = isStr(action) ? csrfBind(token, action, method) : token;
   return `<input type="hidden" name="csrfToken" value="${escapeHTML(
-    token
+    value
   )}" />`;
 }
@@ -1,6 +1,7 @@
 import { config } from '../config';
 import { existsSync, readFileSync } from 'fs';
 import { resolve, extname } from 'path';
+import { nonceAttr } from './Nonce';
 
 export type Manifest = {
   [key: string]: ManifestChunk;
@@ -127,7 +128,8 @@ export class Vite {
   }
 
   /**
-   * Generates a script tag for JavaScript or TypeScript files.
+   * Generates a script tag for JavaScript or TypeScript files, with the
+   * Content-Security-Policy nonce of the response, if any.
    * @param src - The script source URL.
    * @returns The script tag.
    * @throws `ViteError` If the source URL is invalid.
@@ -138,11 +140,12 @@ export class Vite {
         `Invalid script URL: ${src}. Expected a valid HTTP(S) URL.`
       );
     }
-    return `<script type="module" src="${src}"></script>`;
+    return `<script type="module" src="${src}"${nonceAttr()}></script>`;
   }
 
   /**
-   * Generates a link tag for stylesheets.
+   * Generates a link tag for stylesheets, with the Content-Security-Policy nonce
+   * of the response, if any.
    * @param href - The stylesheet URL.
    * @returns The link tag.
    * @throws `ViteError` If the stylesheet URL is invalid.
@@ -153,7 +156,7 @@ export class Vite {
         `Invalid stylesheet URL: ${href}. Expected a valid HTTP(S) URL.`
       );
     }
-    return `<link rel="stylesheet" href="${href}">`;
+    return `<link rel="stylesheet" href="${href}"${nonceAttr()}>`;
   }
 }
 
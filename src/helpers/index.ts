@@ -15,6 +15,9 @@ export * from './Chrono';
 export * from './Mime';
 export * from './Lang';
 export * from './Mixer';
+export * from './Nonce';
+export * from './Ip';
+export * from './Key';
 
 /**
  * Checks if the given object is a valid `MegaDriver`.
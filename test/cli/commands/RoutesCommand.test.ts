@@ -0,0 +1,226 @@
+import { RoutesCommand } from '../../../src/cli/commands/RoutesCommand';
+import { CommandError } from '../../../src/cli/Command';
+
+import { config as loader } from '../../../src/config';
+import { App, Router, Service } from '../../../src/core';
+import { resolve } from 'path';
+
+loader().resolveSync = jest.fn(() => '/root/project');
+
+describe('RoutesCommand', () => {
+  describe('path', () => {
+    it('should resolve when TypeScript is disabled', () => {
+      const config: any = {
+        typescript: { enabled: false, src: 'src', dist: 'dist' },
+        paths: { entry: 'index' },
+      };
+
+      expect(RoutesCommand['path'](config)).toBe(
+        resolve('/root/project', 'index')
+      );
+
+      config.paths.entry = '/absolute/app';
+      expect(RoutesCommand['path'](config)).toBe('/absolute/app');
+    });
+
+    it('should resolve when TypeScript is enabled', () => {
+      const config: any = {
+        typescript: { enabled: true, src: 'src', dist: 'dist' },
+        paths: { entry: 'index' },
+      };
+
+      expect(RoutesCommand['path'](config)).toBe(
+        resolve('/root/project', 'dist', 'index')
+      );
+
+      config.typescript.dist = '/absolute/dist';
+      expect(RoutesCommand['path'](config)).toBe('/absolute/dist/index');
+
+      config.paths.entry = '/absolute/app';
+      expect(() => RoutesCommand['path'](config)).toThrow(CommandError);
+    });
+  });
+
+  describe('load', () => {
+    it('should throw a CommandError if the entry cannot be loaded', () => {
+      expect(() => RoutesCommand['load']('/no/such/entry')).toThrow(
+        /Failed to load app entry/
+      );
+    });
+
+    it('should load entries starting the app without starting it', () => {
+      jest
+        .spyOn(loader(), 'loadSync')
+        .mockReturnValue({ protocol: 'http' } as any);
+
+      (App as any).app = undefined;
+      const start = jest.spyOn(App.prototype, 'start');
+
+      jest.doMock('/virtual/entry', () => new App().start(), { virtual: true });
+
+      RoutesCommand['load']('/virtual/entry');
+
+      expect(start).not.toHaveBeenCalled();
+      expect(App.prototype.start).toBe(start);
+
+      jest.restoreAllMocks();
+    });
+  });
+
+  describe('exec', () => {
+    const config = {
+      protocol: 'http',
+      typescript: { enabled: false, src: 'src', dist: 'dist' },
+      paths: { entry: 'index' },
+    } as any;
+
+    const args = (method?: string, prefix?: string, json = false) => {
+      jest.spyOn(RoutesCommand as any, 'argument').mockImplementation((arg) => {
+        if (arg === 'method') return method;
+        if (arg === 'prefix') return prefix;
+      });
+
+      jest
+        .spyOn(RoutesCommand as any, 'option')
+        .mockImplementation((name) => name === '-json' && json);
+    };
+
+    let log: jest.SpyInstance;
+
+    beforeEach(() => {
+      jest.restoreAllMocks();
+      jest.spyOn(loader(), 'loadSync').mockReturnValue(config);
+      (App as any).app = undefined;
+
+      const auth = async function auth() {};
+      const index = async function index() {};
+      const store = async function store() {};
+      const show = async function show() {};
+
+      class PostService extends Service {
+        constructor(req: any, res: any) {
+          super(req, res);
+          this.get('/posts', index).name('posts.index');
+          this.post('/posts', auth, store);
+        }
+      }
+
+      const router = new Router().get('/users/:id', show).name('users.show');
+
+      new App().namespace('/', PostService).namespace('/admin', router, auth);
+
+      jest.spyOn(loader(), 'load').mockResolvedValue(config);
+      jest.spyOn(RoutesCommand as any, 'load').mockImplementation(() => {});
+      log = jest.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterAll(() => jest.restoreAllMocks());
+
+    it('should load the app entry and print every route', async () => {
+      args();
+
+      await expect(RoutesCommand.exec()).resolves.toBeUndefined();
+
+      expect(RoutesCommand['load']).toHaveBeenCalledWith(
+        resolve('/root/project', 'index')
+      );
+
+      const lines = log.mock.calls.map((call) => call[0]);
+
+      expect(lines).toHaveLength(4);
+      expect(lines[0]).toMatch(
+        /^METHOD\s+PATH\s+NAME\s+HANDLER\s+MIDDLEWARES$/
+      );
+      expect(lines[1]).toMatch(
+        /^GET\s+\/posts\s+posts\.index\s+PostService\.index\s+-$/
+      );
+      expect(lines[2]).toMatch(
+        /^POST\s+\/posts\s+-\s+PostService\.store\s+auth$/
+      );
+      expect(lines[3]).toMatch(
+        /^GET\s+\/admin\/users\/:id\s+users\.show\s+show\s+auth$/
+      );
+    });
+
+    it('should print routes as JSON', async () => {
+      args(undefined, undefined, true);
+
+      await RoutesCommand.exec();
+
+      expect(JSON.parse(log.mock.calls[0][0])).toEqual([
+        {
+          method: 'GET',
+          path: '/posts',
+          name: 'posts.index',
+          service: 'PostService',
+          handler: 'index',
+          middlewares: [],
+        },
+        {
+          method: 'POST',
+          path: '/posts',
+          name: null,
+          service: 'PostService',
+          handler: 'store',
+          middlewares: ['auth'],
+        },
+        {
+          method: 'GET',
+          path: '/admin/users/:id',
+          name: 'users.show',
+          service: null,
+          handler: 'show',
+          middlewares: ['auth'],
+        },
+      ]);
+    });
+
+    it('should filter routes by method and path prefix', async () => {
+      args('get', undefined, true);
+      await RoutesCommand.exec();
+
+      expect(
+        JSON.parse(log.mock.calls[0][0]).map((route) => route.path)
+      ).toEqual(['/posts', '/admin/users/:id']);
+
+      args('/admin', undefined, true);
+      await RoutesCommand.exec();
+
+      expect(
+        JSON.parse(log.mock.calls[1][0]).map((route) => route.path)
+      ).toEqual(['/admin/users/:id']);
+
+      args('post', '/admin', true);
+      await RoutesCommand.exec();
+
+      expect(JSON.parse(log.mock.calls[2][0])).toEqual([]);
+    });
+
+    it('should warn when no route matches', async () => {
+      args(undefined, '/comments');
+      const warning = jest
+        .spyOn(RoutesCommand as any, 'warning')
+        .mockImplementation(() => {});
+
+      await RoutesCommand.exec();
+      expect(warning).toHaveBeenCalledWith('No routes');
+    });
+
+    it('should reject an invalid method filter', async () => {
+      args('fetch');
+      await expect(RoutesCommand.exec()).rejects.toThrow(
+        'Invalid method filter: FETCH'
+      );
+    });
+
+    it('should reject if the app entry fails to load', async () => {
+      args();
+      const error = new CommandError('Failed to load app entry: Ops');
+      jest.spyOn(RoutesCommand as any, 'load').mockImplementation(() => {
+        throw error;
+      });
+
+      await expect(RoutesCommand.exec()).rejects.toThrow(error);
+    });
+  });
+});
@@ -29,6 +29,7 @@ describe('loadSync()', () => {
     expect(config.paths.commands).toBe('commands');
     expect(config.paths.generators).toBe('generators');
     expect(config.paths.views).toBe('views');
+    expect(config.paths.entry).toBe('index');
     expect(config.typescript.enabled).toBe(false);
     expect(config.typescript.src).toBe('src');
     expect(config.typescript.dist).toBe('dist');
@@ -147,6 +148,245 @@ describe('loadSync()', () => {
     });
   });
 
+  describe('shutdown config', () => {
+    it('should set default values if shutdown is missing', () => {
+      mock.mockReturnValue({
+        default: 'default_pool',
+        cluster: new Cluster(),
+      });
+
+      const config = loader.loadSync();
+
+      expect(config.shutdown.timeout).toBe(10000);
+      expect(config.shutdown.signals).toBe(true);
+    });
+
+    it('should apply default values if shutdown properties are invalid', () => {
+      mock.mockReturnValue({
+        default: 'default_pool',
+        cluster: new Cluster(),
+        shutdown: { timeout: -1, signals: 'yes' },
+      });
+
+      const config = loader.loadSync();
+
+      expect(config.shutdown.timeout).toBe(10000);
+      expect(config.shutdown.signals).toBe(true);
+    });
+
+    it('should preserve valid shutdown properties', () => {
+      mock.mockReturnValue({
+        default: 'default_pool',
+        cluster: new Cluster(),
+        shutdown: { timeout: 500, signals: false },
+      });
+
+      const config = loader.loadSync();
+
+      expect(config.shutdown.timeout).toBe(500);
+      expect(config.shutdown.signals).toBe(false);
+    });
+  });
+
+  describe('session config', () => {
+    it('should set default values if session is missing', () => {
+      mock.mockReturnValue({
+        default: 'default_pool',
+        cluster: new Cluster(),
+      });
+
+      const config = loader.loadSync();
+
+      expect(config.session).toEqual({
+        driver: 'store',
+        cookie: 'session',
+        idle: 7200,
+        absolute: 86400,
+        table: 'sessions',
+        pool: undefined,
+      });
+    });
+
+    it('should preserve valid session properties', () => {
+      const driver = { get: jest.fn(), set: jest.fn(), delete: jest.fn() };
+
+      mock.mockReturnValue({
+        default: 'default_pool',
+        cluster: new Cluster(),
+        session: { driver, idle: 600, absolute: -1, table: 'web_sessions' },
+      });
+
+      const config = loader.loadSync();
+
+      expect(config.session.driver).toBe(driver);
+      expect(config.session.idle).toBe(600);
+      expect(config.session.absolute).toBe(86400);
+      expect(config.session.table).toBe('web_sessions');
+    });
+  });
+
+  describe('jwt config', () => {
+    it('should set default values if jwt is missing', () => {
+      mock.mockReturnValue({
+        default: 'default_pool',
+        cluster: new Cluster(),
+      });
+
+      const config = loader.loadSync();
+
+      expect(config.jwt).toEqual({
+        algorithm: 'HS256',
+        secret: undefined,
+        privateKey: undefined,
+        publicKey: undefined,
+        ttl: 3600,
+        issuer: undefined,
+        audience: undefined,
+        skew: 60,
+      });
+    });
+
+    it('should preserve valid jwt properties', () => {
+      mock.mockReturnValue({
+        default: 'default_pool',
+        cluster: new Cluster(),
+        jwt: { algorithm: 'RS256', ttl: -1, skew: 0, issuer: 'bnjsx' },
+      });
+
+      const config = loader.loadSync();
+
+      expect(config.jwt.algorithm).toBe('RS256');
+      expect(config.jwt.ttl).toBe(3600);
+      expect(config.jwt.skew).toBe(0);
+      expect(config.jwt.issuer).toBe('bnjsx');
+    });
+  });
+
+  describe('twoFactor config', () => {
+    it('should set default values if twoFactor is missing', () => {
+      mock.mockReturnValue({
+        default: 'default_pool',
+        cluster: new Cluster(),
+      });
+
+      const config = loader.loadSync();
+
+      expect(config.twoFactor).toEqual({
+        issuer: 'Bnjsx',
+        digits: 6,
+        period: 30,
+        window: 1,
+        algorithm: 'SHA1',
+        recoveryCodes: 8,
+        cookie: 'twoFactor',
+        ttl: 43200,
+        challenge: '/two-factor',
+      });
+    });
+
+    it('should preserve valid twoFactor properties', () => {
+      mock.mockReturnValue({
+        default: 'default_pool',
+        cluster: new Cluster(),
+        twoFactor: { digits: 8, window: 0, algorithm: 'MD5', issuer: 'Shop' },
+      });
+
+      const config = loader.loadSync();
+
+      expect(config.twoFactor.digits).toBe(8);
+      expect(config.twoFactor.window).toBe(0);
+      expect(config.twoFactor.algorithm).toBe('SHA1');
+      expect(config.twoFactor.issuer).toBe('Shop');
+    });
+  });
+
+  describe('audit config', () => {
+    it('should set default values if audit is missing', () => {
+      mock.mockReturnValue({
+        default: 'default_pool',
+        cluster: new Cluster(),
+      });
+
+      const config = loader.loadSync();
+
+      expect(config.audit).toEqual({
+        enabled: false,
+        driver: 'file',
+        path: '.audit',
+        table: 'audit_logs',
+        pool: undefined,
+        tables: undefined,
+        exclude: [],
+        hidden: [
+          'password',
+          'token',
+          'remember_token',
+          'two_factor_secret',
+          'two_factor_recovery_codes',
+        ],
+        key: 'id',
+      });
+    });
+
+    it('should preserve valid audit properties', () => {
+      mock.mockReturnValue({
+        default: 'default_pool',
+        cluster: new Cluster(),
+        audit: { enabled: true, driver: 'table', tables: ['posts'], key: 1 },
+      });
+
+      const config = loader.loadSync();
+
+      expect(config.audit.enabled).toBe(true);
+      expect(config.audit.driver).toBe('table');
+      expect(config.audit.tables).toEqual(['posts']);
+      expect(config.audit.key).toBe('id');
+    });
+  });
+
+  describe('auth config', () => {
+    it('should set default values if auth is missing', () => {
+      mock.mockReturnValue({
+        default: 'default_pool',
+        cluster: new Cluster(),
+      });
+
+      const config = loader.loadSync();
+
+      expect(config.auth).toEqual({
+        table: 'users',
+        tokens: 'tokens',
+        roles: 'roles',
+        permissions: 'permissions',
+        userRoles: 'role_user',
+        rolePermissions: 'permission_role',
+        accessTokens: 'access_tokens',
+        pool: undefined,
+        login: '/login',
+        home: '/',
+        cookie: 'remember',
+        remember: 2592000,
+        verify: 86400,
+        reset: 3600,
+      });
+    });
+
+    it('should preserve valid auth properties', () => {
+      mock.mockReturnValue({
+        default: 'default_pool',
+        cluster: new Cluster(),
+        auth: { table: 'members', login: '/signin', reset: 0, verify: 600 },
+      });
+
+      const config = loader.loadSync();
+
+      expect(config.auth.table).toBe('members');
+      expect(config.auth.login).toBe('/signin');
+      expect(config.auth.reset).toBe(3600);
+      expect(config.auth.verify).toBe(600);
+    });
+  });
+
   describe('CORS configuration', () => {
     const methods = [
       'GET',
@@ -323,6 +563,7 @@ describe('loadSync()', () => {
         xssProtection: true,
         xFrameOptions: 'SAMEORIGIN',
         xPermittedCrossDomainPolicies: 'none',
+        nonce: true,
       });
     });
   });
@@ -822,4 +1063,58 @@ describe('loadSync()', () => {
       );
     });
   });
+
+  describe('nonce', () => {
+    it('should enable nonces by default', () => {
+      mock.mockReturnValue({
+        default: 'default_pool',
+        cluster: new Cluster(),
+        security: {},
+      });
+      const config = loader.loadSync();
+      expect(config.security.nonce).toBe(true);
+    });
+
+    it('should reject invalid nonce values', () => {
+      mock.mockReturnValue({
+        default: 'default_pool',
+        cluster: new Cluster(),
+        security: { nonce: 'yes' },
+      });
+      expect(() => loader.loadSync()).toThrow(
+        "Invalid option 'nonce': Expected boolean but received string."
+      );
+    });
+  });
+
+  describe('trustProxy', () => {
+    it('should trust no proxy by default', () => {
+      mock.mockReturnValue({
+        default: 'default_pool',
+        cluster: new Cluster(),
+      });
+      const config = loader.loadSync();
+      expect(config.trustProxy).toBe(false);
+    });
+
+    it('should reject invalid trustProxy values', () => {
+      mock.mockReturnValue({
+        default: 'default_pool',
+        cluster: new Cluster(),
+        trustProxy: ['10.0.0.0/8', 'office'],
+      });
+      expect(() => loader.loadSync()).toThrow(
+        "Invalid option 'trustProxy': Invalid IP range 'office'."
+      );
+
+      mock.mockReturnValue({
+        default: 'default_pool',
+        cluster: new Cluster(),
+        trustProxy: -1,
+      });
+      expect(() => loader.loadSync()).toThrow(
+        "Invalid option 'trustProxy': Expected boolean, a hop count or a list of IP ranges but received number."
+      );
+    });
+  });
 });
@@ -0,0 +1,177 @@
+const options: any = {
+  mode: 'web',
+  auth: { login: '/login', home: '/' },
+  twoFactor: { challenge: '/two-factor' },
+};
+
+jest.mock('../../../src/config', () => ({
+  config: () => {
+    return {
+      loadSync: () => options,
+      resolveSync: () => __dirname,
+    };
+  },
+}));
+
+import { auth, guest, twoFactor, user } from '../../../src/core/middlewares';
+import { Auth, INTENDED_SESSION_KEY } from '../../../src/core/modules/Auth';
+import { TwoFactor } from '../../../src/core/modules/TwoFactor';
+import { ForbiddenError, UnauthorizedError } from '../../../src/errors';
+
+describe('auth middlewares', () => {
+  let redirector: any;
+  let res: any;
+  let req: any;
+
+  beforeEach(() => {
+    redirector = {
+      with: jest.fn().mockReturnThis(),
+      send: jest.fn().mockResolvedValue(undefined),
+    };
+
+    res = { redirect: jest.fn(() => redirector) };
+    req = {
+      path: '/posts',
+      url: '/posts?page=2',
+      method: 'GET',
+      session: { set: jest.fn() },
+    };
+
+    options.mode = 'web';
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  describe('user', () => {
+    it('should load the user into the request', async () => {
+      jest.spyOn(Auth, 'user').mockResolvedValue({ id: 1 });
+
+      await user(req, res);
+      expect(req.user).toEqual({ id: 1 });
+      expect(Auth.user).toHaveBeenCalledWith(req, res);
+    });
+  });
+
+  describe('auth', () => {
+    it('should let users through', async () => {
+      jest.spyOn(Auth, 'user').mockResolvedValue({ id: 1 });
+
+      await expect(auth(req, res)).resolves.toBeUndefined();
+      expect(res.redirect).not.toHaveBeenCalled();
+    });
+
+    it('should not load users twice', async () => {
+      jest.spyOn(Auth, 'user');
+      req.user = { id: 1 };
+
+      await auth(req, res);
+      expect(Auth.user).not.toHaveBeenCalled();
+    });
+
+    it('should send guests to login and remember where they were going', async () => {
+      jest.spyOn(Auth, 'user').mockResolvedValue(null);
+
+      await auth(req, res);
+
+      expect(req.session.set).toHaveBeenCalledWith(
+        INTENDED_SESSION_KEY,
+        '/posts?page=2'
+      );
+      expect(res.redirect).toHaveBeenCalledWith('/login');
+      expect(redirector.with).toHaveBeenCalledWith(
+        'Please log in to continue.',
+        'info'
+      );
+      expect(redirector.send).toHaveBeenCalled();
+    });
+
+    it('should only remember GET requests', async () => {
+      req.user = null;
+      req.method = 'POST';
+
+      await auth(req, res);
+      expect(req.session.set).not.toHaveBeenCalled();
+    });
+
+    it('should throw UnauthorizedError for API requests', async () => {
+      req.user = null;
+      req.path = '/api/posts';
+
+      await expect(auth(req, res)).rejects.toThrow(UnauthorizedError);
+
+      options.mode = 'api';
+      req.path = '/posts';
+
+      await expect(auth(req, res)).rejects.toThrow(UnauthorizedError);
+      expect(res.redirect).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('guest', () => {
+    it('should let guests through', async () => {
+      jest.spyOn(Auth, 'user').mockResolvedValue(null);
+
+      await expect(guest(req, res)).resolves.toBeUndefined();
+      expect(res.redirect).not.toHaveBeenCalled();
+    });
+
+    it('should send users home', async () => {
+      req.user = { id: 1 };
+
+      await guest(req, res);
+
+      expect(res.redirect).toHaveBeenCalledWith('/');
+      expect(redirector.send).toHaveBeenCalled();
+    });
+
+    it('should throw ForbiddenError for API requests', async () => {
+      req.user = { id: 1 };
+      options.mode = 'api';
+
+      await expect(guest(req, res)).rejects.toThrow(ForbiddenError);
+    });
+  });
+
+  describe('twoFactor', () => {
+    beforeEach(() => {
+      req.user = { id: 1, two_factor_secret: 'JBSWY3DPEHPK3PXP' };
+    });
+
+    it('should let users without two-factor authentication through', async () => {
+      req.user = { id: 1, two_factor_secret: null };
+
+      await expect(twoFactor(req, res)).resolves.toBeUndefined();
+      expect(res.redirect).not.toHaveBeenCalled();
+    });
+
+    it('should let verified users through', async () => {
+      jest.spyOn(TwoFactor, 'passed').mockReturnValue(true);
+
+      await expect(twoFactor(req, res)).resolves.toBeUndefined();
+      expect(TwoFactor.passed).toHaveBeenCalledWith(req);
+      expect(res.redirect).not.toHaveBeenCalled();
+    });
+
+    it('should send unverified users to the challenge', async () => {
+      jest.spyOn(TwoFactor, 'passed').mockReturnValue(false);
+
+      await twoFactor(req, res);
+
+      expect(req.session.set).toHaveBeenCalledWith(
+        INTENDED_SESSION_KEY,
+        '/posts?page=2'
+      );
+      expect(res.redirect).toHaveBeenCalledWith('/two-factor');
+      expect(redirector.send).toHaveBeenCalled();
+    });
+
+    it('should throw UnauthorizedError for API requests', async () => {
+      jest.spyOn(TwoFactor, 'passed').mockReturnValue(false);
+      options.mode = 'api';
+
+      await expect(twoFactor(req, res)).rejects.toThrow(
+        new UnauthorizedError('Two-factor authentication required')
+      );
+    });
+  });
+});
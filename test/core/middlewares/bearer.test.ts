@@ -0,0 +1,165 @@
+const options: any = {
+  auth: { table: 'users' },
+  jwt: { algorithm: 'HS256', ttl: 3600, skew: 60 },
+};
+
+jest.mock('../../../src/config', () => ({
+  config: () => {
+    return {
+      loadSync: () => options,
+      resolveSync: () => __dirname,
+    };
+  },
+}));
+
+import { bearer, scopes } from '../../../src/core/middlewares';
+import { AccessToken } from '../../../src/core/modules/AccessToken';
+import { Jwt } from '../../../src/core/modules/Jwt';
+import { Table } from '../../../src/core/modules/Table';
+import { ForbiddenError, UnauthorizedError } from '../../../src/errors';
+
+describe('bearer middlewares', () => {
+  let one: jest.Mock;
+  let res: any;
+  let req: any;
+
+  const authorize = (token: string) => {
+    req.headers.authorization = `Bearer ${token}`;
+  };
+
+  beforeEach(() => {
+    process.env.APP_KEY = 'app-key';
+
+    one = jest.fn(async (id) => (id === '1' ? { id: 1 } : null));
+    jest
+      .spyOn(Table, 'request')
+      .mockReturnValue({ find: () => ({ one }) } as any);
+
+    res = { setHeader: jest.fn() };
+    req = { headers: {} };
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    delete process.env.APP_KEY;
+  });
+
+  describe('bearer', () => {
+    it('should verify JSON Web Tokens and load their subject', async () => {
+      authorize(Jwt.sign({ sub: '1', scope: 'posts.read' }));
+
+      await bearer()(req, res);
+
+      expect(req.user).toEqual({ id: 1 });
+      expect(req.token).toEqual({
+        type: 'jwt',
+        scopes: ['posts.read'],
+        claims: expect.objectContaining({ sub: '1' }),
+      });
+    });
+
+    it('should skip loading the user when disabled', async () => {
+      authorize(Jwt.sign({ sub: '1' }));
+
+      await bearer({ user: false })(req, res);
+
+      expect(req.user).toBeUndefined();
+      expect(one).not.toHaveBeenCalled();
+    });
+
+    it('should refuse invalid JSON Web Tokens', async () => {
+      authorize(Jwt.sign({ sub: '1' }, { ttl: 0 }).slice(0, -2));
+
+      await expect(bearer()(req, res)).rejects.toThrow(
+        new UnauthorizedError('Invalid JWT signature')
+      );
+      expect(res.setHeader).toHaveBeenCalledWith(
+        'WWW-Authenticate',
+        'Bearer error="invalid_token"'
+      );
+    });
+
+    it('should refuse tokens of unknown users', async () => {
+      authorize(Jwt.sign({ sub: '2' }));
+
+      await expect(bearer()(req, res)).rejects.toThrow(
+        'Unknown bearer token subject'
+      );
+    });
+
+    it('should verify personal access tokens', async () => {
+      jest.spyOn(AccessToken, 'verify').mockResolvedValue({
+        row: { id: 3 },
+        user: { id: 1 },
+        scopes: ['*'],
+      });
+
+      authorize('a'.repeat(64));
+      await bearer()(req, res);
+
+      expect(AccessToken.verify).toHaveBeenCalledWith('a'.repeat(64));
+      expect(req.user).toEqual({ id: 1 });
+      expect(req.token).toEqual({ type: 'pat', scopes: ['*'], id: 3 });
+    });
+
+    it('should refuse invalid personal access tokens', async () => {
+      jest.spyOn(AccessToken, 'verify').mockResolvedValue(null);
+      authorize('unknown');
+
+      await expect(bearer()(req, res)).rejects.toThrow('Invalid bearer token');
+    });
+
+    it('should refuse disabled token types', async () => {
+      authorize(Jwt.sign({ sub: '1' }));
+      await expect(bearer({ jwt: false })(req, res)).rejects.toThrow(
+        'Invalid bearer token'
+      );
+
+      authorize('unknown');
+      await expect(bearer({ pat: false })(req, res)).rejects.toThrow(
+        'Invalid bearer token'
+      );
+    });
+
+    it('should refuse requests without a token unless optional', async () => {
+      await expect(bearer()(req, res)).rejects.toThrow('Missing bearer token');
+      expect(res.setHeader).toHaveBeenCalledWith('WWW-Authenticate', 'Bearer');
+
+      req.headers.authorization = 'Basic dXNlcjpwYXNz';
+      await expect(bearer()(req, res)).rejects.toThrow(UnauthorizedError);
+
+      await expect(
+        bearer({ optional: true })(req, res)
+      ).resolves.toBeUndefined();
+      expect(req.token).toBeUndefined();
+    });
+  });
+
+  describe('scopes', () => {
+    it('should let tokens granted every scope through', async () => {
+      req.token = { type: 'pat', scopes: ['posts.*', 'users.read'] };
+
+      await expect(
+        scopes('posts.update', 'users.read')(req, res)
+      ).resolves.toBeUndefined();
+    });
+
+    it('should throw ForbiddenError for missing scopes', async () => {
+      req.token = { type: 'jwt', scopes: ['posts.read'] };
+
+      await expect(scopes('posts.update')(req, res)).rejects.toThrow(
+        new ForbiddenError("Missing token scope 'posts.update'")
+      );
+    });
+
+    it('should refuse requests without a token', async () => {
+      await expect(scopes('posts.read')(req, res)).rejects.toThrow(
+        UnauthorizedError
+      );
+    });
+
+    it('should refuse invalid scopes', () => {
+      expect(() => scopes(1 as any)).toThrow('Invalid token scopes');
+    });
+  });
+});
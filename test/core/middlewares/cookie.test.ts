@@ -1,4 +1,4 @@
-import { cookie } from '../../../src/core';
+import { cookie, Cookie } from '../../../src/core';
 
 describe('cookie', () => {
   let req: any;
@@ -79,4 +79,46 @@ describe('cookie', () => {
       valid: 'good',
     });
   });
+
+  it('should verify signed and encrypted cookies', async () => {
+    process.env.APP_KEY = 'test-key';
+
+    const theme = encodeURIComponent(Cookie.sign('theme', 'dark'));
+    const cart = encodeURIComponent(Cookie.encrypt('cart', '[1,2]'));
+    const forged = encodeURIComponent('s:admin.forged');
+
+    req.getHeader.mockReturnValue(
+      `lang=en; theme=${theme}; cart=${cart}; role=${forged}`
+    );
+
+    await cookie(req, res);
+
+    expect(req.cookies).toEqual({ lang: 'en', role: 's:admin.forged' });
+    expect(req.signedCookies).toEqual({ theme: 'dark', cart: '[1,2]' });
+
+    delete process.env.APP_KEY;
+  });
+
+  it('should leave signed-looking cookies unverified without an app key', async () => {
+    delete process.env.APP_KEY;
+
+    req.getHeader.mockReturnValue('lang=en; role=s%3Aadmin.sig; cart=e%3Aabc');
+
+    await expect(cookie(req, res)).resolves.toBeUndefined();
+
+    expect(req.cookies).toEqual({
+      lang: 'en',
+      role: 's:admin.sig',
+      cart: 'e:abc',
+    });
+    expect(req.signedCookies).toEqual({});
+  });
+
+  it('should set empty signed cookies if cookie header is missing', async () => {
+    req.getHeader.mockReturnValue(undefined);
+
+    await cookie(req, res);
+
+    expect(req.signedCookies).toEqual({});
+  });
 });
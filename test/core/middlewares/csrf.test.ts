@@ -1,41 +1,49 @@
 jest.mock('crypto', () => ({
+  ...jest.requireActual('crypto'),
   randomBytes: jest.fn().mockReturnValue({
     toString: jest.fn().mockReturnValue('mock-token'),
   }),
 }));
 
 import { config } from '../../../src/config';
-import { bot, csrf, csrft } from '../../../src/core';
+import { bot, Cookie, csrf, csrft } from '../../../src/core';
+import { csrfGuard, csrfValid, CSRF_FORMS_KEY } from '../../../src/core';
+import { Form } from '../../../src/core';
 import { BadRequestError } from '../../../src/errors';
+import { csrfBind, store } from '../../../src/helpers';
 
 describe('CSRF Middleware', () => {
   let req: any;
   let res: any;
 
   beforeEach(() => {
+    process.env.APP_KEY = 'test-key';
+
     req = {
       method: 'GET', // Default method
       body: {},
-      cookies: {},
+      signedCookies: {},
       headers: {},
     };
 
     const add = jest.fn();
-    const set = jest.fn();
+    const signed = jest.fn();
     const get = jest.fn().mockReturnValue('header');
 
     res = {
-      cookie: jest.fn().mockReturnValue({ add, set, get }),
+      cookie: jest.fn().mockReturnValue({ add, signed, get }),
     };
   });
 
   it('should generate a CSRF token using default options', async () => {
-    req.cookies = undefined;
+    req.signedCookies = undefined;
     req.method = 'GET';
 
     await csrft(req, res);
 
-    expect(res.cookie().get).toHaveBeenCalledWith('csrfToken', 'mock-token', {
+    const signed = Cookie.sign('csrfToken', 'mock-token');
+
+    expect(res.cookie().get).toHaveBeenCalledWith('csrfToken', signed, {
       path: '/',
       sameSite: 'Strict',
       priority: 'High',
@@ -52,7 +60,7 @@ describe('CSRF Middleware', () => {
   });
 
   it('should generate a CSRF token with custom options', async () => {
-    req.cookies = undefined;
+    req.signedCookies = undefined;
     req.method = 'GET';
     const options = config().loadSync();
     options.cookies = {
@@ -67,15 +75,15 @@ describe('CSRF Middleware', () => {
     expect(res.cookie().add).not.toHaveBeenCalled();
 
     expect(req.csrfToken).toBe('mock-token');
-    expect(res.cookie().set).toHaveBeenCalledWith('csrfToken', 'mock-token');
+    expect(res.cookie().signed).toHaveBeenCalledWith('csrfToken', 'mock-token');
   });
 
   it('should set the CSRF token from cookies if present', async () => {
-    req.cookies = { csrfToken: 'existing-token' };
+    req.signedCookies = { csrfToken: 'existing-token' };
 
     await csrft(req, res);
 
-    // Ensure that req.csrfToken is set to the token from cookies
+    // Ensure that req.csrfToken is set to the token from the signed cookie
     expect(req.csrfToken).toBe('existing-token');
 
     // Ensure no cookie is set because the CSRF token was already available in the cookies
@@ -84,7 +92,7 @@ describe('CSRF Middleware', () => {
 
   it('should accept a valid CSRF token in POST body', async () => {
     req.method = 'POST';
-    req.cookies.csrfToken = 'valid-token';
+    req.signedCookies.csrfToken = 'valid-token';
     req.body.csrfToken = 'valid-token'; // Simulating valid token
     req.getHeader = jest.fn(); // // Simulating undefined token
 
@@ -93,7 +101,7 @@ describe('CSRF Middleware', () => {
 
   it('should accept a valid CSRF token in POST header', async () => {
     req.method = 'POST';
-    req.cookies.csrfToken = 'valid-token';
+    req.signedCookies.csrfToken = 'valid-token';
     req.body.csrfToken = undefined; // Simulating undefined token
     req.getHeader = jest.fn(() => 'valid-token'); // Simulating valid token
 
@@ -102,7 +110,7 @@ describe('CSRF Middleware', () => {
 
   it('should reject with BadRequestError if CSRF token mismatch', async () => {
     req.method = 'POST';
-    req.cookies.csrfToken = 'valid-token';
+    req.signedCookies.csrfToken = 'valid-token';
     req.body.csrfToken = 'invalid-token';
     req.getHeader = jest.fn(() => 'invalid-token');
 
@@ -113,7 +121,7 @@ describe('CSRF Middleware', () => {
 
   it('should reject with BadRequestError if CSRF token is missing', async () => {
     req.method = 'POST';
-    req.cookies.csrfToken = 'valid-token';
+    req.signedCookies.csrfToken = 'valid-token';
     req.body.csrfToken = undefined; // No token
     req.getHeader = jest.fn();
 
@@ -123,9 +131,9 @@ describe('CSRF Middleware', () => {
   });
 
   it('should handle case when cookies, body are undefined', async () => {
-    // Setting cookies, body to undefined
+    // Setting signed cookies, body to undefined
     req.method = 'POST';
-    req.cookies = undefined;
+    req.signedCookies = undefined;
     req.body = undefined;
     req.getHeader = jest.fn();
 
@@ -135,6 +143,280 @@ describe('CSRF Middleware', () => {
   });
 });
 
+describe('csrfValid', () => {
+  let req: any;
+
+  beforeEach(() => {
+    req = { method: 'POST', path: '/posts', csrfToken: 'token' };
+  });
+
+  it('should accept the request token', () => {
+    expect(csrfValid(req, 'token')).toBe(true);
+    expect(csrfValid(req, 'other')).toBe(false);
+    expect(csrfValid(req, '')).toBe(false);
+    expect(csrfValid(req, undefined)).toBe(false);
+  });
+
+  it('should fall back to the signed cookie', () => {
+    req = { method: 'POST', signedCookies: { csrfToken: 'cookie' } };
+    expect(csrfValid(req, 'cookie')).toBe(true);
+  });
+
+  it('should accept the signed cookie value in the header', () => {
+    process.env.APP_KEY = 'test-key';
+    const signed = Cookie.sign('csrfToken', 'token');
+
+    expect(csrfValid(req, signed, true)).toBe(true);
+    expect(csrfValid(req, signed)).toBe(false);
+    expect(csrfValid(req, Cookie.sign('csrfToken', 'other'), true)).toBe(false);
+    expect(csrfValid(req, 's:token.forged', true)).toBe(false);
+  });
+
+  it('should accept tokens bound to the request path and method', () => {
+    expect(csrfValid(req, csrfBind('token', '/posts'))).toBe(true);
+    expect(csrfValid(req, csrfBind('token', '/posts?page=2'))).toBe(true);
+    expect(csrfValid(req, csrfBind('token', '/users'))).toBe(false);
+    expect(csrfValid(req, csrfBind('token', '/posts', 'PUT'))).toBe(false);
+    expect(csrfValid(req, csrfBind('other', '/posts'))).toBe(false);
+  });
+
+  it('should require bound body tokens in forms mode', () => {
+    req[CSRF_FORMS_KEY] = true;
+
+    expect(csrfValid(req, 'token')).toBe(false);
+    expect(csrfValid(req, 'token', true)).toBe(true);
+    expect(csrfValid(req, csrfBind('token', '/posts'))).toBe(true);
+  });
+});
+
+describe('CSRF Guard', () => {
+  let headers: Record<string, string>;
+  let req: any;
+  let res: any;
+
+  beforeEach(() => {
+    process.env.APP_KEY = 'test-key';
+
+    headers = { host: 'localhost:2025', origin: 'http://localhost:2025' };
+    req = {
+      method: 'POST',
+      path: '/posts',
+      protocol: 'http',
+      base: 'http://localhost:2025',
+      body: {},
+      signedCookies: { csrfToken: 'cookie-token' },
+      getHeader: (name: string) => headers[name],
+      type: (name: string) => name === headers['content-type'],
+      [Form.BODY_PARSED]: true,
+    };
+
+    res = { cookie: jest.fn().mockReturnValue({ signed: jest.fn() }) };
+  });
+
+  describe('cookie mode', () => {
+    it('should let valid requests through', async () => {
+      req.body.csrfToken = 'cookie-token';
+
+      await expect(csrfGuard()(req, res)).resolves.toBeUndefined();
+      expect(req.csrfToken).toBe('cookie-token');
+    });
+
+    it('should accept the header copied from the readable cookie', async () => {
+      headers['x-csrf-token'] = Cookie.sign('csrfToken', 'cookie-token');
+
+      await expect(csrfGuard()(req, res)).resolves.toBeUndefined();
+    });
+
+    it('should reject invalid tokens', async () => {
+      req.body.csrfToken = 'wrong-token';
+
+      await expect(csrfGuard()(req, res)).rejects.toThrow(
+        new BadRequestError('Invalid or missing CSRF token')
+      );
+    });
+
+    it('should never check safe methods', async () => {
+      req.method = 'GET';
+      headers.origin = 'https://evil.com';
+
+      await expect(csrfGuard()(req, res)).resolves.toBeUndefined();
+    });
+  });
+
+  describe('synchronizer mode', () => {
+    const cache = store('csrf-test', { timeout: false });
+
+    afterEach(() => {
+      cache.delete('csrf:id');
+      cache.delete('csrf:mock-token');
+    });
+
+    afterAll(() => cache.clear());
+
+    it('should issue a token kept server-side', async () => {
+      req.method = 'GET';
+      req.signedCookies = {};
+
+      await csrfGuard({ mode: 'synchronizer', store: cache })(req, res);
+
+      expect(res.cookie().signed).toHaveBeenCalledWith('csrfId', 'mock-token');
+      expect(cache.get('csrf:mock-token')).toBe('mock-token');
+      expect(req.csrfToken).toBe('mock-token');
+    });
+
+    it('should verify the kept token, not the cookie', async () => {
+      cache.set('csrf:id', 'kept-token');
+      req.signedCookies = { csrfId: 'id', csrfToken: 'cookie-token' };
+
+      const guard = csrfGuard({ mode: 'synchronizer', store: cache });
+
+      req.body.csrfToken = 'cookie-token';
+      await expect(guard(req, res)).rejects.toThrow(BadRequestError);
+
+      req.body.csrfToken = 'kept-token';
+      await expect(guard(req, res)).resolves.toBeUndefined();
+      expect(res.cookie).not.toHaveBeenCalled();
+    });
+
+    it('should replace expired tokens', async () => {
+      req.method = 'GET';
+      req.signedCookies = { csrfId: 'id' };
+
+      await csrfGuard({ mode: 'synchronizer', store: cache })(req, res);
+
+      expect(req.csrfToken).toBe('mock-token');
+      expect(cache.get('csrf:id')).toBe('mock-token');
+    });
+  });
+
+  describe('per-form tokens', () => {
+    it('should require tokens bound to the form in bodies', async () => {
+      const guard = csrfGuard({ forms: true });
+
+      req.body.csrfToken = 'cookie-token';
+      await expect(guard(req, res)).rejects.toThrow(BadRequestError);
+
+      req.body.csrfToken = csrfBind('cookie-token', '/users');
+      await expect(guard(req, res)).rejects.toThrow(BadRequestError);
+
+      req.body.csrfToken = csrfBind('cookie-token', '/posts', 'post');
+      await expect(guard(req, res)).resolves.toBeUndefined();
+    });
+
+    it('should accept the request token in the header', async () => {
+      headers['x-csrf-token'] = 'cookie-token';
+      await expect(
+        csrfGuard({ forms: true })(req, res)
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe('origin checks', () => {
+    beforeEach(() => (req.body.csrfToken = 'cookie-token'));
+
+    it('should reject foreign origins', async () => {
+      headers.origin = 'https://evil.com';
+
+      await expect(csrfGuard()(req, res)).rejects.toThrow(
+        new BadRequestError('Invalid request origin')
+      );
+      await expect(csrfGuard({ origin: false })(req, res)).resolves.toBe(
+        undefined
+      );
+    });
+
+    it('should trust the configured origins', async () => {
+      headers.origin = 'https://admin.example.com';
+
+      const guard = csrfGuard({ origins: ['https://admin.example.com/', '%'] });
+      await expect(guard(req, res)).resolves.toBeUndefined();
+    });
+
+    it('should trust the host the request was sent to', async () => {
+      headers.host = 'example.com';
+      headers.origin = 'http://example.com';
+
+      await expect(csrfGuard()(req, res)).resolves.toBeUndefined();
+    });
+
+    it('should use the referer without origin', async () => {
+      delete headers.origin;
+
+      headers.referer = 'http://localhost:2025/posts/create';
+      await expect(csrfGuard()(req, res)).resolves.toBeUndefined();
+
+      headers.referer = 'https://evil.com/page';
+      await expect(csrfGuard()(req, res)).rejects.toThrow(
+        'Invalid request origin'
+      );
+
+      headers.referer = 'invalid';
+      await expect(csrfGuard()(req, res)).rejects.toThrow(
+        'Invalid request origin'
+      );
+    });
+
+    it('should fall back to the token without origin and referer', async () => {
+      delete headers.origin;
+
+      await expect(csrfGuard()(req, res)).resolves.toBeUndefined();
+
+      req.body.csrfToken = 'wrong-token';
+      await expect(csrfGuard()(req, res)).rejects.toThrow(
+        'Invalid or missing CSRF token'
+      );
+    });
+  });
+
+  describe('exempt routes', () => {
+    it('should skip exempt paths', async () => {
+      headers.origin = 'https://stripe.com';
+
+      const guard = csrfGuard({
+        exempt: ['/webhooks/*', /^\/hooks$/, 1 as any],
+      });
+
+      req.path = '/webhooks/stripe';
+      await expect(guard(req, res)).resolves.toBeUndefined();
+
+      req.path = '/hooks';
+      await expect(guard(req, res)).resolves.toBeUndefined();
+
+      req.path = '/posts';
+      await expect(guard(req, res)).rejects.toThrow(BadRequestError);
+    });
+
+    it('should match exact paths', async () => {
+      const guard = csrfGuard({ exempt: ['/webhook'] });
+
+      req.path = '/webhook/other';
+      await expect(guard(req, res)).rejects.toThrow(BadRequestError);
+    });
+  });
+
+  describe('uploads', () => {
+    beforeEach(() => (headers['content-type'] = 'multipart/form-data'));
+
+    it('should leave the token to Validator.csrf()', async () => {
+      delete req[Form.BODY_PARSED];
+      await expect(csrfGuard()(req, res)).resolves.toBeUndefined();
+    });
+
+    it('should require their origin', async () => {
+      delete headers.origin;
+
+      await expect(csrfGuard({ origin: false })(req, res)).rejects.toThrow(
+        new BadRequestError('Missing request origin')
+      );
+    });
+
+    it('should check the header token', async () => {
+      headers['x-csrf-token'] = 'wrong-token';
+      await expect(csrfGuard()(req, res)).rejects.toThrow(BadRequestError);
+    });
+  });
+});
+
 describe('BOT Middleware', () => {
   let req: any;
   let res: any;
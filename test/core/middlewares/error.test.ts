@@ -2,11 +2,15 @@ jest.mock('../../../src/helpers/Logger');
 
 import { Logger } from '../../../src/helpers/Logger';
 import { error, log } from '../../../src/core/middlewares/error';
+import { Component } from '../../../src/core/template/Component';
 import {
   BadRequestError,
   ForbiddenError,
   NotFoundError,
   MaintenanceError,
+  MethodNotAllowedError,
+  TooManyRequestsError,
+  UnauthorizedError,
 } from '../../../src/errors';
 import { resolve } from 'path';
 
@@ -37,8 +41,12 @@ describe('error middleware', () => {
       render: jest.fn(),
       json: jest.fn(),
     };
+
+    jest.spyOn(Component, 'exists').mockResolvedValue(true);
   });
 
+  afterEach(() => jest.restoreAllMocks());
+
   describe('in web mode', () => {
     it('renders 400 page for BadRequestError', async () => {
       await error(req, res, new BadRequestError());
@@ -64,6 +72,70 @@ describe('error middleware', () => {
       });
     });
 
+    it('renders 405 page for MethodNotAllowedError', async () => {
+      await error(req, res, new MethodNotAllowedError());
+      expect(res.status).toHaveBeenCalledWith(405);
+      expect(res.render).toHaveBeenCalledWith('errors.405', {
+        err: expect.any(Object),
+      });
+    });
+
+    it('falls back to the 404 page without a 405 template', async () => {
+      jest.spyOn(Component, 'exists').mockResolvedValueOnce(false);
+
+      await error(req, res, new MethodNotAllowedError());
+      expect(res.status).toHaveBeenCalledWith(405);
+      expect(res.render).toHaveBeenLastCalledWith('errors.404', {
+        err: expect.any(Object),
+      });
+    });
+
+    it('rethrows render errors of existing error templates', async () => {
+      const failure = new Error('Broken template');
+      res.render.mockRejectedValueOnce(failure);
+
+      await expect(error(req, res, new MethodNotAllowedError())).rejects.toBe(
+        failure
+      );
+      expect(res.render).toHaveBeenCalledTimes(1);
+    });
+
+    it('renders 401 page for UnauthorizedError', async () => {
+      await error(req, res, new UnauthorizedError());
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect(res.render).toHaveBeenCalledWith('errors.401', {
+        err: expect.any(Object),
+      });
+    });
+
+    it('falls back to the 403 page without a 401 template', async () => {
+      jest.spyOn(Component, 'exists').mockResolvedValueOnce(false);
+
+      await error(req, res, new UnauthorizedError());
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect(res.render).toHaveBeenLastCalledWith('errors.403', {
+        err: expect.any(Object),
+      });
+    });
+
+    it('renders 429 page for TooManyRequestsError', async () => {
+      await error(req, res, new TooManyRequestsError());
+      expect(res.status).toHaveBeenCalledWith(429);
+      expect(res.render).toHaveBeenCalledWith('errors.429', {
+        err: expect.any(Object),
+      });
+    });
+
+    it('falls back to the 500 page without a 429 template', async () => {
+      jest.spyOn(Component, 'exists').mockResolvedValueOnce(false);
+
+      await error(req, res, new TooManyRequestsError());
+      expect(res.status).toHaveBeenCalledWith(429);
+      expect(res.render).toHaveBeenLastCalledWith('errors.500', {
+        err: expect.any(Object),
+      });
+    });
+
     it('renders 503 page for MaintenanceError', async () => {
       await error(req, res, new MaintenanceError());
       expect(res.status).toHaveBeenCalledWith(503);
@@ -117,6 +189,42 @@ describe('error middleware', () => {
       });
     });
 
+    it('returns 405 json for MethodNotAllowedError', async () => {
+      await error(req, res, new MethodNotAllowedError());
+      expect(res.status).toHaveBeenCalledWith(405);
+      expect(res.json).toHaveBeenCalledWith({
+        success: false,
+        error: {
+          name: 'MethodNotAllowedError',
+          message: 'The request method is not allowed for this resource.',
+        },
+      });
+    });
+
+    it('returns 401 json for UnauthorizedError', async () => {
+      await error(req, res, new UnauthorizedError());
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect(res.json).toHaveBeenCalledWith({
+        success: false,
+        error: {
+          name: 'UnauthorizedError',
+          message: 'Authentication required.',
+        },
+      });
+    });
+
+    it('returns 429 json for TooManyRequestsError', async () => {
+      await error(req, res, new TooManyRequestsError());
+      expect(res.status).toHaveBeenCalledWith(429);
+      expect(res.json).toHaveBeenCalledWith({
+        success: false,
+        error: {
+          name: 'TooManyRequestsError',
+          message: 'Too many requests, please try again later.',
+        },
+      });
+    });
+
     it('returns 503 json for MaintenanceError', async () => {
       await error(req, res, new MaintenanceError());
       expect(res.status).toHaveBeenCalledWith(503);
@@ -1,6 +1,7 @@
 import {
   flash,
   FLASH_GET_KEY,
+  FLASH_SESSION_KEY,
   FLASH_SET_KEY,
 } from '../../../src/core/middlewares/flash';
 
@@ -9,8 +10,10 @@ describe('flash middleware', () => {
   let res: any;
 
   beforeEach(() => {
+    process.env.APP_KEY = 'test-key';
+
     req = {
-      cookies: {},
+      signedCookies: {},
       [FLASH_GET_KEY]: undefined,
       [FLASH_SET_KEY]: undefined,
     };
@@ -20,8 +23,10 @@ describe('flash middleware', () => {
     res = { cookie: jest.fn().mockReturnValue({ forget }) };
   });
 
+  afterEach(() => delete process.env.APP_KEY);
+
   it('should parse valid flash cookie and store in req[FLASH_GET_KEY]', async () => {
-    req.cookies.flash = JSON.stringify(['msg1', 'msg2']);
+    req.signedCookies.flash = JSON.stringify(['msg1', 'msg2']);
 
     await flash(req, res);
 
@@ -30,8 +35,19 @@ describe('flash middleware', () => {
     expect(res.cookie().forget).toHaveBeenCalledWith('flash');
   });
 
+  it('should read the plain flash cookie without an app key', async () => {
+    delete process.env.APP_KEY;
+    req.cookies = { flash: JSON.stringify(['msg1']) };
+    req.signedCookies.flash = JSON.stringify(['ignored']);
+
+    await flash(req, res);
+
+    expect(req[FLASH_GET_KEY]).toEqual(['msg1']);
+    expect(res.cookie().forget).toHaveBeenCalledWith('flash');
+  });
+
   it('should handle invalid JSON gracefully', async () => {
-    req.cookies.flash = 'not-valid-json';
+    req.signedCookies.flash = 'not-valid-json';
 
     await flash(req, res);
 
@@ -41,7 +57,7 @@ describe('flash middleware', () => {
   });
 
   it('should handle missing flash cookie', async () => {
-    req.cookies = undefined;
+    req.signedCookies = undefined;
 
     await flash(req, res);
 
@@ -51,7 +67,7 @@ describe('flash middleware', () => {
   });
 
   it('should ignore non-array flash data', async () => {
-    req.cookies.flash = JSON.stringify({ message: 'hello' });
+    req.signedCookies.flash = JSON.stringify({ message: 'hello' });
 
     await flash(req, res);
 
@@ -59,4 +75,17 @@ describe('flash middleware', () => {
     expect(req[FLASH_SET_KEY]).toEqual([]);
     expect(res.cookie().forget).not.toHaveBeenCalledWith('flash');
   });
+
+  it('should read flash messages from the session if started', async () => {
+    const messages = [{ type: 'info', message: 'Saved' }];
+    req.signedCookies.flash = JSON.stringify(['ignored']);
+    req.session = { pull: jest.fn().mockReturnValue(messages) };
+
+    await flash(req, res);
+
+    expect(req.session.pull).toHaveBeenCalledWith(FLASH_SESSION_KEY, []);
+    expect(req[FLASH_GET_KEY]).toBe(messages);
+    expect(req[FLASH_SET_KEY]).toEqual([]);
+    expect(res.cookie).not.toHaveBeenCalled();
+  });
 });
@@ -0,0 +1,48 @@
+import { ipFilter } from '../../../src/core/middlewares';
+import { ForbiddenError } from '../../../src/errors';
+import { IpError } from '../../../src/helpers';
+
+describe('ipFilter', () => {
+  const res: any = {};
+  const from = (ip: string): any => ({ ip });
+
+  it('should let every client through by default', async () => {
+    await expect(ipFilter()(from('203.0.113.7'), res)).resolves.toBeUndefined();
+  });
+
+  it('should only let allowed ranges through', async () => {
+    const filter = ipFilter({ allow: ['10.0.0.0/8', '2001:db8::/32'] });
+
+    await expect(filter(from('10.1.2.3'), res)).resolves.toBeUndefined();
+    await expect(filter(from('2001:db8::7'), res)).resolves.toBeUndefined();
+    await expect(filter(from('203.0.113.7'), res)).rejects.toThrow(
+      new ForbiddenError("IP address '203.0.113.7' is not allowed")
+    );
+  });
+
+  it('should refuse denied ranges, even if allowed', async () => {
+    const filter = ipFilter({ allow: ['private'], deny: ['10.6.6.0/24'] });
+
+    await expect(filter(from('192.168.1.2'), res)).resolves.toBeUndefined();
+    await expect(filter(from('10.6.6.6'), res)).rejects.toThrow(ForbiddenError);
+  });
+
+  it('should refuse everyone with an empty allow list', async () => {
+    await expect(
+      ipFilter({ allow: [] })(from('127.0.0.1'), res)
+    ).rejects.toThrow(ForbiddenError);
+  });
+
+  it('should resolve the client IP when missing', async () => {
+    const req: any = { getIp: jest.fn(() => '::1') };
+
+    await expect(
+      ipFilter({ allow: ['loopback'] })(req, res)
+    ).resolves.toBeUndefined();
+    expect(req.getIp).toHaveBeenCalled();
+  });
+
+  it('should throw IpError for invalid ranges', () => {
+    expect(() => ipFilter({ deny: ['10.0.0.0/40'] })).toThrow(IpError);
+  });
+});
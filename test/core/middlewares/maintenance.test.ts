@@ -63,6 +63,26 @@ describe('Maintenancetenance with mocked access', () => {
     expect(res.setHeader).not.toHaveBeenCalled();
   });
 
+  it('allows request if IP is in a whitelisted range when maintenance is on', async () => {
+    access.mockResolvedValue(undefined);
+    options.maintenance.ips = ['10.0.0.0/8', '2001:db8::/32'];
+
+    const res = { setHeader: jest.fn().mockReturnThis() } as any;
+
+    await expect(
+      maintenance({ ip: '10.1.2.3', path: '/' } as any, res)
+    ).resolves.toBeUndefined();
+    await expect(
+      maintenance({ ip: '2001:db8::1', path: '/' } as any, res)
+    ).resolves.toBeUndefined();
+    await expect(
+      maintenance({ ip: '11.1.2.3', path: '/' } as any, res)
+    ).rejects.toThrow(MaintenanceError);
+
+    access.mockReset();
+    options.maintenance.ips = ['127.0.0.1'];
+  });
+
   it('allows request if route is whitelisted when maintenance is on', async () => {
     access.mockResolvedValueOnce(undefined);
 
@@ -0,0 +1,149 @@
+const options: any = {
+  auth: { table: 'users' },
+};
+
+jest.mock('../../../src/config', () => ({
+  config: () => {
+    return {
+      loadSync: () => options,
+      resolveSync: () => __dirname,
+    };
+  },
+}));
+
+import { permissions, permit } from '../../../src/core/middlewares';
+import { Auth } from '../../../src/core/modules/Auth';
+import { Gate, GateError } from '../../../src/core/modules/Gate';
+import { Router } from '../../../src/core/modules/Router';
+import { Table } from '../../../src/core/modules/Table';
+import { ForbiddenError, NotFoundError } from '../../../src/errors';
+
+describe('permit middlewares', () => {
+  let one: jest.Mock;
+  let res: any;
+  let req: any;
+
+  beforeEach(() => {
+    one = jest.fn(async (id) => (id === '5' ? { id: 5, user_id: 1 } : null));
+
+    jest
+      .spyOn(Table, 'request')
+      .mockReturnValue({ find: () => ({ one }) } as any);
+    jest
+      .spyOn(Gate, 'permissionsOf')
+      .mockImplementation(async (user) => (user ? ['posts.create'] : []));
+
+    res = {};
+    req = { url: '/posts/5', params: { id: '5' }, user: { id: 1 } };
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  describe('permissions', () => {
+    it('should load the permissions of the user', async () => {
+      await permissions(req, res);
+      expect(req.permissions).toEqual(['posts.create']);
+    });
+
+    it('should load the user first when a session is available', async () => {
+      jest.spyOn(Auth, 'user').mockResolvedValue({ id: 2 });
+      req = { session: {} };
+
+      await permissions(req, res);
+
+      expect(req.user).toEqual({ id: 2 });
+      expect(Gate.permissionsOf).toHaveBeenCalledWith({ id: 2 });
+    });
+
+    it('should give guests no permissions', async () => {
+      req = {};
+
+      await permissions(req, res);
+      expect(req.permissions).toEqual([]);
+    });
+  });
+
+  describe('permit', () => {
+    it('should let allowed users through', async () => {
+      await expect(permit('posts.create')(req, res)).resolves.toBeUndefined();
+    });
+
+    it('should throw ForbiddenError for others', async () => {
+      await expect(permit('posts.delete')(req, res)).rejects.toThrow(
+        ForbiddenError
+      );
+
+      req.user = null;
+      await expect(permit('posts.create')(req, res)).rejects.toThrow(
+        ForbiddenError
+      );
+    });
+
+    it('should load the resource and pass it to the service policy', async () => {
+      req.policy = jest.fn((user, action, post) => post.user_id === user.id);
+
+      await permit('posts.update', { table: 'posts' })(req, res);
+
+      expect(Table.request).toHaveBeenCalledWith('posts', undefined);
+      expect(one).toHaveBeenCalledWith('5');
+      expect(req.resource).toEqual({ id: 5, user_id: 1 });
+      expect(req.policy).toHaveBeenCalledWith(
+        { id: 1 },
+        'posts.update',
+        req.resource
+      );
+
+      req.user = { id: 2 };
+      await expect(
+        permit('posts.update', { table: 'posts' })(req, res)
+      ).rejects.toThrow(ForbiddenError);
+    });
+
+    it('should use the given route parameter and pool', async () => {
+      req.params = { post: '5' };
+      req.policy = () => true;
+
+      await permit('posts.update', {
+        table: 'posts',
+        param: 'post',
+        pool: 'b',
+      })(req, res);
+
+      expect(Table.request).toHaveBeenCalledWith('posts', 'b');
+      expect(one).toHaveBeenCalledWith('5');
+    });
+
+    it('should load the resource of typed routes', async () => {
+      const router = new Router();
+      router.get('/posts/:id(int)', jest.fn());
+
+      req.params = router.match('/posts/5', 'GET').params;
+      req.policy = () => true;
+      one.mockResolvedValueOnce({ id: 5, user_id: 1 });
+
+      await permit('posts.update', { table: 'posts' })(req, res);
+
+      expect(one).toHaveBeenCalledWith(5);
+      expect(req.resource).toEqual({ id: 5, user_id: 1 });
+    });
+
+    it('should throw NotFoundError for missing resources', async () => {
+      req.params = { id: '6' };
+
+      await expect(
+        permit('posts.update', { table: 'posts' })(req, res)
+      ).rejects.toThrow(NotFoundError);
+
+      req.params = {};
+
+      await expect(
+        permit('posts.update', { table: 'posts' })(req, res)
+      ).rejects.toThrow(NotFoundError);
+    });
+
+    it('should throw for invalid arguments', () => {
+      expect(() => permit(undefined)).toThrow(GateError);
+      expect(() => permit('posts.update', {} as any)).toThrow(GateError);
+    });
+  });
+});
@@ -0,0 +1,237 @@
+jest.mock('../../../src/config', () => ({
+  config: () => {
+    return {
+      loadSync: () => ({}),
+      resolveSync: () => __dirname,
+    };
+  },
+}));
+
+import { rateLimit } from '../../../src/core/middlewares';
+import { TooManyRequestsError } from '../../../src/errors';
+import { Folder, Store } from '../../../src/helpers';
+
+describe('rateLimit', () => {
+  let cache: Store;
+  let res: any;
+
+  const request = (ip = '1.2.3.4', path = '/login', method = 'POST') =>
+    ({ ip, path, method } as any);
+
+  beforeEach(() => {
+    jest.useFakeTimers().setSystemTime(new Date('2025-01-01T00:00:00Z'));
+    cache = new Store('rate-test', { timeout: false });
+    res = { setHeader: jest.fn() };
+  });
+
+  afterEach(() => {
+    cache.clear();
+    jest.useRealTimers();
+  });
+
+  describe('fixed window', () => {
+    it('should allow requests up to the limit and set headers', async () => {
+      const limit = rateLimit({ window: 60, max: 2, store: cache });
+
+      await expect(limit(request(), res)).resolves.toBeUndefined();
+      expect(res.setHeader).toHaveBeenCalledWith('RateLimit-Limit', 2);
+      expect(res.setHeader).toHaveBeenCalledWith('RateLimit-Remaining', 1);
+      expect(res.setHeader).toHaveBeenCalledWith('RateLimit-Reset', 60);
+      expect(res.setHeader).toHaveBeenCalledWith('RateLimit-Policy', '2;w=60');
+
+      jest.advanceTimersByTime(20 * 1000);
+
+      await expect(limit(request(), res)).resolves.toBeUndefined();
+      expect(res.setHeader).toHaveBeenCalledWith('RateLimit-Remaining', 0);
+      expect(res.setHeader).toHaveBeenCalledWith('RateLimit-Reset', 40);
+    });
+
+    it('should throw TooManyRequestsError with Retry-After once exceeded', async () => {
+      const limit = rateLimit({ window: 60, max: 1, store: cache });
+
+      await limit(request(), res);
+      jest.advanceTimersByTime(15 * 1000);
+
+      await expect(limit(request(), res)).rejects.toThrow(TooManyRequestsError);
+      expect(res.setHeader).toHaveBeenCalledWith('Retry-After', 45);
+    });
+
+    it('should reset the counter once the window ends', async () => {
+      const limit = rateLimit({ window: 60, max: 1, store: cache });
+
+      await limit(request(), res);
+      await expect(limit(request(), res)).rejects.toThrow(TooManyRequestsError);
+
+      jest.advanceTimersByTime(60 * 1000);
+      await expect(limit(request(), res)).resolves.toBeUndefined();
+    });
+  });
+
+  describe('sliding window', () => {
+    it('should only count requests of the last window', async () => {
+      const limit = rateLimit({
+        window: 60,
+        max: 2,
+        mode: 'sliding',
+        store: cache,
+      });
+
+      await limit(request(), res); // 0s
+      jest.advanceTimersByTime(40 * 1000);
+      await limit(request(), res); // 40s
+
+      // a fixed window would reset at 60s, the first request expires at 60s too
+      jest.advanceTimersByTime(10 * 1000);
+      await expect(limit(request(), res)).rejects.toThrow(TooManyRequestsError);
+      expect(res.setHeader).toHaveBeenCalledWith('Retry-After', 10);
+
+      jest.advanceTimersByTime(10 * 1000);
+      await expect(limit(request(), res)).resolves.toBeUndefined(); // 60s
+
+      // the request at 40s still counts
+      await expect(limit(request(), res)).rejects.toThrow(TooManyRequestsError);
+      expect(res.setHeader).toHaveBeenCalledWith('Retry-After', 40);
+    });
+  });
+
+  describe('keys', () => {
+    it('should count by client IP by default', async () => {
+      const limit = rateLimit({ max: 1, store: cache });
+
+      await limit(request('1.1.1.1'), res);
+      await expect(limit(request('2.2.2.2'), res)).resolves.toBeUndefined();
+      await expect(limit(request('1.1.1.1', '/other'), res)).rejects.toThrow(
+        TooManyRequestsError
+      );
+    });
+
+    it('should count by client IP and route', async () => {
+      const limit = rateLimit({ max: 1, key: 'route', store: cache });
+      const req = (path: string, route: string, method?: string) =>
+        ({ ...request('1.1.1.1', path, method), route } as any);
+
+      await limit(req('/login', '/login'), res);
+      await expect(
+        limit(req('/contact', '/contact'), res)
+      ).resolves.toBeUndefined();
+      await expect(
+        limit(req('/login', '/login', 'GET'), res)
+      ).resolves.toBeUndefined();
+      await expect(limit(req('/login/', '/login'), res)).rejects.toThrow(
+        TooManyRequestsError
+      );
+    });
+
+    it('should count paths of the same route together', async () => {
+      const limit = rateLimit({ max: 1, key: 'route', store: cache });
+      const req = (path: string) =>
+        ({ ...request('1.1.1.1', path), route: '/users/:id' } as any);
+
+      await limit(req('/users/1'), res);
+      await expect(limit(req('/users/2'), res)).rejects.toThrow(
+        TooManyRequestsError
+      );
+
+      // Unmatched paths share one budget
+      await limit(request('1.1.1.1', '/a'), res);
+      await expect(limit(request('1.1.1.1', '/b'), res)).rejects.toThrow(
+        TooManyRequestsError
+      );
+    });
+
+    it('should count concurrent requests one at a time', async () => {
+      const limit = rateLimit({ max: 2, store: cache });
+      const results = await Promise.allSettled(
+        [1, 2, 3, 4].map(() => limit(request(), res))
+      );
+
+      expect(results.map((result) => result.status)).toEqual([
+        'fulfilled',
+        'fulfilled',
+        'rejected',
+        'rejected',
+      ]);
+    });
+
+    it('should count by a custom key', async () => {
+      const key = jest.fn(async (req: any) => req.body.email);
+      const limit = rateLimit({ max: 1, key, store: cache });
+
+      const req = (ip: string) =>
+        ({ ...request(ip), body: { email: 'a@b.c' } } as any);
+
+      await limit(req('1.1.1.1'), res);
+      await expect(limit(req('2.2.2.2'), res)).rejects.toThrow(
+        TooManyRequestsError
+      );
+      expect(key).toHaveBeenCalledTimes(2);
+    });
+
+    it('should separate limiters by name', async () => {
+      const login = rateLimit({ max: 1, name: 'login', store: cache });
+      const contact = rateLimit({ max: 1, name: 'contact', store: cache });
+
+      await login(request(), res);
+      await expect(contact(request(), res)).resolves.toBeUndefined();
+    });
+  });
+
+  describe('stores', () => {
+    it('should keep counters in a Folder', async () => {
+      const data = new Map<string, any>();
+      const folder: any = Object.create(Folder.prototype);
+      folder.get = jest.fn(async (key) => data.get(key) || null);
+      folder.set = jest.fn(async (key, value) => (data.set(key, value), true));
+
+      const limit = rateLimit({ window: 60, max: 1, store: folder });
+
+      await limit(request(), res);
+      expect(folder.get).toHaveBeenCalledTimes(1);
+      expect(folder.set).toHaveBeenCalledWith(
+        'fixed:60:1:1.2.3.4',
+        { count: 1, resetAt: Date.now() + 60 * 1000 },
+        60
+      );
+
+      await expect(limit(request(), res)).rejects.toThrow(TooManyRequestsError);
+    });
+
+    it('should evict counters of a full store', async () => {
+      const full = new Store('rate-full', { size: 2, timeout: false });
+      const limit = rateLimit({ max: 1, store: full });
+
+      await limit(request('1.1.1.1'), res);
+      await limit(request('2.2.2.2'), res);
+      await expect(limit(request('3.3.3.3'), res)).resolves.toBeUndefined();
+      expect(full.get('fixed:60:1:3.3.3.3')).toMatchObject({ count: 1 });
+
+      full.clear();
+    });
+
+    it('should refuse requests whose counter cannot be kept', async () => {
+      const folder: any = Object.create(Folder.prototype);
+      folder.get = jest.fn(async () => null);
+      folder.set = jest.fn(async () => undefined);
+
+      const limit = rateLimit({ max: 5, store: folder });
+
+      await expect(limit(request(), res)).rejects.toThrow(TooManyRequestsError);
+      expect(folder.set).toHaveBeenCalledTimes(2);
+    });
+
+    it('should fall back to defaults for invalid options', async () => {
+      const limit = rateLimit({
+        window: -1,
+        max: 'ten' as any,
+        store: {} as any,
+      });
+
+      await limit(request(), res);
+
+      expect(res.setHeader).toHaveBeenCalledWith('RateLimit-Policy', '60;w=60');
+      expect(res.setHeader).toHaveBeenCalledWith('RateLimit-Remaining', 59);
+
+      new Store('rate').clear();
+    });
+  });
+});
@@ -52,7 +52,9 @@ jest.mock('../../../src/config', () => ({
   },
 }));
 
-import { secure } from '../../../src/core';
+import { EventEmitter } from 'events';
+import { cspReport, secure } from '../../../src/core';
+import { Logger } from '../../../src/helpers';
 
 describe('secure', () => {
   let req: any;
@@ -153,4 +155,147 @@ describe('secure', () => {
     await secure(req, res);
     expect(res.setHeader).toHaveBeenCalledWith('X-XSS-Protection', '0');
   });
+
+  describe('nonce', () => {
+    beforeEach(() => (options.security.nonce = true));
+    afterEach(() => {
+      delete options.security.nonce;
+      delete options.security.contentSecurityPolicy.styleSrc;
+    });
+
+    it('should add a fresh nonce to script-src and style-src', async () => {
+      options.security.contentSecurityPolicy.styleSrc = "'self'";
+
+      await secure(req, res);
+      const nonce = req.nonce;
+
+      expect(nonce).toMatch(/^[A-Za-z0-9+/]{22}==$/);
+      expect(res.setHeader).toHaveBeenCalledWith(
+        'Content-Security-Policy',
+        `default-src 'self'; script-src 'self' trusted.com 'nonce-${nonce}'; upgrade-insecure-requests; style-src 'self' 'nonce-${nonce}'`
+      );
+
+      await secure(req, res);
+      expect(req.nonce).not.toBe(nonce);
+    });
+
+    it("should leave directives allowing 'unsafe-inline' as is", async () => {
+      options.security.contentSecurityPolicy.styleSrc = [
+        "'self'",
+        "'unsafe-inline'",
+      ];
+
+      await secure(req, res);
+
+      expect(res.setHeader).toHaveBeenCalledWith(
+        'Content-Security-Policy',
+        `default-src 'self'; script-src 'self' trusted.com 'nonce-${req.nonce}'; upgrade-insecure-requests; style-src 'self' 'unsafe-inline'`
+      );
+    });
+
+    it('should not generate nonces without a policy', async () => {
+      const policy = options.security.contentSecurityPolicy;
+      options.security.contentSecurityPolicy = false;
+
+      await secure(req, res);
+
+      expect(req.nonce).toBeUndefined();
+      options.security.contentSecurityPolicy = policy;
+    });
+  });
+});
+
+describe('cspReport', () => {
+  let logger: Logger;
+  let req: any;
+  let res: any;
+
+  const send = (body: string) => {
+    process.nextTick(() => {
+      req.emit('data', Buffer.from(body));
+      req.emit('end');
+    });
+  };
+
+  beforeEach(() => {
+    logger = new Logger('/tmp/csp.log');
+    jest.spyOn(logger, 'log').mockResolvedValue(undefined);
+
+    req = Object.assign(new EventEmitter(), {
+      method: 'POST',
+      path: '/csp-report',
+    });
+
+    res = {
+      status: jest.fn().mockReturnThis(),
+      send: jest.fn().mockResolvedValue(undefined),
+    };
+  });
+
+  it('should log report-uri violations', async () => {
+    send(
+      JSON.stringify({
+        'csp-report': {
+          'document-uri': 'https://example.com/posts',
+          'violated-directive': 'script-src-elem',
+          'blocked-uri': 'https://evil.com/x.js',
+          'source-file': 'https://example.com/posts',
+          'line-number': 12,
+        },
+      })
+    );
+
+    await cspReport({ logger })(req, res);
+
+    expect(logger.log).toHaveBeenCalledWith(
+      "CSP violation: 'script-src-elem' blocked 'https://evil.com/x.js' on 'https://example.com/posts' (https://example.com/posts:12)"
+    );
+    expect(res.status).toHaveBeenCalledWith(204);
+    expect(res.send).toHaveBeenCalled();
+  });
+
+  it('should log report-to violations', async () => {
+    send(
+      JSON.stringify([
+        {
+          type: 'csp-violation',
+          body: {
+            documentURL: 'https://example.com/',
+            effectiveDirective: 'style-src-elem',
+            blockedURL: 'inline',
+          },
+        },
+        { type: 'deprecation', body: {} },
+      ])
+    );
+
+    await cspReport({ logger })(req, res);
+
+    expect(logger.log).toHaveBeenCalledTimes(1);
+    expect(logger.log).toHaveBeenCalledWith(
+      "CSP violation: 'style-src-elem' blocked 'inline' on 'https://example.com/'"
+    );
+  });
+
+  it('should ignore malformed and oversized reports', async () => {
+    send('{');
+    await cspReport({ logger })(req, res);
+
+    send(JSON.stringify({ 'csp-report': { pad: 'x'.repeat(70 * 1024) } }));
+    await cspReport({ logger })(req, res);
+
+    expect(logger.log).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(204);
+  });
+
+  it('should let other requests through', async () => {
+    req.method = 'GET';
+    await cspReport({ logger })(req, res);
+
+    req.method = 'POST';
+    req.path = '/posts';
+    await cspReport({ logger, path: '/reports' })(req, res);
+
+    expect(res.send).not.toHaveBeenCalled();
+  });
 });
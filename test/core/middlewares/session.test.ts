@@ -0,0 +1,27 @@
+import { session } from '../../../src/core/middlewares';
+import { Session } from '../../../src/core/modules/Session';
+
+describe('session middleware', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should start the session and save it once the response ends', async () => {
+    const instance: any = { bind: jest.fn() };
+    const start = jest.spyOn(Session, 'start').mockResolvedValue(instance);
+
+    const req: any = {};
+    const res: any = {};
+
+    await session(req, res);
+
+    expect(start).toHaveBeenCalledWith(req, res);
+    expect(req.session).toBe(instance);
+    expect(instance.bind).toHaveBeenCalled();
+  });
+
+  it('should reject if the session cannot be loaded', async () => {
+    const error = new Error('Store down');
+    jest.spyOn(Session, 'start').mockRejectedValue(error);
+
+    await expect(session({} as any, {} as any)).rejects.toThrow(error);
+  });
+});
@@ -0,0 +1,236 @@
+const options: any = {
+  auth: { table: 'users', accessTokens: 'access_tokens' },
+};
+
+jest.mock('../../../src/config', () => ({
+  config: () => {
+    return {
+      loadSync: () => options,
+      resolveSync: () => __dirname,
+    };
+  },
+}));
+
+import {
+  AccessToken,
+  AccessTokenError,
+  AccessTokensGenerator,
+} from '../../../src/core/modules/AccessToken';
+import { Auth } from '../../../src/core/modules/Auth';
+import { Builder } from '../../../src/core/modules/Builder';
+import { Table } from '../../../src/core/modules/Table';
+
+/**
+ * An in-memory table, understanding the conditions used by `AccessToken`.
+ */
+const memory = () => {
+  let rows: Array<any> = [];
+  let id = 0;
+
+  const matcher = (cb: any) => {
+    const conditions: Array<(row: any) => boolean> = [];
+    let column: string;
+
+    const con: any = {
+      col: (name: string) => ((column = name), con),
+      equal: (value: any) => {
+        const name = column;
+        conditions.push((row) => row[name] === value);
+        return con;
+      },
+    };
+
+    cb(con.col, con);
+    return (row: any) => conditions.every((test) => test(row));
+  };
+
+  return {
+    get rows() {
+      return rows;
+    },
+    insert: jest.fn(async (row: any) => (rows.push({ id: ++id, ...row }), id)),
+    where: jest.fn((cb: any) => {
+      const test = matcher(cb);
+
+      return {
+        first: async () => rows.find(test) || null,
+        all: async () => rows.filter(test).map((row) => ({ ...row })),
+        update: async (values: any) => {
+          rows.filter(test).forEach((row) => Object.assign(row, values));
+        },
+        delete: async () => {
+          rows = rows.filter((row) => !test(row));
+        },
+      };
+    }),
+    find: () => ({
+      one: async (value: any) => {
+        return rows.find((row) => row.id === value) || null;
+      },
+    }),
+  };
+};
+
+describe('AccessToken', () => {
+  let tables: Record<string, ReturnType<typeof memory>>;
+  const user = { id: 1, email: 'john@example.com' };
+
+  beforeEach(() => {
+    tables = { users: memory(), access_tokens: memory() };
+    tables.users.rows.push(user);
+
+    jest
+      .spyOn(Table, 'request')
+      .mockImplementation((name: string) => tables[name] as any);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  describe('issue', () => {
+    it('should keep the hash of the token only', async () => {
+      const token = await AccessToken.issue(user, 'CI', ['posts.read']);
+      const row = tables.access_tokens.rows[0];
+
+      expect(token).toMatch(/^[a-f0-9]{64}$/);
+      expect(row).toEqual({
+        id: 1,
+        user_id: 1,
+        name: 'CI',
+        token: Auth.digest(token),
+        scopes: '["posts.read"]',
+        last_used_at: null,
+        expires_at: null,
+        created_at: expect.any(String),
+      });
+    });
+
+    it('should grant every scope by default', async () => {
+      await AccessToken.issue(user, 'CLI');
+      expect(tables.access_tokens.rows[0].scopes).toBe('["*"]');
+    });
+
+    it('should set the expiry from the ttl', async () => {
+      jest.spyOn(Date, 'now').mockReturnValue(1000);
+
+      await AccessToken.issue(user, 'CI', ['*'], 60);
+      expect(tables.access_tokens.rows[0].expires_at).toBe(61000);
+    });
+
+    it('should throw AccessTokenError for invalid arguments', async () => {
+      await expect(AccessToken.issue(user, undefined)).rejects.toThrow(
+        AccessTokenError
+      );
+      await expect(
+        AccessToken.issue(user, 'CI', ['*', 1] as any)
+      ).rejects.toThrow('Invalid token scopes');
+      await expect(AccessToken.issue(user, 'CI', ['*'], -1)).rejects.toThrow(
+        'Invalid token ttl'
+      );
+    });
+  });
+
+  describe('verify', () => {
+    it('should return the token row, user and scopes', async () => {
+      const token = await AccessToken.issue(user, 'CI', ['posts.*']);
+      const record = await AccessToken.verify(token);
+
+      expect(record.user).toBe(user);
+      expect(record.scopes).toEqual(['posts.*']);
+      expect(record.row.id).toBe(1);
+    });
+
+    it('should record the last use', async () => {
+      const token = await AccessToken.issue(user, 'CI');
+      await AccessToken.verify(token);
+
+      expect(tables.access_tokens.rows[0].last_used_at).toEqual(
+        expect.any(String)
+      );
+    });
+
+    it('should return null for unknown tokens', async () => {
+      await AccessToken.issue(user, 'CI');
+
+      expect(await AccessToken.verify('unknown')).toBeNull();
+      expect(await AccessToken.verify(undefined)).toBeNull();
+    });
+
+    it('should delete expired tokens', async () => {
+      const token = await AccessToken.issue(user, 'CI', ['*'], 60);
+
+      jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 60000);
+
+      expect(await AccessToken.verify(token)).toBeNull();
+      expect(tables.access_tokens.rows).toHaveLength(0);
+    });
+
+    it('should return null when the user is gone', async () => {
+      const token = await AccessToken.issue(user, 'CI');
+      tables.users.rows.pop();
+
+      expect(await AccessToken.verify(token)).toBeNull();
+    });
+  });
+
+  describe('can', () => {
+    it('should check the token scopes', () => {
+      const record = { row: {}, user, scopes: ['posts.*'] };
+
+      expect(AccessToken.can(record, 'posts.update')).toBe(true);
+      expect(AccessToken.can(record, 'users.update')).toBe(false);
+    });
+  });
+
+  describe('list / revoke', () => {
+    it('should list the tokens of a user without their hashes', async () => {
+      await AccessToken.issue(user, 'CI', ['posts.read']);
+      await AccessToken.issue({ id: 2 }, 'Other');
+
+      const list = await AccessToken.list(user);
+
+      expect(list).toHaveLength(1);
+      expect(list[0].token).toBeUndefined();
+      expect(list[0].scopes).toEqual(['posts.read']);
+    });
+
+    it('should revoke a token', async () => {
+      const token = await AccessToken.issue(user, 'CI');
+      await AccessToken.revoke(1);
+
+      expect(await AccessToken.verify(token)).toBeNull();
+    });
+
+    it('should revoke every token of a user', async () => {
+      await AccessToken.issue(user, 'CI');
+      await AccessToken.issue(user, 'CLI');
+      await AccessToken.issue({ id: 2 }, 'Other');
+
+      await AccessToken.revokeAll(user);
+
+      expect(tables.access_tokens.rows).toHaveLength(1);
+      expect(tables.access_tokens.rows[0].user_id).toBe(2);
+    });
+  });
+});
+
+describe('AccessTokensGenerator', () => {
+  it('should create the access tokens table', async () => {
+    const mysql = Object.create(Builder.prototype);
+    mysql.raw = jest.fn().mockResolvedValue(undefined);
+    mysql.get = {
+      connection: () => ({ driver: { id: Symbol('MySQL') } }),
+    };
+
+    const generator = new AccessTokensGenerator();
+
+    generator.set.builder(mysql);
+    await generator.create();
+
+    const sql = mysql.raw.mock.calls[0][0];
+    expect(sql).toMatch(/^CREATE TABLE access_tokens/);
+    expect(sql).toContain('token CHAR(64) NOT NULL');
+    expect(sql).toContain(
+      'FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE'
+    );
+  });
+});
@@ -2,6 +2,8 @@ jest.mock('fs', () => ({
   ...jest.requireActual('fs'),
   readFileSync: jest.fn((path) => 'fake'),
   createReadStream: jest.fn(),
+  watchFile: jest.fn(),
+  unwatchFile: jest.fn(),
 }));
 
 jest.mock('fs/promises', () => ({
@@ -18,6 +20,16 @@ jest.mock('https', () => ({
   })),
 }));
 
+jest.mock('http2', () => ({
+  ...jest.requireActual('http2'),
+  createSecureServer: jest.fn(() => ({
+    listen: jest.fn((port, host, callback) => callback()),
+    close: jest.fn((callback) => callback()),
+    on: jest.fn(),
+    setSecureContext: jest.fn(),
+  })),
+}));
+
 jest.mock('http', () => ({
   ...jest.requireActual('http'),
   createServer: jest.fn(() => ({
@@ -89,17 +101,33 @@ jest.mock('crypto', () => ({
 import {
   App,
   appKey,
+  appKeys,
+  route,
   START,
   STARTED,
   STOP,
   STOPPED,
+  REQUEST_RECEIVED,
+  ROUTE_MATCHED,
+  MIDDLEWARE_START,
+  MIDDLEWARE_FINISH,
+  RESPONSE_FINISH,
+  REQUEST_ERROR,
 } from '../../../src/core/modules/App';
 
-import { NotFoundError, AppError } from '../../../src/errors';
+import {
+  NotFoundError,
+  AppError,
+  MethodNotAllowedError,
+} from '../../../src/errors';
 
 import { Router } from '../../../src/core/modules/Router';
 import { Service } from '../../../src/core/modules/Service';
+import { can } from '../../../src/core/modules/Gate';
 import * as helpers from '../../../src/helpers';
+import * as http from 'http';
+import * as http2 from 'http2';
+import * as fs from 'fs';
 
 describe('App class', () => {
   let app: App;
@@ -109,6 +137,9 @@ describe('App class', () => {
     options.port = 2025;
     options.key = undefined;
     options.cert = undefined;
+    options.http2 = false;
+    options.redirect = undefined;
+    options.reload = false;
     console.log = jest.fn();
   });
 
@@ -148,6 +179,30 @@ describe('App class', () => {
       expect(app.server).toBeDefined();
     });
 
+    it('should create an HTTP/2 server with HTTP/1.1 fallback if http2 is enabled', () => {
+      options.key = 'key/path';
+      options.cert = 'cert/path';
+      options.protocol = 'https';
+      options.http2 = true;
+
+      const app: any = new App();
+
+      expect(http2.createSecureServer).toHaveBeenCalledWith(
+        { key: 'fake', cert: 'fake', allowHTTP1: true },
+        expect.any(Function)
+      );
+      expect(app.server.on).toHaveBeenCalledWith(
+        'session',
+        expect.any(Function)
+      );
+    });
+
+    it('should expose the route and can tools to templates', () => {
+      new App();
+      expect(options.tools.route).toBe(route);
+      expect(options.tools.can).toBe(can);
+    });
+
     it('should create an HTTP server if protocol is http', () => {
       options.protocol = 'http';
       const app: any = new App();
@@ -211,6 +266,29 @@ describe('App class', () => {
       expect(() => app.namespace(123 as any, {} as any)).toThrow(AppError);
       expect(() => app.namespace('/', {} as any)).toThrow(AppError);
     });
+
+    it('should add middlewares to a namespace', () => {
+      const router = new Router();
+      const auth = jest.fn();
+      const log = jest.fn();
+
+      app.namespace('/admin', router, auth).namespace('/admin', router, log);
+
+      expect(app['stacks']['/admin']).toEqual([auth, log]);
+      expect(app['stacks']['/']).toBeUndefined();
+    });
+
+    it('should throw an error for invalid namespace middlewares', () => {
+      const router = new Router();
+
+      expect(() => app.namespace('/', router, 'foo' as any)).toThrow(
+        'Invalid middleware function'
+      );
+
+      expect(() =>
+        app.namespace('/', router, ((a, b, c) => {}) as any)
+      ).toThrow('Invalid middleware function');
+    });
   });
 
   describe('register', () => {
@@ -303,6 +381,160 @@ describe('App class', () => {
     });
   });
 
+  describe('redirect', () => {
+    let redirector: any;
+    let handler: (req: any, res: any) => void;
+
+    beforeEach(() => {
+      options.protocol = 'https';
+      options.key = 'key/path';
+      options.cert = 'cert/path';
+      options.redirect = 8080;
+      options.port = 8443;
+      (App as any).app = undefined;
+      app = new App();
+
+      redirector = {
+        once: jest.fn(),
+        listen: jest.fn((port, host, callback) => callback()),
+        close: jest.fn((callback) => callback()),
+        closeAllConnections: jest.fn(),
+      };
+
+      (http.createServer as jest.Mock).mockImplementationOnce((callback) => {
+        handler = callback;
+        return redirector;
+      });
+    });
+
+    afterEach(() => delete options.base);
+
+    it('should redirect plain HTTP requests to HTTPS', async () => {
+      await app.start();
+
+      expect(redirector.listen).toHaveBeenCalledWith(
+        8080,
+        'localhost',
+        expect.any(Function)
+      );
+
+      const res: any = { writeHead: jest.fn(() => res), end: jest.fn() };
+      handler(
+        { url: '/posts?page=2', headers: { host: 'example.com:8080' } },
+        res
+      );
+
+      expect(res.writeHead).toHaveBeenCalledWith(301, {
+        Location: 'https://example.com:8443/posts?page=2',
+      });
+      expect(res.end).toHaveBeenCalled();
+    });
+
+    it('should redirect to the HTTPS base if configured', async () => {
+      options.base = 'https://example.com/';
+      await app.start();
+
+      const res: any = { writeHead: jest.fn(() => res), end: jest.fn() };
+      handler({ url: '/posts', headers: { host: 'example.com:8080' } }, res);
+
+      expect(res.writeHead).toHaveBeenCalledWith(301, {
+        Location: 'https://example.com/posts',
+      });
+    });
+
+    it('should close the redirect listener on stop', async () => {
+      await app.start();
+      await app.stop();
+
+      expect(redirector.close).toHaveBeenCalled();
+      expect(app['redirector']).toBeUndefined();
+    });
+
+    it('should not listen for plain HTTP over HTTP', async () => {
+      options.protocol = 'http';
+      await app.start();
+
+      expect(redirector.listen).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reload', () => {
+    let server: any;
+
+    beforeEach(() => {
+      options.protocol = 'https';
+      options.key = 'key/path';
+      options.cert = 'cert/path';
+      (App as any).app = undefined;
+      app = new App();
+      server = app['server'];
+      server.setSecureContext = jest.fn();
+    });
+
+    afterEach(() => jest.restoreAllMocks());
+
+    it('should replace the certificate of the running server', () => {
+      app.reload();
+
+      expect(server.setSecureContext).toHaveBeenCalledWith({
+        key: 'fake',
+        cert: 'fake',
+      });
+    });
+
+    it('should throw if the app is not served over HTTPS', () => {
+      options.protocol = 'http';
+      expect(() => app.reload()).toThrow(AppError);
+    });
+
+    it('should reload on file changes and SIGHUP once started', async () => {
+      const watch = fs.watchFile as unknown as jest.Mock;
+      const unwatch = fs.unwatchFile as unknown as jest.Mock;
+      const on = jest.spyOn(process, 'on');
+      options.reload = true;
+
+      await app.start();
+
+      const reloader = app['reloader'];
+      expect(watch).toHaveBeenCalledWith(
+        'key/path',
+        { interval: 1000 },
+        reloader
+      );
+      expect(watch).toHaveBeenCalledWith(
+        'cert/path',
+        { interval: 1000 },
+        reloader
+      );
+      expect(on).toHaveBeenCalledWith('SIGHUP', reloader);
+
+      reloader();
+      expect(server.setSecureContext).toHaveBeenCalled();
+
+      await app.stop();
+      expect(unwatch).toHaveBeenCalledWith('key/path', reloader);
+      expect(unwatch).toHaveBeenCalledWith('cert/path', reloader);
+      expect(process.listeners('SIGHUP')).not.toContain(reloader);
+    });
+
+    it('should keep the current certificate if reloading fails', async () => {
+      const bugger = jest.spyOn(helpers, 'bugger').mockImplementation();
+      options.reload = true;
+
+      await app.start();
+
+      const error = new Error('Invalid key');
+      server.setSecureContext = jest.fn(() => {
+        throw error;
+      });
+
+      expect(() => app['reloader']()).not.toThrow();
+      expect(bugger).toHaveBeenCalledWith(error);
+
+      await app.stop();
+    });
+  });
+
   describe('stop', () => {
     beforeEach(() => {
       // Initialize app before each test
@@ -339,6 +571,311 @@ describe('App class', () => {
     });
   });
 
+  describe('shutdown', () => {
+    let server: any;
+
+    beforeEach(() => {
+      (App as any).app = undefined;
+      app = new App();
+      server = app['server'];
+      server.close = jest.fn((callback) => callback());
+      server.closeIdleConnections = jest.fn();
+      server.closeAllConnections = jest.fn();
+      jest.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      options.cluster = undefined;
+      jest.useRealTimers();
+      jest.restoreAllMocks();
+    });
+
+    it('should close the server, the cluster and flush logs', async () => {
+      const flush = jest.spyOn(helpers.Logger, 'flush');
+      options.cluster = { shutdown: jest.fn(() => Promise.resolve()) };
+
+      await expect(app.shutdown()).resolves.toBeUndefined();
+
+      expect(server.close).toHaveBeenCalled();
+      expect(server.closeIdleConnections).toHaveBeenCalled();
+      expect(server.closeAllConnections).not.toHaveBeenCalled();
+      expect(options.cluster.shutdown).toHaveBeenCalledWith(true);
+      expect(flush).toHaveBeenCalled();
+    });
+
+    it('should close remaining connections after the deadline', async () => {
+      jest.useFakeTimers();
+
+      let closed: () => void;
+      server.close = jest.fn((callback) => (closed = callback));
+      server.closeAllConnections = jest.fn(() => closed());
+
+      const promise = app.shutdown(500);
+
+      jest.advanceTimersByTime(499);
+      expect(server.closeAllConnections).not.toHaveBeenCalled();
+
+      jest.advanceTimersByTime(1);
+      expect(server.closeAllConnections).toHaveBeenCalled();
+
+      jest.useRealTimers();
+      await expect(promise).resolves.toBeUndefined();
+    });
+
+    it('should shut down once', async () => {
+      const first = app.shutdown();
+      expect(app.shutdown()).toBe(first);
+
+      await first;
+      expect(server.close).toHaveBeenCalledTimes(1);
+    });
+
+    it('should emit STOP and STOPPED', async () => {
+      const spy = jest.spyOn(app, 'emit');
+
+      await app.shutdown();
+
+      expect(spy).toHaveBeenNthCalledWith(1, STOP);
+      expect(spy).toHaveBeenNthCalledWith(2, STOPPED);
+    });
+
+    it('should reject if the cluster fails to shut down', async () => {
+      const error = new Error('Shutdown fail in: main');
+      const flush = jest.spyOn(helpers.Logger, 'flush');
+      options.cluster = { shutdown: jest.fn(() => Promise.reject(error)) };
+
+      await expect(app.shutdown()).rejects.toThrow(error);
+      expect(flush).toHaveBeenCalled();
+    });
+
+    it('should shut down on SIGTERM and SIGINT once started', async () => {
+      const once = jest.spyOn(process, 'once');
+      const remove = jest.spyOn(process, 'removeListener');
+      const exit = jest
+        .spyOn(process, 'exit')
+        .mockImplementation((() => {}) as any);
+
+      await app.start();
+
+      const trap = app['trap'];
+      expect(once).toHaveBeenCalledWith('SIGTERM', trap);
+      expect(once).toHaveBeenCalledWith('SIGINT', trap);
+
+      trap();
+      await app['closing'];
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(server.close).toHaveBeenCalled();
+      expect(remove).toHaveBeenCalledWith('SIGTERM', trap);
+      expect(remove).toHaveBeenCalledWith('SIGINT', trap);
+      expect(exit).toHaveBeenCalledWith(0);
+    });
+
+    it('should not handle signals when disabled', async () => {
+      const once = jest.spyOn(process, 'once');
+      options.shutdown = { signals: false };
+
+      await app.start();
+
+      expect(once).not.toHaveBeenCalledWith('SIGTERM', expect.any(Function));
+      delete options.shutdown;
+    });
+
+    it('should close HTTP/2 sessions and sockets', async () => {
+      options.protocol = 'https';
+      options.key = 'key/path';
+      options.cert = 'cert/path';
+      options.http2 = true;
+      (App as any).app = undefined;
+      app = new App();
+
+      jest.useFakeTimers();
+
+      let closed: () => void;
+      app['server'].close = jest.fn((callback) => (closed = callback)) as any;
+
+      const session: any = {
+        close: jest.fn(),
+        destroy: jest.fn(() => closed()),
+      };
+      const socket: any = { destroy: jest.fn() };
+      app['sessions'].add(session);
+      app['sockets'].add(socket);
+
+      const promise = app.shutdown(500);
+      expect(session.close).toHaveBeenCalled();
+
+      jest.advanceTimersByTime(500);
+      expect(session.destroy).toHaveBeenCalled();
+      expect(socket.destroy).toHaveBeenCalled();
+
+      jest.useRealTimers();
+      await expect(promise).resolves.toBeUndefined();
+    });
+
+    it('should close connections of requests finishing during shutdown', async () => {
+      const req: any = {
+        url: '/',
+        method: 'GET',
+        getIp: jest.fn(),
+        getBase: jest.fn(() => 'http://localhost:2025'),
+      };
+
+      let finish: () => void;
+      const res: any = {
+        writableEnded: false,
+        end: jest.fn(() => (res.writableEnded = true)),
+        setHeader: jest.fn(),
+        once: jest.fn((event, callback) => (finish = callback)),
+      };
+
+      app.register(new Router().get('/', async () => res.end()));
+
+      await app.shutdown();
+      await (app as any).process(req, res);
+
+      expect(res.setHeader).toHaveBeenCalledWith('Connection', 'close');
+
+      server.closeIdleConnections.mockClear();
+      finish();
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(server.closeIdleConnections).toHaveBeenCalled();
+    });
+  });
+
+  describe('routes', () => {
+    beforeEach(() => {
+      (App as any).app = undefined;
+      app = new App();
+    });
+
+    it('should list the routes of every namespace', () => {
+      const auth = jest.fn();
+      const show = jest.fn();
+      const index = jest.fn();
+
+      class Post extends Service {
+        constructor(req: any, res: any) {
+          super(req, res);
+          this.get('/posts', index).name('posts');
+        }
+      }
+
+      const router = new Router()
+        .get('/', index)
+        .get('/users/:id', show)
+        .all(/^\/files$/, show);
+
+      app.register(Post).namespace('/admin', router, auth);
+
+      expect(app.routes()).toEqual([
+        {
+          method: 'GET',
+          path: '/posts',
+          namespace: '/',
+          name: 'posts',
+          service: Post,
+          middlewares: [index],
+        },
+        {
+          method: 'GET',
+          path: '/admin',
+          namespace: '/admin',
+          name: undefined,
+          service: undefined,
+          middlewares: [auth, index],
+        },
+        {
+          method: 'GET',
+          path: '/admin/users/:id',
+          namespace: '/admin',
+          name: undefined,
+          service: undefined,
+          middlewares: [auth, show],
+        },
+        {
+          method: '*',
+          path: /^\/files$/,
+          namespace: '/admin',
+          name: undefined,
+          service: undefined,
+          middlewares: [auth, show],
+        },
+      ]);
+    });
+  });
+
+  describe('route', () => {
+    beforeEach(() => {
+      (App as any).app = undefined;
+      app = new App();
+    });
+
+    it('should generate the path of a named route', () => {
+      const router = new Router()
+        .get('/', jest.fn())
+        .name('home')
+        .get('/posts/:id', jest.fn())
+        .name('posts.show');
+
+      app.register(router);
+
+      expect(app.route('home')).toBe('/');
+      expect(app.route('posts.show', { id: 12 })).toBe('/posts/12');
+      expect(route('posts.show', { id: 12 })).toBe('/posts/12');
+    });
+
+    it('should prefix the namespace', () => {
+      const router = new Router()
+        .get('/', jest.fn())
+        .name('admin')
+        .get('/users/:id', jest.fn())
+        .name('admin.users');
+
+      app.namespace('/admin', router);
+
+      expect(app.route('admin')).toBe('/admin');
+      expect(app.route('admin.users', { id: 1 })).toBe('/admin/users/1');
+    });
+
+    it('should append the query string', () => {
+      app.register(new Router().get('/posts', jest.fn()).name('posts'));
+
+      expect(app.route('posts', {}, { page: 2, tag: ['a', 'b'] })).toBe(
+        '/posts?page=2&tag=a&tag=b'
+      );
+
+      expect(app.route('posts', {}, new URLSearchParams('q=x'))).toBe(
+        '/posts?q=x'
+      );
+
+      expect(app.route('posts', {}, {})).toBe('/posts');
+    });
+
+    it('should resolve service routes before any request', () => {
+      const User = class extends Service {
+        constructor(req: any, res: any) {
+          super(req, res);
+          this.get('/:id', jest.fn()).name('users.show');
+        }
+      };
+
+      app.namespace('/users', User);
+
+      expect(app.route('users.show', { id: 5 })).toBe('/users/5');
+      expect((app as any).blueprints.has(User)).toBe(true);
+    });
+
+    it('should throw for unknown route names', () => {
+      expect(() => app.route('unknown')).toThrow(
+        "Undefined route name 'unknown'"
+      );
+
+      expect(() => app.route(123 as any)).toThrow('Invalid route name');
+    });
+  });
+
   describe('process', () => {
     let app: any;
     let req: any;
@@ -357,6 +894,8 @@ describe('App class', () => {
       res = {
         writableEnded: false,
         end: jest.fn(() => (res.writableEnded = true)),
+        setHeader: jest.fn(),
+        once: jest.fn(),
       };
     });
 
@@ -398,6 +937,31 @@ describe('App class', () => {
       expect(getUsers).toHaveBeenCalledWith(req, res, undefined);
     });
 
+    it('should expose the policy of the matched service', async () => {
+      req.url = 'http://localhost:3030/users';
+      req.method = 'GET';
+
+      const getUsers = jest.fn(async () => res.end());
+
+      const User = class extends Service {
+        constructor(req: any, res: any) {
+          super(req, res);
+          this.get('/users', getUsers);
+        }
+
+        public can(user: any, action: string) {
+          return action === 'users.index';
+        }
+      };
+
+      app.register(User);
+
+      await expect(app.process(req, res)).resolves.toBeUndefined();
+
+      expect(req.policy(null, 'users.index')).toBe(true);
+      expect(req.policy(null, 'users.delete')).toBe(false);
+    });
+
     it('should execute middlewares for a valid route (Router)', async () => {
       // URL && Method
       req.url = 'http://localhost:3030/posts';
@@ -474,6 +1038,136 @@ describe('App class', () => {
       expect(getPosts).toHaveBeenCalledWith(req, res, undefined);
     });
 
+    it('should execute namespace middlewares in order', async () => {
+      req.url = 'http://localhost:3030/admin/users';
+      req.method = 'GET';
+
+      const calls = [];
+      const track = (name: string) =>
+        jest.fn(async () => {
+          calls.push(name);
+        });
+
+      const global = track('global');
+      const admin = track('admin');
+      const posts = track('posts');
+      const stack = track('router');
+      const group = track('group');
+      const users = jest.fn(async () => {
+        calls.push('route');
+        res.end();
+      });
+
+      const router = new Router()
+        .use(stack)
+        .group('/users', (r) => r.get('/', users), group);
+
+      app.use(global);
+      app.namespace('/posts', new Router(), posts);
+      app.namespace('/admin', router, admin);
+
+      await expect(app.process(req, res)).resolves.toBeUndefined();
+
+      expect(calls).toEqual(['global', 'admin', 'router', 'group', 'route']);
+      expect(posts).not.toHaveBeenCalled();
+    });
+
+    it('should handle undefined method (405)', async () => {
+      req.url = 'http://localhost:3030/users/1';
+      req.method = 'POST';
+      res.setHeader = jest.fn();
+
+      const global = jest.fn(async () => {});
+      const admin = jest.fn(async () => {});
+      const getUser = jest.fn(async () => res.end());
+
+      const User = class extends Service {
+        constructor(req: any, res: any) {
+          super(req, res);
+          this.get('/users/:id', getUser);
+        }
+      };
+
+      app.use(global);
+      app.namespace('/', new Router().put('/users/:id', getUser), admin);
+      app.namespace('/', User);
+
+      await expect(app.process(req, res)).resolves.toBeUndefined();
+
+      expect(res.setHeader).toHaveBeenCalledWith(
+        'Allow',
+        'PUT, GET, HEAD, OPTIONS'
+      );
+
+      expect(app.handler).toHaveBeenCalledWith(
+        req,
+        res,
+        expect.any(MethodNotAllowedError)
+      );
+
+      expect(global).toHaveBeenCalled();
+      expect(admin).toHaveBeenCalled();
+      expect(getUser).not.toHaveBeenCalled();
+    });
+
+    it('should serve HEAD requests from GET routes', async () => {
+      req.url = 'http://localhost:3030/users';
+      req.method = 'HEAD';
+
+      const getUsers = jest.fn(async () => res.end());
+      app.register(new Router().get('/users', getUsers));
+
+      await expect(app.process(req, res)).resolves.toBeUndefined();
+      expect(getUsers).toHaveBeenCalledWith(req, res, undefined);
+    });
+
+    it('should answer OPTIONS requests automatically', async () => {
+      req.url = 'http://localhost:3030/users';
+      req.method = 'OPTIONS';
+      res.setHeader = jest.fn();
+      res.status = jest.fn(() => res);
+      res.send = jest.fn(async () => res.end());
+
+      const global = jest.fn(async () => {});
+      app.use(global);
+      app.register(
+        new Router().get('/users', jest.fn()).post('/users', jest.fn())
+      );
+
+      await expect(app.process(req, res)).resolves.toBeUndefined();
+
+      expect(global).toHaveBeenCalled();
+      expect(res.setHeader).toHaveBeenCalledWith(
+        'Allow',
+        'GET, HEAD, POST, OPTIONS'
+      );
+      expect(res.status).toHaveBeenCalledWith(204);
+      expect(app.handler).not.toHaveBeenCalled();
+    });
+
+    it('should let cors answer preflight OPTIONS requests', async () => {
+      req.url = 'http://localhost:3030/users';
+      req.method = 'OPTIONS';
+      res.setHeader = jest.fn();
+      res.status = jest.fn(() => res);
+      res.send = jest.fn(async () => res.end());
+
+      // Acts like the cors middleware ending preflight requests
+      const cors = jest.fn(async () => {
+        res.setHeader('Access-Control-Allow-Origin', 'http://site.com');
+        return res.status(204).send();
+      });
+
+      app.use(cors);
+      app.register(new Router().get('/users', jest.fn()));
+
+      await expect(app.process(req, res)).resolves.toBeUndefined();
+
+      expect(cors).toHaveBeenCalled();
+      expect(res.send).toHaveBeenCalledTimes(1);
+      expect(res.setHeader).toHaveBeenCalledWith('Allow', 'GET, HEAD, OPTIONS');
+    });
+
     it('should handle undefined namespace (404)', async () => {
       // Global middlewares
       const middleware1 = jest.fn(async () => {});
@@ -548,7 +1242,11 @@ describe('App class', () => {
       app.routers = {
         '/products': [
           {
-            match: jest.fn(() => ({ params: { id: '123' }, middlewares: [] })),
+            match: jest.fn(() => ({
+              params: { id: '123' },
+              middlewares: [],
+              route: '/',
+            })),
           },
         ],
       };
@@ -561,6 +1259,116 @@ describe('App class', () => {
       expect(req.path).toBe('/products');
       expect(req.query.get('id')).toBe('123');
       expect(req.params).toEqual({ id: '123' });
+      expect(req.route).toBe('/');
+    });
+
+    it('should only create services when a route matches', async () => {
+      req.url = '/posts';
+      req.method = 'GET';
+
+      const created = jest.fn();
+      const getPosts = jest.fn(async () => res.end());
+
+      const User = class extends Service {
+        constructor(req: any, res: any) {
+          super(req, res);
+          created();
+          this.get('/users', async () => res.end());
+        }
+      };
+
+      const Post = class extends Service {
+        constructor(req: any, res: any) {
+          super(req, res);
+          this.get('/posts', getPosts);
+        }
+      };
+
+      app.register(User).register(Post);
+
+      // The first request creates the blueprint, without the request
+      await app.process(req, res);
+      expect(created).toHaveBeenCalledTimes(1);
+      expect((app as any).blueprints.get(User).req).not.toBe(req);
+      expect((app as any).blueprints.get(User).res).not.toBe(res);
+
+      // Later requests only create matching services
+      res.writableEnded = false;
+      await app.process(req, res);
+      expect(created).toHaveBeenCalledTimes(1);
+      expect(getPosts).toHaveBeenCalledTimes(2);
+
+      req.url = '/users';
+      res.writableEnded = false;
+      await app.process(req, res);
+      expect(created).toHaveBeenCalledTimes(2);
+    });
+
+    it('should create blueprints of services reading the request', async () => {
+      req.url = '/posts';
+      req.method = 'GET';
+
+      const getPosts = jest.fn(async () => res.end());
+
+      const Post = class extends Service {
+        public method: string;
+
+        constructor(req: any, res: any) {
+          super(req, res);
+          this.method = this.request.method;
+          this.response.setHeader('X-Service', 'post');
+          this.get('/posts', getPosts);
+        }
+      };
+
+      app.register(Post);
+
+      await expect(app.process(req, res)).resolves.toBeUndefined();
+      expect(app.handler).not.toHaveBeenCalled();
+      expect(getPosts).toHaveBeenCalledTimes(1);
+    });
+
+    it('should pass blueprint errors to the error handler', async () => {
+      req.url = '/posts';
+      req.method = 'GET';
+
+      const error = new Error('Broken service');
+
+      const Post = class extends Service {
+        constructor(req: any, res: any) {
+          super(req, res);
+          throw error;
+        }
+      };
+
+      app.register(Post);
+
+      await expect(app.process(req, res)).resolves.toBeUndefined();
+      expect(app.handler).toHaveBeenCalledWith(req, res, error);
+    });
+
+    it('should pass typed params to services', async () => {
+      req.url = '/users/12';
+      req.method = 'GET';
+
+      const getUser = jest.fn(async () => res.end());
+      let params: any;
+
+      const User = class extends Service {
+        constructor(req: any, res: any) {
+          super(req, res);
+          this.get('/users/:id(int)', async () => {
+            params = this.params;
+            return getUser();
+          });
+        }
+      };
+
+      app.register(User);
+
+      await expect(app.process(req, res)).resolves.toBeUndefined();
+      expect(getUser).toHaveBeenCalled();
+      expect(params.ensure('id').get()).toBe(12);
     });
 
     it('should store multiple query params as array', async () => {
@@ -610,6 +1418,112 @@ describe('App class', () => {
     });
   });
 
+  describe('request events', () => {
+    let app: any;
+    let req: any;
+    let res: any;
+    let finish: () => void;
+
+    beforeEach(() => {
+      (App as any).app = undefined;
+      app = new App();
+      app.handler = jest.fn(async () => {});
+      req = {
+        url: 'http://localhost:3030/users/5',
+        method: 'GET',
+        getIp: jest.fn(),
+        getBase: jest.fn(() => 'http://localhost:2025'),
+      };
+      res = {
+        statusCode: 200,
+        writableEnded: false,
+        end: jest.fn(() => (res.writableEnded = true)),
+        setHeader: jest.fn(),
+        once: jest.fn((event, callback) => (finish = callback)),
+      };
+    });
+
+    it('should assign a request ID', async () => {
+      app.register(new Router().get('/users/:id', async () => res.end()));
+
+      await app.process(req, res);
+
+      expect(req.id).toBe('mock-token');
+      expect(res.setHeader).toHaveBeenCalledWith('X-Request-Id', 'mock-token');
+    });
+
+    it('should emit lifecycle events in order', async () => {
+      const events = [];
+      const track = (name: string) => (event: any) =>
+        events.push({ name, ...event });
+
+      app.on(REQUEST_RECEIVED, track('received'));
+      app.on(ROUTE_MATCHED, track('matched'));
+      app.on(MIDDLEWARE_START, track('start'));
+      app.on(MIDDLEWARE_FINISH, track('finish'));
+      app.on(RESPONSE_FINISH, track('response'));
+
+      const auth = jest.fn(async () => {});
+      const show = jest.fn(async () => res.end());
+
+      app.register(new Router().get('/users/:id', auth, show));
+
+      await app.process(req, res);
+      finish(); // response 'finish' event
+
+      expect(res.once).toHaveBeenCalledWith('finish', expect.any(Function));
+      expect(events.map((event) => event.name)).toEqual([
+        'received',
+        'matched',
+        'start',
+        'finish',
+        'start',
+        'finish',
+        'response',
+      ]);
+
+      events.forEach((event) => {
+        expect(event.id).toBe('mock-token');
+        expect(event.req).toBe(req);
+        expect(event.res).toBe(res);
+        expect(event.time).toBeGreaterThanOrEqual(0);
+      });
+
+      expect(events[1]).toMatchObject({ namespace: '/', params: { id: '5' } });
+      expect(events[2]).toMatchObject({ middleware: auth, index: 0 });
+      expect(events[5]).toMatchObject({ middleware: show, index: 1 });
+      expect(events[5].duration).toBeGreaterThanOrEqual(0);
+      expect(events[6]).toMatchObject({ status: 200 });
+    });
+
+    it('should emit error events', async () => {
+      const error = new Error('Ops');
+      const failed = jest.fn();
+      const finished = jest.fn();
+
+      app.on(REQUEST_ERROR, failed);
+      app.on(MIDDLEWARE_FINISH, finished);
+
+      const show = jest.fn(async () => {
+        throw error;
+      });
+
+      app.register(new Router().get('/users/:id', show));
+      app.handler = App.prototype['handler'];
+      app.handlers = [async () => res.end()];
+
+      await app.process(req, res);
+
+      expect(failed).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'mock-token', error })
+      );
+
+      expect(finished).toHaveBeenCalledWith(
+        expect.objectContaining({ middleware: show, error })
+      );
+    });
+  });
+
   describe('execute', () => {
     let app: any;
     let req: any;
@@ -784,3 +1698,20 @@ describe('appKey', () => {
     );
   });
 });
+
+describe('appKeys', () => {
+  afterEach(() => delete process.env.APP_PREVIOUS_KEYS);
+
+  it('should return the APP_KEY followed by the previous keys', () => {
+    process.env.APP_KEY = 'new-key';
+    expect(appKeys()).toEqual(['new-key']);
+
+    process.env.APP_PREVIOUS_KEYS = 'old-key, older-key,';
+    expect(appKeys()).toEqual(['new-key', 'old-key', 'older-key']);
+  });
+
+  it('should throw an AppError when APP_KEY is not defined', () => {
+    delete process.env.APP_KEY;
+    expect(appKeys).toThrow(AppError);
+  });
+});
@@ -0,0 +1,310 @@
+const options: any = {};
+
+jest.mock('../../../src/config', () => ({
+  config: () => {
+    return {
+      loadSync: () => options,
+      resolveSync: () => __dirname,
+    };
+  },
+}));
+
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Audit, AuditError } from '../../../src/core/modules/Audit';
+import { AuditGenerator } from '../../../src/core/modules/AuditGenerator';
+import { Builder } from '../../../src/core/modules/Builder';
+import { withRequest } from '../../../src/core/modules/Request';
+
+const connection = (rows: Array<any> = [], result?: any) => {
+  return {
+    id: Symbol('PoolConnection'),
+    driver: { id: Symbol('MySQL') },
+    query: jest.fn((sql: string) =>
+      Promise.resolve(sql.startsWith('SELECT') ? rows : result)
+    ),
+  } as any;
+};
+
+const req: any = { user: { id: 3 }, ip: '10.0.0.1', id: 'abc' };
+
+describe('Audit', () => {
+  let dir: string;
+
+  const entries = () => {
+    return readFileSync(join(dir, 'audit.jsonl'), 'utf-8')
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line));
+  };
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'audit-'));
+
+    options.session = { table: 'sessions' };
+    options.audit = {
+      enabled: true,
+      driver: 'file',
+      path: join(dir, 'audit.jsonl'),
+      table: 'audit_logs',
+      pool: undefined,
+      tables: undefined,
+      exclude: [],
+      hidden: ['password'],
+      key: 'id',
+    };
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  describe('observe', () => {
+    it('should record inserts with the request context', async () => {
+      const con = connection([], 5);
+      const builder = new Builder(con);
+
+      const id = await withRequest(req, () =>
+        builder
+          .insert()
+          .into('users')
+          .rows([{ email: 'a@b.c', password: 'secret' }])
+          .exec()
+      );
+
+      expect(id).toBe(5);
+      expect(entries()).toEqual([
+        {
+          event: 'insert',
+          user_id: 3,
+          table_name: 'users',
+          record_key: '5',
+          old_values: null,
+          new_values: { email: 'a@b.c', password: '[hidden]' },
+          details: null,
+          ip: '10.0.0.1',
+          request_id: 'abc',
+          created_at: expect.any(String),
+        },
+      ]);
+    });
+
+    it('should record the changed columns of updated rows', async () => {
+      const con = connection([
+        { id: 1, name: 'a', active: 1 },
+        { id: 2, name: 'b', active: 0 },
+        { id: 3, name: 'b', active: 1 },
+      ]);
+
+      await new Builder(con)
+        .update()
+        .table('users')
+        .set({ name: 'b', active: true })
+        .where((col) => col('id').greaterThan(0))
+        .exec();
+
+      expect(con.query.mock.calls[0]).toEqual([
+        'SELECT id, name, active FROM users WHERE id > ?;',
+        [0],
+      ]);
+      expect(con.query.mock.calls[1][0]).toMatch(/^UPDATE users/);
+
+      expect(entries()).toMatchObject([
+        {
+          event: 'update',
+          user_id: null,
+          record_key: '1',
+          old_values: { name: 'a' },
+          new_values: { name: 'b' },
+        },
+        {
+          event: 'update',
+          record_key: '2',
+          old_values: { active: 0 },
+          new_values: { active: true },
+        },
+      ]);
+    });
+
+    it('should record deleted rows', async () => {
+      const con = connection([{ id: 9, password: 'hash' }]);
+
+      await new Builder(con)
+        .delete()
+        .from('users')
+        .where((col) => col('id').equal(9))
+        .exec();
+
+      expect(con.query.mock.calls[0]).toEqual([
+        'SELECT * FROM users WHERE id = ?;',
+        [9],
+      ]);
+
+      expect(entries()).toMatchObject([
+        {
+          event: 'delete',
+          record_key: '9',
+          old_values: { id: 9, password: '[hidden]' },
+          new_values: null,
+        },
+      ]);
+    });
+
+    it('should only record the audited tables', async () => {
+      const con = connection([], 1);
+      const insert = (table: string) => {
+        return new Builder(con)
+          .insert()
+          .into(table)
+          .rows([{ a: 1 }])
+          .exec();
+      };
+
+      options.audit.exclude = ['logs'];
+      await insert('logs');
+      await insert('sessions');
+      await insert('audit_logs');
+
+      options.audit.tables = ['posts'];
+      await insert('users');
+      await insert('posts');
+
+      options.audit.enabled = false;
+      await insert('posts');
+
+      expect(entries().map((entry) => entry.table_name)).toEqual(['posts']);
+      expect(con.query).toHaveBeenCalledTimes(6);
+    });
+
+    it('should insert entries on the connection of the change', async () => {
+      options.audit.driver = 'table';
+
+      const con = connection([{ id: 1, name: 'a' }]);
+
+      await new Builder(con)
+        .update()
+        .table('users')
+        .set({ name: 'b' })
+        .where((col) => col('id').equal(1))
+        .exec();
+
+      const [sql, values] = con.query.mock.calls[2];
+
+      expect(sql).toMatch(/^INSERT INTO audit_logs \(event, user_id/);
+      expect(values).toContain('{"name":"a"}');
+      expect(values).toContain('{"name":"b"}');
+    });
+  });
+
+  describe('event', () => {
+    it('should record events with their details', async () => {
+      await withRequest(req, () =>
+        Audit.event('auth.failed', { email: 'a@b.c', password: 'guess' })
+      );
+
+      await Audit.event('auth.reset', undefined, { id: 7 });
+
+      expect(entries()).toMatchObject([
+        {
+          event: 'auth.failed',
+          user_id: 3,
+          details: { email: 'a@b.c', password: '[hidden]' },
+          ip: '10.0.0.1',
+        },
+        { event: 'auth.reset', user_id: 7, details: null, ip: null },
+      ]);
+    });
+
+    it('should do nothing when disabled', async () => {
+      options.audit.enabled = false;
+      await Audit.event('auth.login');
+
+      expect(() => entries()).toThrow();
+    });
+
+    it('should throw AuditError for invalid names', async () => {
+      await expect(Audit.event('')).rejects.toThrow(AuditError);
+    });
+  });
+
+  describe('query', () => {
+    it('should filter and paginate log file entries, newest first', async () => {
+      await Audit.event('auth.login', undefined, { id: 1 });
+      await Audit.event('auth.login', undefined, { id: 2 });
+      await Audit.event('auth.logout', undefined, { id: 1 });
+      await Audit.event('auth.login', undefined, { id: 1 });
+
+      const page = await Audit.query({ event: 'auth.login', user: 1 }, 1, 1);
+
+      expect(page.result).toMatchObject([{ event: 'auth.login', user_id: 1 }]);
+      expect(page.page).toEqual({
+        current: 1,
+        prev: undefined,
+        next: 2,
+        items: 1,
+      });
+      expect(page.total).toEqual({ items: 2, pages: 2 });
+
+      const none = await Audit.query({ to: '2000-01-01 00:00:00' });
+      expect(none.result).toEqual([]);
+    });
+
+    it('should query the audit log table', async () => {
+      options.audit.driver = 'table';
+
+      const con = connection();
+      con.query = jest.fn((sql: string) =>
+        Promise.resolve(
+          sql.startsWith('SELECT COUNT')
+            ? [{ count: 6 }]
+            : [{ id: 1, event: 'update', old_values: '{"name":"a"}' }]
+        )
+      );
+
+      jest
+        .spyOn(Builder, 'require')
+        .mockImplementation((cb: any) => cb(new Builder(con)));
+
+      const page = await Audit.query(
+        { table: 'posts', key: 7, from: '2024-01-01 00:00:00' },
+        2,
+        5
+      );
+
+      expect(con.query.mock.calls[1]).toEqual([
+        'SELECT * FROM audit_logs WHERE table_name = ? AND record_key = ? ' +
+          'AND created_at >= ? ORDER BY id DESC LIMIT 5 OFFSET 5;',
+        ['posts', '7', '2024-01-01 00:00:00'],
+      ]);
+
+      expect(page.result).toEqual([
+        { id: 1, event: 'update', old_values: { name: 'a' } },
+      ]);
+      expect(page.total).toEqual({ items: 6, pages: 2 });
+    });
+  });
+});
+
+describe('AuditGenerator', () => {
+  it('should create the audit log table', async () => {
+    options.audit = { table: 'audit_logs' };
+
+    const mysql = Object.create(Builder.prototype);
+    mysql.raw = jest.fn().mockResolvedValue(undefined);
+    mysql.get = {
+      connection: () => ({ driver: { id: Symbol('MySQL') } }),
+    };
+
+    const generator = new AuditGenerator();
+
+    generator.set.builder(mysql);
+    await generator.create();
+
+    const sql = mysql.raw.mock.calls[0][0];
+    expect(sql).toMatch(/^CREATE TABLE audit_logs/);
+    expect(sql).toContain('event VARCHAR(100) NOT NULL');
+    expect(sql).toContain('new_values TEXT');
+  });
+});
@@ -0,0 +1,374 @@
+const options: any = {
+  env: 'pro',
+  auth: {
+    table: 'users',
+    tokens: 'tokens',
+    cookie: 'remember',
+    remember: 30 * 24 * 60 * 60,
+    verify: 24 * 60 * 60,
+    reset: 60 * 60,
+    login: '/login',
+    home: '/',
+  },
+};
+
+jest.mock('../../../src/config', () => ({
+  config: () => {
+    return {
+      loadSync: () => options,
+      resolveSync: () => __dirname,
+    };
+  },
+}));
+
+import '../../../src/core/modules/Response';
+import { ServerResponse } from 'http';
+import {
+  Auth,
+  AuthError,
+  AUTH_SESSION_KEY,
+} from '../../../src/core/modules/Auth';
+import { Audit } from '../../../src/core/modules/Audit';
+import { Builder } from '../../../src/core/modules/Builder';
+import { Session, StoreAdapter } from '../../../src/core/modules/Session';
+import { Table } from '../../../src/core/modules/Table';
+import { Store } from '../../../src/helpers';
+
+/**
+ * An in-memory table, understanding the conditions used by `Auth`.
+ */
+const memory = () => {
+  const rows: Array<any> = [];
+  let id = 0;
+
+  const matcher = (cb: any) => {
+    const conditions: Array<[string, any]> = [];
+    let column: string;
+
+    const con: any = {
+      col: (name: string) => ((column = name), con),
+      equal: (value: any) => (conditions.push([column, value]), con),
+      and: () => con,
+    };
+
+    cb(con.col, con);
+    return (row: any) => conditions.every(([c, v]) => row[c] === v);
+  };
+
+  return {
+    rows,
+    insert: jest.fn(async (row: any) => (rows.push({ id: ++id, ...row }), id)),
+    where: jest.fn((cb: any) => {
+      const test = matcher(cb);
+
+      return {
+        first: async () => rows.find(test) || null,
+        update: async (data: any) => {
+          rows.filter(test).forEach((row) => Object.assign(row, data));
+        },
+        delete: async () => {
+          for (let i = rows.length - 1; i >= 0; i--) {
+            if (test(rows[i])) rows.splice(i, 1);
+          }
+        },
+      };
+    }),
+    find: () => ({
+      one: async (id: any) => rows.find((row) => row.id === id) || null,
+      oneBy: async (column: string, value: any) => {
+        return rows.find((row) => row[column] === value) || null;
+      },
+    }),
+  };
+};
+
+describe('Auth', () => {
+  let users: ReturnType<typeof memory>;
+  let tokens: ReturnType<typeof memory>;
+  let headers: Record<string, any>;
+  let res: any;
+  let req: any;
+
+  const cookie = (name: string): string | undefined => {
+    const cookies = [].concat(headers['Set-Cookie'] || []);
+    const found = cookies.find((cookie) => cookie.startsWith(`${name}=`));
+    return found && decodeURIComponent(found.split(';')[0].split('=')[1]);
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers({ doNotFake: ['setImmediate', 'nextTick'] });
+    jest.setSystemTime(new Date('2025-01-01T00:00:00Z'));
+
+    users = memory();
+    tokens = memory();
+
+    jest
+      .spyOn(Table, 'request')
+      .mockImplementation(
+        (name: string) => (name === 'users' ? users : tokens) as any
+      );
+
+    // Transactions run one at a time, like the row locks they take
+    let queue: Promise<unknown> = Promise.resolve();
+    jest.spyOn(Builder, 'transaction').mockImplementation((callback: any) => {
+      const run = queue.then(() => callback({}));
+      queue = run.catch(() => null);
+      return run;
+    });
+
+    headers = {};
+    res = Object.create(ServerResponse.prototype);
+    res.setHeader = jest.fn((name, value) => (headers[name] = value));
+    res.getHeader = jest.fn((name) => headers[name]);
+
+    const adapter = new StoreAdapter(
+      new Store('auth-test', { timeout: false })
+    );
+    req = { cookies: {}, session: new Session(res, adapter) };
+
+    options.cookies = undefined;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  describe('hash', () => {
+    it('should hash passwords with a random salt', async () => {
+      const first = await Auth.hash('secret123');
+      const second = await Auth.hash('secret123');
+
+      expect(first).toMatch(/^scrypt\$16384\$8\$1\$[\w-]+\$[\w-]+$/);
+      expect(first).not.toBe(second);
+    });
+
+    it('should throw for invalid passwords', async () => {
+      await expect(Auth.hash(null)).rejects.toThrow(AuthError);
+    });
+  });
+
+  describe('verify', () => {
+    it('should check passwords against hashes', async () => {
+      const hash = await Auth.hash('secret123');
+
+      await expect(Auth.verify('secret123', hash)).resolves.toBe(true);
+      await expect(Auth.verify('secret124', hash)).resolves.toBe(false);
+    });
+
+    it('should reject malformed hashes', async () => {
+      await expect(Auth.verify('secret', 'plain')).resolves.toBe(false);
+      await expect(Auth.verify('secret', 'bcrypt$1$2$3$a$b')).resolves.toBe(
+        false
+      );
+      await expect(Auth.verify('secret', 'scrypt$x$8$1$a$b')).resolves.toBe(
+        false
+      );
+      await expect(Auth.verify('secret', 'scrypt$16384$8$1$a$')).resolves.toBe(
+        false
+      );
+      await expect(Auth.verify(null, 'scrypt$16384$8$1$a$b')).resolves.toBe(
+        false
+      );
+    });
+  });
+
+  describe('tokens', () => {
+    it('should keep tokens hashed', async () => {
+      const token = await Auth.issue({ id: 1 }, 'verify', 60);
+
+      expect(token).toMatch(/^[a-f0-9]{64}$/);
+      expect(tokens.rows).toEqual([
+        {
+          id: 1,
+          user_id: 1,
+          type: 'verify',
+          token: Auth.digest(token),
+          expires_at: Date.now() + 60 * 1000,
+        },
+      ]);
+    });
+
+    it('should consume tokens once and return their user', async () => {
+      users.rows.push({ id: 1, email: 'a@b.c' });
+      const token = await Auth.issue({ id: 1 }, 'reset', 60);
+
+      await expect(Auth.consume(token, 'reset')).resolves.toEqual({
+        id: 1,
+        email: 'a@b.c',
+      });
+
+      await expect(Auth.consume(token, 'reset')).resolves.toBeNull();
+    });
+
+    it('should consume tokens once under concurrent attempts', async () => {
+      users.rows.push({ id: 1 });
+      const token = await Auth.issue({ id: 1 }, 'reset', 60);
+
+      const results = await Promise.all([
+        Auth.consume(token, 'reset'),
+        Auth.consume(token, 'reset'),
+      ]);
+
+      expect(results).toEqual([{ id: 1 }, null]);
+      expect(Builder.transaction).toHaveBeenCalledTimes(2);
+    });
+
+    it('should reject tokens of another purpose', async () => {
+      users.rows.push({ id: 1 });
+      const token = await Auth.issue({ id: 1 }, 'verify', 60);
+
+      await expect(Auth.consume(token, 'reset')).resolves.toBeNull();
+      await expect(Auth.consume(token, 'verify')).resolves.toEqual({ id: 1 });
+    });
+
+    it('should reject and delete expired tokens', async () => {
+      users.rows.push({ id: 1 });
+      const token = await Auth.issue({ id: 1 }, 'reset', 60);
+
+      jest.advanceTimersByTime(60 * 1000);
+
+      await expect(Auth.consume(token, 'reset')).resolves.toBeNull();
+      expect(tokens.rows).toHaveLength(0);
+    });
+
+    it('should reject invalid tokens', async () => {
+      await expect(Auth.consume(undefined, 'reset')).resolves.toBeNull();
+      await expect(Auth.consume('unknown', 'reset')).resolves.toBeNull();
+    });
+
+    it('should revoke tokens of a purpose', async () => {
+      await Auth.issue({ id: 1 }, 'reset', 60);
+      await Auth.issue({ id: 1 }, 'remember', 60);
+      await Auth.issue({ id: 2 }, 'reset', 60);
+
+      await Auth.revoke({ id: 1 }, 'reset');
+
+      expect(tokens.rows.map((row) => [row.user_id, row.type])).toEqual([
+        [1, 'remember'],
+        [2, 'reset'],
+      ]);
+    });
+  });
+
+  describe('login', () => {
+    it('should keep the user ID on a new session', async () => {
+      const id = req.session.id;
+
+      await Auth.login(req, res, { id: 7 });
+
+      expect(req.session.id).not.toBe(id);
+      expect(req.session.get(AUTH_SESSION_KEY)).toBe(7);
+      expect(req.user).toEqual({ id: 7 });
+      expect(cookie('remember')).toBeUndefined();
+    });
+
+    it('should set a remember me cookie', async () => {
+      await Auth.login(req, res, { id: 7 }, true);
+
+      const token = cookie('remember');
+
+      expect(tokens.rows[0].token).toBe(Auth.digest(token));
+      expect(headers['Set-Cookie'][0]).toContain(
+        `Max-Age=${30 * 24 * 60 * 60}`
+      );
+      expect(headers['Set-Cookie'][0]).not.toContain('Expires=');
+    });
+
+    it('should require a session', async () => {
+      await expect(Auth.login({} as any, res, { id: 1 })).rejects.toThrow(
+        AuthError
+      );
+    });
+  });
+
+  describe('logout', () => {
+    it('should forget the user and the remember me token', async () => {
+      await Auth.login(req, res, { id: 7 }, true);
+      req.cookies.remember = cookie('remember');
+      headers = {};
+
+      await Auth.logout(req, res);
+
+      expect(req.user).toBeNull();
+      expect(req.session.has(AUTH_SESSION_KEY)).toBe(false);
+      expect(tokens.rows).toHaveLength(0);
+      expect(cookie('remember')).toBe('');
+    });
+
+    it('should record the logout', async () => {
+      const event = jest.spyOn(Audit, 'event').mockResolvedValue();
+
+      await Auth.logout(req, res);
+      await Auth.login(req, res, { id: 7 });
+      await Auth.logout(req, res);
+
+      expect(event.mock.calls).toEqual([
+        ['auth.login', { remember: false }, { id: 7 }],
+        ['auth.logout', undefined, { id: 7 }],
+      ]);
+    });
+
+    it('should forget the two-factor cookie', async () => {
+      options.twoFactor = { cookie: 'twoFactor' };
+      req.signedCookies = { twoFactor: '7|0' };
+      headers = {};
+
+      await Auth.logout(req, res);
+
+      expect(cookie('twoFactor')).toBe('');
+      delete options.twoFactor;
+    });
+
+    it('should require a session', async () => {
+      await expect(Auth.logout({} as any, res)).rejects.toThrow(AuthError);
+    });
+  });
+
+  describe('user', () => {
+    it('should return null for guests', async () => {
+      await expect(Auth.user(req, res)).resolves.toBeNull();
+    });
+
+    it('should load the user of the session', async () => {
+      users.rows.push({ id: 7, email: 'a@b.c' });
+      req.session.set(AUTH_SESSION_KEY, 7);
+
+      await expect(Auth.user(req, res)).resolves.toEqual({
+        id: 7,
+        email: 'a@b.c',
+      });
+    });
+
+    it('should forget deleted users', async () => {
+      req.session.set(AUTH_SESSION_KEY, 7);
+
+      await expect(Auth.user(req, res)).resolves.toBeNull();
+      expect(req.session.has(AUTH_SESSION_KEY)).toBe(false);
+    });
+
+    it('should log users back in and rotate the remember me token', async () => {
+      users.rows.push({ id: 7 });
+      const token = await Auth.issue({ id: 7 }, 'remember', 60);
+      req.cookies.remember = token;
+
+      await expect(Auth.user(req, res)).resolves.toEqual({ id: 7 });
+
+      expect(req.session.get(AUTH_SESSION_KEY)).toBe(7);
+      expect(cookie('remember')).not.toBe(token);
+      expect(tokens.rows).toHaveLength(1);
+      expect(tokens.rows[0].token).toBe(Auth.digest(cookie('remember')));
+    });
+
+    it('should forget invalid remember me cookies', async () => {
+      req.cookies.remember = 'stolen';
+
+      await expect(Auth.user(req, res)).resolves.toBeNull();
+      expect(cookie('remember')).toBe('');
+    });
+
+    it('should require a session', async () => {
+      await expect(Auth.user({} as any, res)).rejects.toThrow(AuthError);
+    });
+  });
+});
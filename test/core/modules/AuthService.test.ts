@@ -0,0 +1,463 @@
+jest.mock('../../../src/core/modules/Form', () => ({
+  Form: jest.fn(() => {
+    return {
+      field: jest.fn(),
+      parse: jest.fn(() => Promise.resolve()),
+    };
+  }),
+}));
+
+const options: any = {
+  env: 'pro',
+  auth: {
+    table: 'users',
+    tokens: 'tokens',
+    cookie: 'remember',
+    remember: 30 * 24 * 60 * 60,
+    verify: 24 * 60 * 60,
+    reset: 60 * 60,
+    login: '/login',
+    home: '/',
+  },
+};
+
+jest.mock('../../../src/config', () => ({
+  config: () => {
+    return {
+      loadSync: () => options,
+      resolveSync: () => __dirname,
+    };
+  },
+}));
+
+import '../../../src/core/modules/Response';
+import { ServerResponse } from 'http';
+import { FLASH_SESSION_KEY } from '../../../src/core/middlewares/flash';
+import {
+  Auth,
+  AUTH_SESSION_KEY,
+  INTENDED_SESSION_KEY,
+} from '../../../src/core/modules/Auth';
+import { Audit } from '../../../src/core/modules/Audit';
+import { AuthService } from '../../../src/core/modules/AuthService';
+import { Builder } from '../../../src/core/modules/Builder';
+import { Row } from '../../../src/core/modules/Driver';
+import { Session, StoreAdapter } from '../../../src/core/modules/Session';
+import { Table } from '../../../src/core/modules/Table';
+import { Store } from '../../../src/helpers';
+
+/**
+ * An in-memory table, understanding the conditions used by `Auth`.
+ */
+const memory = () => {
+  const rows: Array<any> = [];
+  let id = 0;
+
+  const matcher = (cb: any) => {
+    const conditions: Array<[string, any]> = [];
+    let column: string;
+
+    const con: any = {
+      col: (name: string) => ((column = name), con),
+      equal: (value: any) => (conditions.push([column, value]), con),
+      and: () => con,
+    };
+
+    cb(con.col, con);
+    return (row: any) => conditions.every(([c, v]) => row[c] === v);
+  };
+
+  return {
+    rows,
+    insert: jest.fn(async (row: any) => (rows.push({ id: ++id, ...row }), id)),
+    where: jest.fn((cb: any) => {
+      const test = matcher(cb);
+
+      return {
+        first: async () => rows.find(test) || null,
+        update: async (data: any) => {
+          rows.filter(test).forEach((row) => Object.assign(row, data));
+        },
+        delete: async () => {
+          for (let i = rows.length - 1; i >= 0; i--) {
+            if (test(rows[i])) rows.splice(i, 1);
+          }
+        },
+      };
+    }),
+    find: () => ({
+      one: async (id: any) => rows.find((row) => row.id === id) || null,
+      oneBy: async (column: string, value: any) => {
+        return rows.find((row) => row[column] === value) || null;
+      },
+    }),
+  };
+};
+
+class Account extends AuthService {
+  public sent: Array<[string, Row, string]> = [];
+
+  protected async sendVerification(user: Row, token: string): Promise<void> {
+    this.sent.push(['verify', user, token]);
+  }
+
+  protected async sendReset(user: Row, token: string): Promise<void> {
+    this.sent.push(['reset', user, token]);
+  }
+}
+
+describe('AuthService', () => {
+  let users: ReturnType<typeof memory>;
+  let tokens: ReturnType<typeof memory>;
+  let service: Account;
+  let res: any;
+  let req: any;
+
+  const flashes = () => req.session.get(FLASH_SESSION_KEY, []);
+
+  const input = (body: Record<string, any>, errors = {}) => {
+    req.body = body;
+    req.errors = errors;
+  };
+
+  beforeEach(() => {
+    users = memory();
+    tokens = memory();
+
+    jest
+      .spyOn(Table, 'request')
+      .mockImplementation(
+        (name: string) => (name === 'users' ? users : tokens) as any
+      );
+
+    jest
+      .spyOn(Builder, 'transaction')
+      .mockImplementation(async (callback: any) => callback({}));
+
+    res = Object.create(ServerResponse.prototype);
+    res.setHeader = jest.fn();
+    res.getHeader = jest.fn();
+
+    const adapter = new StoreAdapter(
+      new Store('auth-service-test', { timeout: false })
+    );
+
+    req = { cookies: {}, session: new Session(res, adapter) };
+    service = new Account(req, res);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  describe('register', () => {
+    it('should create, log in and send a verification token', async () => {
+      input({
+        email: ' Jo@Mail.com ',
+        password: 'secret123',
+        confirm: 'secret123',
+      });
+
+      const user = await service['register']({ name: 'Jo' });
+
+      expect(user).toMatchObject({
+        id: 1,
+        name: 'Jo',
+        email: 'jo@mail.com',
+        verified_at: null,
+      });
+
+      await expect(Auth.verify('secret123', user.password)).resolves.toBe(true);
+      expect(req.session.get(AUTH_SESSION_KEY)).toBe(1);
+      expect(req.user).toBe(user);
+
+      const [[type, to, token]] = service.sent;
+      expect([type, to]).toEqual(['verify', user]);
+      expect(tokens.rows[0].token).toBe(Auth.digest(token));
+
+      expect(flashes()).toEqual([
+        {
+          type: 'success',
+          message: 'Your account has been created, check your email.',
+        },
+      ]);
+    });
+
+    it('should flash the first validation error', async () => {
+      input({}, { email: ['Email is required.'], password: ['Too short.'] });
+
+      await expect(service['register']()).resolves.toBeNull();
+
+      expect(users.insert).not.toHaveBeenCalled();
+      expect(flashes()).toEqual([
+        { type: 'error', message: 'Email is required.' },
+      ]);
+    });
+
+    it('should refuse registered emails', async () => {
+      users.rows.push({ id: 1, email: 'jo@mail.com' });
+      input({ email: 'jo@mail.com', password: 'secret123' });
+
+      await expect(service['register']()).resolves.toBeNull();
+
+      expect(users.insert).not.toHaveBeenCalled();
+      expect(flashes()).toEqual([
+        { type: 'error', message: 'This email is already registered.' },
+      ]);
+    });
+  });
+
+  describe('login', () => {
+    beforeEach(async () => {
+      users.rows.push({
+        id: 1,
+        email: 'jo@mail.com',
+        password: await Auth.hash('secret123'),
+      });
+    });
+
+    it('should log users in', async () => {
+      input({ email: 'JO@mail.com', password: 'secret123' });
+
+      const user = await service['login']();
+
+      expect(user).toBe(users.rows[0]);
+      expect(req.session.get(AUTH_SESSION_KEY)).toBe(1);
+      expect(tokens.rows).toHaveLength(0);
+    });
+
+    it('should remember users', async () => {
+      input({ email: 'jo@mail.com', password: 'secret123', remember: 'on' });
+
+      await service['login']();
+
+      expect(tokens.rows).toMatchObject([{ user_id: 1, type: 'remember' }]);
+      expect(res.setHeader).toHaveBeenCalledWith('Set-Cookie', [
+        expect.stringMatching(/^remember=[a-f0-9]{64};/),
+      ]);
+    });
+
+    it('should refuse wrong credentials', async () => {
+      const message = 'These credentials do not match our records.';
+
+      input({ email: 'jo@mail.com', password: 'secret124' });
+      await expect(service['login']()).resolves.toBeNull();
+
+      input({ email: 'al@mail.com', password: 'secret123' });
+      await expect(service['login']()).resolves.toBeNull();
+
+      expect(req.session.has(AUTH_SESSION_KEY)).toBe(false);
+      expect(flashes()).toEqual([
+        { type: 'error', message },
+        { type: 'error', message },
+      ]);
+    });
+
+    it('should record logins and failed logins', async () => {
+      const event = jest.spyOn(Audit, 'event').mockResolvedValue();
+
+      input({ email: 'jo@mail.com', password: 'secret124' });
+      await service['login']();
+
+      input({ email: 'jo@mail.com', password: 'secret123' });
+      await service['login']();
+
+      expect(event.mock.calls).toEqual([
+        ['auth.failed', { email: 'jo@mail.com' }],
+        ['auth.login', { remember: false }, users.rows[0]],
+      ]);
+    });
+
+    it('should flash validation errors', async () => {
+      input({}, { email: ['Email is required.'] });
+
+      await expect(service['login']()).resolves.toBeNull();
+      expect(flashes()).toEqual([
+        { type: 'error', message: 'Email is required.' },
+      ]);
+    });
+  });
+
+  describe('logout', () => {
+    it('should log users out', async () => {
+      await Auth.login(req, res, { id: 1 });
+
+      await service['logout']();
+
+      expect(req.user).toBeNull();
+      expect(req.session.has(AUTH_SESSION_KEY)).toBe(false);
+      expect(flashes()).toEqual([
+        { type: 'success', message: 'You have been logged out.' },
+      ]);
+    });
+  });
+
+  describe('verify', () => {
+    it('should mark the email as verified', async () => {
+      users.rows.push({ id: 1, verified_at: null });
+      req.user = { id: 1, verified_at: null };
+      const token = await Auth.issue({ id: 1 }, 'verify', 60);
+
+      await expect(service['verify'](token)).resolves.toBe(true);
+
+      expect(users.rows[0].verified_at).toMatch(/^\d{4}-\d{2}-\d{2} /);
+      expect(req.user.verified_at).toBe(users.rows[0].verified_at);
+      expect(flashes()).toEqual([
+        { type: 'success', message: 'Your email has been verified.' },
+      ]);
+    });
+
+    it('should refuse invalid tokens', async () => {
+      await expect(service['verify']('invalid')).resolves.toBe(false);
+      expect(flashes()).toEqual([
+        {
+          type: 'error',
+          message: 'This verification link is invalid or has expired.',
+        },
+      ]);
+    });
+  });
+
+  describe('resend', () => {
+    it('should replace the verification token', async () => {
+      req.user = { id: 1, verified_at: null };
+      await Auth.issue(req.user, 'verify', 60);
+
+      await expect(service['resend']()).resolves.toBe(true);
+
+      const [[, , token]] = service.sent;
+      expect(tokens.rows).toHaveLength(1);
+      expect(tokens.rows[0].token).toBe(Auth.digest(token));
+    });
+
+    it('should skip guests and verified users', async () => {
+      await expect(service['resend']()).resolves.toBe(false);
+
+      req.user = { id: 1, verified_at: '2025-01-01 00:00:00' };
+      await expect(service['resend']()).resolves.toBe(false);
+
+      expect(service.sent).toHaveLength(0);
+    });
+  });
+
+  describe('forgot', () => {
+    const message = 'If this email is registered, a reset link is on its way.';
+
+    it('should send a reset token', async () => {
+      users.rows.push({ id: 1, email: 'jo@mail.com' });
+      input({ email: 'jo@mail.com' });
+
+      await expect(service['forgot']()).resolves.toBe(true);
+
+      const [[type, , token]] = service.sent;
+      expect(type).toBe('reset');
+      expect(tokens.rows[0]).toMatchObject({
+        type: 'reset',
+        token: Auth.digest(token),
+      });
+      expect(flashes()).toEqual([{ type: 'info', message }]);
+    });
+
+    it('should not reveal unknown emails', async () => {
+      input({ email: 'al@mail.com' });
+
+      await expect(service['forgot']()).resolves.toBe(true);
+
+      expect(service.sent).toHaveLength(0);
+      expect(flashes()).toEqual([{ type: 'info', message }]);
+    });
+
+    it('should flash validation errors', async () => {
+      input({}, { email: ['Email is required.'] });
+
+      await expect(service['forgot']()).resolves.toBe(false);
+    });
+  });
+
+  describe('reset', () => {
+    beforeEach(() => {
+      users.rows.push({ id: 1, password: 'old' });
+    });
+
+    it('should set the new password and revoke remember me tokens', async () => {
+      const token = await Auth.issue({ id: 1 }, 'reset', 60);
+      await Auth.issue({ id: 1 }, 'remember', 60);
+      input({ password: 'secret123', confirm: 'secret123' });
+
+      await expect(service['reset'](token)).resolves.toBe(true);
+
+      await expect(
+        Auth.verify('secret123', users.rows[0].password)
+      ).resolves.toBe(true);
+      expect(tokens.rows).toHaveLength(0);
+      expect(flashes()).toEqual([
+        {
+          type: 'success',
+          message: 'Your password has been reset, you can now log in.',
+        },
+      ]);
+    });
+
+    it('should record password resets', async () => {
+      const event = jest.spyOn(Audit, 'event').mockResolvedValue();
+      const token = await Auth.issue({ id: 1 }, 'reset', 60);
+      input({ password: 'secret123', confirm: 'secret123' });
+
+      await service['reset'](token);
+
+      expect(event).toHaveBeenCalledWith(
+        'auth.reset',
+        undefined,
+        expect.objectContaining({ id: 1 })
+      );
+    });
+
+    it('should log the current user out', async () => {
+      const token = await Auth.issue({ id: 1 }, 'reset', 60);
+      await Auth.login(req, res, { id: 1 });
+      input({ password: 'secret123', confirm: 'secret123' });
+
+      await service['reset'](token);
+
+      expect(req.user).toBeNull();
+      expect(req.session.has(AUTH_SESSION_KEY)).toBe(false);
+    });
+
+    it('should refuse invalid tokens', async () => {
+      input({ password: 'secret123', confirm: 'secret123' });
+
+      await expect(service['reset']('invalid')).resolves.toBe(false);
+      expect(users.rows[0].password).toBe('old');
+    });
+
+    it('should keep the token on validation errors', async () => {
+      const token = await Auth.issue({ id: 1 }, 'reset', 60);
+      input({}, { confirm: ['Passwords do not match.'] });
+
+      await expect(service['reset'](token)).resolves.toBe(false);
+      expect(tokens.rows).toHaveLength(1);
+    });
+  });
+
+  describe('intended', () => {
+    it('should return and forget the intended URL', () => {
+      req.session.set(INTENDED_SESSION_KEY, '/posts?page=2');
+
+      expect(service['intended']()).toBe('/posts?page=2');
+      expect(service['intended']()).toBe('/');
+      expect(service['intended']('/dashboard')).toBe('/dashboard');
+    });
+
+    it('should ignore URLs leaving the app', () => {
+      req.session.set(INTENDED_SESSION_KEY, '//evil.com');
+      expect(service['intended']()).toBe('/');
+    });
+  });
+
+  describe('user', () => {
+    it('should return the loaded user', () => {
+      expect(service['user']()).toBeNull();
+
+      req.user = { id: 1 };
+      expect(service['user']()).toEqual({ id: 1 });
+    });
+  });
+});
@@ -14,6 +14,7 @@ const options = {
   default: 'main',
   cluster: {
     request: jest.fn(() => Promise.resolve(connection)),
+    get: { pool: () => ({ driver: connection.driver }) },
   },
 };
 
@@ -32,6 +33,9 @@ import { Select } from '../../../src/core';
 import { Update } from '../../../src/core';
 import { Delete } from '../../../src/core';
 import { Upsert } from '../../../src/core/sql/Upsert';
+import { withRequest } from '../../../src/core/modules/Request';
+import { SQLite } from '../../../src/core/modules/SQLite';
+import { Table } from '../../../src/core/modules/Table';
 
 import { QueryError } from '../../../src/errors';
 
@@ -86,6 +90,277 @@ describe('Builder.require', () => {
     // @ts-ignore
     await expect(Builder.require(null)).rejects.toThrow(QueryError);
   });
+
+  it('should route reads to the writer after a write in the same request', async () => {
+    const read = () => Builder.require(() => null, 'main', undefined, 'read');
+    const write = () => Builder.require(() => null, 'main', undefined, 'write');
+
+    await withRequest({} as any, async () => {
+      await read();
+      await write();
+      await read();
+      await Builder.require(() => null, 'logs', undefined, 'read');
+    });
+
+    await withRequest({} as any, () => read());
+    await read();
+
+    expect(options.cluster.request.mock.calls).toEqual([
+      ['main', 'read'],
+      ['main', 'write'],
+      ['main', 'write'],
+      ['logs', 'read'],
+      ['main', 'read'],
+      ['main', 'read'],
+    ]);
+  });
+
+  it('should route reads to the writer after a write of a builder', async () => {
+    const read = () => Builder.require(() => null, 'main', undefined, 'read');
+
+    await withRequest({} as any, async () => {
+      await Builder.require((builder) => {
+        return builder
+          .delete()
+          .from('users')
+          .where((col) => col('id').equal(1))
+          .exec();
+      }, 'main');
+
+      await read();
+    });
+
+    expect(options.cluster.request.mock.calls).toEqual([
+      ['main', undefined],
+      ['main', 'write'],
+    ]);
+  });
+});
+
+describe('Builder.stream', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should hold the connection until the iteration ends', async () => {
+    const values = [];
+
+    for await (const value of Builder.stream(async function* (builder) {
+      expect(builder).toBeInstanceOf(Builder);
+      yield 1;
+      expect(connection.release).not.toHaveBeenCalled();
+      yield 2;
+    })) {
+      values.push(value);
+    }
+
+    expect(values).toEqual([1, 2]);
+    expect(connection.release).toHaveBeenCalledTimes(1);
+    expect(options.cluster.request).toHaveBeenCalledWith('main', undefined);
+  });
+
+  it('should release the connection when the iteration stops early', async () => {
+    const stream = Builder.stream(
+      async function* () {
+        yield 1;
+        yield 2;
+      },
+      'main',
+      undefined,
+      'read'
+    );
+
+    for await (const value of stream) {
+      expect(value).toBe(1);
+      break;
+    }
+
+    expect(connection.release).toHaveBeenCalledTimes(1);
+    expect(options.cluster.request).toHaveBeenCalledWith('main', 'read');
+  });
+
+  it('should not release provided builders', async () => {
+    const builder = new Builder(connection);
+    const stream = Builder.stream(
+      async function* (b) {
+        yield b;
+      },
+      undefined,
+      builder
+    );
+
+    for await (const value of stream) expect(value).toBe(builder);
+    expect(connection.release).not.toHaveBeenCalled();
+  });
+
+  it('should throw if callback is not a function', async () => {
+    // @ts-ignore
+    await expect(Builder.stream(null).next()).rejects.toThrow(QueryError);
+  });
+});
+
+describe('Builder.transaction', () => {
+  let con: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    con = mock.connection();
+    con.beginTransaction = jest.fn(() => Promise.resolve());
+    con.commit = jest.fn(() => Promise.resolve());
+    con.rollback = jest.fn(() => Promise.resolve());
+
+    options.cluster.request.mockImplementation(() => Promise.resolve(con));
+  });
+
+  afterAll(() => {
+    options.cluster.request.mockImplementation(() =>
+      Promise.resolve(connection)
+    );
+  });
+
+  it('should run the queries of the pool in the transaction', async () => {
+    const result = await Builder.transaction(async (builder) => {
+      await expect(Builder.require((b) => b)).resolves.toBe(builder);
+      await expect(Builder.require((b) => b, 'main')).resolves.toBe(builder);
+      await Table.request('users').where('id', 1).update({ name: 'a' });
+
+      // Other pools are not in the transaction
+      await Builder.require((b) => b, 'logs');
+
+      return 'OK';
+    });
+
+    expect(result).toBe('OK');
+    expect(options.cluster.request.mock.calls).toEqual([
+      ['main', 'write'],
+      ['logs', undefined],
+    ]);
+
+    expect(con.beginTransaction).toHaveBeenCalledTimes(1);
+    expect(con.query.mock.calls[0][0]).toMatch(/^UPDATE users/);
+    expect(con.commit).toHaveBeenCalledTimes(1);
+    expect(con.release).toHaveBeenCalledTimes(2);
+
+    // The transaction is over
+    await Builder.require((b) => b);
+    expect(options.cluster.request).toHaveBeenCalledTimes(3);
+  });
+
+  it('should nest transactions with savepoints', async () => {
+    await Builder.transaction(async () => {
+      await Builder.transaction(async () => {
+        await Builder.transaction(() => null);
+      });
+
+      await expect(
+        Builder.transaction(() => {
+          throw new Error('fail');
+        })
+      ).rejects.toThrow('fail');
+    });
+
+    expect(con.query.mock.calls.map(([sql]) => sql)).toEqual([
+      'SAVEPOINT bnjsx_savepoint_1',
+      'SAVEPOINT bnjsx_savepoint_2',
+      'RELEASE SAVEPOINT bnjsx_savepoint_2',
+      'RELEASE SAVEPOINT bnjsx_savepoint_1',
+      'SAVEPOINT bnjsx_savepoint_1',
+      'ROLLBACK TO SAVEPOINT bnjsx_savepoint_1',
+      'RELEASE SAVEPOINT bnjsx_savepoint_1',
+    ]);
+
+    expect(options.cluster.request).toHaveBeenCalledTimes(1);
+    expect(con.commit).toHaveBeenCalledTimes(1);
+    expect(con.rollback).not.toHaveBeenCalled();
+  });
+
+  it('should run sibling nested transactions one after the other', async () => {
+    const order: Array<string> = [];
+
+    await Builder.transaction(async () => {
+      await Promise.all([
+        Builder.transaction(async (builder) => {
+          await new Promise((resolve) => setImmediate(resolve));
+          await builder.raw('SELECT 1');
+          order.push('first');
+        }),
+        Builder.transaction(() => {
+          order.push('second');
+          throw new Error('fail');
+        }).catch(() => null),
+      ]);
+    });
+
+    expect(order).toEqual(['first', 'second']);
+    expect(con.query.mock.calls.map(([sql]) => sql)).toEqual([
+      'SAVEPOINT bnjsx_savepoint_1',
+      'SELECT 1',
+      'RELEASE SAVEPOINT bnjsx_savepoint_1',
+      'SAVEPOINT bnjsx_savepoint_1',
+      'ROLLBACK TO SAVEPOINT bnjsx_savepoint_1',
+      'RELEASE SAVEPOINT bnjsx_savepoint_1',
+    ]);
+  });
+
+  it('should retry transactions failing on deadlocks', async () => {
+    const deadlock = new QueryError('Deadlock found when trying to get lock');
+    const callback = jest
+      .fn()
+      .mockRejectedValueOnce(deadlock)
+      .mockResolvedValueOnce('OK');
+
+    await expect(
+      Builder.transaction(callback, undefined, { retries: 2 })
+    ).resolves.toBe('OK');
+
+    expect(callback).toHaveBeenCalledTimes(2);
+    expect(con.rollback).toHaveBeenCalledTimes(1);
+    expect(con.release).toHaveBeenCalledTimes(2);
+
+    // Other errors and exhausted retries are thrown
+    const error = jest.fn().mockRejectedValue(new Error('fail'));
+    await expect(
+      Builder.transaction(error, undefined, { retries: 2 })
+    ).rejects.toThrow('fail');
+    expect(error).toHaveBeenCalledTimes(1);
+
+    const always = jest.fn().mockRejectedValue(deadlock);
+    await expect(Builder.transaction(always)).rejects.toThrow(deadlock);
+    expect(always).toHaveBeenCalledTimes(1);
+  });
+
+  it('should throw QueryError for invalid arguments', async () => {
+    await expect(Builder.transaction(null)).rejects.toThrow(QueryError);
+    await expect(
+      Builder.transaction(() => null, undefined, { retries: -1 })
+    ).rejects.toThrow('Invalid transaction options');
+  });
+
+  it('should roll back to savepoints on SQLite', async () => {
+    const sqlite: any = await new SQLite(':memory:').create();
+    sqlite.id = Symbol('PoolConnection');
+    sqlite.release = jest.fn();
+
+    options.cluster.request.mockImplementation(() => Promise.resolve(sqlite));
+
+    await sqlite.query('CREATE TABLE logs (id INTEGER PRIMARY KEY, name TEXT)');
+
+    await Table.transaction(async (table) => {
+      await table('logs').insert({ name: 'kept' });
+
+      await Table.transaction(async () => {
+        await Table.request('logs').insert({ name: 'discarded' });
+        throw new Error('fail');
+      }).catch(() => null);
+    });
+
+    await expect(sqlite.query('SELECT name FROM logs')).resolves.toEqual([
+      { name: 'kept' },
+    ]);
+
+    await sqlite.close();
+  });
 });
 
 describe('Builder', () => {
@@ -1458,3 +1458,148 @@ describe('ClusterPool', () => {
     }).toThrow(`Invalid pool name: ${String(123 as any)}`);
   });
 });
+
+describe('Cluster replicas', () => {
+  const replica = (name: string, writer: string, connection?: Connection) => {
+    return new ClusterPool(
+      name,
+      mock.driver(connection || mock.connection()),
+      undefined,
+      writer
+    );
+  };
+
+  it('should validate the writer pool name', () => {
+    expect(() => replica('replica', 123 as any)).toThrow(
+      'Invalid writer pool: 123'
+    );
+    expect(() => replica('main', 'main')).toThrow(ClusterPoolError);
+    expect(replica('replica', 'main').replicaOf).toBe('main');
+  });
+
+  it('should route reads to replicas and writes to writers', () => {
+    const main = mock.pool('main');
+    const replica1 = replica('replica_1', 'main');
+    const replica2 = replica('replica_2', 'main');
+    const other = mock.pool('other');
+
+    const cluster = new Cluster(replica1, main, replica2, other);
+
+    expect(cluster.get.pool('main', 'read')).toBe(replica1);
+    expect(cluster.get.pool('main', 'read')).toBe(replica2);
+    expect(cluster.get.pool('main', 'read')).toBe(replica1);
+    expect(cluster.get.pool('main', 'write')).toBe(main);
+    expect(cluster.get.pool('main')).toBe(main);
+
+    // Pools without replicas serve reads
+    expect(cluster.get.pool('other', 'read')).toBe(other);
+
+    // Unnamed requests never go to replicas
+    expect(cluster.get.pool()).toBe(main);
+    expect(cluster.get.pool()).toBe(other);
+    expect(cluster.get.pool()).toBe(main);
+
+    // Replicas can be requested by name
+    expect(cluster.get.pool('replica_2')).toBe(replica2);
+  });
+
+  it('should set lagging replicas aside until they catch up', async () => {
+    const status = jest.fn();
+    const connection = mock.connection();
+    connection.query = jest.fn(() => Promise.resolve(status()));
+
+    const main = mock.pool('main');
+    const replica1 = replica('replica_1', 'main', connection);
+    const replica2 = replica('replica_2', 'main');
+    const cluster = new Cluster(main, replica1, replica2);
+
+    cluster.set.lag(10);
+
+    status.mockReturnValue([{ Seconds_Behind_Source: 11 }]);
+    await cluster.check();
+
+    expect(connection.query).toHaveBeenCalledWith(
+      'SHOW REPLICA STATUS',
+      undefined
+    );
+    expect(cluster.has.lagging('replica_1')).toBe(true);
+    expect(cluster.get.warnings()).toEqual([
+      'Replica lagging behind in: replica_1',
+    ]);
+
+    expect(cluster.get.pool('main', 'read')).toBe(replica2);
+    expect(cluster.get.pool('main', 'read')).toBe(replica2);
+
+    // Stopped replication
+    status.mockReturnValue([{ Seconds_Behind_Source: null }]);
+    await cluster.check();
+    expect(cluster.get.pools.lagging()).toEqual([replica1]);
+
+    status.mockReturnValue([{ Seconds_Behind_Source: 10 }]);
+    await cluster.check();
+
+    expect(cluster.has.lagging()).toBe(false);
+    expect(cluster.get.warnings()).toContain('Replica caught up in: replica_1');
+
+    // All replicas lagging: reads go to the writer
+    status.mockImplementation(() => {
+      throw new Error('Ops');
+    });
+
+    cluster.freeze('replica_2');
+    await cluster.check();
+    expect(cluster.get.pool('main', 'read')).toBe(main);
+  });
+
+  it('should fall back to SHOW SLAVE STATUS and log failed checks', async () => {
+    const connection = mock.connection();
+    connection.query = jest.fn((sql: string) => {
+      if (sql === 'SHOW REPLICA STATUS')
+        return Promise.reject(new Error('Syntax'));
+      return Promise.resolve([{ Seconds_Behind_Master: 11 }]);
+    });
+
+    const main = mock.pool('main');
+    const replica1 = replica('replica_1', 'main', connection);
+    const cluster = new Cluster(main, replica1);
+
+    cluster.set.lag(10);
+    await cluster.check();
+
+    expect(connection.query).toHaveBeenCalledWith(
+      'SHOW SLAVE STATUS',
+      undefined
+    );
+    expect(cluster.has.lagging('replica_1')).toBe(true);
+
+    connection.query = jest.fn(() => Promise.reject(new Error('Denied')));
+    cluster.set.lag(20);
+    await cluster.check();
+
+    expect(cluster.has.lagging('replica_1')).toBe(true);
+    expect(cluster.get.warnings()).toContain(
+      'Replica check failed in: replica_1: Denied'
+    );
+  });
+
+  it('should check the replicas periodically', async () => {
+    jest.useFakeTimers();
+
+    const cluster = new Cluster();
+    const check = jest.spyOn(cluster, 'check').mockResolvedValue();
+
+    cluster.monitor(1000);
+    jest.advanceTimersByTime(2500);
+    expect(check).toHaveBeenCalledTimes(2);
+
+    cluster.monitor(0);
+    jest.advanceTimersByTime(2000);
+    expect(check).toHaveBeenCalledTimes(2);
+
+    expect(() => cluster.monitor(-1)).toThrow(ClusterError);
+    expect(() => cluster.set.lag(1.5)).toThrow('Invalid replication lag');
+    expect(cluster.get.lag()).toBe(5);
+
+    jest.useRealTimers();
+  });
+});
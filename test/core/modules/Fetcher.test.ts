@@ -1,4 +1,5 @@
 import { Condition, ref } from '../../../src/core/sql/Condition';
+import { DESC } from '../../../src/core/sql/Select';
 import {
   Clause,
   HavingClause,
@@ -737,6 +738,106 @@ describe('Fetcher', () => {
     expect(con.query).toHaveBeenCalled();
   });
 
+  test('Should execute cursor pagination', async () => {
+    process.env.APP_KEY = 'secret';
+
+    const page = await tq
+      .where('role', 'admin')
+      .orderBy('name')
+      .cursor(undefined, 1);
+
+    expect(con.query).toHaveBeenCalledWith(
+      'SELECT * FROM users WHERE role = ? ORDER BY name ASC LIMIT 2;',
+      ['admin']
+    );
+    expect(page.result).toEqual([{ name: 'a' }]);
+
+    await tq.cursor(page.cursor.next, 1);
+
+    expect(con.query).toHaveBeenLastCalledWith(
+      'SELECT * FROM users WHERE (role = ?) AND ((name > ?)) ORDER BY name ASC LIMIT 2;',
+      ['admin', 'a']
+    );
+  });
+
+  test('Should stream rows in chunks', async () => {
+    con.stream = jest.fn(async function* () {
+      yield [{ id: 1 }];
+    });
+
+    const chunks = [];
+    for await (const rows of tq.where('id', '>', 0).stream(100)) {
+      chunks.push(rows);
+    }
+
+    expect(chunks).toEqual([[{ id: 1 }]]);
+    expect(con.stream).toHaveBeenCalledWith(
+      'SELECT * FROM users WHERE id > ?;',
+      [0],
+      100
+    );
+  });
+
+  test('Should select subqueries and window functions', async () => {
+    await tq
+      .columns('id', 'score')
+      .subquery((select) => {
+        select
+          .col('COUNT(*)')
+          .from('orders')
+          .where((col) => col('orders.user_id').equal(ref('users.id')));
+      }, 'orders')
+      .rowNumber('position', { order: [{ column: 'score', type: DESC }] })
+      .over('SUM(score)', 'total', { partition: ['team_id'] })
+      .where('id', 'in', (select) => {
+        select
+          .col('user_id')
+          .from('bans')
+          .where((col) => col('active').equal(0));
+      })
+      .all();
+
+    expect(con.query).toHaveBeenCalledWith(
+      'SELECT id, score, (SELECT COUNT(*) FROM orders WHERE orders.user_id = users.id) AS orders, ' +
+        'ROW_NUMBER() OVER (ORDER BY score DESC) AS position, ' +
+        'SUM(score) OVER (PARTITION BY team_id) AS total FROM users ' +
+        'WHERE id IN (SELECT user_id FROM bans WHERE active = ?);',
+      [0]
+    );
+  });
+
+  test('Should add common table expressions', async () => {
+    await tq
+      .cte('admins', (select) => {
+        select.from('roles').where((col) => col('name').equal('admin'));
+      })
+      .recursive('numbers', (select) => select.col('1').from('roles'), 'n')
+      .innerJoin('admins', 'admins.user_id', 'users.id')
+      .all();
+
+    expect(con.query).toHaveBeenCalledWith(
+      'WITH RECURSIVE admins AS (SELECT * FROM roles WHERE name = ?), ' +
+        'numbers(n) AS (SELECT 1 FROM roles) ' +
+        'SELECT * FROM users INNER JOIN admins ON admins.user_id = users.id;',
+      ['admin']
+    );
+  });
+
+  test('Should aggregate a column', async () => {
+    con.query = jest.fn().mockResolvedValue([{ result: '7' }]);
+
+    expect(await tq.where('active', 1).sum('score')).toBe(7);
+    expect(await tq.avg('score')).toBe(7);
+    expect(await tq.min('score')).toBe('7');
+    expect(await tq.max('score')).toBe('7');
+
+    expect(con.query).toHaveBeenCalledWith(
+      'SELECT SUM(score) AS result FROM users WHERE active = ?',
+      [1]
+    );
+    expect(con.query).toHaveBeenCalledTimes(4);
+  });
+
   test('Should call debug logging', async () => {
     const spy = jest.spyOn(console, 'log').mockImplementation(() => {});
     await tq.columns('id').where('id', 1).debug().first();
@@ -0,0 +1,338 @@
+const options: any = {
+  auth: {
+    table: 'users',
+    roles: 'roles',
+    permissions: 'permissions',
+    userRoles: 'role_user',
+    rolePermissions: 'permission_role',
+  },
+};
+
+jest.mock('../../../src/config', () => ({
+  config: () => {
+    return {
+      loadSync: () => options,
+      resolveSync: () => __dirname,
+    };
+  },
+}));
+
+import {
+  can,
+  Gate,
+  GateError,
+  PermissionsSeeder,
+  RolePermissionsGenerator,
+  RolesGenerator,
+  RolesSeeder,
+  UserRolesGenerator,
+} from '../../../src/core/modules/Gate';
+import { Builder } from '../../../src/core/modules/Builder';
+import { Table } from '../../../src/core/modules/Table';
+import { ForbiddenError } from '../../../src/errors';
+
+/**
+ * An in-memory table, understanding the conditions used by `Gate`.
+ */
+const memory = () => {
+  const rows: Array<any> = [];
+  let id = 0;
+
+  const matcher = (cb: any) => {
+    const conditions: Array<(row: any) => boolean> = [];
+    let column: string;
+
+    const con: any = {
+      col: (name: string) => ((column = name), con),
+      equal: (value: any) => {
+        const name = column;
+        conditions.push((row) => row[name] === value);
+        return con;
+      },
+      in: (...values: any[]) => {
+        const name = column;
+        conditions.push((row) => values.includes(row[name]));
+        return con;
+      },
+      and: () => con,
+    };
+
+    cb(con.col, con);
+    return (row: any) => conditions.every((test) => test(row));
+  };
+
+  return {
+    rows,
+    insert: jest.fn(async (row: any) => (rows.push({ id: ++id, ...row }), id)),
+    where: jest.fn((cb: any) => {
+      const test = matcher(cb);
+
+      return {
+        first: async () => rows.find(test) || null,
+        all: async () => rows.filter(test),
+      };
+    }),
+    find: () => ({
+      oneBy: async (column: string, value: any) => {
+        return rows.find((row) => row[column] === value) || null;
+      },
+    }),
+  };
+};
+
+describe('can', () => {
+  it('should match exact permissions', () => {
+    expect(can(['posts.update'], 'posts.update')).toBe(true);
+    expect(can(['posts.update'], 'posts.delete')).toBe(false);
+  });
+
+  it('should match wildcards', () => {
+    expect(can(['posts.*'], 'posts.update')).toBe(true);
+    expect(can(['posts.*'], 'postsupdate')).toBe(false);
+    expect(can(['posts.*'], 'users.update')).toBe(false);
+    expect(can(['*'], 'users.update')).toBe(true);
+  });
+
+  it('should refuse invalid arguments', () => {
+    expect(can(undefined, 'posts.update')).toBe(false);
+    expect(can(['posts.update'], undefined)).toBe(false);
+  });
+});
+
+describe('Gate', () => {
+  let tables: Record<string, ReturnType<typeof memory>>;
+
+  beforeEach(() => {
+    tables = {
+      roles: memory(),
+      permissions: memory(),
+      role_user: memory(),
+      permission_role: memory(),
+    };
+
+    jest
+      .spyOn(Table, 'request')
+      .mockImplementation((name: string) => tables[name] as any);
+
+    tables.roles.rows.push({ id: 1, name: 'editor' }, { id: 2, name: 'admin' });
+    tables.permissions.rows.push(
+      { id: 1, name: 'posts.create' },
+      { id: 2, name: 'posts.update' },
+      { id: 3, name: 'users.*' }
+    );
+    tables.permission_role.rows.push(
+      { role_id: 1, permission_id: 1 },
+      { role_id: 1, permission_id: 2 },
+      { role_id: 2, permission_id: 3 }
+    );
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  describe('rolesOf / permissionsOf', () => {
+    it('should load the roles and permissions of a user', async () => {
+      tables.role_user.rows.push({ user_id: 7, role_id: 1 });
+
+      await expect(Gate.rolesOf({ id: 7 })).resolves.toEqual(['editor']);
+      await expect(Gate.permissionsOf({ id: 7 })).resolves.toEqual([
+        'posts.create',
+        'posts.update',
+      ]);
+    });
+
+    it('should return nothing for users without roles and guests', async () => {
+      await expect(Gate.rolesOf({ id: 7 })).resolves.toEqual([]);
+      await expect(Gate.permissionsOf({ id: 7 })).resolves.toEqual([]);
+      await expect(Gate.permissionsOf(null)).resolves.toEqual([]);
+    });
+
+    it('should load permissions once per user row', async () => {
+      const user = { id: 7 };
+
+      await Gate.permissionsOf(user);
+      await Gate.permissionsOf(user);
+
+      expect(tables.role_user.where).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('allows', () => {
+    it('should check the role permissions', async () => {
+      tables.role_user.rows.push({ user_id: 7, role_id: 2 });
+
+      await expect(Gate.allows({ id: 7 }, 'users.delete')).resolves.toBe(true);
+      await expect(Gate.allows({ id: 7 }, 'posts.update')).resolves.toBe(false);
+    });
+
+    it('should refuse guests', async () => {
+      await expect(Gate.allows(null, 'posts.update')).resolves.toBe(false);
+    });
+
+    it('should let the policy decide first', async () => {
+      const post = { id: 1, user_id: 7 };
+      const policy = jest.fn((user, action, resource) => {
+        if (action === 'posts.update') return resource.user_id === user?.id;
+      });
+
+      await expect(
+        Gate.allows({ id: 7 }, 'posts.update', post, policy)
+      ).resolves.toBe(true);
+      await expect(
+        Gate.allows({ id: 8 }, 'posts.update', post, policy)
+      ).resolves.toBe(false);
+
+      expect(policy).toHaveBeenCalledWith({ id: 7 }, 'posts.update', post);
+      expect(tables.role_user.where).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to permissions when the policy does not decide', async () => {
+      tables.role_user.rows.push({ user_id: 7, role_id: 1 });
+      const policy = jest.fn(async () => undefined);
+
+      await expect(
+        Gate.allows({ id: 7 }, 'posts.create', undefined, policy)
+      ).resolves.toBe(true);
+    });
+
+    it('should throw for invalid actions', async () => {
+      await expect(Gate.allows({ id: 7 }, null)).rejects.toThrow(GateError);
+    });
+  });
+
+  describe('authorize', () => {
+    it('should throw ForbiddenError when not allowed', async () => {
+      await expect(Gate.authorize({ id: 7 }, 'posts.update')).rejects.toThrow(
+        ForbiddenError
+      );
+    });
+
+    it('should resolve when allowed', async () => {
+      await expect(
+        Gate.authorize(null, 'posts.show', undefined, () => true)
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe('assign / grant', () => {
+    it('should give roles to users once', async () => {
+      const user = { id: 7 };
+      await expect(Gate.permissionsOf(user)).resolves.toEqual([]);
+
+      await Gate.assign(user, 'editor');
+      await Gate.assign(user, 'editor');
+
+      expect(tables.role_user.rows).toMatchObject([{ user_id: 7, role_id: 1 }]);
+      await expect(Gate.permissionsOf(user)).resolves.toHaveLength(2);
+    });
+
+    it('should give permissions to roles once', async () => {
+      await Gate.grant('admin', 'posts.update');
+      await Gate.grant('admin', 'posts.update');
+
+      expect(tables.permission_role.rows).toHaveLength(4);
+      expect(tables.permission_role.rows[3]).toMatchObject({
+        role_id: 2,
+        permission_id: 2,
+      });
+    });
+
+    it('should throw for unknown roles and permissions', async () => {
+      await expect(Gate.assign({ id: 7 }, 'owner')).rejects.toThrow(
+        'Undefined role: owner'
+      );
+      await expect(Gate.grant('owner', 'posts.update')).rejects.toThrow(
+        GateError
+      );
+      await expect(Gate.grant('admin', 'posts.delete')).rejects.toThrow(
+        'Undefined permission: posts.delete'
+      );
+    });
+  });
+});
+
+describe('Gate generators', () => {
+  const builder = (driver: string) => {
+    const instance = Object.create(Builder.prototype);
+    instance.raw = jest.fn().mockResolvedValue(undefined);
+    instance.get = { connection: () => ({ driver: { id: Symbol(driver) } }) };
+    return instance;
+  };
+
+  it('should create the roles table', async () => {
+    const mysql = builder('MySQL');
+    const generator = new RolesGenerator();
+
+    generator.set.builder(mysql);
+    await generator.create();
+
+    const sql = mysql.raw.mock.calls[0][0];
+    expect(sql).toMatch(/^CREATE TABLE roles/);
+    expect(sql).toContain('name VARCHAR(100) NOT NULL');
+    expect(sql).toContain('CONSTRAINT unique_roles_name UNIQUE (name)');
+  });
+
+  it('should link users to roles', async () => {
+    const mysql = builder('MySQL');
+    const generator = new UserRolesGenerator();
+
+    generator.set.builder(mysql);
+    await generator.create();
+
+    const sql = mysql.raw.mock.calls[0][0];
+    expect(sql).toMatch(/^CREATE TABLE role_user/);
+    expect(sql).toContain(
+      'FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE'
+    );
+    expect(sql).toContain(
+      'FOREIGN KEY (role_id) REFERENCES roles(id) ON DELETE CASCADE'
+    );
+    expect(sql).toMatch(/UNIQUE \(user_id, role_id\)/);
+  });
+
+  it('should link roles to permissions', async () => {
+    const mysql = builder('MySQL');
+    const generator = new RolePermissionsGenerator();
+
+    generator.set.builder(mysql);
+    await generator.create();
+
+    const sql = mysql.raw.mock.calls[0][0];
+    expect(sql).toMatch(/^CREATE TABLE permission_role/);
+    expect(sql).toContain(
+      'FOREIGN KEY (permission_id) REFERENCES permissions(id) ON DELETE CASCADE'
+    );
+  });
+});
+
+describe('Gate seeders', () => {
+  it('should insert the given names', async () => {
+    const exec = jest.fn().mockResolvedValue(undefined);
+    const query = { into: jest.fn(), rows: jest.fn(), exec };
+    query.into.mockReturnValue(query);
+    query.rows.mockReturnValue(query);
+
+    const builder = Object.create(Builder.prototype);
+    builder.insert = () => query;
+
+    const seeder = new RolesSeeder(['admin', 'editor']);
+    seeder.set.builder(builder);
+    await seeder.seed();
+
+    expect(query.into).toHaveBeenCalledWith('roles');
+    expect(query.rows).toHaveBeenCalledWith([
+      { name: 'admin', created_at: expect.any(String) },
+      { name: 'editor', created_at: expect.any(String) },
+    ]);
+  });
+
+  it('should use the permissions table', () => {
+    const seeder = new PermissionsSeeder(['posts.update']);
+    expect(seeder.get.table()).toBe('permissions');
+    expect(seeder.get.rows()).toBe(1);
+  });
+
+  it('should throw for invalid names', () => {
+    expect(() => new RolesSeeder([1] as any)).toThrow(GateError);
+    expect(() => new PermissionsSeeder(undefined)).toThrow(GateError);
+  });
+});
@@ -0,0 +1,201 @@
+const options: any = {};
+
+jest.mock('../../../src/config', () => ({
+  config: () => {
+    return {
+      loadSync: () => options,
+      resolveSync: () => __dirname,
+    };
+  },
+}));
+
+import { createHmac, generateKeyPairSync } from 'crypto';
+import { Jwt, JwtError } from '../../../src/core/modules/Jwt';
+
+describe('Jwt', () => {
+  const part = (value: any) =>
+    Buffer.from(JSON.stringify(value)).toString('base64url');
+
+  const forge = (header: any, payload: any, secret = 'app-key') => {
+    const data = `${part(header)}.${part(payload)}`;
+    const sig = createHmac('sha256', secret).update(data).digest('base64url');
+    return `${data}.${sig}`;
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers({ doNotFake: ['setImmediate', 'nextTick'] });
+    jest.setSystemTime(new Date('2025-01-01T00:00:00Z'));
+
+    process.env.APP_KEY = 'app-key';
+    delete process.env.APP_PREVIOUS_KEYS;
+
+    options.jwt = {
+      algorithm: 'HS256',
+      ttl: 3600,
+      skew: 60,
+    };
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    delete process.env.APP_KEY;
+  });
+
+  const now = () => Math.floor(Date.now() / 1000);
+
+  describe('HS256', () => {
+    it('should sign and verify tokens with the app key', () => {
+      const token = Jwt.sign({ sub: '7', scope: 'posts.read' });
+
+      expect(token.split('.')).toHaveLength(3);
+      expect(Jwt.verify(token)).toEqual({
+        iat: now(),
+        exp: now() + 3600,
+        sub: '7',
+        scope: 'posts.read',
+      });
+    });
+
+    it('should accept tokens signed with previous app keys', () => {
+      const token = Jwt.sign({ sub: '7' });
+
+      process.env.APP_KEY = 'new-key';
+      process.env.APP_PREVIOUS_KEYS = 'app-key';
+
+      expect(Jwt.verify(token).sub).toBe('7');
+    });
+
+    it('should use the configured secret', () => {
+      options.jwt.secret = 'secret';
+      const token = Jwt.sign({ sub: '7' });
+
+      options.jwt.secret = 'other';
+      expect(() => Jwt.verify(token)).toThrow('Invalid JWT signature');
+    });
+
+    it('should reject tampered tokens', () => {
+      const [header, , signature] = Jwt.sign({ sub: '7' }).split('.');
+      const token = `${header}.${part({ sub: '1' })}.${signature}`;
+
+      expect(() => Jwt.verify(token)).toThrow('Invalid JWT signature');
+    });
+  });
+
+  describe('RS256', () => {
+    const { privateKey, publicKey } = generateKeyPairSync('rsa', {
+      modulusLength: 2048,
+      publicKeyEncoding: { type: 'spki', format: 'pem' },
+      privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+    });
+
+    beforeEach(() => {
+      options.jwt = { ...options.jwt, algorithm: 'RS256', publicKey };
+    });
+
+    it('should sign with the private key and verify with the public key', () => {
+      options.jwt.privateKey = privateKey;
+
+      const token = Jwt.sign({ sub: '7' });
+      expect(Jwt.verify(token).sub).toBe('7');
+    });
+
+    it('should require the keys', () => {
+      expect(() => Jwt.sign({ sub: '7' })).toThrow('Missing JWT private key');
+
+      options.jwt.privateKey = privateKey;
+      const token = Jwt.sign({ sub: '7' });
+
+      options.jwt.publicKey = undefined;
+      expect(() => Jwt.verify(token)).toThrow('Missing JWT public key');
+    });
+
+    it('should refuse HS256 tokens signed with the public key', () => {
+      const token = forge({ alg: 'HS256' }, { sub: '1' }, publicKey);
+      expect(() => Jwt.verify(token)).toThrow('Invalid JWT algorithm');
+    });
+  });
+
+  describe('claims', () => {
+    it('should reject expired tokens, within the clock skew', () => {
+      const token = Jwt.sign({ sub: '7' }, { ttl: 10 });
+
+      jest.advanceTimersByTime(69 * 1000);
+      expect(Jwt.verify(token).sub).toBe('7');
+
+      jest.advanceTimersByTime(1000);
+      expect(() => Jwt.verify(token)).toThrow('Expired JWT');
+      expect(() => Jwt.verify(token, { skew: 120 })).not.toThrow();
+    });
+
+    it('should reject tokens not active yet, within the clock skew', () => {
+      const soon = forge({ alg: 'HS256' }, { nbf: now() + 60 });
+      const later = forge({ alg: 'HS256' }, { nbf: now() + 61 });
+
+      expect(() => Jwt.verify(soon)).not.toThrow();
+      expect(() => Jwt.verify(later)).toThrow('JWT not active yet');
+    });
+
+    it('should reject invalid time claims', () => {
+      const token = forge({ alg: 'HS256' }, { exp: 'tomorrow' });
+      expect(() => Jwt.verify(token)).toThrow('Invalid JWT expiry');
+    });
+
+    it('should set and check the issuer', () => {
+      options.jwt.issuer = 'bnjsx';
+      const token = Jwt.sign({ sub: '7' });
+
+      expect(Jwt.verify(token).iss).toBe('bnjsx');
+      expect(() => Jwt.verify(token, { issuer: 'other' })).toThrow(
+        'Invalid JWT issuer'
+      );
+    });
+
+    it('should set and check the audience', () => {
+      const token = Jwt.sign({ sub: '7' }, { audience: 'mobile' });
+
+      expect(Jwt.verify(token, { audience: ['web', 'mobile'] }).aud).toBe(
+        'mobile'
+      );
+      expect(() => Jwt.verify(token, { audience: 'web' })).toThrow(
+        'Invalid JWT audience'
+      );
+
+      options.jwt.audience = 'web';
+      expect(() => Jwt.verify(token)).toThrow('Invalid JWT audience');
+
+      const many = forge({ alg: 'HS256' }, { aud: ['api', 'web'] });
+      expect(() => Jwt.verify(many)).not.toThrow();
+    });
+
+    it('should allow tokens without expiry', () => {
+      const token = Jwt.sign({ sub: '7' }, { ttl: 0 });
+      expect(Jwt.verify(token).exp).toBeUndefined();
+    });
+  });
+
+  describe('malformed tokens', () => {
+    it('should reject them', () => {
+      expect(() => Jwt.verify(undefined)).toThrow(JwtError);
+      expect(() => Jwt.verify('a.b')).toThrow('Malformed JWT');
+      expect(() => Jwt.verify('a.b.c')).toThrow('Malformed JWT');
+      expect(() => Jwt.verify(`${part({ alg: 'none' })}.${part({})}.`)).toThrow(
+        'Invalid JWT algorithm'
+      );
+    });
+
+    it('should reject invalid payloads', () => {
+      expect(() => Jwt.sign(null)).toThrow('Invalid JWT payload');
+    });
+  });
+
+  describe('scopes', () => {
+    it('should read the scope or scopes claims', () => {
+      expect(Jwt.scopes({ scope: 'posts.read  posts.update' })).toEqual([
+        'posts.read',
+        'posts.update',
+      ]);
+      expect(Jwt.scopes({ scopes: ['posts.read', 1] })).toEqual(['posts.read']);
+      expect(Jwt.scopes({})).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,285 @@
+const options: any = {};
+
+jest.mock('../../../src/config', () => ({
+  config: () => {
+    return {
+      loadSync: () => options,
+      resolveSync: () => __dirname,
+    };
+  },
+}));
+
+import { Builder } from '../../../src/core/modules/Builder';
+import {
+  belongsTo,
+  hasMany,
+  manyToMany,
+  Model,
+  ModelError,
+} from '../../../src/core/modules/Model';
+import { SQLite } from '../../../src/core/modules/SQLite';
+
+class User extends Model {
+  static table = 'users';
+  static relations = {
+    posts: hasMany(() => Post, 'user_id'),
+    manager: belongsTo(() => User, 'manager_id'),
+  };
+}
+
+class Post extends Model {
+  static table = 'posts';
+  static relations = {
+    author: belongsTo(() => User, 'user_id'),
+    comments: hasMany(() => Comment, 'post_id'),
+    tags: manyToMany(() => Tag, 'post_tag', 'post_id', 'tag_id'),
+  };
+}
+
+class Comment extends Model {
+  static table = 'comments';
+}
+
+class Tag extends Model {
+  static table = 'tags';
+  static relations = {
+    posts: manyToMany(() => Post, 'post_tag', 'tag_id', 'post_id'),
+  };
+}
+
+describe('Model', () => {
+  let connection: any;
+  let builder: Builder;
+
+  beforeAll(async () => {
+    connection = await new SQLite(':memory:').create();
+    connection.id = Symbol('PoolConnection');
+    connection.release = jest.fn();
+    builder = new Builder(connection);
+
+    options.default = 'default';
+    options.audit = { enabled: false };
+    options.cluster = {
+      request: async () => connection,
+      get: { pool: () => ({ driver: connection.driver }) },
+    };
+
+    const statements = [
+      'CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT, manager_id INTEGER)',
+      'CREATE TABLE posts (id INTEGER PRIMARY KEY, user_id INTEGER, title TEXT, published INTEGER)',
+      'CREATE TABLE comments (id INTEGER PRIMARY KEY, post_id INTEGER, body TEXT)',
+      'CREATE TABLE tags (id INTEGER PRIMARY KEY, name TEXT)',
+      'CREATE TABLE post_tag (post_id INTEGER, tag_id INTEGER)',
+      "INSERT INTO users VALUES (1, 'ana', NULL), (2, 'bob', 1), (3, 'cid', 1)",
+      "INSERT INTO posts VALUES (1, 1, 'a', 1), (2, 1, 'b', 0), (3, 2, 'c', 1)",
+      "INSERT INTO comments VALUES (1, 1, 'x'), (2, 1, 'y'), (3, 3, 'z')",
+      "INSERT INTO tags VALUES (1, 'js'), (2, 'sql')",
+      'INSERT INTO post_tag VALUES (1, 1), (1, 2), (3, 2)',
+    ];
+
+    for (const sql of statements) await connection.query(sql);
+  });
+
+  afterAll(() => connection.close());
+
+  afterEach(() => jest.restoreAllMocks());
+
+  describe('relations', () => {
+    it('should throw ModelError for invalid definitions', () => {
+      expect(() => hasMany(null, 'user_id')).toThrow(ModelError);
+      expect(() => belongsTo(() => User, '')).toThrow(ModelError);
+      expect(() =>
+        manyToMany(() => Tag, 'post_tag', 'post_id', 1 as any)
+      ).toThrow('Invalid relation relatedKey: 1');
+    });
+
+    it('should throw ModelError for undefined relations', async () => {
+      await expect(User.with('likes').all()).rejects.toThrow(
+        "Undefined relation 'likes' on model User"
+      );
+
+      expect(() => User.whereHas('toString')).toThrow(ModelError);
+      expect(() => User.with('posts..comments')).toThrow(ModelError);
+    });
+  });
+
+  describe('with', () => {
+    it('should eager load relations in one query per relation', async () => {
+      const query = jest.spyOn(connection, 'query');
+      const posts = await Post.with('author', 'tags', 'comments').all();
+
+      expect(query).toHaveBeenCalledTimes(4);
+      expect(query.mock.calls[2]).toEqual([
+        'SELECT tags.*, post_tag.post_id AS bnjsx_key FROM tags ' +
+          'INNER JOIN post_tag ON post_tag.tag_id = tags.id ' +
+          'WHERE post_tag.post_id IN (?, ?, ?);',
+        [1, 2, 3],
+      ]);
+
+      expect(posts).toEqual([
+        {
+          id: 1,
+          user_id: 1,
+          title: 'a',
+          published: 1,
+          author: { id: 1, name: 'ana', manager_id: null },
+          tags: [
+            { id: 1, name: 'js' },
+            { id: 2, name: 'sql' },
+          ],
+          comments: [
+            { id: 1, post_id: 1, body: 'x' },
+            { id: 2, post_id: 1, body: 'y' },
+          ],
+        },
+        {
+          id: 2,
+          user_id: 1,
+          title: 'b',
+          published: 0,
+          author: { id: 1, name: 'ana', manager_id: null },
+          tags: [],
+          comments: [],
+        },
+        {
+          id: 3,
+          user_id: 2,
+          title: 'c',
+          published: 1,
+          author: { id: 2, name: 'bob', manager_id: 1 },
+          tags: [{ id: 2, name: 'sql' }],
+          comments: [{ id: 3, post_id: 3, body: 'z' }],
+        },
+      ]);
+    });
+
+    it('should load nested and constrained relations', async () => {
+      const user = await User.query(builder)
+        .with('posts.comments', 'manager')
+        .with({ posts: (query) => query.where('published', 1) })
+        .where('id', 1)
+        .first();
+
+      expect(user.manager).toBeNull();
+      expect(user.posts).toHaveLength(1);
+      expect(user.posts[0].comments.map((c: any) => c.body)).toEqual([
+        'x',
+        'y',
+      ]);
+    });
+
+    it('should load relations with rows fetched beforehand', async () => {
+      const rows = await builder.select().from('tags').exec();
+      await Tag.load(rows, 'posts.author');
+
+      expect(rows[1].posts.map((post: any) => post.author.name)).toEqual([
+        'ana',
+        'bob',
+      ]);
+
+      expect(await Post.find(2, 'tags')).toMatchObject({ id: 2, tags: [] });
+    });
+
+    it('should query the key lists in chunks', async () => {
+      const rows: Array<any> = Array.from({ length: 1500 }, (_, i) => ({
+        id: i + 1,
+      }));
+      const query = jest.spyOn(connection, 'query');
+
+      await User.load(rows, 'posts');
+
+      expect(query).toHaveBeenCalledTimes(2);
+      expect(query.mock.calls[1][1]).toHaveLength(500);
+      expect(rows[0].posts).toHaveLength(2);
+      expect(rows[1499].posts).toEqual([]);
+    });
+  });
+
+  describe('withCount', () => {
+    it('should count related rows', async () => {
+      const posts = await Post.withCount('comments', 'tags', {
+        author: (query) => query.where('name', 'bob'),
+      }).all();
+
+      expect(
+        posts.map((post) => [
+          post.comments_count,
+          post.tags_count,
+          post.author_count,
+        ])
+      ).toEqual([
+        [2, 2, 0],
+        [0, 0, 0],
+        [1, 1, 1],
+      ]);
+
+      expect(() => Post.withCount('comments.author')).toThrow(ModelError);
+    });
+  });
+
+  describe('whereHas', () => {
+    it('should filter rows by related rows', async () => {
+      const names = async (query: any) => {
+        return (await query.all()).map((user: any) => user.name);
+      };
+
+      expect(await names(User.whereHas('posts'))).toEqual(['ana', 'bob']);
+
+      expect(
+        await names(User.whereHas('posts', (col) => col('published').equal(0)))
+      ).toEqual(['ana']);
+
+      expect(
+        await names(
+          User.query().whereHas('posts.tags', (col) => col('name').equal('js'))
+        )
+      ).toEqual(['ana']);
+
+      expect(
+        await names(User.query().where('id', 3).orWhereDoesntHave('manager'))
+      ).toEqual(['ana', 'cid']);
+    });
+
+    it('should alias self relations', async () => {
+      const query = jest.spyOn(connection, 'query');
+      const users = await User.whereHas('manager', (col) =>
+        col('name').equal('ana')
+      )
+        .andWhere('id', '>', 2)
+        .all();
+
+      expect(query.mock.calls[0]).toEqual([
+        'SELECT * FROM users WHERE EXISTS (SELECT 1 FROM users AS bnjsx_1 ' +
+          'WHERE bnjsx_1.id = users.manager_id AND (name = ?)) AND id > ?;',
+        ['ana', 2],
+      ]);
+
+      expect(users.map((user) => user.id)).toEqual([3]);
+    });
+
+    it('should paginate with relations', async () => {
+      const page = await Post.query()
+        .whereHas('comments')
+        .with('author')
+        .paginate(2, 1);
+
+      expect(page.result).toMatchObject([{ id: 3, author: { name: 'bob' } }]);
+      expect(page.total).toEqual({ items: 2, pages: 2 });
+    });
+
+    it('should cursor paginate with relations', async () => {
+      process.env.APP_KEY = 'secret';
+
+      const query = () => Post.with('author').orderBy('id');
+      const first = await query().cursor(undefined, 2);
+      const second = await query().cursor(first.cursor.next, 2);
+
+      expect(first.result).toMatchObject([
+        { id: 1, author: { name: 'ana' } },
+        { id: 2, author: { name: 'ana' } },
+      ]);
+      expect(second.result).toMatchObject([{ id: 3, author: { name: 'bob' } }]);
+      expect(second.cursor.next).toBeUndefined();
+    });
+  });
+});
@@ -2,6 +2,7 @@ jest.mock('mysql2/promise');
 
 import mysql from 'mysql2/promise';
 import { Connection } from 'mysql2';
+import { Readable } from 'stream';
 
 import { MySQL } from '../../../src/core';
 
@@ -148,6 +149,77 @@ describe('MySQL', () => {
       expect(mockConnection.execute).toHaveBeenCalledWith(sql, values);
     });
 
+    it('should run savepoints outside prepared statements', async () => {
+      const mockConnection: any = mock().connection();
+      mockConnection.query = jest.fn(() => Promise.resolve([{}, []]));
+
+      mysql.createConnection = jest.fn(() =>
+        Promise.resolve(mockConnection)
+      ) as any;
+
+      const connection = await new MySQL({}).create();
+
+      await connection.query('SAVEPOINT bnjsx_savepoint_1');
+      await connection.query('ROLLBACK TO SAVEPOINT bnjsx_savepoint_1');
+      await connection.query('RELEASE SAVEPOINT bnjsx_savepoint_1');
+
+      expect(mockConnection.query).toHaveBeenCalledTimes(3);
+      expect(mockConnection.execute).not.toHaveBeenCalled();
+    });
+
+    it('should stream rows in chunks through the core connection', async () => {
+      const mockConnection: any = mock().connection();
+      const stream = Readable.from([{ id: 1 }, { id: 2 }, { id: 3 }]);
+      const query = jest.fn(() => ({ stream: () => stream }));
+      mockConnection.connection = { query };
+
+      mysql.createConnection = jest.fn(() =>
+        Promise.resolve(mockConnection)
+      ) as any;
+
+      const connection = await new MySQL({}).create();
+      const chunks = [];
+
+      for await (const rows of connection.stream(
+        'SELECT id FROM users WHERE active = ?',
+        [true],
+        2
+      )) {
+        chunks.push(rows);
+      }
+
+      expect(chunks).toEqual([[{ id: 1 }, { id: 2 }], [{ id: 3 }]]);
+      expect(query).toHaveBeenCalledWith(
+        'SELECT id FROM users WHERE active = ?',
+        [1]
+      );
+      expect(mockConnection.execute).not.toHaveBeenCalled();
+    });
+
+    it('should drain the stream when the iteration stops early', async () => {
+      const mockConnection: any = mock().connection();
+      const stream = Readable.from([{ id: 1 }, { id: 2 }, { id: 3 }]);
+      mockConnection.connection = { query: () => ({ stream: () => stream }) };
+
+      mysql.createConnection = jest.fn(() =>
+        Promise.resolve(mockConnection)
+      ) as any;
+
+      const connection = await new MySQL({}).create();
+
+      for await (const rows of connection.stream(
+        'SELECT id FROM users',
+        [],
+        1
+      )) {
+        expect(rows).toEqual([{ id: 1 }]);
+        break;
+      }
+
+      await new Promise((resolve) => setImmediate(resolve));
+      expect(stream.readableEnded).toBe(true);
+    });
+
     it('should reject with QueryError ', async () => {
       const mockConnection = mock().connection(true); // rejects
 
@@ -251,6 +323,29 @@ describe('MySQL', () => {
       expect(mockConnection.execute).toHaveBeenCalledWith('SELECT', undefined);
     });
 
+    it('should resolve with Rows for WITH queries returning rows', async () => {
+      const mockConnection = mock().connection();
+
+      mysql.createConnection = jest.fn(() =>
+        Promise.resolve(mockConnection)
+      ) as any;
+
+      mockConnection.execute = jest
+        .fn()
+        .mockResolvedValueOnce([[{ id: 1 }]])
+        .mockResolvedValueOnce([{ affectedRows: 1 }]);
+
+      const connection = await new MySQL({}).create();
+
+      await expect(
+        connection.query('WITH a AS (SELECT 1 AS id) SELECT * FROM a')
+      ).resolves.toEqual([{ id: 1 }]);
+
+      await expect(
+        connection.query('WITH a AS (SELECT 1 AS id) DELETE FROM b')
+      ).resolves.toBeUndefined();
+    });
+
     it('should resolve with id for single INSERT queries', async () => {
       const mockConnection = mock().connection();
 
@@ -1520,6 +1520,49 @@ describe('Pool', () => {
         expect(connection.beginTransaction()).rejects.toThrow(PoolError);
         expect(connection.commit()).rejects.toThrow(PoolError);
         expect(connection.rollback()).rejects.toThrow(PoolError);
+        expect(() => connection.stream('sql')).toThrow(PoolError);
+      });
+    });
+
+    describe('stream', () => {
+      it('should yield the chunks of the connection stream', async () => {
+        const inner = mock.connection();
+        inner.stream = jest.fn(async function* () {
+          yield [{ id: 1 }];
+          yield [{ id: 2 }];
+        });
+
+        const driver = mock.driver();
+        driver.create = jest.fn(() => Promise.resolve(inner));
+        const connection = await mock.pool(driver).request();
+
+        const chunks = [];
+        for await (const rows of connection.stream('SELECT', [1], 1)) {
+          chunks.push(rows);
+        }
+
+        expect(chunks).toEqual([[{ id: 1 }], [{ id: 2 }]]);
+        expect(inner.stream).toHaveBeenCalledWith('SELECT', [1], 1);
+      });
+
+      it('should emit QUERY_FAIL on failure', async () => {
+        const inner = mock.connection();
+        inner.stream = jest.fn(async function* () {
+          throw new Error('Ops');
+        });
+
+        const driver = mock.driver();
+        driver.create = jest.fn(() => Promise.resolve(inner));
+        const pool = mock.pool(driver);
+        const connection = await pool.request();
+
+        const handler = jest.fn();
+        pool.on(QUERY_FAIL, handler);
+
+        const iterator = connection.stream('SELECT')[Symbol.asyncIterator]();
+        await expect(iterator.next()).rejects.toThrow('Ops');
+
+        expect(handler).toHaveBeenCalledWith(expect.any(Error));
       });
     });
 
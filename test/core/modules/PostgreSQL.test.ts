@@ -323,6 +323,27 @@ describe('PostgreSQL', () => {
       expect(client.query).toHaveBeenCalledWith('SELECT', undefined);
     });
 
+    it('should resolve with Rows for WITH queries returning rows', async () => {
+      const client = mock().client();
+
+      client.query = jest
+        .fn()
+        .mockResolvedValueOnce({ command: 'SELECT', rows: [{ id: 1 }] })
+        .mockResolvedValueOnce({ command: 'DELETE', rows: [] }) as any;
+
+      pg.Client = jest.fn(() => client) as any;
+
+      const connection = await new PostgreSQL({}).create();
+
+      await expect(
+        connection.query('WITH a AS (SELECT 1 AS id) SELECT * FROM a')
+      ).resolves.toEqual([{ id: 1 }]);
+
+      await expect(
+        connection.query('WITH a AS (SELECT 1 AS id) DELETE FROM b')
+      ).resolves.toBeUndefined();
+    });
+
     it('should resolve with the first object for single INSERT queries', async () => {
       const client = mock().client();
 
@@ -418,6 +439,74 @@ describe('PostgreSQL', () => {
     });
   });
 
+  describe('Connection.stream', () => {
+    it('should fetch the rows in chunks from a cursor', async () => {
+      const client = mock().client();
+      pg.Client = jest.fn(() => client) as any;
+
+      client.query = jest
+        .fn()
+        .mockResolvedValueOnce({ rows: [] }) // DECLARE
+        .mockResolvedValueOnce({ rows: [{ id: 1 }, { id: 2 }] })
+        .mockResolvedValueOnce({ rows: [{ id: 3 }] })
+        .mockResolvedValueOnce({ rows: [] }) as any; // CLOSE
+
+      const connection = await new PostgreSQL({}).create();
+      const chunks = [];
+
+      for await (const rows of connection.stream(
+        'SELECT id FROM users WHERE age > ?;',
+        [18],
+        2
+      )) {
+        chunks.push(rows);
+      }
+
+      expect(chunks).toEqual([[{ id: 1 }, { id: 2 }], [{ id: 3 }]]);
+      expect((client.query as jest.Mock).mock.calls).toEqual([
+        [
+          'DECLARE bnjsx_cursor_1 NO SCROLL CURSOR WITH HOLD FOR SELECT id FROM users WHERE age > $1',
+          [18],
+        ],
+        ['FETCH FORWARD 2 FROM bnjsx_cursor_1', undefined],
+        ['FETCH FORWARD 2 FROM bnjsx_cursor_1', undefined],
+        ['CLOSE bnjsx_cursor_1'],
+      ]);
+    });
+
+    it('should close the cursor when the iteration stops early', async () => {
+      const client = mock().client();
+      pg.Client = jest.fn(() => client) as any;
+
+      client.query = jest.fn(() =>
+        Promise.resolve({ rows: [{ id: 1 }] })
+      ) as any;
+
+      const connection = await new PostgreSQL({}).create();
+
+      for await (const rows of connection.stream(
+        'SELECT id FROM users',
+        [],
+        1
+      )) {
+        expect(rows).toEqual([{ id: 1 }]);
+        break;
+      }
+
+      expect(client.query).toHaveBeenLastCalledWith('CLOSE bnjsx_cursor_1');
+    });
+
+    it('should reject with QueryError', async () => {
+      pg.Client = jest.fn(() => mock().client('query')) as any;
+
+      const connection = await new PostgreSQL({}).create();
+
+      await expect(
+        connection.stream('SELECT id FROM users')[Symbol.asyncIterator]().next()
+      ).rejects.toThrow(QueryError);
+    });
+  });
+
   describe('Connection.close', () => {
     it('should resolve with undefined', async () => {
       const client = mock().client();
@@ -10,7 +10,9 @@ jest.mock('../../../src/config', () => ({
 
 import '../../../src/core/modules/Request'; // Ensure prototype modifications are applied
 import { Request, RequestError } from '../../../src/core';
+import { currentRequest, withRequest } from '../../../src/core';
 import { IncomingMessage } from 'http';
+import { Http2ServerRequest } from 'http2';
 
 describe('Request Methods', () => {
   let req: any;
@@ -115,17 +117,59 @@ describe('Request Methods', () => {
   });
 
   describe('getIp', () => {
+    afterEach(() => delete options.trustProxy);
+
     test('should return IP from x-forwarded-for header', () => {
+      options.trustProxy = true;
       req.headers['x-forwarded-for'] = '203.0.113.195';
       expect(req.getIp()).toBe('203.0.113.195');
     });
 
     test('should return first IP if multiple are provided in x-forwarded-for', () => {
+      options.trustProxy = true;
       req.headers['x-forwarded-for'] =
         '203.0.113.195, 70.41.3.18, 150.172.238.178';
       expect(req.getIp()).toBe('203.0.113.195');
     });
 
+    test('should ignore x-forwarded-for unless proxies are trusted', () => {
+      req.headers['x-forwarded-for'] = '203.0.113.195';
+      expect(req.getIp()).toBe('127.0.0.1');
+    });
+
+    test('should only walk back the trusted number of hops', () => {
+      options.trustProxy = 2;
+      req.headers['x-forwarded-for'] =
+        '203.0.113.195, 70.41.3.18, 150.172.238.178';
+      expect(req.getIp()).toBe('70.41.3.18');
+
+      options.trustProxy = 5;
+      expect(req.getIp()).toBe('203.0.113.195');
+    });
+
+    test('should only walk back through trusted proxy ranges', () => {
+      options.trustProxy = ['loopback', '10.0.0.0/8'];
+      req.headers['x-forwarded-for'] = '1.1.1.1, 203.0.113.195, 10.0.0.2';
+      expect(req.getIp()).toBe('203.0.113.195');
+
+      req.socket.remoteAddress = '192.168.0.1';
+      expect(req.getIp()).toBe('192.168.0.1');
+    });
+
+    test('should read the Forwarded header', () => {
+      options.trustProxy = true;
+      req.headers['forwarded'] =
+        'for="[2001:db8:cafe::17]:4711";proto=https, for=10.0.0.2';
+      req.headers['x-forwarded-for'] = '203.0.113.195';
+      expect(req.getIp()).toBe('2001:db8:cafe::17');
+    });
+
+    test('should stop at invalid forwarded addresses', () => {
+      options.trustProxy = true;
+      req.headers['x-forwarded-for'] = '203.0.113.195, unknown, 10.0.0.2';
+      expect(req.getIp()).toBe('10.0.0.2');
+    });
+
     test('should fallback to socket.remoteAddress if no header', () => {
       req.socket.remoteAddress = '192.168.0.1';
       expect(req.getIp()).toBe('192.168.0.1');
@@ -147,6 +191,64 @@ describe('Request Methods', () => {
     });
   });
 
+  describe('getProtocol / getHost', () => {
+    beforeEach(() => {
+      options.base = 'http://example.com';
+      req.headers['x-forwarded-proto'] = 'https, http';
+      req.headers['x-forwarded-host'] = 'shop.example.com:8443';
+    });
+
+    afterEach(() => {
+      delete options.base;
+      delete options.trustProxy;
+    });
+
+    test('should use the base URL unless the proxy is trusted', () => {
+      expect(req.getProtocol()).toBe('http');
+      expect(req.getHost()).toBe('example.com');
+
+      options.trustProxy = ['10.0.0.0/8'];
+      expect(req.getProtocol()).toBe('http');
+    });
+
+    test('should read the X-Forwarded-* headers of trusted proxies', () => {
+      options.trustProxy = ['loopback', '10.0.0.0/8'];
+      req.headers['x-forwarded-for'] = '1.1.1.1, 10.0.0.2';
+      expect(req.getProtocol()).toBe('https');
+      expect(req.getHost()).toBe('shop.example.com');
+    });
+
+    test('should ignore values prepended by the client', () => {
+      options.trustProxy = ['loopback'];
+      req.headers['x-forwarded-for'] = '1.1.1.1';
+      req.headers['x-forwarded-proto'] = 'http, https';
+      req.headers['x-forwarded-host'] = 'evil.com, shop.example.com';
+      expect(req.getProtocol()).toBe('https');
+      expect(req.getHost()).toBe('shop.example.com');
+
+      options.trustProxy = 1;
+      req.headers['forwarded'] =
+        'host=evil.com;proto=http, for=1.1.1.1;host=shop.example.com;proto=https';
+      expect(req.getProtocol()).toBe('https');
+      expect(req.getHost()).toBe('shop.example.com');
+    });
+
+    test('should read the Forwarded header of trusted proxies', () => {
+      options.trustProxy = 1;
+      req.headers['forwarded'] = 'for=1.1.1.1;proto=HTTPS;host="[::1]:8080"';
+      expect(req.getProtocol()).toBe('https');
+      expect(req.getHost()).toBe('[::1]');
+    });
+
+    test('should ignore invalid forwarded values', () => {
+      options.trustProxy = true;
+      req.headers['x-forwarded-proto'] = 'ftp';
+      req.headers['x-forwarded-host'] = 'exa mple.com';
+      expect(req.getProtocol()).toBe('http');
+      expect(req.getHost()).toBe('example.com');
+    });
+  });
+
   describe('getBase', () => {
     test('should return base without port for default HTTP port', () => {
       options.protocol = 'http';
@@ -179,4 +281,32 @@ describe('Request Methods', () => {
       expect(req.getBase()).toBe('https://secure.site:8443');
     });
   });
+
+  describe('HTTP/2', () => {
+    test('should provide the same methods to HTTP/2 requests', () => {
+      const req: any = Object.create(Http2ServerRequest.prototype);
+      Object.defineProperty(req, 'headers', {
+        value: { 'x-requested-with': 'XMLHttpRequest', accept: 'text/html' },
+      });
+
+      expect(req.isAjax()).toBe(true);
+      expect(req.accepts('html')).toBe(true);
+      expect(req.getHeader('Accept')).toBe('text/html');
+    });
+  });
+});
+
+describe('withRequest / currentRequest', () => {
+  it('should keep the request across async calls', async () => {
+    const req: any = { id: 'abc' };
+
+    expect(currentRequest()).toBeUndefined();
+
+    await withRequest(req, async () => {
+      await new Promise((resolve) => setImmediate(resolve));
+      expect(currentRequest()).toBe(req);
+    });
+
+    expect(currentRequest()).toBeUndefined();
+  });
 });
@@ -23,16 +23,19 @@ import {
   Cookie,
   CookieError,
   FLASH_GET_KEY,
+  FLASH_SESSION_KEY,
   FLASH_SET_KEY,
   Redirector,
   ResponseError,
 } from '../../../src/core';
 import { IncomingMessage, ServerResponse } from 'http';
+import { Http2ServerResponse } from 'http2';
 import { NotFoundError } from '../../../src/errors';
 import { createReadStream, ReadStream } from 'fs';
 import { render } from '../../../src/core';
-import { UTC } from '../../../src/helpers';
+import { nonce, UTC } from '../../../src/helpers';
 import { config } from '../../../src/config';
+import * as AppModule from '../../../src/core/modules/App';
 
 describe('Response', () => {
   let res: any;
@@ -165,6 +168,19 @@ describe('Response', () => {
       expect(res.end).toHaveBeenCalledWith('true', expect.any(Function));
     });
 
+    it('should suppress the body of HEAD responses', async () => {
+      res.request = { method: 'HEAD' };
+      res.end = jest.fn((callback) => callback());
+
+      await expect(res.send({ key: 'value' })).resolves.toBeUndefined();
+      expect(res.setHeader).toHaveBeenCalledWith(
+        'Content-Type',
+        'application/json'
+      );
+      expect(res.setHeader).toHaveBeenCalledWith('Content-Length', 15);
+      expect(res.end).toHaveBeenCalledWith(expect.any(Function));
+    });
+
     it('should reject an invalid data type', async () => {
       await expect(res.send(() => {})).rejects.toThrow(ResponseError);
       await expect(res.send(Symbol('test'))).rejects.toThrow(ResponseError);
@@ -360,6 +376,19 @@ describe('Response', () => {
       expect(stream.pipe).toHaveBeenCalledWith(res);
     });
 
+    it('should not stream the body of HEAD responses', async () => {
+      const stream = new ReadStream() as any;
+      stream.pipe = jest.fn();
+      stream.destroy = jest.fn();
+
+      res.request = { method: 'HEAD' };
+      res.end = jest.fn((callback) => callback());
+
+      await expect(res.stream(stream)).resolves.toBeUndefined();
+      expect(stream.pipe).not.toHaveBeenCalled();
+      expect(stream.destroy).toHaveBeenCalled();
+    });
+
     it('should reject if there is an error while streaming', async () => {
       const error = new Error('Stream error');
       const stream = new ReadStream() as any;
@@ -402,6 +431,17 @@ describe('Response', () => {
       expect(res.statusMessage).toBe('Not Found');
     });
 
+    test('status should not set a message on HTTP/2 responses', () => {
+      const res: any = Object.create(Http2ServerResponse.prototype);
+      const message = jest.fn();
+      Object.defineProperty(res, 'statusCode', { value: 0, writable: true });
+      Object.defineProperty(res, 'statusMessage', { set: message });
+
+      expect(res.status(404)).toBe(res);
+      expect(res.statusCode).toBe(404);
+      expect(message).not.toHaveBeenCalled();
+    });
+
     test('status should throw ResponseError for invalid status code', () => {
       expect(() => res.status('500' as any)).toThrow(ResponseError);
       expect(() => res.status(null as any)).toThrow(ResponseError);
@@ -425,7 +465,7 @@ describe('Response', () => {
 
       expect(render).toHaveBeenCalledWith(
         'component.fx',
-        { flash: [] },
+        { flash: [], permissions: [] },
         { name: 'John' }
       );
       expect(res.setHeader).toHaveBeenCalledWith('Content-Type', 'text/html');
@@ -441,11 +481,38 @@ describe('Response', () => {
 
       expect(render).toHaveBeenCalledWith(
         'view.fx',
-        { flash: ['flash1', 'flash2'], csrf: 'token123' },
+        { flash: ['flash1', 'flash2'], csrf: 'token123', permissions: [] },
         {}
       );
     });
 
+    test('render should include the loaded permissions', async () => {
+      (render as jest.Mock).mockResolvedValue('<html></html>');
+      res.request.permissions = ['posts.update'];
+
+      await res.render('view.fx');
+
+      expect(render).toHaveBeenCalledWith(
+        'view.fx',
+        { flash: [], permissions: ['posts.update'] },
+        undefined
+      );
+    });
+
+    test('render should expose the nonce to templates and tools', async () => {
+      (render as jest.Mock).mockImplementation(async () => nonce());
+      res.request.nonce = 'abc';
+
+      await res.render('view.fx');
+
+      expect(render).toHaveBeenCalledWith(
+        'view.fx',
+        { flash: [], permissions: [], nonce: 'abc' },
+        undefined
+      );
+      expect(res.send).toHaveBeenCalledWith('abc');
+    });
+
     test('render should reject on render failure', async () => {
       (render as jest.Mock).mockRejectedValue(new Error('Render failed'));
 
@@ -545,10 +612,10 @@ describe('Redirector', () => {
     req.getHeader = (key: string) => req.headers[key.toLowerCase()];
     req[FLASH_SET_KEY] = [];
 
-    const set = jest.fn();
+    const signed = jest.fn();
 
     res = {
-      cookie: jest.fn(() => ({ set })),
+      cookie: jest.fn(() => ({ signed })),
       setHeader: jest.fn(),
       status: jest.fn().mockReturnThis(),
       send: jest.fn().mockResolvedValue(undefined),
@@ -570,6 +637,22 @@ describe('Redirector', () => {
     });
   });
 
+  describe('route', () => {
+    test('should set the redirect URL to a named route', () => {
+      const spy = jest
+        .spyOn(AppModule, 'route')
+        .mockReturnValue('/posts/12?tab=1');
+
+      const result = redirect.route('posts.show', { id: 12 }, { tab: 1 });
+
+      expect(result).toBe(redirect);
+      expect(spy).toHaveBeenCalledWith('posts.show', { id: 12 }, { tab: 1 });
+      expect((redirect as any).url).toBe('/posts/12?tab=1');
+
+      spy.mockRestore();
+    });
+  });
+
   describe('back', () => {
     test('should use referer header if available', () => {
       req.headers['referer'] = 'https://example.com/profile?tab=posts';
@@ -636,6 +719,9 @@ describe('Redirector', () => {
   });
 
   describe('with', () => {
+    beforeEach(() => (process.env.APP_KEY = 'test-key'));
+    afterEach(() => delete process.env.APP_KEY);
+
     test('flash initializes and sets error message by default', () => {
       req[FLASH_SET_KEY] = [];
 
@@ -645,7 +731,7 @@ describe('Redirector', () => {
         { type: 'error', message: 'Something went wrong' },
       ]);
 
-      expect(res.cookie().set).toHaveBeenCalledWith(
+      expect(res.cookie().signed).toHaveBeenCalledWith(
         'flash',
         JSON.stringify([{ type: 'error', message: 'Something went wrong' }])
       );
@@ -660,7 +746,7 @@ describe('Redirector', () => {
         { type: 'success', message: 'User created' },
       ]);
 
-      expect(res.cookie().set).toHaveBeenCalledWith(
+      expect(res.cookie().signed).toHaveBeenCalledWith(
         'flash',
         JSON.stringify([{ type: 'success', message: 'User created' }])
       );
@@ -679,7 +765,7 @@ describe('Redirector', () => {
         { type: 'info', message: 'FYI' },
       ]);
 
-      expect(res.cookie().set).toHaveBeenLastCalledWith(
+      expect(res.cookie().signed).toHaveBeenLastCalledWith(
         'flash',
         JSON.stringify([
           { type: 'error', message: 'First warning' },
@@ -698,12 +784,35 @@ describe('Redirector', () => {
         { type: 'error', message: 'Init message' },
       ]);
 
-      expect(res.cookie().set).toHaveBeenCalledWith(
+      expect(res.cookie().signed).toHaveBeenCalledWith(
         'flash',
         JSON.stringify([{ type: 'error', message: 'Init message' }])
       );
     });
 
+    test('flash keeps messages on the session if started', () => {
+      req.session = { set: jest.fn() };
+
+      redirect.with('Saved', 'success');
+
+      expect(req.session.set).toHaveBeenCalledWith(FLASH_SESSION_KEY, [
+        { type: 'success', message: 'Saved' },
+      ]);
+      expect(res.cookie).not.toHaveBeenCalled();
+    });
+
+    test('flash sets a plain cookie without an app key', () => {
+      delete process.env.APP_KEY;
+
+      redirect.with('Saved', 'success');
+
+      expect(res.cookie).toHaveBeenCalledWith(
+        'flash',
+        JSON.stringify([{ type: 'success', message: 'Saved' }])
+      );
+      expect(res.cookie().signed).not.toHaveBeenCalled();
+    });
+
     test('should reject invalid arguments', () => {
       expect(() => redirect.with(null as any)).toThrow();
       expect(() => redirect.with('message', 123 as any)).toThrow();
@@ -978,6 +1087,100 @@ describe('Cookie', () => {
     });
   });
 
+  describe('signing', () => {
+    beforeEach(() => {
+      process.env.APP_KEY = 'new-key';
+      delete process.env.APP_PREVIOUS_KEYS;
+    });
+
+    afterEach(() => delete process.env.APP_PREVIOUS_KEYS);
+
+    test('should sign and verify values', () => {
+      const signed = Cookie.sign('theme', 'dark');
+
+      expect(signed).toMatch(/^s:dark\.[\w-]{43}$/);
+      expect(Cookie.unsign('theme', signed)).toBe('dark');
+    });
+
+    test('should reject tampered values and other cookie names', () => {
+      const signed = Cookie.sign('role', 'user');
+
+      expect(Cookie.unsign('role', signed.replace('user', 'admin'))).toBe(
+        undefined
+      );
+      expect(Cookie.unsign('other', signed)).toBe(undefined);
+      expect(Cookie.unsign('role', 'user')).toBe(undefined);
+      expect(Cookie.unsign('role', 's:')).toBe(undefined);
+      expect(Cookie.unsign('role', undefined)).toBe(undefined);
+    });
+
+    test('should encrypt and decrypt values', () => {
+      const encrypted = Cookie.encrypt('cart', '{"items":[1,2]}');
+
+      expect(encrypted.startsWith('e:')).toBe(true);
+      expect(encrypted).not.toContain('items');
+      expect(Cookie.encrypt('cart', 'same')).not.toBe(
+        Cookie.encrypt('cart', 'same')
+      );
+      expect(Cookie.decrypt('cart', encrypted)).toBe('{"items":[1,2]}');
+    });
+
+    test('should reject tampered encrypted values and other cookie names', () => {
+      const encrypted = Cookie.encrypt('cart', 'secret');
+      const payload = Buffer.from(encrypted.slice(2), 'base64url');
+      payload[payload.length - 1] ^= 1;
+
+      expect(Cookie.decrypt('cart', `e:${payload.toString('base64url')}`)).toBe(
+        undefined
+      );
+      expect(Cookie.decrypt('other', encrypted)).toBe(undefined);
+      expect(Cookie.decrypt('cart', 'e:short')).toBe(undefined);
+      expect(Cookie.decrypt('cart', 'secret')).toBe(undefined);
+    });
+
+    test('should accept values of previous keys', () => {
+      process.env.APP_KEY = 'old-key';
+      const signed = Cookie.sign('theme', 'dark');
+      const encrypted = Cookie.encrypt('cart', 'secret');
+
+      process.env.APP_KEY = 'new-key';
+      expect(Cookie.unsign('theme', signed)).toBe(undefined);
+      expect(Cookie.decrypt('cart', encrypted)).toBe(undefined);
+
+      process.env.APP_PREVIOUS_KEYS = 'older-key, old-key';
+      expect(Cookie.unsign('theme', signed)).toBe('dark');
+      expect(Cookie.decrypt('cart', encrypted)).toBe('secret');
+
+      // New values are signed with the newest key
+      expect(Cookie.sign('theme', 'dark')).not.toBe(signed);
+    });
+
+    test('should throw for invalid names and values', () => {
+      expect(() => Cookie.sign(1 as any, 'v')).toThrow(CookieError);
+      expect(() => Cookie.sign('n', 1 as any)).toThrow(CookieError);
+      expect(() => Cookie.encrypt(1 as any, 'v')).toThrow(CookieError);
+      expect(() => Cookie.encrypt('n', 1 as any)).toThrow(CookieError);
+    });
+
+    test('should set signed and encrypted cookies', () => {
+      const cookie = new Cookie(req, res);
+
+      cookie.signed('test', 'value');
+      cookie.encrypted('test', 'value');
+
+      const [signed, encrypted] = res.setHeader.mock.calls.map(
+        (call: any) => call[1][0]
+      );
+
+      const value = (header: string) =>
+        decodeURIComponent(header.split(';')[0].slice('test='.length));
+
+      expect(signed).toContain('Path=/test');
+      expect(Cookie.unsign('test', value(signed))).toBe('value');
+      expect(Cookie.decrypt('test', value(encrypted))).toBe('value');
+    });
+  });
+
   describe('forget() method', () => {
     let cookie: Cookie;
 
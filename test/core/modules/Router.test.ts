@@ -184,6 +184,7 @@ describe('Router', () => {
       expect(router.match('/users/23', 'GET')).toEqual({
         middlewares: [middleware],
         params: { id: '23' },
+        route: '/users/:id',
       });
 
       expect(router.match('/users/23', 'POST')).toBeUndefined();
@@ -197,6 +198,7 @@ describe('Router', () => {
       expect(router.match('/users/23/token=foo', 'GET')).toEqual({
         middlewares: [middleware],
         params: { id: '23' },
+        route: '/users/:id/token=*',
       });
     });
 
@@ -206,11 +208,13 @@ describe('Router', () => {
       expect(router.match('/users/23/token=foo', 'GET')).toEqual({
         middlewares: [middleware],
         params: { id: '23' },
+        route: '/users/:id?/token=*',
       });
 
       expect(router.match('/users/token=foo', 'GET')).toEqual({
         middlewares: [middleware],
         params: { id: undefined },
+        route: '/users/:id?/token=*',
       });
     });
 
@@ -220,6 +224,7 @@ describe('Router', () => {
       expect(router.match('/users/token=foo', 'GET')).toEqual({
         middlewares: [middleware],
         params: [],
+        route: '/users/token=*',
       });
     });
 
@@ -229,6 +234,7 @@ describe('Router', () => {
       expect(router.match('/users/token=foo', 'GET')).toEqual({
         middlewares: [middleware],
         params: ['foo'],
+        route: '/^\\/users\\/token=(.*)$/',
       });
     });
 
@@ -238,37 +244,588 @@ describe('Router', () => {
       expect(router.match('/users', 'GET')).toEqual({
         middlewares: [middleware],
         params: [],
+        route: '/^\\/users$/',
       });
 
       expect(router.match('/users', 'POST')).toEqual({
         middlewares: [middleware],
         params: [],
+        route: '/^\\/users$/',
       });
 
       expect(router.match('/users', 'OPTIONS')).toEqual({
         middlewares: [middleware],
         params: [],
+        route: '/^\\/users$/',
       });
 
       expect(router.match('/users', 'PATCH')).toEqual({
         middlewares: [middleware],
         params: [],
+        route: '/^\\/users$/',
       });
 
       expect(router.match('/users', 'PUT')).toEqual({
         middlewares: [middleware],
         params: [],
+        route: '/^\\/users$/',
       });
 
       expect(router.match('/users', 'DELETE')).toEqual({
         middlewares: [middleware],
         params: [],
+        route: '/^\\/users$/',
       });
 
       expect(router.match('/users', 'HEAD')).toEqual({
         middlewares: [middleware],
         params: [],
+        route: '/^\\/users$/',
       });
     });
   });
+
+  describe('route tree', () => {
+    test('should prefer static segments over params and wildcards', () => {
+      const wildcard = jest.fn();
+      const param = jest.fn();
+      const fixed = jest.fn();
+
+      router.get('/users/*', wildcard);
+      router.get('/users/:id', param);
+      router.get('/users/me', fixed);
+
+      expect(router.match('/users/me', 'GET').middlewares).toEqual([fixed]);
+      expect(router.match('/users/12', 'GET').middlewares).toEqual([param]);
+      expect(router.match('/users/12/posts', 'GET').middlewares).toEqual([
+        wildcard,
+      ]);
+    });
+
+    test('should backtrack when a static branch does not match', () => {
+      router.get('/users/me/posts', middleware);
+      router.get('/users/:id/likes', middleware);
+
+      expect(router.match('/users/me/likes', 'GET')).toEqual({
+        middlewares: [middleware],
+        params: { id: 'me' },
+        route: '/users/:id/likes',
+      });
+    });
+
+    test('should prefer the exact method over all methods', () => {
+      const any = jest.fn();
+      const get = jest.fn();
+
+      router.all('/users', any);
+      router.get('/users', get);
+
+      expect(router.match('/users', 'GET').middlewares).toEqual([get]);
+      expect(router.match('/users', 'POST').middlewares).toEqual([any]);
+    });
+
+    test('should ignore a trailing slash', () => {
+      router.get('/users/:id', middleware);
+
+      expect(router.match('/users/12/', 'GET')).toEqual({
+        middlewares: [middleware],
+        params: { id: '12' },
+        route: '/users/:id',
+      });
+
+      expect(router.match('/users//', 'GET')).toBeUndefined();
+    });
+
+    test('should match optional params without a wildcard', () => {
+      router.get('/posts/:page?', middleware);
+
+      expect(router.match('/posts', 'GET').params).toEqual({
+        page: undefined,
+      });
+
+      expect(router.match('/posts/2', 'GET').params).toEqual({ page: '2' });
+    });
+
+    test('should match the root path', () => {
+      router.get('/', middleware);
+
+      expect(router.match('/', 'GET')).toEqual({
+        middlewares: [middleware],
+        params: [],
+        route: '/',
+      });
+
+      expect(router.match('/users', 'GET')).toBeUndefined();
+    });
+
+    test('should keep registration order between string and RegExp routes', () => {
+      const expression = jest.fn();
+      const string = jest.fn();
+
+      router.get(/^\/users\/me$/, expression);
+      router.get('/users/:id', string);
+      router.get(/^\/.*$/, expression);
+
+      expect(router.match('/users/me', 'GET').middlewares).toEqual([
+        expression,
+      ]);
+
+      expect(router.match('/users/12', 'GET').middlewares).toEqual([string]);
+      expect(router.match('/posts', 'GET').middlewares).toEqual([expression]);
+    });
+
+    test('should throw on conflicting routes', () => {
+      router.get('/users/:id', middleware);
+
+      expect(() => router.get('/users/:name', middleware)).toThrow(
+        "Route conflict: 'GET /users/:name' conflicts with 'GET /users/:id'"
+      );
+
+      expect(() => router.get('/users/:id?', middleware)).toThrow(
+        'Route conflict'
+      );
+
+      router.get('/files/*', middleware);
+      expect(() => router.get('/files/*', middleware)).toThrow(
+        'Route conflict'
+      );
+
+      // Different methods do not conflict
+      expect(() => router.post('/users/:id', middleware)).not.toThrow();
+      expect(router.routes).toHaveLength(3);
+    });
+
+    test('should return the index of the matched route', () => {
+      router.get('/posts', middleware);
+      router.get('/users/:id', middleware);
+
+      expect(router.lookup('/users/5', 'GET')).toEqual({
+        index: 1,
+        params: { id: '5' },
+      });
+
+      expect(router.lookup('/users/5', 'POST')).toBeUndefined();
+    });
+  });
+
+  describe('name()', () => {
+    test('should name the last registered route', () => {
+      router.get('/posts', middleware).get('/posts/:id', middleware);
+      router.name('posts.show');
+
+      expect(router.routes[1].name).toBe('posts.show');
+      expect(router.routes[0].name).toBeUndefined();
+    });
+
+    test('should throw for invalid names', () => {
+      expect(() => router.name('posts')).toThrow("No route to name 'posts'");
+
+      router.get('/posts', middleware).name('posts');
+
+      expect(() => router.name(123 as any)).toThrow('Invalid route name');
+      expect(() => router.name(' ')).toThrow('Invalid route name');
+      expect(() => router.get('/users', middleware).name('posts')).toThrow(
+        "Duplicate route name 'posts'"
+      );
+
+      router.get(/^\/posts$/, middleware);
+      expect(() => router.name('regex')).toThrow(
+        "Cannot name a RegExp route 'regex'"
+      );
+    });
+  });
+
+  describe('path()', () => {
+    test('should generate the path of a named route', () => {
+      router.get('/', middleware).name('home');
+      router.get('/posts/:id/edit', middleware).name('posts.edit');
+      router.get('/posts/:page?', middleware).name('posts.index');
+
+      expect(router.path('home')).toBe('/');
+      expect(router.path('posts.edit', { id: 12 })).toBe('/posts/12/edit');
+      expect(router.path('posts.edit', { id: 'a b' })).toBe(
+        '/posts/a%20b/edit'
+      );
+
+      expect(router.path('posts.index')).toBe('/posts');
+      expect(router.path('posts.index', { page: 2 })).toBe('/posts/2');
+      expect(router.path('unknown')).toBeUndefined();
+    });
+
+    test('should throw for missing or extra params', () => {
+      router.get('/posts/:id', middleware).name('posts.show');
+      router.get('/files/*', middleware).name('files');
+
+      expect(() => router.path('posts.show')).toThrow(
+        "Missing param 'id' for route 'posts.show'"
+      );
+
+      expect(() => router.path('posts.show', { id: 1, slug: 'a' })).toThrow(
+        "Unknown params for route 'posts.show': slug"
+      );
+
+      expect(() => router.path('files')).toThrow(
+        "Cannot generate a path for wildcard route 'files'"
+      );
+    });
+  });
+
+  describe('param constraints', () => {
+    test('should match params against their constraint', () => {
+      router.get('/users/:id(\\d+)', middleware);
+
+      expect(router.routes[0].pattern).toEqual(/^\/users(?:\/(\d+))\/?$/);
+
+      expect(router.match('/users/12', 'GET').params).toEqual({ id: '12' });
+      expect(router.match('/users/abc', 'GET')).toBeUndefined();
+    });
+
+    test('should fall through to the next route when a constraint fails', () => {
+      const byId = jest.fn();
+      const bySlug = jest.fn();
+
+      router.get('/posts/:slug', bySlug);
+      router.get('/posts/:id(int)', byId);
+
+      expect(router.match('/posts/12', 'GET')).toEqual({
+        middlewares: [byId],
+        params: { id: 12 },
+        route: '/posts/:id(int)',
+      });
+
+      expect(router.match('/posts/hello', 'GET')).toEqual({
+        middlewares: [bySlug],
+        params: { slug: 'hello' },
+        route: '/posts/:slug',
+      });
+    });
+
+    test('should support alternations', () => {
+      router.get('/:lang(en|fr)/docs', middleware);
+
+      expect(router.match('/fr/docs', 'GET').params).toEqual({ lang: 'fr' });
+      expect(router.match('/de/docs', 'GET')).toBeUndefined();
+    });
+
+    test('should coerce built-in types', () => {
+      router.get('/a/:n(float)/:b(bool)/:u(uuid)', middleware);
+
+      expect(
+        router.match('/a/1.5/true/550e8400-e29b-41d4-a716-446655440000', 'GET')
+          .params
+      ).toEqual({
+        n: 1.5,
+        b: true,
+        u: '550e8400-e29b-41d4-a716-446655440000',
+      });
+
+      expect(router.match('/a/1.5/yes/x', 'GET')).toBeUndefined();
+    });
+
+    test('should support optional constrained params', () => {
+      router.get('/blog/:page(int)?', middleware);
+
+      expect(router.match('/blog', 'GET').params).toEqual({
+        page: undefined,
+      });
+
+      expect(router.match('/blog/3', 'GET').params).toEqual({ page: 3 });
+      expect(router.match('/blog/x', 'GET')).toBeUndefined();
+    });
+
+    test('should capture the rest of the path', () => {
+      router.get('/files/:path*', middleware);
+
+      expect(router.match('/files/a/b/c.txt', 'GET').params).toEqual({
+        path: 'a/b/c.txt',
+      });
+
+      expect(router.match('/files', 'GET').params).toEqual({
+        path: undefined,
+      });
+    });
+
+    test('should prefer single params over rest params', () => {
+      const one = jest.fn();
+      const rest = jest.fn();
+
+      router.get('/files/:path*', rest);
+      router.get('/files/:name', one);
+
+      expect(router.match('/files/a', 'GET').middlewares).toEqual([one]);
+      expect(router.match('/files/a/b', 'GET').middlewares).toEqual([rest]);
+    });
+
+    test('should map params after a wildcard with constraint groups', () => {
+      router.get('/:lang((en)|(fr))/:id(int)/*', middleware);
+
+      expect(router.match('/en/5/anything', 'GET').params).toEqual({
+        lang: 'en',
+        id: 5,
+      });
+    });
+
+    test('should allow the same shape with different constraints', () => {
+      router.get('/items/:id(int)', middleware);
+
+      expect(() => router.get('/items/:slug(slug)', middleware)).not.toThrow();
+      expect(() => router.get('/items/:n(\\d+)', middleware)).toThrow(
+        'Route conflict'
+      );
+    });
+
+    test('should throw for invalid params', () => {
+      expect(() => router.get('/users/:id(\\d+', middleware)).toThrow(
+        "Invalid route param ':id(\\d+'"
+      );
+
+      expect(() => router.get('/users/:id([)', middleware)).toThrow(
+        "Invalid route param pattern ':id([)'"
+      );
+
+      expect(() => router.get('/users/:id?x', middleware)).toThrow(
+        "Invalid route param ':id?x'"
+      );
+
+      expect(() => router.get('/files/:path*/edit', middleware)).toThrow(
+        "Invalid route param ':path*'"
+      );
+    });
+
+    test('should generate paths for constrained and rest params', () => {
+      router.get('/users/:id(int)', middleware).name('users');
+      router.get('/files/:path*', middleware).name('files');
+
+      expect(router.path('users', { id: 4 })).toBe('/users/4');
+      expect(() => router.path('users', { id: 'x' })).toThrow(
+        "Invalid param 'id' for route 'users'"
+      );
+
+      expect(router.path('files', { path: 'a/b c' })).toBe('/files/a/b%20c');
+      expect(router.path('files', { path: ['a', 'b'] })).toBe('/files/a/b');
+      expect(router.path('files')).toBe('/files');
+    });
+  });
+
+  describe('use()', () => {
+    test('should run router middlewares before route middlewares', () => {
+      const auth = jest.fn();
+      const log = jest.fn();
+
+      router.use(auth, log).get('/users', middleware);
+
+      expect(router.match('/users', 'GET')).toEqual({
+        middlewares: [auth, log, middleware],
+        params: [],
+        route: '/users',
+      });
+    });
+
+    test('should apply to routes added before and after', () => {
+      const auth = jest.fn();
+
+      router.get('/a', middleware);
+      router.use(auth);
+      router.get(/^\/b$/, middleware);
+
+      expect(router.match('/a', 'GET').middlewares).toEqual([auth, middleware]);
+      expect(router.match('/b', 'GET').middlewares).toEqual([auth, middleware]);
+    });
+
+    test('should throw for invalid middlewares', () => {
+      expect(() => router.use()).toThrow('Invalid router middlewares');
+      expect(() => router.use('foo' as any)).toThrow(
+        'Invalid router middlewares'
+      );
+    });
+  });
+
+  describe('group()', () => {
+    test('should prefix group routes', () => {
+      router.group('/admin', (r) => {
+        r.get('/users/:id', middleware);
+        r.get('/', middleware);
+      });
+
+      router.get('/users/:id', middleware);
+
+      expect(router.match('/admin/users/1', 'GET').params).toEqual({
+        id: '1',
+      });
+
+      expect(router.match('/admin', 'GET')).toBeDefined();
+      expect(router.match('/users/1', 'GET')).toBeDefined();
+      expect(router.match('/admin/users', 'GET')).toBeUndefined();
+    });
+
+    test('should nest groups and order middlewares', () => {
+      const global = jest.fn();
+      const admin = jest.fn();
+      const api = jest.fn();
+
+      router.use(global);
+      router.group(
+        'admin/',
+        (r) => {
+          r.group('/api', (r) => r.get('/users', middleware), api);
+          r.get('/posts', middleware);
+        },
+        admin
+      );
+
+      router.get('/home', middleware);
+
+      expect(router.match('/admin/api/users', 'GET').middlewares).toEqual([
+        global,
+        admin,
+        api,
+        middleware,
+      ]);
+
+      expect(router.match('/admin/posts', 'GET').middlewares).toEqual([
+        global,
+        admin,
+        middleware,
+      ]);
+
+      expect(router.match('/home', 'GET').middlewares).toEqual([
+        global,
+        middleware,
+      ]);
+    });
+
+    test('should apply middlewares without a prefix', () => {
+      const auth = jest.fn();
+
+      router.group('/', (r) => r.get(/^\/users$/, middleware), auth);
+
+      expect(router.match('/users', 'GET').middlewares).toEqual([
+        auth,
+        middleware,
+      ]);
+    });
+
+    test('should name and generate paths for group routes', () => {
+      router.group('/admin', (r) =>
+        r.get('/users/:id', middleware).name('user')
+      );
+
+      expect(router.path('user', { id: 3 })).toBe('/admin/users/3');
+    });
+
+    test('should restore the scope when the callback throws', () => {
+      expect(() =>
+        router.group('/admin', () => {
+          throw new Error('Ops');
+        })
+      ).toThrow('Ops');
+
+      router.get('/users', middleware);
+      expect(router.match('/users', 'GET')).toBeDefined();
+    });
+
+    test('should throw for invalid arguments', () => {
+      expect(() => router.group(1 as any, () => {})).toThrow(
+        'Invalid group prefix'
+      );
+
+      expect(() => router.group('/admin', 'foo' as any)).toThrow(
+        'Invalid group callback'
+      );
+
+      expect(() => router.group('/admin', () => {}, 'foo' as any)).toThrow(
+        'Invalid group middlewares'
+      );
+
+      expect(() =>
+        router.group('/admin', (r) => r.get(/^\/users$/, middleware))
+      ).toThrow('Cannot add a RegExp route to a prefixed group');
+    });
+  });
+
+  describe('methods()', () => {
+    test('should list the methods allowed for a path', () => {
+      router.get('/users/:id', middleware);
+      router.put('/users/:id', middleware);
+      router.delete(/^\/users\/(\d+)$/, middleware);
+      router.post('/posts', middleware);
+
+      expect(router.methods('/users/1')).toEqual([
+        'GET',
+        'HEAD',
+        'PUT',
+        'DELETE',
+      ]);
+
+      expect(router.methods('/posts')).toEqual(['POST']);
+      expect(router.methods('/comments')).toEqual([]);
+    });
+
+    test('should allow every method for routes registered with all()', () => {
+      router.all('/users', middleware);
+
+      expect(router.methods('/users')).toEqual([
+        'GET',
+        'HEAD',
+        'POST',
+        'PUT',
+        'PATCH',
+        'DELETE',
+        'OPTIONS',
+      ]);
+    });
+  });
+
+  describe('HEAD', () => {
+    test('should serve HEAD requests from GET routes', () => {
+      router.get('/users/:id', middleware);
+
+      expect(router.match('/users/1', 'HEAD')).toEqual({
+        middlewares: [middleware],
+        params: { id: '1' },
+        route: '/users/:id',
+      });
+    });
+
+    test('should prefer HEAD routes over GET routes', () => {
+      const head = jest.fn();
+
+      router.get('/users', middleware);
+      router.head('/users', head);
+
+      expect(router.match('/users', 'HEAD').middlewares).toEqual([head]);
+    });
+  });
+
+  describe('list()', () => {
+    test('should list the registered routes', () => {
+      const auth = jest.fn();
+
+      router.use(auth);
+      router.get('/users/:id', middleware).name('users.show');
+      router.group('/admin', (r) => r.post('/', middleware));
+      router.delete(/^\/users$/, middleware);
+
+      expect(router.list()).toEqual([
+        {
+          method: 'GET',
+          path: '/users/:id',
+          name: 'users.show',
+          middlewares: [auth, middleware],
+        },
+        {
+          method: 'POST',
+          path: '/admin',
+          name: undefined,
+          middlewares: [auth, middleware],
+        },
+        {
+          method: 'DELETE',
+          path: /^\/users$/,
+          name: undefined,
+          middlewares: [auth, middleware],
+        },
+      ]);
+    });
+  });
 });
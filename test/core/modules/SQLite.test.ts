@@ -83,6 +83,20 @@ describe('SQLite Driver', () => {
         expect(result).toEqual([{ value: 1 }]);
       });
 
+      it('should execute WITH queries and return rows', async () => {
+        const result = await connection.query(
+          'WITH a AS (SELECT ? AS value) SELECT * FROM a',
+          [1]
+        );
+        expect(result).toEqual([{ value: 1 }]);
+
+        await expect(
+          connection.query(
+            'WITH a AS (SELECT 0 AS id) DELETE FROM test WHERE id IN (SELECT id FROM a)'
+          )
+        ).resolves.toBeUndefined();
+      });
+
       it('should execute INSERT queries and return lastInsertRowid for single insert', async () => {
         const id = await connection.query(
           'INSERT INTO test (name, age) VALUES (?, ?)',
@@ -164,6 +178,75 @@ describe('SQLite Driver', () => {
       });
     });
 
+    describe('stream()', () => {
+      it('should yield the rows in chunks', async () => {
+        await connection.query(
+          "INSERT INTO test (name, age) VALUES ('a', 20), ('b', 30), ('c', 40), ('d', 50), ('e', 60)"
+        );
+
+        const query = jest.spyOn(connection, 'query');
+        const chunks = [];
+
+        for await (const rows of connection.stream(
+          'SELECT name FROM test WHERE age > ? ORDER BY id;',
+          [20],
+          2
+        )) {
+          chunks.push(rows.map((row: any) => row.name));
+        }
+
+        expect(chunks).toEqual([
+          ['b', 'c'],
+          ['d', 'e'],
+        ]);
+        expect(query).toHaveBeenCalledTimes(5);
+        expect(query.mock.calls[0][0]).toMatch(
+          /^CREATE TABLE temp\.bnjsx_stream_\d+ AS SELECT name FROM test WHERE age > \? ORDER BY id;$/
+        );
+        expect(query.mock.calls[0][1]).toEqual([20]);
+        expect(query.mock.calls[3][0]).toMatch(
+          /^SELECT \* FROM temp\.bnjsx_stream_\d+ WHERE rowid > 4 ORDER BY rowid LIMIT 2;$/
+        );
+        expect(query.mock.calls[4][0]).toMatch(
+          /^DROP TABLE IF EXISTS temp\.bnjsx_stream_\d+;$/
+        );
+      });
+
+      it('should keep the order of the query and drop its table', async () => {
+        await connection.query(
+          "INSERT INTO test (name, age) VALUES ('a', 20), ('b', 30), ('c', 40), ('d', 50), ('e', 60)"
+        );
+
+        const names = [];
+
+        for await (const rows of connection.stream(
+          'SELECT name FROM test ORDER BY age DESC',
+          [],
+          2
+        )) {
+          names.push(...rows.map((row: any) => row.name));
+          if (names.length === 4) break;
+        }
+
+        expect(names).toEqual(['e', 'd', 'c', 'b']);
+        await expect(
+          connection.query(
+            "SELECT name FROM sqlite_temp_master WHERE type = 'table'"
+          )
+        ).resolves.toEqual([]);
+      });
+
+      it('should throw QueryError for invalid arguments', async () => {
+        await expect(connection.stream(123).next()).rejects.toThrow(
+          'Invalid query: 123'
+        );
+
+        await expect(
+          connection.stream('SELECT * FROM test', [], 0).next()
+        ).rejects.toThrow('Invalid stream size: 0');
+      });
+    });
+
     describe('close()', () => {
       it('should close the connection', async () => {
         await expect(connection.close()).resolves.not.toThrow();
@@ -47,10 +47,14 @@ const Redirector = {
   send: jest.fn().mockResolvedValue(undefined),
 };
 
+const Cookie = {
+  signed: jest.fn(),
+};
+
 const res = {
   redirect: jest.fn(() => Redirector),
   setHeader: jest.fn(),
-  cookie: jest.fn(),
+  cookie: jest.fn(() => Cookie),
   render: jest.fn(),
   json: jest.fn(),
 };
@@ -59,14 +63,20 @@ const req = {
   query: new Map([['page', '2']]),
 };
 
-import { FLASH_SET_KEY } from '../../../src/core/middlewares/flash';
+import {
+  FLASH_SESSION_KEY,
+  FLASH_SET_KEY,
+} from '../../../src/core/middlewares/flash';
 import { Builder } from '../../../src/core/modules/Builder';
 import { Fetcher } from '../../../src/core/modules/Fetcher';
 
 import { Service } from '../../../src/core/modules/Service';
+import * as AppModule from '../../../src/core/modules/App';
 import { Table, TableFinder } from '../../../src/core/modules/Table';
 import { Validator } from '../../../src/core/modules/Validator';
 import { Folder, Store, UTC } from '../../../src/helpers';
+import { Gate } from '../../../src/core/modules/Gate';
+import { ForbiddenError } from '../../../src/errors';
 
 describe('Service', () => {
   let service;
@@ -84,7 +94,7 @@ describe('Service', () => {
   });
 
   describe('transaction()', () => {
-    it('calls Table.transaction with handler and pool', async () => {
+    it('calls Table.transaction with handler, pool and options', async () => {
       const handler = jest.fn().mockResolvedValue('result');
       const pool = 'myPool';
 
@@ -93,9 +103,11 @@ describe('Service', () => {
         .spyOn(Table, 'transaction')
         .mockResolvedValue('result');
 
-      const result = await service.transaction(handler, pool);
+      const result = await service.transaction(handler, pool, { retries: 2 });
 
-      expect(transactionSpy).toHaveBeenCalledWith(handler, pool);
+      expect(transactionSpy).toHaveBeenCalledWith(handler, pool, {
+        retries: 2,
+      });
       expect(result).toBe('result');
 
       transactionSpy.mockRestore();
@@ -110,7 +122,11 @@ describe('Service', () => {
 
       const result = await service.transaction(handler);
 
-      expect(transactionSpy).toHaveBeenCalledWith(handler, undefined);
+      expect(transactionSpy).toHaveBeenCalledWith(
+        handler,
+        undefined,
+        undefined
+      );
       expect(result).toBe('ok');
 
       transactionSpy.mockRestore();
@@ -256,6 +272,17 @@ describe('Service', () => {
     });
   });
 
+  describe('route()', () => {
+    test('should generate the path of a named route', () => {
+      const spy = jest.spyOn(AppModule, 'route').mockReturnValue('/posts/12');
+
+      expect(service.route('posts.show', { id: 12 })).toBe('/posts/12');
+      expect(spy).toHaveBeenCalledWith('posts.show', { id: 12 }, undefined);
+
+      spy.mockRestore();
+    });
+  });
+
   describe('goto()', () => {
     test('should redirect to the specified path', () => {
       expect(service.goto('/path')).resolves.toBe(undefined);
@@ -519,6 +546,9 @@ describe('Service', () => {
   });
 
   describe('flash()', () => {
+    beforeEach(() => (process.env.APP_KEY = 'test-key'));
+    afterEach(() => delete process.env.APP_KEY);
+
     test('flash initializes and sets error message by default', () => {
       req[FLASH_SET_KEY] = [];
 
@@ -528,7 +558,7 @@ describe('Service', () => {
         { type: 'error', message: 'Something went wrong' },
       ]);
 
-      expect(res.cookie).toHaveBeenCalledWith(
+      expect(Cookie.signed).toHaveBeenCalledWith(
         'flash',
         JSON.stringify([{ type: 'error', message: 'Something went wrong' }])
       );
@@ -543,7 +573,7 @@ describe('Service', () => {
         { type: 'success', message: 'User created' },
       ]);
 
-      expect(res.cookie).toHaveBeenCalledWith(
+      expect(Cookie.signed).toHaveBeenCalledWith(
         'flash',
         JSON.stringify([{ type: 'success', message: 'User created' }])
       );
@@ -562,7 +592,7 @@ describe('Service', () => {
         { type: 'info', message: 'FYI' },
       ]);
 
-      expect(res.cookie).toHaveBeenLastCalledWith(
+      expect(Cookie.signed).toHaveBeenLastCalledWith(
         'flash',
         JSON.stringify([
           { type: 'error', message: 'First warning' },
@@ -581,11 +611,87 @@ describe('Service', () => {
         { type: 'error', message: 'Init message' },
       ]);
 
-      expect(res.cookie).toHaveBeenCalledWith(
+      expect(Cookie.signed).toHaveBeenCalledWith(
         'flash',
         JSON.stringify([{ type: 'error', message: 'Init message' }])
       );
     });
+
+    test('flash keeps messages on the session if started', () => {
+      const set = jest.fn();
+      res.cookie.mockClear();
+      req[FLASH_SET_KEY] = [];
+      (req as any).session = { set };
+
+      service.flash('Saved', 'success');
+
+      expect(set).toHaveBeenCalledWith(FLASH_SESSION_KEY, [
+        { type: 'success', message: 'Saved' },
+      ]);
+      expect(res.cookie).not.toHaveBeenCalled();
+
+      delete (req as any).session;
+    });
+
+    test('flash sets a plain cookie without an app key', () => {
+      delete process.env.APP_KEY;
+      res.cookie.mockClear();
+      Cookie.signed.mockClear();
+      req[FLASH_SET_KEY] = [];
+
+      service.flash('Saved', 'success');
+
+      expect(res.cookie).toHaveBeenCalledWith(
+        'flash',
+        JSON.stringify([{ type: 'success', message: 'Saved' }])
+      );
+      expect(Cookie.signed).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('authorize()', () => {
+    afterEach(() => {
+      delete (req as any).user;
+      jest.restoreAllMocks();
+    });
+
+    test('can() leaves the decision to the role permissions', () => {
+      expect(service.can({ id: 1 }, 'posts.update')).toBeUndefined();
+    });
+
+    test('authorize() consults the service policy first', async () => {
+      const permissionsOf = jest.spyOn(Gate, 'permissionsOf');
+      (req as any).user = { id: 1 };
+      service.can = jest.fn((user, action, post) => post.user_id === user.id);
+
+      await expect(
+        service.authorize('posts.update', { user_id: 1 })
+      ).resolves.toBeUndefined();
+      await expect(
+        service.authorize('posts.update', { user_id: 2 })
+      ).rejects.toThrow(ForbiddenError);
+
+      expect(service.can).toHaveBeenCalledWith({ id: 1 }, 'posts.update', {
+        user_id: 1,
+      });
+      expect(permissionsOf).not.toHaveBeenCalled();
+    });
+
+    test('authorize() falls back to the role permissions', async () => {
+      jest.spyOn(Gate, 'permissionsOf').mockResolvedValue(['posts.*']);
+      (req as any).user = { id: 1 };
+
+      await expect(service.authorize('posts.delete')).resolves.toBeUndefined();
+      await expect(service.authorize('users.delete')).rejects.toThrow(
+        ForbiddenError
+      );
+    });
+
+    test('authorize() refuses guests', async () => {
+      await expect(service.authorize('posts.update')).rejects.toThrow(
+        ForbiddenError
+      );
+    });
   });
 
   describe('pages()', () => {
@@ -689,4 +795,29 @@ describe('Service', () => {
       ).toBeNull();
     });
   });
+
+  describe('cursors()', () => {
+    beforeEach(() => {
+      service.request = {
+        href: '/users?sort=name&cursor=abc',
+        base: 'http://localhost',
+      };
+    });
+
+    test('Returns the page URLs with the cursors', () => {
+      expect(
+        service.cursors({ cursor: { next: 'n.1', prev: undefined, items: 10 } })
+      ).toEqual({ next: '/users?sort=name&cursor=n.1', prev: false });
+
+      expect(
+        service.cursors({ cursor: { next: 'n.1', prev: 'p.2' } }, '/search')
+      ).toEqual({ next: '/search?cursor=n.1', prev: '/search?cursor=p.2' });
+    });
+
+    test('Returns null without cursors or for malformed data', () => {
+      expect(service.cursors({ cursor: { items: 10 } })).toBeNull();
+      expect(service.cursors({ page: { current: 1 } })).toBeNull();
+      expect(service.cursors(null as any)).toBeNull();
+    });
+  });
 });
@@ -0,0 +1,450 @@
+const options: any = {
+  env: 'pro',
+  session: {
+    driver: 'store',
+    cookie: 'session',
+    idle: 60 * 60,
+    absolute: 24 * 60 * 60,
+    table: 'sessions',
+  },
+};
+
+jest.mock('../../../src/config', () => ({
+  config: () => {
+    return {
+      loadSync: () => options,
+      resolveSync: () => __dirname,
+    };
+  },
+}));
+
+import '../../../src/core/modules/Response';
+import { ServerResponse } from 'http';
+import { Builder } from '../../../src/core/modules/Builder';
+import { Folder, Store } from '../../../src/helpers';
+import {
+  FolderAdapter,
+  Session,
+  SessionAdapter,
+  SessionError,
+  SQLAdapter,
+  StoreAdapter,
+} from '../../../src/core/modules/Session';
+
+describe('Session', () => {
+  let res: any;
+  let headers: Record<string, any>;
+
+  const request = (cookie?: string): any => ({
+    cookies: cookie ? { session: cookie } : {},
+  });
+
+  const issued = (): string => {
+    const cookies = [].concat(headers['Set-Cookie'] || []);
+    const cookie = cookies.find((cookie) => cookie.startsWith('session='));
+    return cookie && decodeURIComponent(cookie.split(';')[0].split('=')[1]);
+  };
+
+  beforeEach(() => {
+    process.env.APP_KEY = 'test-key';
+    jest.useFakeTimers().setSystemTime(new Date('2025-01-01T00:00:00Z'));
+
+    headers = {};
+    res = Object.create(ServerResponse.prototype);
+    res.setHeader = jest.fn((name, value) => (headers[name] = value));
+    res.getHeader = jest.fn((name) => headers[name]);
+    Object.defineProperty(res, 'headersSent', { value: false });
+
+    options.session.driver = 'store';
+    options.cookies = undefined;
+  });
+
+  afterEach(() => {
+    new Store('sessions').clear();
+    jest.useRealTimers();
+  });
+
+  describe('sign / unsign', () => {
+    it('should sign session IDs with the app key', () => {
+      const value = Session.sign('abc');
+
+      expect(value).toMatch(/^abc\.[\w-]+$/);
+      expect(Session.unsign(value)).toBe('abc');
+    });
+
+    it('should reject tampered or malformed values', () => {
+      const value = Session.sign('abc');
+
+      expect(Session.unsign('abd' + value.slice(3))).toBeUndefined();
+      expect(Session.unsign(value + 'x')).toBeUndefined();
+      expect(Session.unsign('abc')).toBeUndefined();
+      expect(Session.unsign(undefined)).toBeUndefined();
+
+      process.env.APP_KEY = 'rotated-key';
+      expect(Session.unsign(value)).toBeUndefined();
+    });
+
+    it('should accept IDs signed with a previous app key', () => {
+      const value = Session.sign('abc');
+
+      process.env.APP_KEY = 'rotated-key';
+      process.env.APP_PREVIOUS_KEYS = 'test-key';
+
+      expect(Session.unsign(value)).toBe('abc');
+      expect(Session.sign('abc')).not.toBe(value);
+
+      delete process.env.APP_PREVIOUS_KEYS;
+    });
+  });
+
+  describe('start / save', () => {
+    it('should start an empty session without saving it', async () => {
+      const session = await Session.start(request(), res);
+
+      expect(session.id).toMatch(/^[a-f0-9]{64}$/);
+      expect(session.all()).toEqual({});
+
+      await session.save();
+
+      expect(new Store('sessions').get(session.id)).toBeNull();
+      expect(issued()).toBeUndefined();
+    });
+
+    it('should save values and issue a signed cookie', async () => {
+      const session = await Session.start(request(), res);
+      session.set('user', 7);
+      await session.save();
+
+      expect(issued()).toBe(Session.sign(session.id));
+      expect(headers['Set-Cookie'][0]).toContain(`Max-Age=${24 * 60 * 60}`);
+      expect(headers['Set-Cookie'][0]).toContain('HttpOnly');
+      expect(headers['Set-Cookie'][0]).toContain('Secure');
+
+      const next = await Session.start(request(issued()), res);
+
+      expect(next.id).toBe(session.id);
+      expect(next.get('user')).toBe(7);
+    });
+
+    it('should ignore unknown or forged session cookies', async () => {
+      const session = await Session.start(request(Session.sign('ghost')), res);
+      expect(session.id).not.toBe('ghost');
+
+      const forged = await Session.start(request('ghost.signature'), res);
+      expect(forged.id).not.toBe('ghost');
+    });
+
+    it('should use the configured session cookie options', async () => {
+      options.cookies = { session: { path: '/app', httpOnly: true } };
+
+      const session = await Session.start(request(), res);
+      session.set('user', 7);
+      await session.save();
+
+      expect(headers['Set-Cookie'][0]).toBe(
+        `session=${encodeURIComponent(
+          Session.sign(session.id)
+        )}; Path=/app; HttpOnly`
+      );
+    });
+
+    it('should expire idle sessions', async () => {
+      const session = await Session.start(request(), res);
+      session.set('user', 7);
+      await session.save();
+
+      jest.advanceTimersByTime(60 * 60 * 1000 - 1);
+      const active = await Session.start(request(issued()), res);
+      expect(active.get('user')).toBe(7);
+
+      // touched once the response ends
+      await active.save();
+
+      jest.advanceTimersByTime(60 * 60 * 1000 + 1);
+      const expired = await Session.start(request(issued()), res);
+
+      expect(expired.id).not.toBe(session.id);
+      expect(expired.get('user')).toBeNull();
+    });
+
+    it('should expire sessions after the absolute lifetime', async () => {
+      const session = await Session.start(request(), res);
+      session.set('user', 7);
+      await session.save();
+
+      const cookie = issued();
+
+      // keep the session active
+      for (let step = 0; step < 30; step++) {
+        jest.advanceTimersByTime(50 * 60 * 1000);
+        const active = await Session.start(request(cookie), res);
+        if (active.id !== session.id) break;
+        await active.save();
+      }
+
+      const expired = await Session.start(request(cookie), res);
+      expect(expired.id).not.toBe(session.id);
+    });
+
+    it('should not save unchanged sessions touched less than a minute ago', async () => {
+      const session = await Session.start(request(), res);
+      session.set('user', 7);
+      await session.save();
+
+      const adapter = jest.spyOn(StoreAdapter.prototype, 'set');
+      const next = await Session.start(request(issued()), res);
+
+      await next.save();
+      expect(adapter).not.toHaveBeenCalled();
+
+      jest.advanceTimersByTime(60 * 1000);
+      await next.save();
+      expect(adapter).toHaveBeenCalledTimes(1);
+
+      adapter.mockRestore();
+    });
+  });
+
+  describe('values', () => {
+    it('should get, set, check, forget and pull values', async () => {
+      const session = await Session.start(request(), res);
+
+      expect(session.get('missing', 'fallback')).toBe('fallback');
+
+      session.set('a', 1);
+      session.set('b', 2);
+
+      expect(session.has('a')).toBe(true);
+      expect(session.all()).toEqual({ a: 1, b: 2 });
+
+      session.forget('a');
+      expect(session.has('a')).toBe(false);
+
+      expect(session.pull('b')).toBe(2);
+      expect(session.has('b')).toBe(false);
+    });
+
+    it('should throw a SessionError for invalid keys', async () => {
+      const session = await Session.start(request(), res);
+      expect(() => session.set(1 as any, 'value')).toThrow(SessionError);
+    });
+  });
+
+  describe('regenerate', () => {
+    it('should move the session to a new ID and keep its values', async () => {
+      const session = await Session.start(request(), res);
+      session.set('user', 7);
+      await session.save();
+
+      const previous = session.id;
+      const next = await Session.start(request(issued()), res);
+
+      headers = {};
+      await next.regenerate();
+      await next.save();
+
+      expect(next.id).not.toBe(previous);
+      expect(issued()).toBe(Session.sign(next.id));
+      expect(new Store('sessions').get(previous)).toBeNull();
+      expect(next.get('user')).toBe(7);
+    });
+  });
+
+  describe('destroy', () => {
+    it('should delete the session and forget its cookie', async () => {
+      const session = await Session.start(request(), res);
+      session.set('user', 7);
+      await session.save();
+
+      const previous = session.id;
+      const next = await Session.start(request(issued()), res);
+
+      headers = {};
+      await next.destroy();
+
+      expect(new Store('sessions').get(previous)).toBeNull();
+      expect(next.id).not.toBe(previous);
+      expect(next.all()).toEqual({});
+      expect(headers['Set-Cookie'][0]).toMatch(/^session=; Max-Age=0/);
+
+      // nothing to save
+      await next.save();
+      expect(headers['Set-Cookie']).toHaveLength(1);
+    });
+  });
+
+  describe('bind', () => {
+    it('should save the session before the response ends', async () => {
+      const end = jest.fn();
+      res.end = end;
+
+      const session = await Session.start(request(), res);
+      session.bind();
+      session.set('user', 7);
+
+      const save = jest.spyOn(session, 'save');
+      expect(res.end('done')).toBe(res);
+      expect(save).toHaveBeenCalled();
+      expect(end).not.toHaveBeenCalled();
+
+      await Promise.resolve();
+      await Promise.resolve();
+      await Promise.resolve();
+
+      expect(end).toHaveBeenCalledWith('done');
+      expect(res.end).toBe(end);
+      expect(issued()).toBe(Session.sign(session.id));
+    });
+  });
+
+  describe('adapter', () => {
+    it('should resolve the configured driver', () => {
+      expect(Session.adapter()).toBeInstanceOf(StoreAdapter);
+
+      options.session.driver = 'folder';
+      expect(Session.adapter()).toBeInstanceOf(FolderAdapter);
+
+      options.session.driver = 'sql';
+      expect(Session.adapter()).toBeInstanceOf(SQLAdapter);
+
+      const custom: SessionAdapter = {
+        get: jest.fn(),
+        set: jest.fn(),
+        delete: jest.fn(),
+      };
+
+      options.session.driver = custom;
+      expect(Session.adapter()).toBe(custom);
+
+      options.session.driver = { get: 'nope' };
+      expect(() => Session.adapter()).toThrow(SessionError);
+    });
+  });
+});
+
+describe('FolderAdapter', () => {
+  it('should keep sessions in the folder', async () => {
+    const folder: any = Object.create(Folder.prototype);
+    folder.get = jest.fn().mockResolvedValue('record');
+    folder.set = jest.fn().mockResolvedValue(undefined);
+    folder.delete = jest.fn().mockResolvedValue(undefined);
+
+    const adapter = new FolderAdapter(folder);
+    const record = { data: {}, createdAt: 1, touchedAt: 1 };
+
+    await expect(adapter.get('id')).resolves.toBe('record');
+    await adapter.set('id', record, 60);
+    await adapter.delete('id');
+
+    expect(folder.get).toHaveBeenCalledWith('id');
+    expect(folder.set).toHaveBeenCalledWith('id', record, 60);
+    expect(folder.delete).toHaveBeenCalledWith('id');
+  });
+
+  it('should throw if the folder did not keep the session', async () => {
+    const folder: any = Object.create(Folder.prototype);
+    folder.get = jest.fn().mockResolvedValue(null);
+    folder.set = jest.fn().mockResolvedValue(undefined);
+
+    const adapter = new FolderAdapter(folder);
+    const record = { data: {}, createdAt: 1, touchedAt: 1 };
+
+    await expect(adapter.set('id', record, 60)).rejects.toThrow(SessionError);
+  });
+});
+
+describe('SQLAdapter', () => {
+  let builder: any;
+  let query: any;
+
+  beforeEach(() => {
+    jest.useFakeTimers().setSystemTime(new Date('2025-01-01T00:00:00Z'));
+
+    query = {
+      select: jest.fn(() => query),
+      update: jest.fn(() => query),
+      insert: jest.fn(() => query),
+      delete: jest.fn(() => query),
+      from: jest.fn(() => query),
+      table: jest.fn(() => query),
+      into: jest.fn(() => query),
+      where: jest.fn(() => query),
+      set: jest.fn(() => query),
+      row: jest.fn(() => query),
+      first: jest.fn(),
+      exec: jest.fn().mockResolvedValue(undefined),
+    };
+
+    builder = query;
+    jest
+      .spyOn(Builder, 'require')
+      .mockImplementation((callback: any) => callback(builder));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  const record = { data: { user: 7 }, createdAt: 1, touchedAt: 2 };
+
+  it('should read active sessions', async () => {
+    const adapter = new SQLAdapter('sessions', 'main');
+
+    query.first.mockResolvedValueOnce({
+      payload: JSON.stringify(record),
+      expires_at: Date.now() + 1000,
+    });
+
+    await expect(adapter.get('id')).resolves.toEqual(record);
+    expect(query.from).toHaveBeenCalledWith('sessions');
+    expect(Builder.require).toHaveBeenCalledWith(expect.any(Function), 'main');
+  });
+
+  it('should ignore missing, expired or corrupted sessions', async () => {
+    const adapter = new SQLAdapter();
+
+    query.first.mockResolvedValueOnce(undefined);
+    await expect(adapter.get('id')).resolves.toBeNull();
+
+    query.first.mockResolvedValueOnce({
+      payload: JSON.stringify(record),
+      expires_at: Date.now(),
+    });
+    await expect(adapter.get('id')).resolves.toBeNull();
+
+    query.first.mockResolvedValueOnce({
+      payload: '{',
+      expires_at: Date.now() + 1000,
+    });
+    await expect(adapter.get('id')).resolves.toBeNull();
+  });
+
+  it('should insert new sessions and update existing ones', async () => {
+    const adapter = new SQLAdapter();
+    const expires_at = Date.now() + 60 * 1000;
+    const payload = JSON.stringify(record);
+
+    query.first.mockResolvedValueOnce(undefined);
+    await adapter.set('id', record, 60);
+
+    expect(query.into).toHaveBeenCalledWith('sessions');
+    expect(query.row).toHaveBeenCalledWith({ id: 'id', payload, expires_at });
+
+    query.first.mockResolvedValueOnce({ id: 'id' });
+    await adapter.set('id', record, 60);
+
+    expect(query.table).toHaveBeenCalledWith('sessions');
+    expect(query.set).toHaveBeenCalledWith({ payload, expires_at });
+  });
+
+  it('should delete sessions and prune expired ones', async () => {
+    const adapter = new SQLAdapter();
+
+    await adapter.delete('id');
+    await adapter.prune();
+
+    expect(query.delete).toHaveBeenCalledTimes(2);
+    expect(query.exec).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,340 @@
+const options: any = {
+  auth: { table: 'users' },
+};
+
+jest.mock('../../../src/config', () => ({
+  config: () => {
+    return {
+      loadSync: () => options,
+      resolveSync: () => __dirname,
+    };
+  },
+}));
+
+import { Auth, AuthError } from '../../../src/core/modules/Auth';
+import { Builder } from '../../../src/core/modules/Builder';
+import { Cookie } from '../../../src/core/modules/Response';
+import { Table } from '../../../src/core/modules/Table';
+import { TwoFactor, TwoFactorError } from '../../../src/core/modules/TwoFactor';
+
+/**
+ * The RFC 6238 test secrets, base32 encoded.
+ */
+const SHA1 = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+const SHA256 = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZA';
+const SHA512 = `${SHA1}${SHA1}${SHA1}GEZDGNA`;
+
+describe('TwoFactor', () => {
+  let rows: Array<any>;
+  let queries: Array<any>;
+  let locked: boolean;
+
+  beforeEach(() => {
+    process.env.APP_KEY = 'app-key';
+
+    options.twoFactor = {
+      issuer: 'Bnjsx',
+      digits: 6,
+      period: 30,
+      window: 1,
+      algorithm: 'SHA1',
+      recoveryCodes: 8,
+      cookie: 'twoFactor',
+      ttl: 3600,
+      challenge: '/two-factor',
+    };
+
+    rows = [];
+    queries = [];
+    locked = false;
+
+    jest.spyOn(Table, 'request').mockReturnValue({
+      where: (cb: any) => {
+        let id: any;
+        cb(() => ({ equal: (value: any) => (id = value) }));
+
+        return {
+          update: async (values: any) => {
+            queries.push({ query: 'update', id, values, locked });
+            rows
+              .filter((row) => row.id === id)
+              .forEach((row) => {
+                Object.assign(row, values);
+              });
+          },
+          first: async () => {
+            queries.push({ query: 'first', id, locked });
+            return rows.find((row) => row.id === id);
+          },
+        };
+      },
+    } as any);
+
+    jest
+      .spyOn(Builder, 'transaction')
+      .mockImplementation(async (callback: any) => {
+        locked = true;
+
+        try {
+          return await callback({});
+        } finally {
+          locked = false;
+        }
+      });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+    delete process.env.APP_KEY;
+  });
+
+  describe('code', () => {
+    it('should match the RFC 6238 test vectors', () => {
+      options.twoFactor.digits = 8;
+
+      expect(TwoFactor.code(SHA1, 59000)).toBe('94287082');
+      expect(TwoFactor.code(SHA1, 1111111109000)).toBe('07081804');
+      expect(TwoFactor.code(SHA1, 20000000000000)).toBe('65353130');
+
+      options.twoFactor.algorithm = 'SHA256';
+      expect(TwoFactor.code(SHA256, 59000)).toBe('46119246');
+      expect(TwoFactor.code(SHA256, 20000000000000)).toBe('77737706');
+
+      options.twoFactor.algorithm = 'SHA512';
+      expect(TwoFactor.code(SHA512, 59000)).toBe('90693936');
+    });
+
+    it('should use 6 digits by default', () => {
+      expect(TwoFactor.code(SHA1, 59000)).toBe('287082');
+    });
+
+    it('should throw TwoFactorError for invalid secrets', () => {
+      expect(() => TwoFactor.code('not base32!')).toThrow(TwoFactorError);
+      expect(() => TwoFactor.code('')).toThrow('Invalid two-factor secret');
+    });
+  });
+
+  describe('secret / uri', () => {
+    it('should generate base32 secrets of 160 bits', () => {
+      const secret = TwoFactor.secret();
+
+      expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(TwoFactor.secret()).not.toBe(secret);
+      expect(() => TwoFactor.code(secret)).not.toThrow();
+    });
+
+    it('should build otpauth URIs', () => {
+      expect(TwoFactor.uri('jbsw y3dp', 'john@example.com')).toBe(
+        'otpauth://totp/Bnjsx:john%40example.com?secret=JBSWY3DP&issuer=Bnjsx&algorithm=SHA1&digits=6&period=30'
+      );
+
+      expect(TwoFactor.uri(SHA1, 'john', 'My Shop')).toMatch(
+        /^otpauth:\/\/totp\/My%20Shop:john\?.*issuer=My\+Shop/
+      );
+    });
+
+    it('should throw TwoFactorError for invalid arguments', () => {
+      expect(() => TwoFactor.uri('1', 'john')).toThrow(TwoFactorError);
+      expect(() => TwoFactor.uri(SHA1, undefined)).toThrow(
+        'Invalid account name'
+      );
+    });
+  });
+
+  describe('verify', () => {
+    beforeEach(() => {
+      jest.useFakeTimers({ doNotFake: ['setImmediate', 'nextTick'] });
+      jest.setSystemTime(59000);
+    });
+
+    it('should return the time step of valid codes', () => {
+      expect(TwoFactor.verify(SHA1, '287082')).toBe(1);
+      expect(TwoFactor.verify(SHA1, '287 082')).toBe(1);
+      expect(TwoFactor.verify(SHA1, '000000')).toBeNull();
+    });
+
+    it('should accept codes within the drift window', () => {
+      const late = TwoFactor.code(SHA1, 59000 - 30000);
+      const early = TwoFactor.code(SHA1, 59000 + 30000);
+      const later = TwoFactor.code(SHA1, 59000 + 60000);
+
+      expect(TwoFactor.verify(SHA1, late)).toBe(0);
+      expect(TwoFactor.verify(SHA1, early)).toBe(2);
+      expect(TwoFactor.verify(SHA1, later)).toBeNull();
+
+      options.twoFactor.window = 0;
+      expect(TwoFactor.verify(SHA1, early)).toBeNull();
+    });
+
+    it('should refuse codes up to the last time step used', () => {
+      expect(TwoFactor.verify(SHA1, '287082', 0)).toBe(1);
+      expect(TwoFactor.verify(SHA1, '287082', 1)).toBeNull();
+    });
+
+    it('should refuse malformed codes and secrets', () => {
+      expect(TwoFactor.verify(SHA1, '28708')).toBeNull();
+      expect(TwoFactor.verify(SHA1, 'abcdef')).toBeNull();
+      expect(TwoFactor.verify(SHA1, undefined)).toBeNull();
+      expect(TwoFactor.verify('!', '287082')).toBeNull();
+    });
+  });
+
+  describe('recovery codes', () => {
+    it('should generate unique codes', () => {
+      const codes = TwoFactor.recoveryCodes();
+
+      expect(codes).toHaveLength(8);
+      expect(new Set(codes).size).toBe(8);
+      codes.forEach((code) =>
+        expect(code).toMatch(/^[a-f0-9]{5}-[a-f0-9]{5}$/)
+      );
+
+      expect(TwoFactor.recoveryCodes(2)).toHaveLength(2);
+    });
+  });
+
+  describe('enable / attempt / disable', () => {
+    let user: any;
+
+    beforeEach(() => {
+      jest.useFakeTimers({ doNotFake: ['setImmediate', 'nextTick'] });
+      jest.setSystemTime(59000);
+
+      user = { id: 1, two_factor_secret: null };
+      rows.push(user);
+    });
+
+    it('should only enable two-factor authentication with a valid code', async () => {
+      expect(TwoFactor.enabled(user)).toBe(false);
+      await expect(TwoFactor.enable(user, SHA1, '000000')).resolves.toBeNull();
+
+      const codes = await TwoFactor.enable(user, SHA1, '287082');
+
+      expect(codes).toHaveLength(8);
+      expect(TwoFactor.enabled(user)).toBe(true);
+      expect(user).toEqual({
+        id: 1,
+        two_factor_secret: SHA1,
+        two_factor_recovery_codes: JSON.stringify(
+          codes.map((code) => Auth.digest(code))
+        ),
+        two_factor_step: 1,
+      });
+    });
+
+    it('should accept each code once', async () => {
+      await TwoFactor.enable(user, SHA1, '287082');
+
+      // The setup code was used
+      await expect(TwoFactor.attempt(user, '287082')).resolves.toBe(false);
+
+      jest.setSystemTime(89000);
+      const code = TwoFactor.code(SHA1);
+
+      await expect(TwoFactor.attempt(user, code)).resolves.toBe(true);
+      await expect(TwoFactor.attempt(user, code)).resolves.toBe(false);
+      expect(user.two_factor_step).toBe(2);
+    });
+
+    it('should check the codes of the locked row', async () => {
+      const [recovery] = await TwoFactor.enable(user, SHA1, '287082');
+      const stale = { ...user };
+
+      jest.setSystemTime(89000);
+      const code = TwoFactor.code(SHA1);
+      queries = [];
+
+      await expect(TwoFactor.attempt(user, code)).resolves.toBe(true);
+
+      // The row is locked in the transaction before it is read
+      expect(queries.slice(0, 2)).toEqual([
+        { query: 'update', id: 1, values: { id: 1 }, locked: true },
+        { query: 'first', id: 1, locked: true },
+      ]);
+
+      await expect(TwoFactor.attempt(user, recovery)).resolves.toBe(true);
+
+      // Copies read before the attempts cannot use the codes again
+      await expect(TwoFactor.attempt(stale, code)).resolves.toBe(false);
+      await expect(TwoFactor.attempt(stale, recovery)).resolves.toBe(false);
+    });
+
+    it('should accept each recovery code once', async () => {
+      const [code] = await TwoFactor.enable(user, SHA1, '287082');
+
+      await expect(
+        TwoFactor.attempt(user, ` ${code.toUpperCase()} `)
+      ).resolves.toBe(true);
+      await expect(TwoFactor.attempt(user, code)).resolves.toBe(false);
+      expect(JSON.parse(user.two_factor_recovery_codes)).toHaveLength(7);
+    });
+
+    it('should regenerate recovery codes', async () => {
+      const [old] = await TwoFactor.enable(user, SHA1, '287082');
+      const [code] = await TwoFactor.regenerate(user);
+
+      await expect(TwoFactor.attempt(user, old)).resolves.toBe(false);
+      await expect(TwoFactor.attempt(user, code)).resolves.toBe(true);
+    });
+
+    it('should disable two-factor authentication', async () => {
+      await TwoFactor.enable(user, SHA1, '287082');
+      await TwoFactor.disable(user);
+
+      expect(TwoFactor.enabled(user)).toBe(false);
+      expect(rows[0].two_factor_recovery_codes).toBeNull();
+      await expect(TwoFactor.attempt(user, '287082')).resolves.toBe(false);
+    });
+  });
+
+  describe('pass / passed', () => {
+    let res: any;
+    let req: any;
+
+    beforeEach(() => {
+      const cookie = {
+        options: jest.fn(() => ({ path: '/', expires: 'never' })),
+        get: jest.fn((name, value, options) => ({ name, value, options })),
+        add: jest.fn(),
+      };
+
+      res = { cookie: () => cookie };
+      req = { user: { id: 7 }, signedCookies: {} };
+    });
+
+    it('should set a signed cookie expiring with the verification', () => {
+      jest.spyOn(Date, 'now').mockReturnValue(1000);
+
+      TwoFactor.pass(req, res);
+
+      const [{ name, value, options }] = res.cookie().add.mock.calls[0];
+
+      expect(name).toBe('twoFactor');
+      expect(Cookie.unsign('twoFactor', value)).toBe('7|3601000');
+      expect(options).toEqual({ path: '/', maxAge: 3600 });
+    });
+
+    it('should require a logged in user', () => {
+      expect(() => TwoFactor.pass({} as any, res)).toThrow(AuthError);
+    });
+
+    it('should check the cookie belongs to the user and did not expire', () => {
+      const now = Date.now();
+
+      expect(TwoFactor.passed(req)).toBe(false);
+
+      req.signedCookies.twoFactor = `7|${now + 1000}`;
+      expect(TwoFactor.passed(req)).toBe(true);
+
+      req.signedCookies.twoFactor = `8|${now + 1000}`;
+      expect(TwoFactor.passed(req)).toBe(false);
+
+      req.signedCookies.twoFactor = `7|${now - 1}`;
+      expect(TwoFactor.passed(req)).toBe(false);
+
+      req.user = null;
+      expect(TwoFactor.passed(req)).toBe(false);
+    });
+  });
+});
@@ -4,6 +4,7 @@ import { Response } from '../../../src/core/modules/Response';
 import { Validator, ValidatorFR } from '../../../src/core/modules/Validator';
 import { ValidatorGetter } from '../../../src/core/modules/Validator';
 import { ValidatorError } from '../../../src/errors';
+import { csrfBind } from '../../../src/helpers';
 
 describe('Validator', () => {
   let validator: Validator;
@@ -317,6 +318,18 @@ describe('Validator', () => {
       expect(validator.fail()).toBe(false);
     });
 
+    test('accepts CSRF tokens bound to the request', async () => {
+      req.csrfToken = 'secure-token';
+      req.method = 'POST';
+      req.path = '/upload';
+      validator.csrf();
+
+      triggerFormData({ csrfToken: csrfBind('secure-token', '/upload') });
+
+      await validator.validate();
+      expect(validator.fail()).toBe(false);
+    });
+
     test('rejects invalid CSRF token', async () => {
       req.csrfToken = 'secure-token';
       validator.csrf();
@@ -308,6 +308,26 @@ describe('Condition', () => {
     });
   });
 
+  describe('nest', () => {
+    test('should wrap the given condition and keep its values', () => {
+      const where = new Condition(mock.mysql());
+      where.col('status').equal('active').or().col('age').greaterThan(18);
+
+      condition.nest(where).and().col('id').in(1, 2);
+
+      expect(condition.build()).toBe(
+        '(status = ? OR age > ?) AND id IN (?, ?)'
+      );
+      expect(condition.values).toEqual(['active', 18, 1, 2]);
+    });
+
+    test('should throw an error if the condition is invalid', () => {
+      expect(() => condition.nest('age > 18' as any)).toThrow(
+        new QueryError('Invalid condition: age > 18')
+      );
+    });
+  });
+
   describe('not', () => {
     it('should set negate flag to true', () => {
       condition.not();
@@ -1171,6 +1191,69 @@ describe('Condition', () => {
         .build();
       expect(query).toBe('NOT status IN (?, ?, ?)');
     });
+
+    it('should generate the correct IN condition with a subquery', () => {
+      const query = condition
+        .col('id')
+        .in((select) => {
+          select
+            .col('user_id')
+            .from('orders')
+            .where((col) => col('total').greaterThan(100));
+        })
+        .and()
+        .col('role')
+        .not()
+        .in(mock.query().col('role').from('bans'))
+        .build();
+
+      expect(query).toBe(
+        'id IN (SELECT user_id FROM orders WHERE total > ?) AND NOT role IN (SELECT role FROM bans)'
+      );
+      expect(condition.values).toEqual([100]);
+    });
+
+    it('should refuse to run the subquery on its own', () => {
+      condition.col('id').in((select) => {
+        expect(() => select.from('orders').exec()).toThrow(
+          'Subqueries run as part of their outer query'
+        );
+      });
+    });
+  });
+
+  describe('exists', () => {
+    it('should generate the correct EXISTS condition', () => {
+      const query = condition
+        .col('active')
+        .isTrue()
+        .and()
+        .not()
+        .exists((select) => {
+          select
+            .col('1')
+            .from('orders')
+            .where((col) => {
+              col('orders.user_id').equal(ref('users.id')).and();
+              col('orders.status').equal('open');
+            });
+        })
+        .build();
+
+      expect(query).toBe(
+        'active = ? AND NOT EXISTS (SELECT 1 FROM orders WHERE orders.user_id = users.id AND orders.status = ?)'
+      );
+      expect(condition.values).toEqual([true, 'open']);
+    });
+
+    it('should throw an error for invalid subqueries', () => {
+      expect(() => condition.exists('SELECT 1')).toThrow(
+        'Invalid subquery: SELECT 1'
+      );
+      expect(() => condition.exists((select) => select)).toThrow(
+        'Invalid SELECT table: undefined'
+      );
+    });
   });
 
   describe('like', () => {
@@ -1,5 +1,5 @@
 import { QueryError } from '../../../src/errors';
-import { Select } from '../../../src/core';
+import { Delete, Insert, Select, Update } from '../../../src/core';
 
 const mock = {
   connection: () => {
@@ -134,6 +134,69 @@ describe('Query', () => {
     });
   });
 
+  describe('observe', () => {
+    it('should run writes through the observer', async () => {
+      const connection = mock.connection();
+      connection.query = jest.fn(() => Promise.resolve(7));
+
+      const observer = jest.fn((con, write, exec) => exec());
+
+      const insert = new Insert(connection).observe(observer);
+      const result = await insert
+        .into('users')
+        .rows([{ name: 'simon', age: null }])
+        .exec();
+
+      expect(result).toBe(7);
+      expect(observer).toHaveBeenCalledWith(
+        connection,
+        {
+          type: 'insert',
+          table: 'users',
+          rows: [{ name: 'simon', age: null }],
+        },
+        expect.any(Function)
+      );
+
+      const update = new Update(connection).observe(observer);
+      await update
+        .table('users')
+        .set({ name: 'john' })
+        .where((col) => col('id').equal(1))
+        .exec();
+
+      expect(observer.mock.calls[1][1]).toMatchObject({
+        type: 'update',
+        table: 'users',
+        values: { name: 'john' },
+      });
+
+      const del = new Delete(connection).observe(observer);
+      await del
+        .from('users')
+        .where((col) => col('id').equal(1))
+        .exec();
+
+      expect(observer.mock.calls[2][1].type).toBe('delete');
+      expect(observer.mock.calls[2][1].condition.build()).toBe('id = ?');
+      expect(connection.query).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not observe reads', async () => {
+      const observer = jest.fn();
+      const connection = mock.connection();
+
+      await new Select(connection).observe(observer).from('users').exec();
+
+      expect(observer).not.toHaveBeenCalled();
+      expect(connection.query).toHaveBeenCalledTimes(1);
+    });
+
+    it('should throw QueryError for invalid observers', () => {
+      expect(() => select.observe('observer')).toThrow(QueryError);
+    });
+  });
+
   describe('raw', () => {
     it('should execute raw SQL query and resolve', async () => {
       // Create connection
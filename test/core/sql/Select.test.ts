@@ -1,5 +1,6 @@
 import { ASC, Condition, DESC, Seeder, Select } from '../../../src/core';
 import { ref } from '../../../src/core';
+import { SQLite } from '../../../src/core/modules/SQLite';
 
 const mock = {
   connection: () => {
@@ -1070,4 +1071,452 @@ describe('Select', () => {
       expect(pagination.total.pages).toBe(6); // Total pages should be 6 (55 items / 10 per page)
     });
   });
+
+  describe('cursor', () => {
+    let connection: any;
+
+    const query = () => {
+      return new Select(connection)
+        .from('players')
+        .where((col) => col('active').equal(1))
+        .orderBy('score', DESC)
+        .orderBy('id', ASC);
+    };
+
+    beforeAll(async () => {
+      process.env.APP_KEY = 'secret';
+
+      connection = await new SQLite(':memory:').create();
+      connection.id = Symbol('PoolConnection');
+
+      await connection.query(
+        'CREATE TABLE players (id INTEGER PRIMARY KEY, score INTEGER, active INTEGER)'
+      );
+
+      await connection.query(
+        'INSERT INTO players VALUES (1, 50, 1), (2, 70, 1), (3, 50, 1), (4, 90, 0), (5, 30, 1), (6, 70, 1)'
+      );
+    });
+
+    afterAll(() => connection.close());
+
+    it('should walk the pages forward and backward', async () => {
+      const ids = (page: any) => page.result.map((row: any) => row.id);
+
+      const first = await query().cursor(undefined, 2);
+      expect(ids(first)).toEqual([2, 6]);
+      expect(first.cursor.prev).toBeUndefined();
+
+      const second = await query().cursor(first.cursor.next, 2);
+      expect(ids(second)).toEqual([1, 3]);
+
+      const third = await query().cursor(second.cursor.next, 2);
+      expect(ids(third)).toEqual([5]);
+      expect(third.cursor.next).toBeUndefined();
+
+      const back = await query().cursor(third.cursor.prev, 2);
+      expect(ids(back)).toEqual([1, 3]);
+
+      const start = await query().cursor(back.cursor.prev, 2);
+      expect(ids(start)).toEqual([2, 6]);
+      expect(start.cursor).toEqual({
+        next: expect.any(String),
+        prev: undefined,
+        items: 2,
+      });
+    });
+
+    it('should filter by the ORDER BY columns and restore the query', async () => {
+      const first = await query().cursor(undefined, 2);
+      const select = query();
+      const spy = jest.spyOn(connection, 'query');
+
+      await select.cursor(first.cursor.next, 2);
+
+      expect(spy).toHaveBeenCalledWith(
+        'SELECT * FROM players WHERE (active = ?) AND ((score < ?) OR (score = ? AND id > ?)) ' +
+          'ORDER BY score DESC, id ASC LIMIT 3;',
+        [1, 70, 70, 6]
+      );
+
+      expect(select.build()).toBe(
+        'SELECT * FROM players WHERE active = ? ORDER BY score DESC, id ASC;'
+      );
+
+      spy.mockRestore();
+    });
+
+    it('should reject invalid cursors', async () => {
+      const { cursor } = await query().cursor(undefined, 2);
+
+      await expect(query().cursor(`${cursor.next}x`)).rejects.toThrow(
+        'Invalid cursor'
+      );
+
+      await expect(
+        new Select(connection).from('players').orderBy('id').cursor(cursor.next)
+      ).rejects.toThrow('Invalid cursor');
+
+      await expect(
+        new Select(connection).from('players').random().cursor()
+      ).rejects.toThrow('Invalid cursor ORDER BY: RANDOM() undefined');
+    });
+  });
+
+  describe('subquery', () => {
+    it('should add a subquery column', () => {
+      select
+        .from('users')
+        .col('id')
+        .subquery((select) => {
+          select
+            .col('COUNT(*)')
+            .from('orders')
+            .where((col) => {
+              col('orders.user_id').equal(ref('users.id')).and();
+              col('orders.status').equal('paid');
+            });
+        }, 'orders')
+        .where((col) => col('active').equal(1));
+
+      expect(select.build()).toBe(
+        'SELECT id, (SELECT COUNT(*) FROM orders WHERE orders.user_id = users.id AND orders.status = ?) AS orders FROM users WHERE active = ?;'
+      );
+      expect(select.values).toEqual(['paid', 1]);
+    });
+
+    it('should keep all columns selected by default', () => {
+      const sub = new Select(mock.connection()).col('MAX(id)').from('orders');
+      select.from('users').subquery(sub, 'last');
+
+      expect(select.build()).toBe(
+        'SELECT *, (SELECT MAX(id) FROM orders) AS last FROM users;'
+      );
+
+      select.col('id');
+      expect(select.build()).toBe('SELECT id FROM users;');
+    });
+
+    it('should throw for invalid subqueries or aliases', () => {
+      expect(() => select.subquery((s) => s.from('a'), '')).toThrow(
+        'Invalid SELECT alias: '
+      );
+      expect(() => select.subquery('SELECT 1', 'one')).toThrow(
+        'Invalid SELECT subquery: SELECT 1'
+      );
+    });
+  });
+
+  describe('from', () => {
+    it('should select from a subquery', () => {
+      select
+        .from((select) => {
+          select
+            .col('user_id', 'SUM(total) AS spent')
+            .from('orders')
+            .where((col) => col('status').equal('paid'))
+            .groupBy('user_id');
+        }, 'spending')
+        .where((col) => col('spent').greaterThan(100));
+
+      expect(select.build()).toBe(
+        'SELECT * FROM (SELECT user_id, SUM(total) AS spent FROM orders WHERE status = ? GROUP BY user_id) AS spending WHERE spent > ?;'
+      );
+      expect(select.values).toEqual(['paid', 100]);
+
+      select.from('users');
+      expect(select.build()).toBe('SELECT * FROM users WHERE spent > ?;');
+      expect(select.values).toEqual([100]);
+    });
+
+    it('should throw for invalid aliases', () => {
+      expect(() => select.from((s) => s.from('a'))).toThrow(
+        'Invalid SELECT alias: undefined'
+      );
+    });
+  });
+
+  describe('over', () => {
+    it('should add window function columns', () => {
+      select
+        .from('scores')
+        .col('player_id')
+        .rowNumber('position', {
+          partition: ['game_id', 'season'],
+          order: [{ column: 'score', type: DESC }, { column: 'id' }],
+        })
+        .rank('rank', { order: [{ column: 'score', type: DESC }] })
+        .denseRank('dense')
+        .over('SUM(score)', 'total', { partition: ['player_id'] });
+
+      expect(select.build()).toBe(
+        'SELECT player_id, ' +
+          'ROW_NUMBER() OVER (PARTITION BY game_id, season ORDER BY score DESC, id ASC) AS position, ' +
+          'RANK() OVER (ORDER BY score DESC) AS rank, ' +
+          'DENSE_RANK() OVER () AS dense, ' +
+          'SUM(score) OVER (PARTITION BY player_id) AS total FROM scores;'
+      );
+    });
+
+    it('should throw for invalid windows', () => {
+      expect(() => select.over('', 'a')).toThrow('Invalid window function: ');
+      expect(() => select.rank(null)).toThrow('Invalid SELECT alias: null');
+      expect(() => select.rank('a', 'b')).toThrow('Invalid window: b');
+      expect(() => select.rank('a', { partition: [''] })).toThrow(
+        'Invalid PARTITION BY: '
+      );
+      expect(() =>
+        select.rank('a', { order: [{ column: 'id', type: 'DESC' }] })
+      ).toThrow('Invalid window ORDER BY: [object Object]');
+    });
+  });
+
+  describe('cte', () => {
+    it('should add common table expressions', () => {
+      select
+        .cte('paid', (select) => {
+          select.from('orders').where((col) => col('status').equal('paid'));
+        })
+        .cte(
+          'totals',
+          (select) => select.col('user_id', 'SUM(total)').from('paid'),
+          'user_id',
+          'total'
+        )
+        .from('users')
+        .join('totals', (col) => col('totals.user_id').equal(ref('users.id')))
+        .where((col) => col('totals.total').greaterThan(100));
+
+      expect(select.build()).toBe(
+        'WITH paid AS (SELECT * FROM orders WHERE status = ?), ' +
+          'totals(user_id, total) AS (SELECT user_id, SUM(total) FROM paid) ' +
+          'SELECT * FROM users INNER JOIN totals ON totals.user_id = users.id WHERE totals.total > ?;'
+      );
+      expect(select.values).toEqual(['paid', 100]);
+    });
+
+    it('should add recursive common table expressions', () => {
+      select
+        .recursive('tree', (select) => {
+          select
+            .col('id', 'manager_id')
+            .from('users')
+            .where((col) => col('id').equal(1))
+            .unionAll((select) => {
+              select
+                .col('users.id', 'users.manager_id')
+                .from('users')
+                .join('tree', (col) =>
+                  col('users.manager_id').equal(ref('tree.id'))
+                );
+            });
+        })
+        .from('tree');
+
+      expect(select.build()).toBe(
+        'WITH RECURSIVE tree AS (SELECT id, manager_id FROM users WHERE id = ? ' +
+          'UNION ALL SELECT users.id, users.manager_id FROM users INNER JOIN tree ON users.manager_id = tree.id) ' +
+          'SELECT * FROM tree;'
+      );
+      expect(select.values).toEqual([1]);
+    });
+
+    it('should throw for invalid names or columns', () => {
+      expect(() => select.cte('', (s) => s.from('a'))).toThrow(
+        'Invalid WITH name: '
+      );
+      expect(() => select.recursive('a', (s) => s.from('a'), 1)).toThrow(
+        'Invalid WITH column: 1'
+      );
+      expect(() => select.cte('a', null)).toThrow(
+        'Invalid WITH subquery: null'
+      );
+    });
+  });
+
+  describe('aggregates', () => {
+    it('should aggregate the matching rows', async () => {
+      const connection = mock.connection();
+      connection.query.mockResolvedValue([{ result: '12.50' }]);
+
+      const query = new Select(connection)
+        .from('orders')
+        .where((col) => col('status').equal('paid'));
+
+      await expect(query.sum('total')).resolves.toBe(12.5);
+      await expect(query.avg('total')).resolves.toBe(12.5);
+      await expect(query.min('total')).resolves.toBe('12.50');
+      await expect(query.max('total')).resolves.toBe('12.50');
+
+      expect(connection.query).toHaveBeenCalledWith(
+        'SELECT SUM(total) AS result FROM orders WHERE status = ?',
+        ['paid']
+      );
+      expect(connection.query).toHaveBeenLastCalledWith(
+        'SELECT MAX(total) AS result FROM orders WHERE status = ?',
+        ['paid']
+      );
+    });
+
+    it('should ignore the select list, order and limit', async () => {
+      const connection = mock.connection();
+      connection.query.mockResolvedValue([{ result: 3 }]);
+
+      const query = new Select(connection)
+        .from('users')
+        .join('orders', (col) => col('users.id').equal(ref('orders.user_id')))
+        .orderBy('users.id')
+        .limit(10);
+
+      await query.sum('orders.amount');
+
+      expect(connection.query).toHaveBeenLastCalledWith(
+        'SELECT SUM(orders.amount) AS result FROM users INNER JOIN orders ON users.id = orders.user_id',
+        []
+      );
+
+      expect(query.build()).toBe(
+        'SELECT * FROM users INNER JOIN orders ON users.id = orders.user_id ORDER BY users.id ASC LIMIT 10;'
+      );
+    });
+
+    it('should aggregate grouped queries over their result', async () => {
+      const connection = mock.connection();
+      connection.query.mockResolvedValue([{ result: 3 }]);
+
+      await new Select(connection)
+        .col('user_id', 'COUNT(*) AS orders')
+        .from('orders')
+        .groupBy('user_id')
+        .max('orders');
+
+      expect(connection.query).toHaveBeenLastCalledWith(
+        'SELECT MAX(orders) AS result FROM (SELECT user_id, COUNT(*) AS orders FROM orders GROUP BY user_id) AS sub',
+        []
+      );
+    });
+
+    it('should resolve empty aggregates', async () => {
+      const connection = mock.connection();
+      connection.query.mockResolvedValue([{ result: null }]);
+
+      const query = new Select(connection).from('orders');
+
+      await expect(query.sum('total')).resolves.toBe(0);
+      await expect(query.avg('total')).resolves.toBeNull();
+      await expect(query.min('total')).resolves.toBeNull();
+    });
+
+    it('should reject invalid columns', async () => {
+      await expect(select.from('orders').sum('')).rejects.toThrow(
+        'Invalid SUM column: '
+      );
+      await expect(select.avg(null)).rejects.toThrow(
+        'Invalid AVG column: null'
+      );
+    });
+  });
+
+  describe('reporting', () => {
+    let connection: any;
+
+    beforeAll(async () => {
+      connection = await new SQLite(':memory:').create();
+      connection.id = Symbol('PoolConnection');
+
+      await connection.query(
+        'CREATE TABLE scores (id INTEGER PRIMARY KEY, player TEXT, game TEXT, score INTEGER)'
+      );
+
+      await connection.query(
+        "INSERT INTO scores VALUES (1, 'ana', 'chess', 50), (2, 'bob', 'chess', 70), " +
+          "(3, 'cid', 'chess', 70), (4, 'ana', 'go', 90), (5, 'bob', 'go', 30)"
+      );
+    });
+
+    afterAll(() => connection.close());
+
+    it('should rank players per game', async () => {
+      const rows = await new Select(connection)
+        .from((select) => {
+          select
+            .col('player', 'game')
+            .from('scores')
+            .rank('position', {
+              partition: ['game'],
+              order: [{ column: 'score', type: DESC }],
+            });
+        }, 'ranked')
+        .where((col) => col('position').equal(1))
+        .orderBy('game')
+        .orderBy('player')
+        .exec();
+
+      expect(rows).toEqual([
+        { player: 'bob', game: 'chess', position: 1 },
+        { player: 'cid', game: 'chess', position: 1 },
+        { player: 'ana', game: 'go', position: 1 },
+      ]);
+    });
+
+    it('should run recursive common table expressions', async () => {
+      const rows = await new Select(connection)
+        .recursive(
+          'numbers',
+          (select) => {
+            select
+              .col('1')
+              .from('scores')
+              .where((col) => col('id').equal(1))
+              .unionAll((select) => {
+                select
+                  .col('n + 1')
+                  .from('numbers')
+                  .where((col) => col('n').lessThan(3));
+              });
+          },
+          'n'
+        )
+        .from('numbers')
+        .exec();
+
+      expect(rows).toEqual([{ n: 1 }, { n: 2 }, { n: 3 }]);
+    });
+
+    it('should aggregate the query results', async () => {
+      const query = () => {
+        return new Select(connection).from('scores').where((col) =>
+          col('player').in((select) => {
+            select
+              .col('player')
+              .from('scores')
+              .where((col) => col('game').equal('go'));
+          })
+        );
+      };
+
+      expect(await query().sum('score')).toBe(240);
+      expect(await query().avg('score')).toBe(60);
+      expect(await query().min('score')).toBe(30);
+      expect(await query().max('player')).toBe('bob');
+    });
+  });
+
+  describe('stream', () => {
+    it('should stream the query through the connection', () => {
+      const connection = mock.connection();
+      connection.stream = jest.fn();
+
+      new Select(connection)
+        .from('users')
+        .where((col) => col('age').greaterThan(18))
+        .stream(500);
+
+      expect(connection.stream).toHaveBeenCalledWith(
+        'SELECT * FROM users WHERE age > ?;',
+        [18],
+        500
+      );
+    });
+  });
 });
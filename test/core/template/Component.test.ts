@@ -54,6 +54,24 @@ import {
 
 import * as fs from 'fs/promises';
 
+describe('Component.exists', () => {
+  afterEach(() => jest.clearAllMocks());
+
+  it('should check the component file', async () => {
+    const mock = jest.spyOn(fs, 'access').mockResolvedValueOnce(undefined);
+
+    await expect(Component.exists('errors.404')).resolves.toBe(true);
+    expect((mock.mock.calls[0][0] as string).endsWith('404.fx')).toBeTruthy();
+
+    mock.mockRejectedValueOnce(new Error('ENOENT'));
+    await expect(Component.exists('errors.405')).resolves.toBe(false);
+  });
+
+  it('should return false for invalid paths', async () => {
+    await expect(Component.exists(undefined)).resolves.toBe(false);
+  });
+});
+
 describe('render', () => {
   beforeEach(() => {
     // Ignore warn() logs
@@ -56,6 +56,41 @@ describe('Field', () => {
     });
   });
 
+  describe('totp()', () => {
+    test('Passes with codes of the given number of digits', () => {
+      expect(field('code').totp().run({ code: '123456' })).toEqual([]);
+      expect(field('code').totp().run({ code: '123 456' })).toEqual([]);
+      expect(field('code').totp(8).run({ code: '12345678' })).toEqual([]);
+    });
+
+    test('Fails with other values', () => {
+      expect(field('code').totp().run({ code: '12345' })).toEqual([
+        'code must be a 6-digit code.',
+      ]);
+      expect(field('code').totp(8).run({ code: '123456' })).toEqual([
+        'code must be a 8-digit code.',
+      ]);
+      expect(field('code').totp().run({ code: '12345a' })).toHaveLength(1);
+    });
+  });
+
+  describe('recoveryCode()', () => {
+    test('Passes with recovery codes', () => {
+      expect(field('code').recoveryCode().run({ code: '4f1c9-A07BE' })).toEqual(
+        []
+      );
+    });
+
+    test('Fails with other values', () => {
+      expect(field('code').recoveryCode().run({ code: '4f1c9a07be' })).toEqual([
+        'code must be a valid recovery code.',
+      ]);
+      expect(
+        field('code').recoveryCode().run({ code: '4f1c9-a07bz' })
+      ).toHaveLength(1);
+    });
+  });
+
   describe('username()', () => {
     test('Fails if value is too short', () => {
       expect(field('username').username(3, 16).run({ username: 'ab' })).toEqual(
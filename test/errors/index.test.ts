@@ -10,11 +10,14 @@ import {
   MaxConnectionError,
   MaxQueueSizeError,
   MaxQueueTimeError,
+  MethodNotAllowedError,
   NotFoundError,
   QueryError,
   RollbackTransactionError,
   ServerError,
   ShutdownError,
+  TooManyRequestsError,
+  UnauthorizedError,
   ValidatorError,
 } from '../../src';
 
@@ -240,6 +243,51 @@ describe('NotFoundError', () => {
   });
 });
 
+describe('MethodNotAllowedError', () => {
+  test('should create an error with the default message', () => {
+    const error = new MethodNotAllowedError();
+    expect(error.message).toBe('Method not allowed');
+    expect(error).toBeInstanceOf(MethodNotAllowedError);
+    expect(error).toBeInstanceOf(Error);
+  });
+
+  test('should create an error with a custom message', () => {
+    const error = new MethodNotAllowedError('No POST here', 'NO_POST');
+    expect(error.message).toBe('No POST here');
+    expect(error.code).toBe('NO_POST');
+  });
+});
+
+describe('TooManyRequestsError', () => {
+  test('should create an error with the default message', () => {
+    const error = new TooManyRequestsError();
+    expect(error.message).toBe('Too many requests');
+    expect(error).toBeInstanceOf(TooManyRequestsError);
+    expect(error).toBeInstanceOf(Error);
+  });
+
+  test('should create an error with a custom message', () => {
+    const error = new TooManyRequestsError('Slow down', 'SLOW');
+    expect(error.message).toBe('Slow down');
+    expect(error.code).toBe('SLOW');
+  });
+});
+
+describe('UnauthorizedError', () => {
+  test('should create an error with the default message', () => {
+    const error = new UnauthorizedError();
+    expect(error.message).toBe('Unauthorized');
+    expect(error).toBeInstanceOf(UnauthorizedError);
+    expect(error).toBeInstanceOf(Error);
+  });
+
+  test('should create an error with a custom message', () => {
+    const error = new UnauthorizedError('Log in first', 'AUTH');
+    expect(error.message).toBe('Log in first');
+    expect(error.code).toBe('AUTH');
+  });
+});
+
 describe('ForbiddenError', () => {
   test('should create an error with the default message', () => {
     const error = new ForbiddenError();
@@ -387,7 +387,7 @@ describe('Folder', () => {
       const key = 'user:data';
       const data = { id: 123, name: 'Alice' };
 
-      await dir.set(key, data, 3600);
+      await expect(dir.set(key, data, 3600)).resolves.toBe(true);
 
       const file = dir.join(key);
       const contents = await fs.readFile(file, 'utf-8');
@@ -446,10 +446,21 @@ describe('Folder', () => {
 
       await dir.set(key1, 1, 60);
       const cleanSpy = jest.spyOn(dir as any, 'cleanSpace');
-      await dir.set(key2, 2, 60);
+      await expect(dir.set(key2, 2, 60)).resolves.toBe(false);
 
       expect(cleanSpy).toHaveBeenCalled();
     });
+
+    test('returns false if the write fails', async () => {
+      const dir = folder('set-fail');
+      await dir.set('ready', true);
+
+      // Writing to the folder itself fails
+      jest.spyOn(dir, 'join').mockReturnValueOnce(dir.path);
+
+      await expect(dir.set('key', 'value', 60)).resolves.toBe(false);
+      expect(dir['meta'].has('key')).toBe(false);
+    });
   });
 
   describe('delete()', () => {
@@ -0,0 +1,110 @@
+import {
+  inCidr,
+  ipMatcher,
+  IpError,
+  isCidr,
+  isIp,
+  normalizeIp,
+} from '../../src/helpers/Ip';
+
+describe('Ip', () => {
+  describe('normalizeIp', () => {
+    it('should strip brackets, ports and zone indexes', () => {
+      expect(normalizeIp('203.0.113.7')).toBe('203.0.113.7');
+      expect(normalizeIp(' 203.0.113.7:8080 ')).toBe('203.0.113.7');
+      expect(normalizeIp('[2001:db8::1]:4711')).toBe('2001:db8::1');
+      expect(normalizeIp('fe80::1%eth0')).toBe('fe80::1');
+    });
+
+    it('should unwrap IPv4-mapped IPv6 addresses', () => {
+      expect(normalizeIp('::ffff:10.0.0.1')).toBe('10.0.0.1');
+    });
+
+    it('should return an empty string for invalid addresses', () => {
+      expect(normalizeIp('unknown')).toBe('');
+      expect(normalizeIp('_hidden')).toBe('');
+      expect(normalizeIp(undefined)).toBe('');
+    });
+  });
+
+  describe('isIp / isCidr', () => {
+    it('should validate addresses and ranges', () => {
+      expect(isIp('10.0.0.1')).toBe(true);
+      expect(isIp('2001:db8::1')).toBe(true);
+      expect(isIp('10.0.0.256')).toBe(false);
+
+      expect(isCidr('10.0.0.0/8')).toBe(true);
+      expect(isCidr('2001:db8::/32')).toBe(true);
+      expect(isCidr('10.0.0.1')).toBe(true);
+      expect(isCidr('10.0.0.0/33')).toBe(false);
+      expect(isCidr('10.0.0.0/8/1')).toBe(false);
+      expect(isCidr('10.0.0.0/a')).toBe(false);
+      expect(isCidr(1)).toBe(false);
+    });
+  });
+
+  describe('inCidr', () => {
+    it('should match IPv4 ranges', () => {
+      expect(inCidr('10.1.2.3', '10.0.0.0/8')).toBe(true);
+      expect(inCidr('11.1.2.3', '10.0.0.0/8')).toBe(false);
+      expect(inCidr('172.31.255.255', '172.16.0.0/12')).toBe(true);
+      expect(inCidr('172.32.0.0', '172.16.0.0/12')).toBe(false);
+      expect(inCidr('8.8.8.8', '0.0.0.0/0')).toBe(true);
+    });
+
+    it('should match single addresses', () => {
+      expect(inCidr('192.168.1.7', '192.168.1.7')).toBe(true);
+      expect(inCidr('192.168.1.8', '192.168.1.7')).toBe(false);
+    });
+
+    it('should match IPv6 ranges', () => {
+      expect(inCidr('2001:db8:0:1::5', '2001:db8::/32')).toBe(true);
+      expect(inCidr('2001:db9::5', '2001:db8::/32')).toBe(false);
+      expect(inCidr('fd12:3456::1', 'fc00::/7')).toBe(true);
+      expect(inCidr('::1', '::1/128')).toBe(true);
+      expect(inCidr('64:ff9b::c000:201', '64:ff9b::192.0.2.1')).toBe(true);
+    });
+
+    it('should match IPv4-mapped addresses against IPv4 ranges', () => {
+      expect(inCidr('::ffff:10.0.0.1', '10.0.0.0/8')).toBe(true);
+      expect(inCidr('::ffff:a00:1', '10.0.0.0/8')).toBe(true);
+    });
+
+    it('should not mix IPv4 and IPv6', () => {
+      expect(inCidr('10.0.0.1', '::/0')).toBe(false);
+      expect(inCidr('::1', '0.0.0.0/0')).toBe(false);
+    });
+
+    it('should return false for invalid input', () => {
+      expect(inCidr('unknown', '10.0.0.0/8')).toBe(false);
+      expect(inCidr('10.0.0.1', 'unknown')).toBe(false);
+    });
+  });
+
+  describe('ipMatcher', () => {
+    it('should match any of the ranges', () => {
+      const match = ipMatcher(['10.0.0.0/8', '2001:db8::/32']);
+
+      expect(match('10.9.9.9')).toBe(true);
+      expect(match('2001:db8::1')).toBe(true);
+      expect(match('192.168.0.1')).toBe(false);
+    });
+
+    it('should expand named ranges', () => {
+      const match = ipMatcher(['loopback', 'private']);
+
+      expect(match('127.0.0.1')).toBe(true);
+      expect(match('::1')).toBe(true);
+      expect(match('192.168.0.1')).toBe(true);
+      expect(match('fd00::1')).toBe(true);
+      expect(match('203.0.113.7')).toBe(false);
+    });
+
+    it('should throw IpError for invalid ranges', () => {
+      expect(() => ipMatcher(['10.0.0.0/8', 'office'])).toThrow(
+        new IpError("Invalid IP range 'office'")
+      );
+      expect(() => ipMatcher('10.0.0.0/8' as any)).toThrow('Invalid IP ranges');
+    });
+  });
+});
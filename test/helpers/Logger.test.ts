@@ -111,6 +111,65 @@ describe('Logger', () => {
     });
   });
 
+  describe('json()', () => {
+    test('appends one JSON line per entry', async () => {
+      fs.appendFile = jest.fn(() => Promise.resolve());
+
+      await expect(
+        logger.json({ event: 'login' }, { event: 'logout', id: 1 })
+      ).resolves.toBeUndefined();
+
+      expect(fs.appendFile).toHaveBeenCalledWith(
+        mockPath,
+        '{"event":"login"}\n{"event":"logout","id":1}\n'
+      );
+    });
+
+    test('throws LoggerError for entries that cannot be serialized', async () => {
+      const entry: any = {};
+      entry.self = entry;
+
+      await expect(logger.json(entry)).rejects.toThrow(LoggerError);
+      expect(fs.appendFile).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('flush()', () => {
+    test('waits for pending writes of every logger', async () => {
+      const writes: Array<() => void> = [];
+      fs.appendFile = jest.fn(
+        () => new Promise<void>((resolve) => writes.push(resolve))
+      );
+
+      const other = new Logger('/path/to/other.log');
+      const logs = [logger.log('first'), other.log('second')];
+
+      let flushed = false;
+      const flush = Logger.flush().then(() => (flushed = true));
+
+      await Promise.resolve();
+      expect(flushed).toBe(false);
+
+      writes.forEach((resolve) => resolve());
+      await Promise.all([...logs, flush]);
+
+      expect(flushed).toBe(true);
+    });
+
+    test('ignores failed writes', async () => {
+      fs.appendFile = jest.fn(() => Promise.reject(new Error('Disk full')));
+
+      const log = logger.log('message');
+
+      await expect(Logger.flush()).resolves.toBeUndefined();
+      await expect(log).rejects.toThrow(LoggerError);
+    });
+
+    test('resolves when nothing is pending', async () => {
+      await expect(Logger.flush()).resolves.toBeUndefined();
+    });
+  });
+
   describe('clear()', () => {
     test('clears the log file', async () => {
       fs.writeFile = jest.fn(() => Promise.resolve());
@@ -241,4 +300,16 @@ describe('Logger', () => {
       );
     });
   });
+
+  describe('get.json()', () => {
+    test('parses JSON lines, skipping the others', async () => {
+      fs.access = jest.fn(() => Promise.resolve());
+      // @ts-ignore
+      fs.readFile = jest.fn(() =>
+        Promise.resolve('{"id":1}\n\nnot json\n{"id":2}\n')
+      );
+
+      await expect(logger.get.json()).resolves.toEqual([{ id: 1 }, { id: 2 }]);
+    });
+  });
 });
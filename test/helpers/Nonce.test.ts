@@ -0,0 +1,37 @@
+import { nonce, nonceAttr, withNonce } from '../../src/helpers/Nonce';
+
+describe('Nonce', () => {
+  it('should expose the nonce inside the callback only', () => {
+    expect(nonce()).toBeUndefined();
+    expect(withNonce('abc', () => nonce())).toBe('abc');
+    expect(nonce()).toBeUndefined();
+  });
+
+  it('should keep the nonce across async work', async () => {
+    const value = await withNonce('abc', async () => {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      return nonce();
+    });
+
+    expect(value).toBe('abc');
+  });
+
+  it('should keep concurrent nonces apart', async () => {
+    const later = (value: string) =>
+      withNonce(value, async () => {
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        return nonce();
+      });
+
+    expect(await Promise.all([later('a'), later('b')])).toEqual(['a', 'b']);
+  });
+
+  it('should run the callback without a nonce for invalid values', () => {
+    expect(withNonce(undefined, () => nonce())).toBeUndefined();
+  });
+
+  it('should render the nonce attribute', () => {
+    expect(nonceAttr()).toBe('');
+    expect(withNonce('abc', () => nonceAttr())).toBe(' nonce="abc"');
+  });
+});
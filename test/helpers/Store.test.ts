@@ -92,7 +92,7 @@ describe('Store', () => {
   describe('set()', () => {
     test('stores value and increments memory', () => {
       const s = store('set');
-      s.set('foo', { a: 1 });
+      expect(s.set('foo', { a: 1 })).toBe(true);
       expect(s['store'].has('foo')).toBe(true);
       expect(s.length()).toBe(1);
     });
@@ -107,7 +107,7 @@ describe('Store', () => {
     test('triggers cleanSpace when memory exceeds limit', () => {
       const s = store('space-limited', { space: 1 });
       const cleanSpy = jest.spyOn(s as any, 'cleanSpace');
-      s.set('x', { big: 'data' });
+      expect(s.set('x', { big: 'data' })).toBe(false);
       expect(cleanSpy).toHaveBeenCalled();
     });
 
@@ -115,7 +115,7 @@ describe('Store', () => {
       const s = store('size-limited', { size: 1 });
       s.set('a', 1);
       const spy = jest.spyOn(s as any, 'cleanSpace');
-      s.set('b', 2);
+      expect(s.set('b', 2)).toBe(false);
       expect(spy).toHaveBeenCalled();
     });
 
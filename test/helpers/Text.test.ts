@@ -47,6 +47,7 @@ import {
   unmark,
   host,
   botInput,
+  csrfBind,
   csrfInput,
   toInt,
   toMs,
@@ -55,6 +56,7 @@ import {
   mapping,
   mappings,
 } from '../../src/helpers/Text';
+import { withNonce } from '../../src/helpers/Nonce';
 
 describe('Text', () => {
   describe('dictionary', () => {
@@ -1260,6 +1262,17 @@ describe('botInput()', () => {
   test('does not throw or require input', () => {
     expect(() => botInput()).not.toThrow();
   });
+
+  test('does not add the nonce of the response', () => {
+    withNonce('abc', () => {
+      expect(botInput()).toBe(
+        '<input type="text" name="honeyPot" style="display:none" />'
+      );
+      expect(csrfInput('token')).toBe(
+        '<input type="hidden" name="csrfToken" value="token" />'
+      );
+    });
+  });
 });
 
 describe('csrfInput()', () => {
@@ -1288,6 +1301,32 @@ describe('csrfInput()', () => {
     expect(() => csrfInput(null as any)).not.toThrow();
     expect(() => csrfInput(undefined as any)).not.toThrow();
   });
+
+  test('embeds a token bound to the form action and method', () => {
+    const token = csrfBind('abc123', '/posts', 'PUT');
+
+    expect(csrfInput('abc123', '/posts', 'PUT')).toBe(
+      `<input type="hidden" name="csrfToken" value="${token}" />`
+    );
+  });
+});
+
+describe('csrfBind()', () => {
+  test('binds the token to the path and method', () => {
+    const token = csrfBind('abc123', '/posts');
+
+    expect(token).toMatch(/^[\w-]{43}$/);
+    expect(csrfBind('abc123', '/posts', 'post')).toBe(token);
+    expect(csrfBind('abc123', 'https://example.com/posts?a=1')).toBe(token);
+    expect(csrfBind('abc123', '/posts', 'DELETE')).not.toBe(token);
+    expect(csrfBind('abc123', '/users')).not.toBe(token);
+    expect(csrfBind('xyz789', '/posts')).not.toBe(token);
+  });
+
+  test('returns an empty string on unexpected input', () => {
+    expect(csrfBind(undefined as any, '/posts')).toBe('');
+    expect(csrfBind('abc123', null as any)).toBe('');
+  });
 });
 
 describe('toInt()', () => {
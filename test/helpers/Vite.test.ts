@@ -3,6 +3,7 @@ jest.mock('fs');
 
 import * as fs from 'fs';
 import { Vite, ViteError } from '../../src/helpers/Vite';
+import { withNonce } from '../../src/helpers/Nonce';
 import { config } from '../../src/config';
 import { resolve } from 'path';
 
@@ -182,4 +183,17 @@ describe('Vite Class', () => {
       expect(() => Vite.link(null as any)).toThrow(ViteError);
     });
   });
+
+  describe('nonce', () => {
+    it('should add the nonce of the response to the tags', () => {
+      withNonce('abc', () => {
+        expect(Vite.script('/app.js')).toBe(
+          '<script type="module" src="/app.js" nonce="abc"></script>'
+        );
+        expect(Vite.link('/style.css')).toBe(
+          '<link rel="stylesheet" href="/style.css" nonce="abc">'
+        );
+      });
+    });
+  });
 });